@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getMultiSourceTokenPrice,
+  DEFAULT_CONFIG,
+  isValidPlatform,
+  blockchain,
+} from "@dex-ai/api-clients";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const { address } = params;
+    const { searchParams } = new URL(req.url);
+
+    // Get query parameters
+    const platformParam = searchParams.get("platform") || "ethereum";
+    const symbol = searchParams.get("symbol");
+    const size = parseFloat(searchParams.get("size") || "1000");
+    const holdingHours = parseFloat(searchParams.get("holdingHours") || "8");
+
+    // Validate parameters
+    if (!address || !symbol) {
+      return NextResponse.json(
+        { error: "Token address and Symbol is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidPlatform(platformParam)) {
+      return NextResponse.json(
+        { error: `Invalid platform: ${platformParam}` },
+        { status: 400 },
+      );
+    }
+
+    if (!(size > 0) || !(holdingHours >= 0)) {
+      return NextResponse.json(
+        { error: "size must be positive and holdingHours non-negative" },
+        { status: 400 },
+      );
+    }
+
+    const [priceData, funding] = await Promise.all([
+      getMultiSourceTokenPrice(address, symbol, platformParam, {
+        ...DEFAULT_CONFIG,
+        defaultDays: 1,
+      }),
+      blockchain.arbitrage.getCurrentFundingRates(symbol),
+    ]);
+
+    const result = blockchain.arbitrage.calculateNetArbitrage(priceData, {
+      tradeSizeUsd: size,
+      holdingHours,
+      ...funding,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      metadata: {
+        tokenAddress: address,
+        symbol,
+        platform: platformParam,
+        size,
+        holdingHours,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error calculating arbitrage:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to calculate arbitrage",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { blockchain, isValidPlatform } from "@dex-ai/api-clients";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const { address } = params;
+    const { searchParams } = new URL(req.url);
+
+    // Get query parameters
+    const platformParam = searchParams.get("platform") || "binance-smart-chain";
+    const symbol = searchParams.get("symbol");
+
+    // Validate parameters
+    if (!address || !symbol) {
+      return NextResponse.json(
+        { error: "Token address and Symbol is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidPlatform(platformParam)) {
+      return NextResponse.json(
+        { error: `Invalid platform: ${platformParam}` },
+        { status: 400 },
+      );
+    }
+
+    // The spot leg is priced on OKX DEX
+    if (!blockchain.isOkxDexSupportedPlatform(platformParam)) {
+      return NextResponse.json(
+        { error: `Platform not supported by OKX DEX: ${platformParam}` },
+        { status: 400 },
+      );
+    }
+
+    const snapshot = await blockchain.perp.getPerpBasis(
+      { symbol, address, platform: platformParam },
+      { type: "okx_dex", address, platform: platformParam },
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: snapshot,
+      metadata: {
+        tokenAddress: address,
+        platform: platformParam,
+        venues: snapshot.venues.map(({ venue }) => venue),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error calculating perp basis:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to calculate perp basis",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
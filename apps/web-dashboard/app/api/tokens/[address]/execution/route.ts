@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { blockchain } from "@dex-ai/api-clients";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const { address } = params;
+    const { searchParams } = new URL(req.url);
+
+    // Get query parameters
+    const symbol = searchParams.get("symbol");
+    const side = searchParams.get("side") || "buy";
+    const size = parseFloat(searchParams.get("size") || "1000");
+    const chainId = parseInt(searchParams.get("chainId") || "56");
+    const pools = (searchParams.get("pools") || "")
+      .split(",")
+      .map((pool) => pool.trim())
+      .filter(Boolean);
+
+    // Validate parameters
+    if (!address || !symbol) {
+      return NextResponse.json(
+        { error: "Token address and Symbol is required" },
+        { status: 400 },
+      );
+    }
+
+    if (side !== "buy" && side !== "sell") {
+      return NextResponse.json(
+        { error: `Invalid side: ${side}` },
+        { status: 400 },
+      );
+    }
+
+    if (!(size > 0)) {
+      return NextResponse.json(
+        { error: "size must be a positive number" },
+        { status: 400 },
+      );
+    }
+
+    if (Number.isNaN(chainId)) {
+      return NextResponse.json(
+        { error: `Invalid chainId: ${searchParams.get("chainId")}` },
+        { status: 400 },
+      );
+    }
+
+    const invalidPool = pools.find((pool) => !/^0x[a-fA-F0-9]{40}$/.test(pool));
+    if (invalidPool) {
+      return NextResponse.json(
+        { error: `Invalid pool address: ${invalidPool}` },
+        { status: 400 },
+      );
+    }
+
+    const estimates = await blockchain.arbitrage.estimateExecutionAcrossVenues(
+      symbol,
+      side,
+      size,
+      [
+        ...blockchain.perp.PERP_VENUES,
+        ...pools.map((pool) => ({
+          type: "v3_pool" as const,
+          poolAddress: pool as `0x${string}`,
+          config: { chainId },
+        })),
+      ],
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: estimates,
+      metadata: {
+        tokenAddress: address,
+        symbol,
+        side,
+        size,
+        pools,
+        chainId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error estimating execution:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to estimate execution",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { blockchain } from "@dex-ai/api-clients";
+
+const MAX_SIZES = 8;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const { address } = params;
+    const { searchParams } = new URL(req.url);
+
+    // Get query parameters
+    const symbol = searchParams.get("symbol");
+    const decimals = parseInt(searchParams.get("decimals") || "18");
+    const sizesParam = searchParams.get("sizes");
+    const sizesUsd = sizesParam
+      ? sizesParam.split(",").map((size) => Number(size.trim()))
+      : blockchain.arbitrage.DEFAULT_LADDER_SIZES_USD;
+
+    // Validate parameters
+    if (!address || !symbol) {
+      return NextResponse.json(
+        { error: "Token address and Symbol is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: `Invalid token address: ${address}` },
+        { status: 400 },
+      );
+    }
+
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+      return NextResponse.json(
+        { error: `Invalid decimals: ${searchParams.get("decimals")}` },
+        { status: 400 },
+      );
+    }
+
+    if (!sizesUsd.length || sizesUsd.some((size) => !(size > 0))) {
+      return NextResponse.json(
+        { error: `Invalid sizes: ${sizesParam}` },
+        { status: 400 },
+      );
+    }
+
+    if (sizesUsd.length > MAX_SIZES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SIZES} ladder sizes are supported` },
+        { status: 400 },
+      );
+    }
+
+    const ladder = await blockchain.arbitrage.getQuoteLadder({
+      token: { address, symbol, decimals },
+      quoteToken: blockchain.arbitrage.BSC_USDT_QUOTE_TOKEN,
+      sizesUsd,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: ladder,
+      metadata: {
+        tokenAddress: address,
+        symbol,
+        sizesUsd: ladder.sizesUsd,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error building quote ladder:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to build quote ladder",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   getMultiSourceTokenPrice,
-  getCurrentTokenPrice,
-  getHistoricalTokenPrices,
+  extractCurrentPrices,
+  extractHistoricalPrices,
+  getPriceSourceStatuses,
+  getConsensusPrice,
+  parseResampleInterval,
+  getDefaultResampleInterval,
+  alignPriceHistories,
+  ResampleIntervalError,
+  calculateSpreadSeries,
   DEFAULT_CONFIG,
   isValidPlatform,
 } from "@dex-ai/api-clients";
 
+const FILL_POLICIES = ["ffill", "none", "interpolate"] as const;
+
 export async function GET(
   req: NextRequest,
   { params }: { params: { address: string } },
@@ -20,7 +29,11 @@ export async function GET(
     const symbol = searchParams.get("symbol");
     const days = searchParams.get("days") || "1";
     const currency = searchParams.get("currency") || "usd";
-    const type = searchParams.get("type") || "full"; // full, current, historical
+    const type = searchParams.get("type") || "full"; // full, current, historical, consensus
+    const align = searchParams.get("align") === "true";
+    const intervalParam = searchParams.get("interval");
+    const fill = searchParams.get("fill") || "ffill";
+    const spreadParam = searchParams.get("spread"); // e.g. "binance,okx"
 
     // Validate parameters
     if (!address || !symbol) {
@@ -41,45 +54,117 @@ export async function GET(
     const platform = platformParam;
 
     const parsedDays = parseInt(days);
+    if (!(parsedDays > 0)) {
+      return NextResponse.json(
+        { error: `Invalid days: ${days}` },
+        { status: 400 },
+      );
+    }
+
+    // Validate resampling parameters before fetching
+    let intervalMs = 0;
+    let spreadSources: string[] | null = null;
+    if (align) {
+      try {
+        intervalMs = parseResampleInterval(
+          intervalParam || getDefaultResampleInterval(parsedDays),
+        );
+      } catch (error) {
+        if (!(error instanceof ResampleIntervalError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      if (!FILL_POLICIES.includes(fill as (typeof FILL_POLICIES)[number])) {
+        return NextResponse.json(
+          {
+            error: `Invalid fill: ${fill}, expected ${FILL_POLICIES.join(", ")}`,
+          },
+          { status: 400 },
+        );
+      }
+
+      if (spreadParam) {
+        spreadSources = spreadParam.split(",").map((source) => source.trim());
+        if (spreadSources.length !== 2) {
+          return NextResponse.json(
+            { error: "spread expects two sources, e.g. spread=binance,okx" },
+            { status: 400 },
+          );
+        }
+      }
+    }
     const config = {
       ...DEFAULT_CONFIG,
       defaultDays: parsedDays,
       defaultCurrency: currency,
     };
 
+    // Fetch once so every type can report per-source status
+    const priceData = await getMultiSourceTokenPrice(
+      address,
+      symbol,
+      platform,
+      config,
+    );
+
+    const consensus = getConsensusPrice(priceData, {}, config);
+
     let result;
     switch (type) {
+      case "consensus":
+        result = consensus;
+        break;
       case "current":
-        result = await getCurrentTokenPrice(address, symbol, platform, config);
+        result = extractCurrentPrices(priceData);
         break;
       case "historical":
-        result = await getHistoricalTokenPrices(
-          address,
-          symbol,
-          platform,
-          config,
-        );
+        result = extractHistoricalPrices(priceData);
         break;
       case "full":
       default:
-        result = await getMultiSourceTokenPrice(
-          address,
-          symbol,
-          platform,
-          config,
-        );
+        result = priceData;
         break;
     }
 
+    // Align every source to one grid so lines and spreads share timestamps
+    let aligned;
+    let spread;
+    if (align) {
+      try {
+        aligned = alignPriceHistories(extractHistoricalPrices(priceData), {
+          intervalMs,
+          fill: fill as (typeof FILL_POLICIES)[number],
+        });
+      } catch (error) {
+        if (!(error instanceof ResampleIntervalError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (spreadSources) {
+        spread = calculateSpreadSeries(
+          aligned,
+          spreadSources[0],
+          spreadSources[1],
+        );
+      }
+    }
+
     return NextResponse.json({
       success: true,
       data: result,
+      ...(aligned && { aligned }),
+      ...(spread && { spread }),
       metadata: {
         tokenAddress: address,
         platform,
         days: parsedDays,
         currency: config.defaultCurrency,
         type,
+        sourceStatus: getPriceSourceStatuses(priceData),
+        consensus: {
+          price: consensus.price,
+          confidence: consensus.confidence,
+          rejectedSources: consensus.rejectedSources,
+        },
         timestamp: new Date().toISOString(),
       },
     });
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { blockchain } from "@dex-ai/api-clients";
+
+// Trades are quoted from USDT on BSC, where both routers operate
+const BSC_USDT = blockchain.arbitrage.BSC_USDT_QUOTE_TOKEN;
+
+const MAX_SIZES = 6;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const { address } = params;
+    const { searchParams } = new URL(req.url);
+
+    // Get query parameters
+    const symbol = searchParams.get("symbol");
+    const decimals = parseInt(searchParams.get("decimals") || "18");
+    const slippage = parseFloat(searchParams.get("slippage") || "0.5");
+    const sizes = (searchParams.get("sizes") || "100,1000,10000")
+      .split(",")
+      .map((size) => size.trim())
+      .filter(Boolean);
+
+    // Validate parameters
+    if (!address || !symbol) {
+      return NextResponse.json(
+        { error: "Token address and Symbol is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: `Invalid token address: ${address}` },
+        { status: 400 },
+      );
+    }
+
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+      return NextResponse.json(
+        { error: `Invalid decimals: ${searchParams.get("decimals")}` },
+        { status: 400 },
+      );
+    }
+
+    if (!(slippage > 0 && slippage < 50)) {
+      return NextResponse.json(
+        { error: "slippage must be a percentage between 0 and 50" },
+        { status: 400 },
+      );
+    }
+
+    const invalidSize = sizes.find((size) => !(Number(size) > 0));
+    if (invalidSize !== undefined || sizes.length === 0) {
+      return NextResponse.json(
+        { error: `Invalid size: ${invalidSize ?? "none given"}` },
+        { status: 400 },
+      );
+    }
+
+    if (sizes.length > MAX_SIZES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SIZES} sizes can be compared at once` },
+        { status: 400 },
+      );
+    }
+
+    const comparisons = await blockchain.arbitrage.compareRouterQuotesBySize(
+      {
+        fromToken: BSC_USDT,
+        toToken: { address, symbol, decimals },
+        slippagePercent: slippage,
+      },
+      sizes,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: comparisons,
+      metadata: {
+        tokenAddress: address,
+        symbol,
+        quoteToken: BSC_USDT.symbol,
+        sizes,
+        slippage,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error comparing router quotes:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to compare router quotes",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
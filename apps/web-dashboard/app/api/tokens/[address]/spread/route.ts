@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getHistoricalTokenPrices,
+  parseResampleInterval,
+  getDefaultResampleInterval,
+  alignPriceHistories,
+  ResampleIntervalError,
+  calculateSpreadStats,
+  calculatePairwiseSpreadStats,
+  DEFAULT_CONFIG,
+  isValidPlatform,
+} from "@dex-ai/api-clients";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const { address } = params;
+    const { searchParams } = new URL(req.url);
+
+    // Get query parameters
+    const platformParam = searchParams.get("platform") || "ethereum";
+    const symbol = searchParams.get("symbol");
+    const days = parseInt(searchParams.get("days") || "1");
+    const intervalParam = searchParams.get("interval");
+    const threshold = parseFloat(searchParams.get("threshold") || "1");
+    const sourcesParam = searchParams.get("sources"); // e.g. "binance,okx"
+
+    // Validate parameters
+    if (!address || !symbol) {
+      return NextResponse.json(
+        { error: "Token address and Symbol is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidPlatform(platformParam)) {
+      return NextResponse.json(
+        { error: `Invalid platform: ${platformParam}` },
+        { status: 400 },
+      );
+    }
+
+    if (!(days > 0)) {
+      return NextResponse.json(
+        { error: `Invalid days: ${searchParams.get("days")}` },
+        { status: 400 },
+      );
+    }
+
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      return NextResponse.json(
+        { error: `Invalid threshold: ${searchParams.get("threshold")}` },
+        { status: 400 },
+      );
+    }
+
+    let intervalMs: number;
+    try {
+      intervalMs = parseResampleInterval(
+        intervalParam || getDefaultResampleInterval(days),
+      );
+    } catch (error) {
+      if (!(error instanceof ResampleIntervalError)) throw error;
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    let pair: string[] | null = null;
+    if (sourcesParam) {
+      pair = sourcesParam.split(",").map((source) => source.trim());
+      if (pair.length !== 2) {
+        return NextResponse.json(
+          { error: "sources expects two sources, e.g. sources=binance,okx" },
+          { status: 400 },
+        );
+      }
+    }
+
+    const histories = await getHistoricalTokenPrices(
+      address,
+      symbol,
+      platformParam,
+      { ...DEFAULT_CONFIG, defaultDays: days },
+    );
+
+    let aligned;
+    try {
+      aligned = alignPriceHistories(histories, { intervalMs });
+    } catch (error) {
+      if (!(error instanceof ResampleIntervalError)) throw error;
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const options = { thresholdPercent: threshold };
+    // One pair when requested, otherwise every pair with overlapping history
+    const stats = pair
+      ? [calculateSpreadStats(aligned, pair[0], pair[1], options)]
+      : calculatePairwiseSpreadStats(aligned, options);
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      metadata: {
+        tokenAddress: address,
+        platform: platformParam,
+        days,
+        intervalMs,
+        thresholdPercent: threshold,
+        sources: Object.keys(histories),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error calculating spread stats:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to calculate spread stats",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { blockchain } from "@dex-ai/api-clients";
+
+const DEFAULT_PERCENTS = [1, 2, 5];
+
+// Helper function to convert BigInt values to strings for JSON serialization
+function serializeBigInts(obj: unknown): unknown {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+
+  if (typeof obj === "bigint") {
+    return obj.toString();
+  }
+
+  if (Array.isArray(obj)) {
+    return obj.map(serializeBigInts);
+  }
+
+  if (typeof obj === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      result[key] = serializeBigInts(value);
+    }
+    return result;
+  }
+
+  return obj;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } },
+) {
+  try {
+    const poolAddress = params.address as `0x${string}`;
+    const { searchParams } = new URL(request.url);
+    const chainIdParam = searchParams.get("chainId");
+    const version = searchParams.get("version") || "v3";
+    const percentsParam = searchParams.get("percents");
+    const dexKeyParam = searchParams.get("dexKey");
+
+    // Validate pool address format, V4 pools use their 32-byte PoolId
+    if (
+      !poolAddress.startsWith("0x") ||
+      poolAddress.length !== (version === "v4" ? 66 : 42)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid pool address format" },
+        { status: 400 },
+      );
+    }
+
+    if (version !== "v2" && version !== "v3" && version !== "v4") {
+      return NextResponse.json(
+        { error: `Invalid version: ${version}, expected v2, v3 or v4` },
+        { status: 400 },
+      );
+    }
+
+    const chainId = chainIdParam ? parseInt(chainIdParam) : undefined;
+    if (chainId !== undefined && Number.isNaN(chainId)) {
+      return NextResponse.json(
+        { error: `Invalid chainId: ${chainIdParam}` },
+        { status: 400 },
+      );
+    }
+
+    const percents = percentsParam
+      ? percentsParam.split(",").map((percent) => parseFloat(percent))
+      : DEFAULT_PERCENTS;
+    if (percents.some((percent) => !(percent > 0 && percent < 100))) {
+      return NextResponse.json(
+        { error: `Invalid percents: ${percentsParam}` },
+        { status: 400 },
+      );
+    }
+
+    const { pools } = blockchain.onchain;
+
+    // Several V4 deployments share a chain, the pool's platform picks one
+    const v4DexKey = pools
+      .getAvailableV4DexConfigs()
+      .find((key) => key === dexKeyParam);
+    if (dexKeyParam && !(version === "v4" && v4DexKey)) {
+      return NextResponse.json(
+        {
+          error: `Invalid dexKey: ${dexKeyParam}`,
+          availableDexKeys: pools.getAvailableV4DexConfigs(),
+        },
+        { status: 400 },
+      );
+    }
+
+    let config;
+    try {
+      config =
+        version === "v2"
+          ? pools.resolveV2DexConfig({ chainId })
+          : version === "v4"
+            ? pools.resolveV4DexConfig({ chainId, dexKey: v4DexKey })
+            : pools.resolveDexConfig({ chainId });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid config" },
+        { status: 400 },
+      );
+    }
+
+    // V2 pairs, V3 and V4 pools come back in the same shapes
+    const [poolBaseInfo, depth] =
+      "feeBps" in config
+        ? await Promise.all([
+            pools.getV2PoolBaseInfoWithTokenInfo(poolAddress, config),
+            pools.getV2PoolDepth(poolAddress, percents, config),
+          ])
+        : "protocol" in config
+          ? await Promise.all([
+              pools.getV4PoolBaseInfoWithTokenInfo(poolAddress, config),
+              pools.getV4PoolDepth(poolAddress, percents, 10, config),
+            ])
+          : await Promise.all([
+              pools.getPoolBaseInfoWithTokenInfo(poolAddress, config),
+              pools.getPoolDepth(poolAddress, percents, 10, config),
+            ]);
+
+    // Up moves are paid in token1, down moves in token0
+    const { token0, token1 } = poolBaseInfo;
+    const toUSD = (amount: bigint, token: typeof token0) =>
+      (Number(amount) / Math.pow(10, token.decimals)) * token.priceUSD;
+
+    return NextResponse.json({
+      chainId: config.chainId,
+      dexName: config.dexName,
+      version,
+      poolBaseInfo: serializeBigInts(poolBaseInfo),
+      depth: depth.map((level) => ({
+        percent: level.percent,
+        upUSD: toUSD(level.up.amountIn, token1),
+        downUSD: toUSD(level.down.amountIn, token0),
+        upComplete: level.up.complete,
+        downComplete: level.down.complete,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching pool depth:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch pool depth",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
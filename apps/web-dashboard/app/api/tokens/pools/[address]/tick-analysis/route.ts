@@ -32,23 +32,80 @@ export async function GET(
 ) {
   try {
     const poolAddress = params.address as `0x${string}`;
+    const { searchParams } = new URL(request.url);
+    const chainIdParam = searchParams.get("chainId");
+    const dexKeyParam = searchParams.get("dexKey");
+
+    // V4 / Infinity pools are addressed by their 32-byte PoolId
+    const isV4PoolId = poolAddress.length === 66;
 
     // Validate pool address format
-    if (!poolAddress.startsWith("0x") || poolAddress.length !== 42) {
+    if (
+      !poolAddress.startsWith("0x") ||
+      (poolAddress.length !== 42 && !isV4PoolId)
+    ) {
       return NextResponse.json(
         { error: "Invalid pool address format" },
         { status: 400 },
       );
     }
 
+    const chainId = chainIdParam ? parseInt(chainIdParam) : undefined;
+    if (chainId !== undefined && Number.isNaN(chainId)) {
+      return NextResponse.json(
+        { error: `Invalid chainId: ${chainIdParam}` },
+        { status: 400 },
+      );
+    }
+
+    const { pools } = blockchain.onchain;
+    const dexKey = pools
+      .getAvailableDexConfigs()
+      .find((key) => key === dexKeyParam);
+    const v4DexKey = pools
+      .getAvailableV4DexConfigs()
+      .find((key) => key === dexKeyParam);
+    if (dexKeyParam && !(isV4PoolId ? v4DexKey : dexKey)) {
+      return NextResponse.json(
+        {
+          error: `Invalid dexKey: ${dexKeyParam}`,
+          availableDexKeys: isV4PoolId
+            ? pools.getAvailableV4DexConfigs()
+            : pools.getAvailableDexConfigs(),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Select the chain/DEX, defaults to PancakeSwap V3 (or Infinity) on BSC
+    let config;
+    try {
+      config = isV4PoolId
+        ? pools.resolveV4DexConfig({ chainId, dexKey: v4DexKey })
+        : pools.resolveDexConfig({ chainId, dexKey });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid config" },
+        { status: 400 },
+      );
+    }
+
     // Get both pool base info and liquidity distribution data
-    const [poolBaseInfo, liquidityDistribution] = await Promise.all([
-      blockchain.onchain.pools.getPoolBaseInfoWithTokenInfo(poolAddress),
-      getTickLiquidityDistribution(poolAddress, 10), // Get 10 ticks around current tick
-    ]);
+    const [poolBaseInfo, liquidityDistribution] =
+      "protocol" in config
+        ? await Promise.all([
+            pools.getV4PoolBaseInfoWithTokenInfo(poolAddress, config),
+            pools.getV4TickLiquidityDistribution(poolAddress, 10, config),
+          ])
+        : await Promise.all([
+            pools.getPoolBaseInfoWithTokenInfo(poolAddress, config),
+            getTickLiquidityDistribution(poolAddress, 10, config), // Get 10 ticks around current tick
+          ]);
 
     // Serialize BigInt values before returning
     const serializedData = {
+      chainId: config.chainId,
+      dexName: config.dexName,
       poolBaseInfo: serializeBigInts(poolBaseInfo),
       liquidityDistribution: serializeBigInts(liquidityDistribution),
     };
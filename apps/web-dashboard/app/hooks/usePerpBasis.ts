@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { PerpBasisSnapshot } from "@dex-ai/api-clients/types";
+import { getApiKey, hasValidApiKey } from "../../lib/security/apiKeyStorage";
+
+interface UsePerpBasisOptions {
+  platform?: string;
+  autoRefresh?: boolean;
+  refreshInterval?: number; // milliseconds
+  historySize?: number; // Snapshots kept for the session chart
+}
+
+interface UsePerpBasisReturn {
+  data: PerpBasisSnapshot | null;
+  history: PerpBasisSnapshot[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function usePerpBasis(
+  tokenAddress: string | null,
+  tokenSymbol: string | null,
+  options: UsePerpBasisOptions = {},
+): UsePerpBasisReturn {
+  const {
+    platform = "binance-smart-chain",
+    autoRefresh = false,
+    refreshInterval = 30000, // 30 seconds
+    historySize = 120,
+  } = options;
+
+  const [data, setData] = useState<PerpBasisSnapshot | null>(null);
+  const [history, setHistory] = useState<PerpBasisSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start a fresh history whenever the token changes
+  useEffect(() => {
+    setHistory([]);
+  }, [tokenAddress, platform]);
+
+  const fetchData = useCallback(async () => {
+    if (!tokenAddress || !tokenSymbol) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!hasValidApiKey()) {
+        throw new Error(
+          "Valid API key not found. Please configure your API key.",
+        );
+      }
+
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error("API key retrieval failed");
+      }
+      const params = new URLSearchParams({ symbol: tokenSymbol, platform });
+
+      const response = await fetch(
+        `/api/tokens/${tokenAddress}/basis?${params}`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": apiKey,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+
+      if (result.success) {
+        const snapshot: PerpBasisSnapshot = result.data;
+        setData(snapshot);
+        setHistory((previous) => [...previous, snapshot].slice(-historySize));
+      } else {
+        throw new Error(result.error || "Failed to fetch perp basis");
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+      console.error("Error fetching perp basis:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenAddress, tokenSymbol, platform, historySize]);
+
+  // Initial load
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Auto refresh
+  useEffect(() => {
+    if (!autoRefresh || !tokenAddress) return;
+
+    const interval = setInterval(fetchData, refreshInterval);
+    return () => clearInterval(interval);
+  }, [autoRefresh, tokenAddress, refreshInterval, fetchData]);
+
+  return { data, history, isLoading, error, refetch: fetchData };
+}
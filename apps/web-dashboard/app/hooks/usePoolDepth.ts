@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export type PoolVersion = "v2" | "v3" | "v4";
+
+export interface PoolDepthLevel {
+  percent: number;
+  upUSD: number; // Paid in token1 to push the token0 price up
+  downUSD: number; // Paid in token0 to push the token0 price down
+  upComplete: boolean; // False when known liquidity ran out first
+  downComplete: boolean;
+}
+
+export interface PoolDepthData {
+  chainId: number;
+  dexName: string;
+  version: PoolVersion;
+  poolBaseInfo: {
+    token0: { symbol: string };
+    token1: { symbol: string };
+    token0TotalUSD: number;
+    token1TotalUSD: number;
+    totalUSD: number;
+  };
+  depth: PoolDepthLevel[];
+}
+
+interface UsePoolDepthReturn {
+  data: PoolDepthData | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function usePoolDepth(
+  poolAddress: string | null,
+  version: PoolVersion,
+  chainId: number = 56,
+  dexKey?: string, // V4 deployment, e.g. "uniswap-v4-bsc"
+): UsePoolDepthReturn {
+  const [data, setData] = useState<PoolDepthData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!poolAddress) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        chainId: chainId.toString(),
+        version,
+      });
+      if (dexKey) params.set("dexKey", dexKey);
+      const response = await fetch(
+        `/api/tokens/pools/${poolAddress}/depth?${params}`,
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          result.details || result.error || `HTTP error! ${response.status}`,
+        );
+      }
+
+      setData(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+      console.error("Error fetching pool depth:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolAddress, version, chainId, dexKey]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error, refetch: fetchData };
+}
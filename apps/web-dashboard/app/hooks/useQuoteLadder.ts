@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { QuoteLadder } from "@dex-ai/api-clients/types";
+import { getApiKey, hasValidApiKey } from "../../lib/security/apiKeyStorage";
+
+interface UseQuoteLadderOptions {
+  tokenDecimals?: number;
+  sizesUsd?: number[];
+  autoRefresh?: boolean;
+  refreshInterval?: number; // milliseconds
+}
+
+interface UseQuoteLadderReturn {
+  data: QuoteLadder | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function useQuoteLadder(
+  tokenAddress: string | null,
+  tokenSymbol: string | null,
+  options: UseQuoteLadderOptions = {},
+): UseQuoteLadderReturn {
+  const {
+    tokenDecimals = 18,
+    sizesUsd = [1000, 5000, 10000, 50000, 100000],
+    autoRefresh = false,
+    refreshInterval = 5 * 60000, // 5 minutes
+  } = options;
+
+  const [data, setData] = useState<QuoteLadder | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sizesParam = sizesUsd.join(",");
+
+  const fetchData = useCallback(async () => {
+    if (!tokenAddress || !tokenSymbol) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!hasValidApiKey()) {
+        throw new Error(
+          "Valid API key not found. Please configure your API key.",
+        );
+      }
+
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error("API key retrieval failed");
+      }
+      const params = new URLSearchParams({
+        symbol: tokenSymbol,
+        decimals: tokenDecimals.toString(),
+        sizes: sizesParam,
+      });
+
+      const response = await fetch(
+        `/api/tokens/${tokenAddress}/ladder?${params}`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": apiKey,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      } else {
+        throw new Error(result.error || "Failed to fetch quote ladder");
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+      console.error("Error fetching quote ladder:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenAddress, tokenSymbol, tokenDecimals, sizesParam]);
+
+  // Initial load
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Auto refresh
+  useEffect(() => {
+    if (!autoRefresh || !tokenAddress) return;
+
+    const interval = setInterval(fetchData, refreshInterval);
+    return () => clearInterval(interval);
+  }, [autoRefresh, tokenAddress, refreshInterval, fetchData]);
+
+  return { data, isLoading, error, refetch: fetchData };
+}
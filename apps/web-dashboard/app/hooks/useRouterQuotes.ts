@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { RouterQuoteComparison } from "@dex-ai/api-clients/types";
+import { getApiKey, hasValidApiKey } from "../../lib/security/apiKeyStorage";
+
+interface UseRouterQuotesOptions {
+  tokenDecimals?: number;
+  sizesUsd?: number[];
+  autoRefresh?: boolean;
+  refreshInterval?: number; // milliseconds
+}
+
+interface UseRouterQuotesReturn {
+  data: RouterQuoteComparison[] | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function useRouterQuotes(
+  tokenAddress: string | null,
+  tokenSymbol: string | null,
+  options: UseRouterQuotesOptions = {},
+): UseRouterQuotesReturn {
+  const {
+    tokenDecimals = 18,
+    sizesUsd = [100, 1000, 10000],
+    autoRefresh = false,
+    refreshInterval = 60000, // 1 minute
+  } = options;
+
+  const [data, setData] = useState<RouterQuoteComparison[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sizesParam = sizesUsd.join(",");
+
+  const fetchData = useCallback(async () => {
+    if (!tokenAddress || !tokenSymbol) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!hasValidApiKey()) {
+        throw new Error(
+          "Valid API key not found. Please configure your API key.",
+        );
+      }
+
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error("API key retrieval failed");
+      }
+      const params = new URLSearchParams({
+        symbol: tokenSymbol,
+        decimals: tokenDecimals.toString(),
+        sizes: sizesParam,
+      });
+
+      const response = await fetch(
+        `/api/tokens/${tokenAddress}/quotes?${params}`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": apiKey,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      } else {
+        throw new Error(result.error || "Failed to fetch router quotes");
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+      console.error("Error fetching router quotes:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenAddress, tokenSymbol, tokenDecimals, sizesParam]);
+
+  // Initial load
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Auto refresh
+  useEffect(() => {
+    if (!autoRefresh || !tokenAddress) return;
+
+    const interval = setInterval(fetchData, refreshInterval);
+    return () => clearInterval(interval);
+  }, [autoRefresh, tokenAddress, refreshInterval, fetchData]);
+
+  return { data, isLoading, error, refetch: fetchData };
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  BlockchainPlatform,
+  NetArbitrageResult,
+} from "@dex-ai/api-clients/types";
+import { getApiKey, hasValidApiKey } from "../../lib/security/apiKeyStorage";
+
+interface UseTokenArbitrageOptions {
+  platform?: BlockchainPlatform;
+  tradeSizeUsd?: number;
+  holdingHours?: number;
+  autoRefresh?: boolean;
+  refreshInterval?: number; // milliseconds
+}
+
+interface UseTokenArbitrageReturn {
+  data: NetArbitrageResult | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function useTokenArbitrage(
+  tokenAddress: string | null,
+  tokenSymbol: string | null,
+  options: UseTokenArbitrageOptions = {},
+): UseTokenArbitrageReturn {
+  const {
+    platform = BlockchainPlatform.BINANCE_SMART_CHAIN,
+    tradeSizeUsd = 1000,
+    holdingHours = 8,
+    autoRefresh = false,
+    refreshInterval = 60000, // 1 minute
+  } = options;
+
+  const [data, setData] = useState<NetArbitrageResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!tokenAddress || !tokenSymbol) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!hasValidApiKey()) {
+        throw new Error(
+          "Valid API key not found. Please configure your API key.",
+        );
+      }
+
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error("API key retrieval failed");
+      }
+      const params = new URLSearchParams({
+        symbol: tokenSymbol,
+        platform,
+        size: tradeSizeUsd.toString(),
+        holdingHours: holdingHours.toString(),
+      });
+
+      const response = await fetch(
+        `/api/tokens/${tokenAddress}/arbitrage?${params}`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": apiKey,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      } else {
+        throw new Error(result.error || "Failed to fetch arbitrage data");
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+      console.error("Error fetching arbitrage data:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenAddress, tokenSymbol, platform, tradeSizeUsd, holdingHours]);
+
+  // Initial load
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Auto refresh
+  useEffect(() => {
+    if (!autoRefresh || !tokenAddress) return;
+
+    const interval = setInterval(fetchData, refreshInterval);
+    return () => clearInterval(interval);
+  }, [autoRefresh, tokenAddress, refreshInterval, fetchData]);
+
+  return { data, isLoading, error, refetch: fetchData };
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ExecutionEstimate, ExecutionSide } from "@dex-ai/api-clients/types";
+import { getApiKey, hasValidApiKey } from "../../lib/security/apiKeyStorage";
+
+interface UseTokenExecutionOptions {
+  side?: ExecutionSide;
+  tradeSizeUsd?: number;
+  pools?: string[]; // V3 pool addresses to include alongside the perps
+  autoRefresh?: boolean;
+  refreshInterval?: number; // milliseconds
+}
+
+interface UseTokenExecutionReturn {
+  data: ExecutionEstimate[] | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function useTokenExecution(
+  tokenAddress: string | null,
+  tokenSymbol: string | null,
+  options: UseTokenExecutionOptions = {},
+): UseTokenExecutionReturn {
+  const {
+    side = "buy",
+    tradeSizeUsd = 1000,
+    pools = [],
+    autoRefresh = false,
+    refreshInterval = 60000, // 1 minute
+  } = options;
+
+  const [data, setData] = useState<ExecutionEstimate[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const poolsParam = pools.join(",");
+
+  const fetchData = useCallback(async () => {
+    if (!tokenAddress || !tokenSymbol) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!hasValidApiKey()) {
+        throw new Error(
+          "Valid API key not found. Please configure your API key.",
+        );
+      }
+
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error("API key retrieval failed");
+      }
+      const params = new URLSearchParams({
+        symbol: tokenSymbol,
+        side,
+        size: tradeSizeUsd.toString(),
+      });
+      if (poolsParam) {
+        params.set("pools", poolsParam);
+      }
+
+      const response = await fetch(
+        `/api/tokens/${tokenAddress}/execution?${params}`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": apiKey,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+
+      if (result.success) {
+        setData(result.data);
+      } else {
+        throw new Error(result.error || "Failed to fetch execution estimates");
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      setError(errorMessage);
+      console.error("Error fetching execution estimates:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenAddress, tokenSymbol, side, tradeSizeUsd, poolsParam]);
+
+  // Initial load
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Auto refresh
+  useEffect(() => {
+    if (!autoRefresh || !tokenAddress) return;
+
+    const interval = setInterval(fetchData, refreshInterval);
+    return () => clearInterval(interval);
+  }, [autoRefresh, tokenAddress, refreshInterval, fetchData]);
+
+  return { data, isLoading, error, refetch: fetchData };
+}
@@ -2,7 +2,9 @@
 
 import { useState, useEffect, useCallback } from "react";
 import {
+  AlignedPriceHistory,
   BlockchainPlatform,
+  ConsensusPrice,
   MultiSourcePriceData,
   PriceDataPoint,
 } from "@dex-ai/api-clients/types";
@@ -14,10 +16,19 @@ interface UseTokenPricesOptions {
   currency?: string;
   autoRefresh?: boolean;
   refreshInterval?: number; // milliseconds
+  align?: boolean; // Resample history of all sources onto one time grid
+  interval?: string; // Grid interval, e.g. "5m", defaults by range on the server
 }
 
+type ConsensusSummary = Pick<
+  ConsensusPrice,
+  "price" | "confidence" | "rejectedSources"
+>;
+
 interface UseTokenPricesReturn {
   data: MultiSourcePriceData | null;
+  consensus: ConsensusSummary | null;
+  aligned: AlignedPriceHistory | null;
   currentPrices: { [source: string]: number };
   historicalData: { [source: string]: PriceDataPoint[] };
   isLoading: boolean;
@@ -37,15 +48,21 @@ export function useTokenPrices(
     currency = "usd",
     autoRefresh = false,
     refreshInterval = 3600000, // 1 hour
+    align = false,
+    interval,
   } = options;
 
   const [data, setData] = useState<MultiSourcePriceData | null>(null);
+  const [consensus, setConsensus] = useState<ConsensusSummary | null>(null);
+  const [aligned, setAligned] = useState<AlignedPriceHistory | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const fetchData = useCallback(async () => {
     if (!tokenAddress || !tokenSymbol) {
       setData(null);
+      setConsensus(null);
+      setAligned(null);
       setError(null);
       return;
     }
@@ -71,6 +88,10 @@ export function useTokenPrices(
         currency,
         type: "full",
       });
+      if (align) {
+        params.set("align", "true");
+        if (interval) params.set("interval", interval);
+      }
 
       const response = await fetch(
         `/api/tokens/${tokenAddress}/prices?${params}`,
@@ -90,6 +111,8 @@ export function useTokenPrices(
 
       if (result.success) {
         setData(result.data);
+        setConsensus(result.metadata?.consensus ?? null);
+        setAligned(result.aligned ?? null);
       } else {
         throw new Error(result.error || "Failed to fetch price data");
       }
@@ -100,7 +123,7 @@ export function useTokenPrices(
     } finally {
       setIsLoading(false);
     }
-  }, [tokenAddress, platform, days, currency]);
+  }, [tokenAddress, platform, days, currency, align, interval]);
 
   // Initial load
   useEffect(() => {
@@ -115,13 +138,12 @@ export function useTokenPrices(
     return () => clearInterval(interval);
   }, [autoRefresh, tokenAddress, refreshInterval, fetchData]);
 
-  // Calculate current price
-  const currentPrices = data?.sources
+  // Calculate current price, failed sources have no price
+  const currentPrices: { [source: string]: number } = data?.sources
     ? Object.fromEntries(
-        Object.entries(data.sources).map(([source, sourceData]) => [
-          source,
-          sourceData.currentPrice,
-        ]),
+        Object.entries(data.sources)
+          .filter(([_, sourceData]) => sourceData.currentPrice !== null)
+          .map(([source, sourceData]) => [source, sourceData.currentPrice!]),
       )
     : {};
 
@@ -139,6 +161,8 @@ export function useTokenPrices(
 
   return {
     data,
+    consensus,
+    aligned,
     currentPrices,
     historicalData,
     isLoading,
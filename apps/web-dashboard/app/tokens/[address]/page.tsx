@@ -182,6 +182,7 @@ export default function TokenDetailPage() {
               <TokenChart
                 tokenAddress={selectedToken.address}
                 tokenSymbol={selectedToken.symbol}
+                tokenDecimals={selectedToken.decimals}
               />
             </div>
           </div>
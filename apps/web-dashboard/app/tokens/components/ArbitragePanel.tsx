@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { BlockchainPlatform } from "@dex-ai/api-clients/types";
+import { useTokenArbitrage } from "../../hooks/useTokenArbitrage";
+
+interface ArbitragePanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  platform?: BlockchainPlatform;
+}
+
+const TRADE_SIZES = [100, 1000, 10000, 50000];
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+export default function ArbitragePanel({
+  tokenAddress,
+  tokenSymbol,
+  platform = BlockchainPlatform.BINANCE_SMART_CHAIN,
+}: ArbitragePanelProps) {
+  const [tradeSizeUsd, setTradeSizeUsd] = useState<number>(1000);
+  const [holdingHours, setHoldingHours] = useState<number>(8);
+
+  const { data, isLoading, error } = useTokenArbitrage(
+    tokenAddress,
+    tokenSymbol,
+    {
+      platform,
+      tradeSizeUsd,
+      holdingHours,
+      autoRefresh: true,
+      refreshInterval: 60000, // 1 minute
+    },
+  );
+
+  return (
+    <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4 h-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-gruvbox-orange font-medium">Net Arbitrage</h3>
+        {isLoading && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gruvbox-orange"></div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gruvbox-gray">Size:</span>
+          <select
+            value={tradeSizeUsd}
+            onChange={(e) => setTradeSizeUsd(parseInt(e.target.value))}
+            className="bg-gruvbox-gray/10 border border-gruvbox-border rounded px-2 py-1 text-gruvbox-fg"
+          >
+            {TRADE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                ${size.toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gruvbox-gray">Hold:</span>
+          <select
+            value={holdingHours}
+            onChange={(e) => setHoldingHours(parseInt(e.target.value))}
+            className="bg-gruvbox-gray/10 border border-gruvbox-border rounded px-2 py-1 text-gruvbox-fg"
+          >
+            <option value={1}>1h</option>
+            <option value={8}>8h</option>
+            <option value={24}>24h</option>
+          </select>
+        </label>
+      </div>
+
+      {error && !data && (
+        <div className="text-red-500 text-sm">
+          <p>Error loading arbitrage data:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {data && data.opportunities.length === 0 && (
+        <p className="text-gruvbox-gray text-sm">
+          Not enough tradable venues to compare
+        </p>
+      )}
+
+      {data && data.opportunities.length > 0 && (
+        <div className="space-y-2">
+          {data.opportunities.map((opportunity) => (
+            <div
+              key={`${opportunity.buyVenue}-${opportunity.sellVenue}`}
+              className="bg-gruvbox-gray/10 border border-gruvbox-border rounded-lg p-3"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-gruvbox-fg text-sm capitalize">
+                  {opportunity.buyVenue} → {opportunity.sellVenue}
+                </span>
+                <span
+                  className={`text-sm font-bold ${
+                    opportunity.profitable
+                      ? "text-gruvbox-green"
+                      : "text-gruvbox-red"
+                  }`}
+                >
+                  {opportunity.netEdgePercent > 0 ? "+" : ""}
+                  {opportunity.netEdgePercent.toFixed(3)}%
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs text-gruvbox-gray">
+                <div>
+                  Gross{" "}
+                  <span className="text-gruvbox-fg">
+                    {opportunity.grossSpreadPercent.toFixed(3)}%
+                  </span>
+                </div>
+                <div>
+                  Costs{" "}
+                  <span className="text-gruvbox-fg">
+                    {formatUsd(opportunity.totalCostUsd)}
+                  </span>
+                </div>
+                <div>
+                  Net{" "}
+                  <span className="text-gruvbox-fg">
+                    {formatUsd(opportunity.netProfitUsd)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {Object.keys(data.fundingRates).length > 0 && (
+            <div className="pt-2 text-xs text-gruvbox-gray">
+              Funding:{" "}
+              {Object.entries(data.fundingRates)
+                .map(
+                  ([venue, rate]) =>
+                    `${venue} ${((rate ?? 0) * 100).toFixed(4)}%`,
+                )
+                .join(" · ")}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
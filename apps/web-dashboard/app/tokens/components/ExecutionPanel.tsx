@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { ExecutionSide } from "@dex-ai/api-clients/types";
+import { useTokenExecution } from "../../hooks/useTokenExecution";
+
+interface ExecutionPanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  pools?: string[]; // V3 pool addresses to estimate alongside the perps
+}
+
+const TRADE_SIZES = [1000, 10000, 50000, 250000];
+
+function formatVenue(venue: string): string {
+  return venue.startsWith("0x")
+    ? `Pool ${venue.slice(0, 6)}…${venue.slice(-4)}`
+    : venue;
+}
+
+export default function ExecutionPanel({
+  tokenAddress,
+  tokenSymbol,
+  pools,
+}: ExecutionPanelProps) {
+  const [tradeSizeUsd, setTradeSizeUsd] = useState<number>(10000);
+  const [side, setSide] = useState<ExecutionSide>("buy");
+
+  const { data, isLoading, error } = useTokenExecution(
+    tokenAddress,
+    tokenSymbol,
+    {
+      side,
+      tradeSizeUsd,
+      pools,
+      autoRefresh: true,
+      refreshInterval: 30000, // 30 seconds
+    },
+  );
+
+  // Best venue first: cheapest buy or richest sell after fees
+  const estimates = [...(data ?? [])].sort((a, b) =>
+    side === "buy"
+      ? a.effectivePrice - b.effectivePrice
+      : b.effectivePrice - a.effectivePrice,
+  );
+
+  return (
+    <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-gruvbox-orange font-medium">Execution Price</h3>
+        {isLoading && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gruvbox-orange"></div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gruvbox-gray">Side:</span>
+          <select
+            value={side}
+            onChange={(e) => setSide(e.target.value as ExecutionSide)}
+            className="bg-gruvbox-gray/10 border border-gruvbox-border rounded px-2 py-1 text-gruvbox-fg"
+          >
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gruvbox-gray">Size:</span>
+          <select
+            value={tradeSizeUsd}
+            onChange={(e) => setTradeSizeUsd(parseInt(e.target.value))}
+            className="bg-gruvbox-gray/10 border border-gruvbox-border rounded px-2 py-1 text-gruvbox-fg"
+          >
+            {TRADE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                ${size.toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && !data && (
+        <div className="text-red-500 text-sm">
+          <p>Error loading execution estimates:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {data && estimates.length === 0 && (
+        <p className="text-gruvbox-gray text-sm">
+          No venue has depth for this token
+        </p>
+      )}
+
+      {estimates.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gruvbox-gray text-left">
+                <th className="py-1 pr-4 font-normal">Source</th>
+                <th className="py-1 pr-4 font-normal">Mid</th>
+                <th className="py-1 pr-4 font-normal">Avg Fill</th>
+                <th className="py-1 pr-4 font-normal">After Fees</th>
+                <th className="py-1 pr-4 font-normal">Slippage</th>
+                <th className="py-1 font-normal">Depth</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimates.map((estimate) => (
+                <tr
+                  key={estimate.venue}
+                  className="border-t border-gruvbox-border text-gruvbox-fg"
+                >
+                  <td className="py-1 pr-4 capitalize">
+                    {formatVenue(estimate.venue)}
+                  </td>
+                  <td className="py-1 pr-4">${estimate.midPrice.toFixed(6)}</td>
+                  <td className="py-1 pr-4">
+                    ${estimate.averagePrice.toFixed(6)}
+                  </td>
+                  <td className="py-1 pr-4 text-gruvbox-green">
+                    ${estimate.effectivePrice.toFixed(6)}
+                  </td>
+                  <td className="py-1 pr-4">
+                    {estimate.slippagePercent.toFixed(3)}%
+                  </td>
+                  <td
+                    className={`py-1 ${
+                      estimate.fullyFilled
+                        ? "text-gruvbox-gray"
+                        : "text-gruvbox-red"
+                    }`}
+                  >
+                    {estimate.fullyFilled
+                      ? `${estimate.levelsConsumed} levels`
+                      : `Only $${estimate.filledNotional.toFixed(0)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
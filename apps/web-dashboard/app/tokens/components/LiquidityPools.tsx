@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import TickAnalysis from "./TickAnalysis";
+import PoolDepth from "./PoolDepth";
+import { PoolVersion } from "../../hooks/usePoolDepth";
 import { PoolsInfo } from "../../hooks/useTokenPools";
 import { TokenPool } from "@dex-ai/api-clients/types";
 
@@ -66,12 +68,44 @@ interface LiquidityPoolsProps {
   poolsInfo: PoolsInfo | null;
   loading: boolean;
   error: string | null;
+  chainId?: number; // Chain the pools live on, defaults to BSC
+}
+
+// Constant-product pools have no ticks, e.g. "Uniswap v2", "PancakeSwap v2"
+function isV2Pool(pool: TokenPool): boolean {
+  return /\bv2\b/i.test(pool.platform);
+}
+
+// V4 / Infinity pools are listed by their 32-byte PoolId
+function getPoolVersion(pool: TokenPool): PoolVersion {
+  if (pool.address.length === 66) return "v4";
+  return isV2Pool(pool) ? "v2" : "v3";
+}
+
+// Chain suffixes of the V4 dexKeys, e.g. "uniswap-v4-bsc"
+const V4_DEX_CHAINS: Record<number, string> = {
+  1: "ethereum",
+  10: "optimism",
+  56: "bsc",
+  137: "polygon",
+  8453: "base",
+  42161: "arbitrum",
+};
+
+// Uniswap V4 and PancakeSwap Infinity share chains, e.g. "PancakeSwap Infinity"
+function getV4DexKey(pool: TokenPool, chainId: number): string | undefined {
+  const chain = V4_DEX_CHAINS[chainId];
+  if (getPoolVersion(pool) !== "v4" || !chain) return undefined;
+  if (/pancake/i.test(pool.platform)) return `pancakeswap-infinity-${chain}`;
+  if (/uniswap/i.test(pool.platform)) return `uniswap-v4-${chain}`;
+  return undefined;
 }
 
 export default function LiquidityPools({
   poolsInfo,
   loading,
   error,
+  chainId = 56,
 }: LiquidityPoolsProps) {
   const [expandedPools, setExpandedPools] = useState<Set<string>>(new Set());
   const [tickAnalysisLoading, setTickAnalysisLoading] = useState<Set<string>>(
@@ -94,15 +128,19 @@ export default function LiquidityPools({
     setExpandedPools(newExpanded);
   };
 
-  const loadTickAnalysis = async (poolAddress: string) => {
+  const loadTickAnalysis = async (pool: TokenPool) => {
+    const poolAddress = pool.address;
     if (tickAnalysisLoading.has(poolAddress)) return;
 
     setTickAnalysisLoading((prev) => new Set(prev).add(poolAddress));
     setTickAnalysisError((prev) => ({ ...prev, [poolAddress]: "" }));
 
     try {
+      const params = new URLSearchParams({ chainId: chainId.toString() });
+      const dexKey = getV4DexKey(pool, chainId);
+      if (dexKey) params.set("dexKey", dexKey);
       const response = await fetch(
-        `/api/tokens/pools/${poolAddress}/tick-analysis`,
+        `/api/tokens/pools/${poolAddress}/tick-analysis?${params}`,
       );
       if (!response.ok) {
         throw new Error(`Failed to load tick analysis: ${response.statusText}`);
@@ -186,14 +224,17 @@ export default function LiquidityPools({
                       <button
                         onClick={() => {
                           togglePoolExpansion(pool.address);
-                          if (!expandedPools.has(pool.address)) {
-                            loadTickAnalysis(pool.address);
+                          if (
+                            !expandedPools.has(pool.address) &&
+                            !isV2Pool(pool)
+                          ) {
+                            loadTickAnalysis(pool);
                           }
                         }}
                         className="text-xs bg-gruvbox-blue text-gruvbox-bg px-2 py-1 rounded hover:bg-gruvbox-blue/80 transition-colors"
                       >
-                        {expandedPools.has(pool.address) ? "Hide" : "Show"} Tick
-                        Analysis
+                        {expandedPools.has(pool.address) ? "Hide" : "Show"}{" "}
+                        {isV2Pool(pool) ? "Depth" : "Tick Analysis"}
                       </button>
                     </div>
                   </div>
@@ -246,8 +287,20 @@ export default function LiquidityPools({
                   </div>
                 </div>
 
-                {/* Tick Analysis Section */}
+                {/* Depth Section, shared by every pool version */}
                 {expandedPools.has(pool.address) && (
+                  <div className="mt-2">
+                    <PoolDepth
+                      poolAddress={pool.address}
+                      version={getPoolVersion(pool)}
+                      chainId={chainId}
+                      dexKey={getV4DexKey(pool, chainId)}
+                    />
+                  </div>
+                )}
+
+                {/* Tick Analysis Section */}
+                {expandedPools.has(pool.address) && !isV2Pool(pool) && (
                   <div className="mt-2">
                     {tickAnalysisLoading.has(pool.address) ? (
                       <div className="bg-gruvbox-gray/5 border border-gruvbox-border rounded-lg p-3">
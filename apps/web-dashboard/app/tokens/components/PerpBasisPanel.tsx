@@ -0,0 +1,212 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  BlockchainPlatform,
+  PerpVenue,
+  PriceSourceName,
+} from "@dex-ai/api-clients/types";
+import { usePerpBasis } from "../../hooks/usePerpBasis";
+
+interface PerpBasisPanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  platform?: BlockchainPlatform;
+  height?: number;
+}
+
+const VENUES: { venue: PerpVenue; label: string; color: string }[] = [
+  { venue: PriceSourceName.BINANCE, label: "Binance", color: "#feca57" },
+  { venue: PriceSourceName.BYBIT, label: "Bybit", color: "#ff9f43" },
+  { venue: PriceSourceName.BITGET, label: "Bitget", color: "#4ecdc4" },
+];
+
+function formatPercent(value: number | null, digits = 3): string {
+  if (value === null) return "-";
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}%`;
+}
+
+function percentClass(value: number): string {
+  return value >= 0 ? "text-gruvbox-green" : "text-red-500";
+}
+
+export default function PerpBasisPanel({
+  tokenAddress,
+  tokenSymbol,
+  platform = BlockchainPlatform.BINANCE_SMART_CHAIN,
+  height = 200,
+}: PerpBasisPanelProps) {
+  const { data, history, isLoading, error } = usePerpBasis(
+    tokenAddress,
+    tokenSymbol,
+    { platform, autoRefresh: true },
+  );
+
+  // One row per poll with an annualized basis column per venue
+  const chartData = useMemo(
+    () =>
+      history.map((snapshot) => {
+        const row: Record<string, number> = { timestamp: snapshot.timestamp };
+        snapshot.venues.forEach((basis) => {
+          row[basis.venue] = basis.annualizedBasisPercent;
+        });
+        return row;
+      }),
+    [history],
+  );
+
+  const visibleVenues = VENUES.filter(({ venue }) =>
+    data?.venues.some((basis) => basis.venue === venue),
+  );
+
+  return (
+    <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-gruvbox-orange font-medium">
+          Perp vs Spot Basis{" "}
+          <span className="text-gruvbox-gray text-sm font-normal">
+            {data && `spot $${data.spot.price.toPrecision(6)} (OKX DEX)`}
+          </span>
+        </h3>
+        {isLoading && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gruvbox-orange"></div>
+        )}
+      </div>
+
+      {error && !data && (
+        <div className="text-red-500 text-sm">
+          <p>Error loading perp basis:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {data && data.venues.length === 0 && (
+        <p className="text-gruvbox-gray text-sm">
+          No perp venue lists {tokenSymbol}
+        </p>
+      )}
+
+      {data && data.venues.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gruvbox-gray text-left">
+                <th className="py-1 pr-4 font-normal">Venue</th>
+                <th className="py-1 pr-4 font-normal">Mark</th>
+                <th className="py-1 pr-4 font-normal">Basis</th>
+                <th className="py-1 pr-4 font-normal">Index vs spot</th>
+                <th className="py-1 pr-4 font-normal">Basis APR</th>
+                <th className="py-1 pr-4 font-normal">Funding APR</th>
+                <th className="py-1 font-normal">Next funding</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.venues.map((basis) => (
+                <tr
+                  key={basis.venue}
+                  className="border-t border-gruvbox-border text-gruvbox-fg"
+                >
+                  <td className="py-1 pr-4">
+                    {VENUES.find(({ venue }) => venue === basis.venue)?.label ??
+                      basis.venue}
+                    <div className="text-xs text-gruvbox-gray">
+                      {basis.symbol}
+                    </div>
+                  </td>
+                  <td className="py-1 pr-4">
+                    ${basis.markPrice.toPrecision(6)}
+                  </td>
+                  <td
+                    className={`py-1 pr-4 ${percentClass(basis.basisPercent)}`}
+                  >
+                    {formatPercent(basis.basisPercent)}
+                  </td>
+                  <td className="py-1 pr-4 text-gruvbox-gray">
+                    {formatPercent(basis.indexBasisPercent)}
+                  </td>
+                  <td
+                    className={`py-1 pr-4 ${percentClass(basis.annualizedBasisPercent)}`}
+                  >
+                    {formatPercent(basis.annualizedBasisPercent, 1)}
+                  </td>
+                  <td
+                    className={`py-1 pr-4 ${percentClass(basis.annualizedFundingPercent)}`}
+                  >
+                    {formatPercent(basis.annualizedFundingPercent, 1)}
+                  </td>
+                  <td className="py-1 text-gruvbox-gray">
+                    {new Date(basis.nextFundingTime).toLocaleTimeString()}
+                    <div className="text-xs">
+                      every {basis.fundingIntervalHours}h
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {chartData.length > 1 && visibleVenues.length > 0 && (
+        <div className="mt-4">
+          <p className="text-gruvbox-gray text-xs mb-1">
+            Annualized basis this session
+          </p>
+          <ResponsiveContainer width="100%" height={height}>
+            <LineChart data={chartData}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="#444"
+                opacity={0.3}
+              />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(value) => new Date(value).toLocaleTimeString()}
+                stroke="#888"
+                fontSize={12}
+              />
+              <YAxis
+                tickFormatter={(value) => `${Number(value).toFixed(0)}%`}
+                stroke="#888"
+                fontSize={12}
+              />
+              <Tooltip
+                labelFormatter={(value) =>
+                  new Date(Number(value)).toLocaleTimeString()
+                }
+                formatter={(value) => `${Number(value).toFixed(1)}%`}
+                contentStyle={{
+                  background: "#282828",
+                  border: "1px solid #504945",
+                }}
+              />
+              <Legend />
+              {visibleVenues.map(({ venue, label, color }) => (
+                <Line
+                  key={venue}
+                  dataKey={venue}
+                  name={label}
+                  stroke={color}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
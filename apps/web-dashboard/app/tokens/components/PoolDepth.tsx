@@ -0,0 +1,127 @@
+"use client";
+
+import { PoolVersion, usePoolDepth } from "../../hooks/usePoolDepth";
+
+interface PoolDepthProps {
+  poolAddress: string;
+  version: PoolVersion;
+  chainId?: number;
+  dexKey?: string;
+}
+
+function formatUSD(value: number): string {
+  return value.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+}
+
+export default function PoolDepth({
+  poolAddress,
+  version,
+  chainId = 56,
+  dexKey,
+}: PoolDepthProps) {
+  const { data, isLoading, error } = usePoolDepth(
+    poolAddress,
+    version,
+    chainId,
+    dexKey,
+  );
+
+  return (
+    <div className="bg-gruvbox-bg text-gruvbox-fg border border-gruvbox-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gruvbox-orange">
+          Market Depth
+        </h3>
+        {data && (
+          <span className="text-xs text-gruvbox-gray">
+            {data.dexName} · {version.toUpperCase()}
+          </span>
+        )}
+      </div>
+
+      {isLoading && !data ? (
+        <div className="text-gruvbox-gray text-center py-2">
+          Loading depth...
+        </div>
+      ) : error ? (
+        <div className="text-gruvbox-red text-center py-2">Error: {error}</div>
+      ) : data ? (
+        <div className="space-y-3 text-sm">
+          {/* The V4 PoolManager does not track per-pool balances */}
+          {version !== "v4" && (
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <span className="text-gruvbox-gray">TVL:</span>
+                <span className="text-gruvbox-blue ml-2">
+                  {formatUSD(data.poolBaseInfo.totalUSD)}
+                </span>
+              </div>
+              <div>
+                <span className="text-gruvbox-gray">
+                  {data.poolBaseInfo.token0.symbol}:
+                </span>
+                <span className="text-gruvbox-green ml-2">
+                  {formatUSD(data.poolBaseInfo.token0TotalUSD)}
+                </span>
+              </div>
+              <div>
+                <span className="text-gruvbox-gray">
+                  {data.poolBaseInfo.token1.symbol}:
+                </span>
+                <span className="text-gruvbox-green ml-2">
+                  {formatUSD(data.poolBaseInfo.token1TotalUSD)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <table className="w-full">
+            <thead>
+              <tr className="text-gruvbox-gray text-left">
+                <th className="py-1 pr-4 font-normal">
+                  {data.poolBaseInfo.token0.symbol} Price Move
+                </th>
+                <th className="py-1 pr-4 font-normal">Depth Down</th>
+                <th className="py-1 font-normal">Depth Up</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.depth.map((level) => (
+                <tr
+                  key={level.percent}
+                  className="border-t border-gruvbox-border text-gruvbox-fg"
+                >
+                  <td className="py-1 pr-4">±{level.percent}%</td>
+                  <td
+                    className={`py-1 pr-4 ${
+                      level.downComplete
+                        ? "text-gruvbox-red"
+                        : "text-gruvbox-gray"
+                    }`}
+                  >
+                    {level.downComplete ? "" : "> "}
+                    {formatUSD(level.downUSD)}
+                  </td>
+                  <td
+                    className={`py-1 ${
+                      level.upComplete
+                        ? "text-gruvbox-green"
+                        : "text-gruvbox-gray"
+                    }`}
+                  >
+                    {level.upComplete ? "" : "> "}
+                    {formatUSD(level.upUSD)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
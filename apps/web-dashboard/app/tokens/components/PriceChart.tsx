@@ -13,10 +13,12 @@ import {
   Area,
   AreaChart,
 } from "recharts";
-import { PriceDataPoint } from "@dex-ai/api-clients/types";
+import { AlignedPriceHistory, PriceDataPoint } from "@dex-ai/api-clients/types";
 
 interface PriceChartProps {
   historicalData: { [source: string]: PriceDataPoint[] };
+  // History already resampled onto one grid, used instead of merging raw points
+  alignedData?: AlignedPriceHistory | null;
   selectedSources: string[];
   height?: number;
 }
@@ -47,6 +49,7 @@ interface LegendProps {
 
 export default function PriceChart({
   historicalData,
+  alignedData,
   selectedSources,
   height = 400,
 }: PriceChartProps) {
@@ -58,6 +61,23 @@ export default function PriceChart({
   const chartData = useMemo(() => {
     if (!selectedSources.length) return [];
 
+    // Aligned sources already share timestamps, no merging or smoothing needed
+    if (alignedData?.timestamps.length) {
+      return alignedData.timestamps.map((timestamp, index) => {
+        const point: ChartDataPoint = {
+          timestamp,
+          date: new Date(timestamp).toLocaleDateString(),
+        };
+        selectedSources.forEach((source) => {
+          const value = alignedData.series[source]?.[index];
+          if (value !== null && value !== undefined) {
+            point[source] = value;
+          }
+        });
+        return point;
+      });
+    }
+
     // Process each data source separately to avoid timestamp mismatch issues
     const processedData: { [timestamp: number]: ChartDataPoint } = {};
 
@@ -131,7 +151,7 @@ export default function PriceChart({
     }
 
     return sortedData;
-  }, [historicalData, selectedSources, enableSmoothing]);
+  }, [historicalData, alignedData, selectedSources, enableSmoothing]);
 
   // Generate color array
   const colors = [
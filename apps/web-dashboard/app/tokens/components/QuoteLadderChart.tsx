@@ -0,0 +1,140 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { QuoteLadderPoint } from "@dex-ai/api-clients/types";
+import { useQuoteLadder } from "../../hooks/useQuoteLadder";
+
+interface QuoteLadderChartProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals?: number;
+  height?: number;
+}
+
+const SERIES = [
+  { key: "okx-dex:buy", label: "OKX DEX buy", color: "#45b7d1" },
+  { key: "okx-dex:sell", label: "OKX DEX sell", color: "#45b7d1" },
+  { key: "pancake-smart-router:buy", label: "Pancake buy", color: "#feca57" },
+  { key: "pancake-smart-router:sell", label: "Pancake sell", color: "#feca57" },
+];
+
+function formatSize(value: number): string {
+  return value >= 1000 ? `$${value / 1000}k` : `$${value}`;
+}
+
+export default function QuoteLadderChart({
+  tokenAddress,
+  tokenSymbol,
+  tokenDecimals = 18,
+  height = 260,
+}: QuoteLadderChartProps) {
+  const { data, isLoading, error } = useQuoteLadder(tokenAddress, tokenSymbol, {
+    tokenDecimals,
+    autoRefresh: true,
+  });
+
+  // One row per size with a slippage column per router and direction
+  const chartData = useMemo(() => {
+    if (!data) return [];
+    const points: QuoteLadderPoint[] = [...data.buy, ...data.sell];
+    return data.sizesUsd.map((sizeUsd) => {
+      const row: Record<string, number | null> = { sizeUsd };
+      points
+        .filter((point) => point.sizeUsd === sizeUsd)
+        .forEach((point) => {
+          row[`${point.router}:${point.direction}`] = point.slippagePercent;
+        });
+      return row;
+    });
+  }, [data]);
+
+  const visibleSeries = SERIES.filter((series) =>
+    chartData.some((row) => typeof row[series.key] === "number"),
+  );
+
+  return (
+    <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-gruvbox-orange font-medium">
+          DEX Depth Curve{" "}
+          <span className="text-gruvbox-gray text-sm font-normal">
+            slippage vs size
+            {data?.referencePriceUsd &&
+              ` · ref $${data.referencePriceUsd.toPrecision(6)}`}
+          </span>
+        </h3>
+        {isLoading && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gruvbox-orange"></div>
+        )}
+      </div>
+
+      {error && !data && (
+        <div className="text-red-500 text-sm">
+          <p>Error loading quote ladder:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {data && visibleSeries.length === 0 && (
+        <p className="text-gruvbox-gray text-sm">
+          Neither router could quote {tokenSymbol}
+        </p>
+      )}
+
+      {visibleSeries.length > 0 && (
+        <ResponsiveContainer width="100%" height={height}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#444" opacity={0.3} />
+            <XAxis
+              dataKey="sizeUsd"
+              type="number"
+              scale="log"
+              domain={["dataMin", "dataMax"]}
+              ticks={data?.sizesUsd}
+              tickFormatter={formatSize}
+              stroke="#888"
+              fontSize={12}
+            />
+            <YAxis
+              tickFormatter={(value) => `${Number(value).toFixed(2)}%`}
+              stroke="#888"
+              fontSize={12}
+            />
+            <Tooltip
+              labelFormatter={(value) => formatSize(Number(value))}
+              formatter={(value) => `${Number(value).toFixed(3)}%`}
+              contentStyle={{
+                background: "#282828",
+                border: "1px solid #504945",
+              }}
+            />
+            <Legend />
+            {visibleSeries.map((series) => (
+              <Line
+                key={series.key}
+                dataKey={series.key}
+                name={series.label}
+                stroke={series.color}
+                strokeDasharray={
+                  series.key.endsWith(":sell") ? "5 5" : undefined
+                }
+                dot
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
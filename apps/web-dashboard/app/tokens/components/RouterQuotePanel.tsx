@@ -0,0 +1,144 @@
+"use client";
+
+import { QuoteRouterName, RouterQuote } from "@dex-ai/api-clients/types";
+import { useRouterQuotes } from "../../hooks/useRouterQuotes";
+
+interface RouterQuotePanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals?: number;
+}
+
+const TRADE_SIZES = [100, 1000, 10000];
+
+const ROUTER_LABELS: Record<QuoteRouterName, string> = {
+  "okx-dex": "OKX DEX",
+  "pancake-smart-router": "PancakeSwap",
+};
+
+function formatAmount(value: number): string {
+  return value >= 1000
+    ? value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+    : value.toPrecision(6);
+}
+
+function QuoteCell({ quote, isBest }: { quote: RouterQuote; isBest: boolean }) {
+  if (quote.status !== "ok" || quote.amountOut === null) {
+    return (
+      <td
+        className="py-1 pr-4 text-gruvbox-gray"
+        title={quote.error ?? undefined}
+      >
+        {quote.status === "no_route" ? "No route" : "Error"}
+      </td>
+    );
+  }
+
+  return (
+    <td className="py-1 pr-4">
+      <div className={isBest ? "text-gruvbox-green" : "text-gruvbox-fg"}>
+        {formatAmount(quote.amountOut)}
+      </div>
+      <div className="text-xs text-gruvbox-gray">
+        {quote.priceImpactPercent?.toFixed(2)}% impact · {quote.hops}{" "}
+        {quote.hops === 1 ? "hop" : "hops"}
+        {quote.gasFeeUsd !== null && ` · $${quote.gasFeeUsd.toFixed(2)} gas`}
+      </div>
+    </td>
+  );
+}
+
+export default function RouterQuotePanel({
+  tokenAddress,
+  tokenSymbol,
+  tokenDecimals = 18,
+}: RouterQuotePanelProps) {
+  const { data, isLoading, error } = useRouterQuotes(
+    tokenAddress,
+    tokenSymbol,
+    {
+      tokenDecimals,
+      sizesUsd: TRADE_SIZES,
+      autoRefresh: true,
+      refreshInterval: 60000, // 1 minute
+    },
+  );
+
+  const routers = (data?.[0]?.quotes ?? []).map(({ router }) => router);
+
+  return (
+    <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-gruvbox-orange font-medium">
+          Router Comparison{" "}
+          <span className="text-gruvbox-gray text-sm font-normal">
+            USDT → {tokenSymbol} on BSC
+          </span>
+        </h3>
+        {isLoading && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gruvbox-orange"></div>
+        )}
+      </div>
+
+      {error && !data && (
+        <div className="text-red-500 text-sm">
+          <p>Error loading router quotes:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {data && data.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gruvbox-gray text-left">
+                <th className="py-1 pr-4 font-normal">Size</th>
+                {routers.map((router) => (
+                  <th key={router} className="py-1 pr-4 font-normal">
+                    {ROUTER_LABELS[router]} ({tokenSymbol} out)
+                  </th>
+                ))}
+                <th className="py-1 font-normal">Better</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.map((comparison) => (
+                <tr
+                  key={comparison.amountIn}
+                  className="border-t border-gruvbox-border text-gruvbox-fg align-top"
+                >
+                  <td className="py-1 pr-4">
+                    ${Number(comparison.amountIn).toLocaleString()}
+                  </td>
+                  {comparison.quotes.map((quote) => (
+                    <QuoteCell
+                      key={quote.router}
+                      quote={quote}
+                      isBest={quote.router === comparison.bestRouter}
+                    />
+                  ))}
+                  <td className="py-1">
+                    {comparison.bestRouter ? (
+                      <>
+                        <div className="text-gruvbox-green">
+                          {ROUTER_LABELS[comparison.bestRouter]}
+                        </div>
+                        {comparison.advantagePercent !== null && (
+                          <div className="text-xs text-gruvbox-gray">
+                            +{comparison.advantagePercent.toFixed(3)}% out
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-gruvbox-gray">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
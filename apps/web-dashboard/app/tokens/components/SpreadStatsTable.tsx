@@ -0,0 +1,140 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AlignedPriceHistory,
+  calculatePairwiseSpreadStats,
+} from "@dex-ai/api-clients/types";
+
+interface SpreadStatsTableProps {
+  alignedData: AlignedPriceHistory | null; // Same grid the price chart uses
+  isLoading?: boolean;
+}
+
+const THRESHOLDS = [0.5, 1, 1.5, 2];
+
+function formatPercent(value: number | null): string {
+  if (value === null) return "-";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(3)}%`;
+}
+
+function formatHalfLife(ms: number | null): string {
+  if (ms === null) return "No reversion";
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${minutes.toFixed(1)}m`;
+  return `${(minutes / 60).toFixed(1)}h`;
+}
+
+// |z| above 2 means the current spread is unusual for this pair
+function zScoreClass(zScore: number | null): string {
+  if (zScore === null) return "text-gruvbox-gray";
+  const magnitude = Math.abs(zScore);
+  if (magnitude >= 2) return "text-gruvbox-orange";
+  if (magnitude >= 1) return "text-yellow-400";
+  return "text-gruvbox-fg";
+}
+
+export default function SpreadStatsTable({
+  alignedData,
+  isLoading = false,
+}: SpreadStatsTableProps) {
+  const [thresholdPercent, setThresholdPercent] = useState<number>(1);
+
+  // Most unusual spreads first
+  const rows = useMemo(
+    () =>
+      alignedData
+        ? calculatePairwiseSpreadStats(alignedData, { thresholdPercent }).sort(
+            (a, b) => Math.abs(b.zScore ?? 0) - Math.abs(a.zScore ?? 0),
+          )
+        : [],
+    [alignedData, thresholdPercent],
+  );
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <h4 className="text-gruvbox-blue font-medium">Spread Statistics</h4>
+        <div className="flex items-center space-x-3">
+          {isLoading && (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gruvbox-orange"></div>
+          )}
+          <label className="flex items-center space-x-2">
+            <span className="text-gruvbox-gray">Threshold:</span>
+            <select
+              value={thresholdPercent}
+              onChange={(e) => setThresholdPercent(parseFloat(e.target.value))}
+              className="bg-gruvbox-gray/10 border border-gruvbox-border rounded px-2 py-1 text-gruvbox-fg"
+            >
+              {THRESHOLDS.map((threshold) => (
+                <option key={threshold} value={threshold}>
+                  {threshold}%
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {rows.length === 0 && !isLoading && (
+        <div className="text-gruvbox-gray text-sm">
+          Not enough overlapping history to compare sources
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gruvbox-gray text-left border-b border-gruvbox-border">
+                <th className="py-1 pr-3 font-normal">Pair</th>
+                <th className="py-1 pr-3 font-normal">Current</th>
+                <th className="py-1 pr-3 font-normal">Mean</th>
+                <th className="py-1 pr-3 font-normal">Stdev</th>
+                <th className="py-1 pr-3 font-normal">Z-score</th>
+                <th className="py-1 pr-3 font-normal">Half-life</th>
+                <th className="py-1 pr-3 font-normal">
+                  Above {thresholdPercent}%
+                </th>
+                <th className="py-1 font-normal">Max excursion</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((stats) => (
+                <tr
+                  key={`${stats.sourceA}-${stats.sourceB}`}
+                  className="border-b border-gruvbox-border/50 text-gruvbox-fg"
+                >
+                  <td className="py-1 pr-3 capitalize">
+                    {stats.sourceB} vs {stats.sourceA}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {formatPercent(stats.currentPercent)}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {formatPercent(stats.meanPercent)}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {stats.stdevPercent.toFixed(3)}%
+                  </td>
+                  <td className={`py-1 pr-3 ${zScoreClass(stats.zScore)}`}>
+                    {stats.zScore === null ? "-" : stats.zScore.toFixed(2)}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {formatHalfLife(stats.halfLifeMs)}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {stats.percentAboveThreshold.toFixed(1)}%
+                  </td>
+                  <td className="py-1">
+                    {formatPercent(stats.maxExcursionPercent)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 "use client";
 
-import { Token } from "@dex-ai/api-clients/types";
+import {
+  getPlatformInfo,
+  isValidPlatform,
+  Token,
+} from "@dex-ai/api-clients/types";
 import { useTokenPools } from "../../hooks/useTokenPools";
 import LiquidityPools from "./LiquidityPools";
 import SecurityAnalysis from "./SecurityAnalysis";
@@ -9,8 +13,22 @@ interface TokenAnalysisProps {
   token: Token;
 }
 
+const DEFAULT_CHAIN_ID = 56; // BSC
+
+// EVM chain of the token, BSC when its platform is unknown
+function getTokenChainId(token: Token): number {
+  const platform = token.platform;
+  if (!platform || !isValidPlatform(platform)) return DEFAULT_CHAIN_ID;
+  return getPlatformInfo(platform).chainId ?? DEFAULT_CHAIN_ID;
+}
+
 export default function TokenAnalysis({ token }: TokenAnalysisProps) {
-  const { poolsInfo, loading, error } = useTokenPools(token.address);
+  const chainId = getTokenChainId(token);
+  // Moralis accepts the hex chain id for every EVM chain
+  const { poolsInfo, loading, error } = useTokenPools(
+    token.address,
+    `0x${chainId.toString(16)}`,
+  );
 
   return (
     <div className="space-y-6">
@@ -27,7 +45,12 @@ export default function TokenAnalysis({ token }: TokenAnalysisProps) {
       {/* Token Analysis Sections - Price data moved to TokenChart */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Liquidity Pools Analysis */}
-        <LiquidityPools poolsInfo={poolsInfo} loading={loading} error={error} />
+        <LiquidityPools
+          poolsInfo={poolsInfo}
+          loading={loading}
+          error={error}
+          chainId={chainId}
+        />
         {/* Security Analysis */}
         <SecurityAnalysis token={token} poolsInfo={poolsInfo} />
       </div>
@@ -2,12 +2,40 @@
 
 import { useState, useEffect } from "react";
 import { useTokenPrices } from "../../hooks/useTokenPrices";
-import { BlockchainPlatform } from "@dex-ai/api-clients/types";
+import {
+  BlockchainPlatform,
+  PriceSourceEntry,
+  PriceSourceStatus,
+} from "@dex-ai/api-clients/types";
 import PriceChart from "./PriceChart";
+import SpreadStatsTable from "./SpreadStatsTable";
+import ArbitragePanel from "./ArbitragePanel";
+import ExecutionPanel from "./ExecutionPanel";
+import RouterQuotePanel from "./RouterQuotePanel";
+import QuoteLadderChart from "./QuoteLadderChart";
+import PerpBasisPanel from "./PerpBasisPanel";
+
+const SOURCE_STATUS_STYLES: Record<
+  PriceSourceStatus,
+  { label: string; className: string }
+> = {
+  ok: { label: "Live", className: "text-gruvbox-green" },
+  stale: { label: "Stale", className: "text-yellow-400" },
+  rate_limited: { label: "Rate limited", className: "text-gruvbox-orange" },
+  unsupported_symbol: { label: "Not listed", className: "text-gruvbox-gray" },
+  error: { label: "Error", className: "text-red-500" },
+};
+
+function formatDataAge(sourceData: PriceSourceEntry): string {
+  if (sourceData.dataAgeMs === null) return "";
+  const minutes = Math.round(sourceData.dataAgeMs / 60000);
+  return minutes < 1 ? "just now" : `${minutes}m old`;
+}
 
 interface TokenChartProps {
   tokenAddress: string;
   tokenSymbol: string;
+  tokenDecimals?: number;
   platform?: BlockchainPlatform;
   days?: number;
 }
@@ -15,26 +43,44 @@ interface TokenChartProps {
 export default function TokenChart({
   tokenAddress,
   tokenSymbol,
+  tokenDecimals,
   platform = BlockchainPlatform.BINANCE_SMART_CHAIN,
   days = 1,
 }: TokenChartProps) {
   const [selectedSources, setSelectedSources] = useState<string[]>([]);
   const [timeRange, setTimeRange] = useState<number>(days);
 
-  const { data, currentPrices, historicalData, isLoading, error, sources } =
-    useTokenPrices(tokenAddress, tokenSymbol, {
-      platform,
-      days: timeRange,
-      autoRefresh: true,
-      refreshInterval: 5 * 60000, // 5 minutes
-    });
+  const {
+    data,
+    consensus,
+    aligned,
+    currentPrices,
+    historicalData,
+    isLoading,
+    error,
+    sources,
+  } = useTokenPrices(tokenAddress, tokenSymbol, {
+    platform,
+    days: timeRange,
+    autoRefresh: true,
+    refreshInterval: 5 * 60000, // 5 minutes
+    align: true,
+  });
 
-  // Auto-select the first one when there are new data sources
+  // Auto-select the first live source when there are new data sources
   useEffect(() => {
     if (sources.length > 0 && selectedSources.length === 0) {
-      setSelectedSources([sources[0]]);
+      const liveSource = sources.find(
+        (source) => data?.sources[source]?.status === "ok",
+      );
+      setSelectedSources([liveSource ?? sources[0]]);
     }
-  }, [sources, selectedSources.length]);
+  }, [sources, selectedSources.length, data]);
+
+  // Only live prices feed the summary, failed and stale sources would skew it
+  const liveSelectedSources = selectedSources.filter(
+    (source) => data?.sources[source]?.status === "ok",
+  );
 
   // Only show loading state during initial load when there is no data
   if (isLoading && (!data || Object.keys(data.sources).length === 0)) {
@@ -115,6 +161,17 @@ export default function TokenChart({
                     className="rounded border-gruvbox-border text-gruvbox-orange focus:ring-gruvbox-orange"
                   />
                   <span className="text-gruvbox-fg capitalize">{source}</span>
+                  {data.sources[source]?.status !== "ok" && (
+                    <span
+                      className={`text-xs ${
+                        SOURCE_STATUS_STYLES[data.sources[source].status]
+                          .className
+                      }`}
+                    >
+                      ({SOURCE_STATUS_STYLES[data.sources[source].status].label}
+                      )
+                    </span>
+                  )}
                 </label>
               ))}
             </div>
@@ -145,6 +202,7 @@ export default function TokenChart({
           {selectedSources.map((source) => {
             const price = currentPrices[source];
             const sourceData = data.sources[source];
+            const statusStyle = SOURCE_STATUS_STYLES[sourceData.status];
             const sourceHistoricalData = historicalData[source];
 
             // Calculate 24-hour price change
@@ -168,6 +226,9 @@ export default function TokenChart({
                     {isLoading && (
                       <div className="animate-spin rounded-full h-3 w-3 border-b border-gruvbox-orange"></div>
                     )}
+                    <span className={`text-xs ${statusStyle.className}`}>
+                      {statusStyle.label}
+                    </span>
                     <span className="text-xs text-gruvbox-gray">
                       {sourceData?.lastUpdated
                         ? new Date(sourceData.lastUpdated).toLocaleTimeString()
@@ -175,10 +236,48 @@ export default function TokenChart({
                     </span>
                   </div>
                 </div>
-                <div className="text-2xl font-bold text-gruvbox-green mb-1">
-                  ${price?.toFixed(6) || "N/A"}
+                {price !== undefined ? (
+                  <div
+                    className={`text-2xl font-bold mb-1 ${
+                      sourceData.status === "stale"
+                        ? "text-yellow-400"
+                        : "text-gruvbox-green"
+                    }`}
+                  >
+                    ${price.toFixed(6)}
+                  </div>
+                ) : (
+                  <div
+                    className={`text-lg font-bold mb-1 ${statusStyle.className}`}
+                  >
+                    {statusStyle.label}
+                  </div>
+                )}
+                {sourceData.status === "ok" &&
+                  price !== undefined &&
+                  consensus?.price && (
+                    <div className="text-xs text-gruvbox-gray mb-1">
+                      {price >= consensus.price ? "+" : ""}
+                      {(
+                        ((price - consensus.price) / consensus.price) *
+                        100
+                      ).toFixed(3)}
+                      % vs consensus
+                      {consensus.rejectedSources.includes(source) &&
+                        " (outlier)"}
+                    </div>
+                  )}
+                {sourceData.error && (
+                  <div className="text-xs text-gruvbox-gray mb-1 break-words">
+                    {sourceData.error}
+                  </div>
+                )}
+                <div className="text-xs text-gruvbox-gray mb-1">
+                  {sourceData.latencyMs}ms
+                  {sourceData.dataAgeMs !== null &&
+                    ` · data ${formatDataAge(sourceData)}`}
                 </div>
-                {priceChange24h !== null && (
+                {sourceData.status === "ok" && priceChange24h !== null && (
                   <div
                     className={`text-sm font-medium ${
                       priceChange24h > 0
@@ -199,12 +298,27 @@ export default function TokenChart({
       </div>
 
       {/* Price Statistics Summary */}
-      {selectedSources.length > 1 && (
+      {liveSelectedSources.length > 1 && (
         <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
           <h3 className="text-gruvbox-orange font-medium mb-3">
             Price Summary
           </h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {/* Consensus Price across all live sources */}
+            <div className="bg-gruvbox-gray/10 border border-gruvbox-border rounded-lg p-3">
+              <div className="text-sm text-gruvbox-gray mb-1">
+                Consensus Price
+              </div>
+              <div className="text-lg font-bold text-gruvbox-orange">
+                {consensus?.price ? `$${consensus.price.toFixed(6)}` : "N/A"}
+              </div>
+              {consensus?.price && (
+                <div className="text-xs text-gruvbox-gray">
+                  Confidence {(consensus.confidence * 100).toFixed(0)}%
+                </div>
+              )}
+            </div>
+
             {/* Average Price */}
             <div className="bg-gruvbox-gray/10 border border-gruvbox-border rounded-lg p-3">
               <div className="text-sm text-gruvbox-gray mb-1">
@@ -213,10 +327,10 @@ export default function TokenChart({
               <div className="text-lg font-bold text-gruvbox-green">
                 $
                 {(
-                  selectedSources.reduce(
+                  liveSelectedSources.reduce(
                     (sum, source) => sum + (currentPrices[source] || 0),
                     0,
-                  ) / selectedSources.length
+                  ) / liveSelectedSources.length
                 ).toFixed(6)}
               </div>
             </div>
@@ -229,7 +343,7 @@ export default function TokenChart({
               <div className="text-lg font-bold text-gruvbox-green">
                 $
                 {Math.max(
-                  ...selectedSources.map(
+                  ...liveSelectedSources.map(
                     (source) => currentPrices[source] || 0,
                   ),
                 ).toFixed(6)}
@@ -242,7 +356,7 @@ export default function TokenChart({
               <div className="text-lg font-bold text-gruvbox-green">
                 $
                 {Math.min(
-                  ...selectedSources.map(
+                  ...liveSelectedSources.map(
                     (source) => currentPrices[source] || 0,
                   ),
                 ).toFixed(6)}
@@ -252,16 +366,51 @@ export default function TokenChart({
         </div>
       )}
 
-      {/* Historical Price Chart */}
-      {selectedSources.length > 0 && (
-        <div className="bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
-          <h3 className="text-gruvbox-orange font-medium mb-3">
-            Price History
-          </h3>
-          <PriceChart
-            historicalData={historicalData}
-            selectedSources={selectedSources}
-            height={400}
+      {/* Historical Price Chart and Net Arbitrage */}
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+        {selectedSources.length > 0 && (
+          <div className="xl:col-span-2 bg-gruvbox-bg border border-gruvbox-border rounded-lg p-4">
+            <h3 className="text-gruvbox-orange font-medium mb-3">
+              Price History
+            </h3>
+            <PriceChart
+              historicalData={historicalData}
+              alignedData={aligned}
+              selectedSources={selectedSources}
+              height={400}
+            />
+            <SpreadStatsTable alignedData={aligned} isLoading={isLoading} />
+          </div>
+        )}
+        <ArbitragePanel
+          tokenAddress={tokenAddress}
+          tokenSymbol={tokenSymbol}
+          platform={platform}
+        />
+      </div>
+
+      {/* Perp vs Spot Basis */}
+      <PerpBasisPanel
+        tokenAddress={tokenAddress}
+        tokenSymbol={tokenSymbol}
+        platform={platform}
+      />
+
+      {/* Execution Price per Source */}
+      <ExecutionPanel tokenAddress={tokenAddress} tokenSymbol={tokenSymbol} />
+
+      {/* DEX Router Quotes and Depth Curve */}
+      {platform === BlockchainPlatform.BINANCE_SMART_CHAIN && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          <RouterQuotePanel
+            tokenAddress={tokenAddress}
+            tokenSymbol={tokenSymbol}
+            tokenDecimals={tokenDecimals}
+          />
+          <QuoteLadderChart
+            tokenAddress={tokenAddress}
+            tokenSymbol={tokenSymbol}
+            tokenDecimals={tokenDecimals}
           />
         </div>
       )}
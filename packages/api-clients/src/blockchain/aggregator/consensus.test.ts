@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  MultiSourcePriceData,
+  PriceSourceEntry,
+  PriceSourceName,
+} from "../coingecko/types";
+import {
+  calculateConsensusPrice,
+  weightedMedian,
+  weightedTrimmedMean,
+} from "./consensus";
+import {
+  comparePriceSources,
+  DEFAULT_CONFIG,
+  getConsensusPrice,
+} from "./priceAggregator";
+
+function entry(
+  currentPrice: number | null,
+  status: PriceSourceEntry["status"] = "ok",
+): PriceSourceEntry {
+  return {
+    status,
+    currentPrice,
+    lastUpdated: "2024-01-01T00:00:00.000Z",
+    latencyMs: 0,
+    dataTimestamp: null,
+    dataAgeMs: null,
+  };
+}
+
+function priceData(
+  sources: Record<string, PriceSourceEntry>,
+): MultiSourcePriceData {
+  return { tokenAddress: "0xtoken", sources };
+}
+
+describe("weighted estimators", () => {
+  it("picks the price where cumulative weight reaches half", () => {
+    expect(
+      weightedMedian([
+        { price: 1, weight: 1 },
+        { price: 2, weight: 1 },
+        { price: 3, weight: 3 },
+      ]),
+    ).toBe(3);
+  });
+
+  it("trims weight from both tails before averaging", () => {
+    const points = [
+      { price: 1, weight: 1 },
+      { price: 2, weight: 1 },
+      { price: 3, weight: 1 },
+      { price: 100, weight: 1 },
+    ];
+
+    expect(weightedTrimmedMean(points, 0.25)).toBeCloseTo(2.5, 10);
+    expect(weightedTrimmedMean(points, 0)).toBeCloseTo(26.5, 10);
+  });
+});
+
+describe("calculateConsensusPrice", () => {
+  it("rejects a MAD outlier and keeps agreeing sources", () => {
+    const result = calculateConsensusPrice(
+      priceData({
+        [PriceSourceName.BINANCE]: entry(1.0),
+        [PriceSourceName.BYBIT]: entry(1.001),
+        [PriceSourceName.BITGET]: entry(0.999),
+        [PriceSourceName.OKX]: entry(1.2),
+      }),
+    );
+
+    expect(result.rejectedSources).toEqual([PriceSourceName.OKX]);
+    expect(result.price).toBeGreaterThanOrEqual(0.999);
+    expect(result.price).toBeLessThanOrEqual(1.001);
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it("ignores failed and stale sources", () => {
+    const result = calculateConsensusPrice(
+      priceData({
+        [PriceSourceName.BINANCE]: entry(2),
+        [PriceSourceName.BYBIT]: entry(null, "error"),
+        [PriceSourceName.BITGET]: entry(5, "stale"),
+      }),
+    );
+
+    expect(result.price).toBe(2);
+    expect(result.sources.map(({ source }) => source)).toEqual([
+      PriceSourceName.BINANCE,
+    ]);
+    // A single source cannot be cross-checked
+    expect(result.confidence).toBeLessThan(0.5);
+  });
+
+  it("weights sources by priority and liquidity", () => {
+    const sources = {
+      [PriceSourceName.BINANCE]: entry(1.0),
+      [PriceSourceName.BYBIT]: entry(1.01),
+    };
+
+    const byPriority = calculateConsensusPrice(priceData(sources), {
+      sourcePriorities: {
+        [PriceSourceName.BINANCE]: 1,
+        [PriceSourceName.BYBIT]: 2,
+      },
+    });
+    expect(byPriority.price).toBe(1.0);
+
+    const byLiquidity = calculateConsensusPrice(priceData(sources), {
+      sourcePriorities: {
+        [PriceSourceName.BINANCE]: 1,
+        [PriceSourceName.BYBIT]: 1,
+      },
+      liquidityUsd: {
+        [PriceSourceName.BINANCE]: 10_000,
+        [PriceSourceName.BYBIT]: 1_000_000,
+      },
+    });
+    expect(byLiquidity.price).toBe(1.01);
+  });
+
+  it("returns a null price without fresh sources", () => {
+    const result = calculateConsensusPrice(
+      priceData({ [PriceSourceName.BYBIT]: entry(null, "rate_limited") }),
+    );
+
+    expect(result.price).toBeNull();
+    expect(result.confidence).toBe(0);
+  });
+});
+
+describe("comparePriceSources", () => {
+  it("measures differences against the consensus price", () => {
+    const diffs = comparePriceSources(
+      priceData({
+        [PriceSourceName.OKX]: entry(1.2),
+        [PriceSourceName.BINANCE]: entry(1.0),
+        [PriceSourceName.BYBIT]: entry(1.0),
+        [PriceSourceName.BITGET]: entry(1.0),
+      }),
+    );
+
+    const okx = diffs.find(({ source }) => source === PriceSourceName.OKX);
+    expect(okx?.percentageDiff).toBeCloseTo(20, 10);
+    expect(
+      diffs.find(({ source }) => source === PriceSourceName.BINANCE)
+        ?.percentageDiff,
+    ).toBe(0);
+  });
+});
+
+describe("getConsensusPrice", () => {
+  it("weights sources by the priorities of the given config", () => {
+    const data = priceData({
+      [PriceSourceName.BINANCE]: entry(1.0),
+      [PriceSourceName.OKX]: entry(1.2),
+    });
+    const config = {
+      sources: {
+        ...DEFAULT_CONFIG.sources,
+        [PriceSourceName.BINANCE]: {
+          name: PriceSourceName.BINANCE,
+          enabled: true,
+          priority: 1,
+        },
+        [PriceSourceName.OKX]: {
+          name: PriceSourceName.OKX,
+          enabled: true,
+          priority: 5,
+        },
+      },
+    };
+
+    expect(getConsensusPrice(data).price).toBe(1.2);
+    expect(getConsensusPrice(data, {}, config).price).toBe(1.0);
+    expect(
+      comparePriceSources(data, {}, config).find(
+        ({ source }) => source === PriceSourceName.OKX,
+      )?.percentageDiff,
+    ).toBeCloseTo(20, 10);
+  });
+});
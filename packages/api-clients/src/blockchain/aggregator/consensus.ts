@@ -0,0 +1,227 @@
+/**
+ * Consensus Price - Robust fair price across price sources
+ *
+ * Combines the fresh prices in MultiSourcePriceData into one reference price.
+ * Sources are weighted by priority and, when known, liquidity. Outliers are
+ * rejected with the modified z-score over the median absolute deviation (MAD).
+ */
+
+import { MultiSourcePriceData } from "../coingecko/types";
+
+export type ConsensusMethod = "weighted_median" | "trimmed_mean";
+
+export interface ConsensusPriceOptions {
+  method?: ConsensusMethod;
+  // Lower number = higher priority, sources without one get the lowest
+  sourcePriorities?: Record<string, number>;
+  // Liquidity behind each source's price, e.g. book depth or pool TVL
+  liquidityUsd?: Record<string, number>;
+  // Modified z-score above which a source is rejected
+  outlierThreshold?: number;
+  // Share of total weight trimmed from each tail by trimmed_mean
+  trimFraction?: number;
+}
+
+export interface ConsensusSourcePrice {
+  source: string;
+  price: number;
+  weight: number; // Normalized across all sources with a price
+  deviationPercent: number; // From the consensus price
+  outlier: boolean;
+}
+
+export interface ConsensusPrice {
+  price: number | null; // null when no source has a fresh price
+  method: ConsensusMethod;
+  confidence: number; // 0-1
+  dispersionPercent: number; // Weighted mean absolute deviation of kept sources
+  sources: ConsensusSourcePrice[];
+  includedSources: string[];
+  rejectedSources: string[];
+}
+
+// Iglewicz and Hoaglin recommend rejecting modified z-scores above 3.5
+const DEFAULT_OUTLIER_THRESHOLD = 3.5;
+const DEFAULT_TRIM_FRACTION = 0.2;
+// Keeps near-identical prices from turning any tiny deviation into an outlier
+const MIN_MAD_FRACTION = 0.0005;
+// Sources needed before outliers can be told apart from disagreement
+const MIN_SOURCES_FOR_OUTLIERS = 3;
+const FULL_CONFIDENCE_SOURCES = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Weighted median, the first price where cumulative weight reaches half
+ */
+export function weightedMedian(
+  points: { price: number; weight: number }[],
+): number {
+  const sorted = [...points].sort((a, b) => a.price - b.price);
+  const half = sorted.reduce((sum, point) => sum + point.weight, 0) / 2;
+
+  let cumulative = 0;
+  for (const point of sorted) {
+    cumulative += point.weight;
+    if (cumulative >= half) return point.price;
+  }
+  return sorted[sorted.length - 1].price;
+}
+
+/**
+ * Weighted mean after trimming trimFraction of the total weight from each tail
+ */
+export function weightedTrimmedMean(
+  points: { price: number; weight: number }[],
+  trimFraction: number,
+): number {
+  const sorted = [...points].sort((a, b) => a.price - b.price);
+  const totalWeight = sorted.reduce((sum, point) => sum + point.weight, 0);
+  const lower = totalWeight * trimFraction;
+  const upper = totalWeight * (1 - trimFraction);
+
+  let cumulative = 0;
+  let weightedSum = 0;
+  let keptWeight = 0;
+  for (const point of sorted) {
+    // Overlap of this point's weight interval with [lower, upper]
+    const start = Math.max(cumulative, lower);
+    const end = Math.min(cumulative + point.weight, upper);
+    if (end > start) {
+      weightedSum += point.price * (end - start);
+      keptWeight += end - start;
+    }
+    cumulative += point.weight;
+  }
+
+  return keptWeight > 0 ? weightedSum / keptWeight : weightedMedian(sorted);
+}
+
+/**
+ * Liquidity factor relative to the median liquidity, clamped to [0.25, 4]
+ */
+function liquidityFactors(
+  sources: string[],
+  liquidityUsd: Record<string, number> = {},
+): Record<string, number> {
+  const known = sources
+    .map((source) => liquidityUsd[source])
+    .filter((liquidity) => liquidity > 0);
+  const reference = known.length ? median(known) : 0;
+
+  return Object.fromEntries(
+    sources.map((source) => {
+      const liquidity = liquidityUsd[source];
+      if (!(liquidity > 0) || !(reference > 0)) return [source, 1];
+      const factor = Math.sqrt(liquidity / reference);
+      return [source, Math.min(4, Math.max(0.25, factor))];
+    }),
+  );
+}
+
+/**
+ * Calculate the consensus price of the sources with a fresh price
+ */
+export function calculateConsensusPrice(
+  multiSourceData: MultiSourcePriceData,
+  options: ConsensusPriceOptions = {},
+): ConsensusPrice {
+  const {
+    method = "weighted_median",
+    sourcePriorities = {},
+    liquidityUsd,
+    outlierThreshold = DEFAULT_OUTLIER_THRESHOLD,
+    trimFraction = DEFAULT_TRIM_FRACTION,
+  } = options;
+
+  // Failed and stale sources carry no comparable price
+  const prices = Object.entries(multiSourceData.sources)
+    .filter(
+      ([, entry]) =>
+        entry.status === "ok" &&
+        entry.currentPrice !== null &&
+        entry.currentPrice > 0,
+    )
+    .map(([source, entry]) => ({ source, price: entry.currentPrice! }));
+
+  if (!prices.length) {
+    return {
+      price: null,
+      method,
+      confidence: 0,
+      dispersionPercent: 0,
+      sources: [],
+      includedSources: [],
+      rejectedSources: [],
+    };
+  }
+
+  const names = prices.map(({ source }) => source);
+  const lowestPriority = Math.max(1, ...Object.values(sourcePriorities)) + 1;
+  const liquidity = liquidityFactors(names, liquidityUsd);
+  const rawWeights = prices.map(
+    ({ source }) =>
+      liquidity[source] / (sourcePriorities[source] ?? lowestPriority),
+  );
+  const totalRawWeight = rawWeights.reduce((sum, weight) => sum + weight, 0);
+
+  // Modified z-score against the unweighted median
+  const center = median(prices.map(({ price }) => price));
+  const mad = Math.max(
+    median(prices.map(({ price }) => Math.abs(price - center))),
+    center * MIN_MAD_FRACTION,
+  );
+  const canRejectOutliers = prices.length >= MIN_SOURCES_FOR_OUTLIERS;
+
+  const weighted = prices.map(({ source, price }, index) => ({
+    source,
+    price,
+    weight: rawWeights[index] / totalRawWeight,
+    outlier:
+      canRejectOutliers &&
+      (0.6745 * Math.abs(price - center)) / mad > outlierThreshold,
+  }));
+
+  const kept = weighted.filter((point) => !point.outlier);
+  const consensus =
+    method === "trimmed_mean"
+      ? weightedTrimmedMean(kept, trimFraction)
+      : weightedMedian(kept);
+
+  const keptWeight = kept.reduce((sum, point) => sum + point.weight, 0);
+  const dispersionPercent =
+    (kept.reduce(
+      (sum, point) => sum + point.weight * Math.abs(point.price - consensus),
+      0,
+    ) /
+      keptWeight /
+      consensus) *
+    100;
+
+  // More agreeing sources and less rejected weight raise confidence
+  const coverage = Math.min(1, kept.length / FULL_CONFIDENCE_SOURCES);
+  const agreement = Math.exp(-dispersionPercent);
+  const confidence = coverage * agreement * keptWeight;
+
+  return {
+    price: consensus,
+    method,
+    confidence: Math.round(confidence * 1000) / 1000,
+    dispersionPercent,
+    sources: weighted.map(({ source, price, weight, outlier }) => ({
+      source,
+      price,
+      weight,
+      deviationPercent: ((price - consensus) / consensus) * 100,
+      outlier,
+    })),
+    includedSources: kept.map(({ source }) => source),
+    rejectedSources: weighted
+      .filter((point) => point.outlier)
+      .map(({ source }) => source),
+  };
+}
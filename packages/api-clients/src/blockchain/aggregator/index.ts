@@ -20,6 +20,70 @@ export {
   getCurrentTokenPrice,
   getHistoricalTokenPrices,
   comparePriceSources,
+  extractCurrentPrices,
+  extractHistoricalPrices,
+  getPriceSourceStatuses,
+  getSourcePriorities,
+  getConsensusPrice,
   DEFAULT_CONFIG,
 } from "./priceAggregator";
 export type { PriceSource, PriceAggregatorConfig } from "./priceAggregator";
+
+// Price source provider registry exports
+export {
+  registerPriceSourceProvider,
+  unregisterPriceSourceProvider,
+  getPriceSourceProvider,
+  getPriceSourceProviders,
+  fetchPriceSourceData,
+} from "./priceSources";
+export type {
+  PriceSourceProvider,
+  PriceSourceToken,
+  PriceSourceFetchOptions,
+  PriceSourceData,
+} from "./priceSources";
+export { BUILT_IN_PRICE_SOURCE_PROVIDERS } from "./providers";
+export {
+  PriceSourceError,
+  classifyPriceSourceError,
+} from "./priceSourceErrors";
+export type { PriceSourceFailureStatus } from "./priceSourceErrors";
+
+// Consensus price exports
+export {
+  calculateConsensusPrice,
+  weightedMedian,
+  weightedTrimmedMean,
+} from "./consensus";
+export type {
+  ConsensusMethod,
+  ConsensusPriceOptions,
+  ConsensusSourcePrice,
+  ConsensusPrice,
+} from "./consensus";
+
+// Price history resampling exports
+export {
+  parseResampleInterval,
+  getDefaultResampleInterval,
+  resamplePriceSeries,
+  alignPriceHistories,
+  calculateSpreadSeries,
+  MAX_RESAMPLE_POINTS,
+  ResampleIntervalError,
+} from "./resample";
+export type {
+  ResampleFillPolicy,
+  ResampleOptions,
+  AlignedPriceHistory,
+  SpreadPoint,
+} from "./resample";
+
+// Spread statistics exports
+export {
+  calculateSpreadStats,
+  calculatePairwiseSpreadStats,
+  calculateHalfLife,
+} from "./spreadStats";
+export type { SpreadStatsOptions, SpreadStats } from "./spreadStats";
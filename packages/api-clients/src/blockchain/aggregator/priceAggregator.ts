@@ -2,40 +2,38 @@
  * Price Aggregator - Multi-source Token Price Data
  *
  * Aggregates price data from multiple sources (CoinGecko, Bybit, OKX Dex, etc.)
- * to provide comprehensive price information for tokens.
+ * to provide comprehensive price information for tokens. Sources are resolved
+ * through the price source provider registry, see ./priceSources.
  */
 
-import { getTokenFullPriceData } from "../coingecko";
-import { PriceDataPoint, MultiSourcePriceData } from "../coingecko/types";
+import {
+  PriceDataPoint,
+  MultiSourcePriceData,
+  PriceSourceEntry,
+} from "../coingecko/types";
 import { PriceSourceName } from "../coingecko/types";
+import { fetchPriceSourceData, getPriceSourceProvider } from "./priceSources";
+import { classifyPriceSourceError } from "./priceSourceErrors";
 import {
-  getOkxDexCandles,
-  convertOkxCandlesToPriceData,
-  OKX_DEX_CHAIN_INDEX,
-} from "../okexchange/dex";
-import { OkxDexCandleData } from "../okexchange/types";
-import { getBybitKlineForDays } from "../bybit/perp";
-import { getMarkPriceWithHistory as getBinanceMarkPriceWithHistory } from "../binance/perp";
-import { getMarkPriceWithHistory as getBitgetMarkPriceWithHistory } from "../bitget/perp/markPrice";
+  calculateConsensusPrice,
+  ConsensusPrice,
+  ConsensusPriceOptions,
+} from "./consensus";
 import logger from "../../common/logger";
 
 export interface PriceSource {
-  name: PriceSourceName;
+  name: string; // A PriceSourceName or the name of a registered provider
   enabled: boolean;
   priority: number; // Lower number = higher priority
 }
 
 export interface PriceAggregatorConfig {
-  sources: {
-    [PriceSourceName.COINGECKO]: PriceSource;
-    [PriceSourceName.BYBIT]: PriceSource;
-    [PriceSourceName.OKX]: PriceSource;
-    [PriceSourceName.BINANCE]: PriceSource;
-    [PriceSourceName.BITGET]: PriceSource;
-    // Add more sources as needed
-  };
+  // Only sources listed and enabled here are queried, registered or built in
+  sources: Record<string, PriceSource>;
   defaultDays: number;
   defaultCurrency: string;
+  // Prices whose latest data point is older than this are marked stale
+  staleAfterMs: number;
 }
 
 export const DEFAULT_CONFIG: PriceAggregatorConfig = {
@@ -68,585 +66,125 @@ export const DEFAULT_CONFIG: PriceAggregatorConfig = {
   },
   defaultDays: 1,
   defaultCurrency: "usd",
+  staleAfterMs: 10 * 60 * 1000,
 };
 
 /**
- * Get Bybit price data
- * Use mark price K-line data, which is the standard way to get current price in perpetual contracts
+ * Resolve enabled sources from config, unlisted providers stay off
  */
-async function fetchBybitPriceData(
-  tokenAddress: string,
-  days: number,
-  tokenSymbol?: string, // New: optional token symbol parameter
-): Promise<{
-  currentPrice: number;
-  historicalData: Array<{ timestamp: number; price: number; source: string }>;
-}> {
-  try {
-    logger.info("[PriceAggregator] Fetching Bybit price data", {
-      tokenAddress,
-      days,
-      tokenSymbol,
-    });
-
-    // Prioritize using passed symbol, if not available try to parse
-    let bybitSymbol: string | null = null;
-
-    if (!tokenSymbol) {
-      logger.error("[PriceAggregator] No token symbol provided", {
-        tokenAddress,
-      });
-      return {
-        currentPrice: 0,
-        historicalData: [],
-      };
-    }
-
-    bybitSymbol = `${tokenSymbol}USDT`;
-    logger.info("[PriceAggregator] Using provided symbol", {
-      tokenAddress,
-      tokenSymbol,
-      bybitSymbol,
-    });
-
-    // Get K-line data
-    const klineData = await getBybitKlineForDays(bybitSymbol, days, "1");
-
-    if (!klineData.length) {
-      logger.warn("[PriceAggregator] No Bybit kline data available", {
-        tokenAddress,
-        bybitSymbol,
-      });
-      return {
-        currentPrice: 0,
-        historicalData: [],
-      };
-    }
-
-    // Get current price - use latest mark price K-line closing price
-    // Bybit already uses getMarkPriceKline API, so the closing price here is the current price of perpetual contract
-    const currentPrice = klineData[klineData.length - 1]?.price || 0;
-
-    logger.info("[PriceAggregator] Bybit data fetched successfully", {
-      tokenAddress,
-      bybitSymbol,
-      dataPoints: klineData.length,
-      currentPrice,
-    });
-
-    return {
-      currentPrice,
-      historicalData: klineData,
-    };
-  } catch (error) {
-    logger.error("[PriceAggregator] Bybit fetch failed", {
-      tokenAddress,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    return {
-      currentPrice: 0,
-      historicalData: [],
-    };
-  }
+function getEnabledSources(config: PriceAggregatorConfig): PriceSource[] {
+  return Object.entries(config.sources)
+    .map(([name, source]) => ({ ...source, name }))
+    .filter((source) => source.enabled)
+    .sort((a, b) => a.priority - b.priority);
 }
 
 /**
- * Get OKX Dex paginated price data
+ * Get multi-source price data for token
  */
-async function fetchOkxDexPriceData(
+export async function getMultiSourceTokenPrice(
   tokenAddress: string,
-  days: number,
-): Promise<{
-  currentPrice: number;
-  historicalData: Array<{ timestamp: number; price: number; source: string }>;
-}> {
-  const chainIndex = OKX_DEX_CHAIN_INDEX; // Fixed to use BSC
-
-  // Calculate required data amount
-  const totalMinutes = days * 1440; // Maximum 1440 1-minute K-lines per day
-  const maxLimitPerRequest = 299; // Maximum limit per request for OKX API
-
-  // Calculate how many requests needed
-  const numRequests = Math.ceil(totalMinutes / maxLimitPerRequest);
+  tokenSymbol: string, // New: optional token symbol parameter
+  platform: string = "ethereum",
+  config: Partial<PriceAggregatorConfig> = {},
+): Promise<MultiSourcePriceData> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const enabledSources = getEnabledSources(finalConfig);
+  const token = { address: tokenAddress, symbol: tokenSymbol, platform };
+  const options = {
+    days: finalConfig.defaultDays,
+    currency: finalConfig.defaultCurrency,
+  };
 
-  logger.info("[PriceAggregator] OKX Dex pagination calculation", {
+  logger.info("[PriceAggregator] Fetching multi-source price data", {
     tokenAddress,
-    totalMinutes,
-    maxLimitPerRequest,
-    numRequests,
+    platform,
+    enabledSources: enabledSources.map(({ name }) => name),
   });
 
-  // Paginate to get all data
-  const allCandlesData: OkxDexCandleData[] = [];
-  let after: string | undefined; // Timestamp for pagination
-  let remainingMinutes = totalMinutes; // Track remaining minutes to fetch
-
-  for (let i = 0; i < numRequests; i++) {
-    const limit = Math.min(maxLimitPerRequest, remainingMinutes);
-
-    if (limit <= 0) break;
-
-    logger.debug("[PriceAggregator] OKX Dex making request", {
-      tokenAddress,
-      requestIndex: i + 1,
-      numRequests,
-      limit,
-      remainingMinutes,
-      after: after || "latest",
-    });
-
-    const candlesData = await getOkxDexCandles({
-      chainIndex,
-      tokenContractAddress: tokenAddress,
-      bar: "1m",
-      limit,
-      after, // Use before parameter for pagination
-    });
-
-    if (candlesData?.length) {
-      allCandlesData.push(...candlesData);
-
-      // Update remaining minutes (based on actual data points fetched)
-      remainingMinutes -= candlesData.length;
-
-      // Set before parameter for next request (using earliest timestamp)
-      const earliestTimestamp = Math.min(
-        ...candlesData.map((candle) => Number(candle.ts)),
-      );
-      after = earliestTimestamp.toString();
-
-      logger.debug("[PriceAggregator] OKX Dex request completed", {
-        tokenAddress,
-        requestIndex: i + 1,
-        dataReceived: candlesData.length,
-        totalDataSoFar: allCandlesData.length,
-        remainingMinutes,
-        nextAfter: after,
-      });
-    } else {
-      // If no more data, exit loop
-      logger.debug("[PriceAggregator] OKX Dex no more data available", {
-        tokenAddress,
-        requestIndex: i + 1,
-      });
-      break;
-    }
+  const sources: MultiSourcePriceData["sources"] = {};
 
-    // Add delay to avoid API limits
-    if (i < numRequests - 1) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+  // Parallel fetch from all enabled data sources
+  const promises = enabledSources.map(async ({ name: sourceName }) => {
+    const provider = getPriceSourceProvider(sourceName);
+    if (!provider) {
+      logger.warn("[PriceAggregator] Unknown source", { sourceName });
+      return;
     }
-  }
 
-  if (!allCandlesData.length) {
-    return {
-      currentPrice: 0,
+    const startedAt = Date.now();
+    const failedEntry = (
+      status: PriceSourceEntry["status"],
+      error: string,
+    ): PriceSourceEntry => ({
+      status,
+      currentPrice: null,
+      lastUpdated: new Date().toISOString(),
       historicalData: [],
-    };
-  }
-
-  // Sort by timestamp (earliest to latest)
-  allCandlesData.sort((a, b) => Number(a.ts) - Number(b.ts));
-
-  const priceData = convertOkxCandlesToPriceData(allCandlesData);
-
-  return {
-    currentPrice: priceData[priceData.length - 1]?.price || 0,
-    historicalData: priceData,
-  };
-}
-
-/**
- * Get Binance price data
- */
-async function fetchBinancePriceData(
-  tokenAddress: string,
-  days: number,
-  tokenSymbol?: string,
-): Promise<{
-  currentPrice: number;
-  historicalData: Array<{
-    timestamp: number;
-    price: number;
-    source: string;
-  }>;
-}> {
-  try {
-    logger.info("[PriceAggregator] Fetching Binance price data", {
-      tokenAddress,
-      days,
-      tokenSymbol,
+      error,
+      latencyMs: Date.now() - startedAt,
+      dataTimestamp: null,
+      dataAgeMs: null,
     });
 
-    if (!tokenSymbol) {
-      logger.error("[PriceAggregator] No token symbol provided for Binance", {
+    if (!provider.supports(token)) {
+      logger.info("[PriceAggregator] Source does not support token", {
+        sourceName,
         tokenAddress,
+        tokenSymbol,
       });
-      return {
-        currentPrice: 0,
-        historicalData: [],
-      };
-    }
-
-    const binanceSymbol = `${tokenSymbol}USDT`;
-    logger.info("[PriceAggregator] Using Binance symbol", {
-      tokenAddress,
-      tokenSymbol,
-      binanceSymbol,
-    });
-
-    // Get current price and historical data (single API call)
-    let currentPrice: number;
-    let historicalData: Array<{
-      timestamp: number;
-      price: number;
-      source: string;
-    }> = [];
-
-    try {
-      // Use new getMarkPriceWithHistory method to get current price and historical data in one call
-      const binanceData = await getBinanceMarkPriceWithHistory(
-        binanceSymbol,
-        days,
+      sources[sourceName] = failedEntry(
+        "unsupported_symbol",
+        `${sourceName} does not support ${tokenSymbol}`,
       );
-      if (binanceData && binanceData.history && binanceData.history.length) {
-        // Directly use closing price of latest K-line data as current price, just like bybit
-        currentPrice =
-          binanceData.history[binanceData.history.length - 1]?.price || 0;
-        historicalData = binanceData.history;
-      } else {
-        // If no historical data, return 0
-        currentPrice = 0;
-        historicalData = [];
-      }
-    } catch (historyError) {
-      logger.warn("[PriceAggregator] Failed to fetch Binance data", {
-        tokenAddress,
-        binanceSymbol,
-        error:
-          historyError instanceof Error
-            ? historyError.message
-            : String(historyError),
-      });
-      // If data fetch fails, return 0
-      currentPrice = 0;
-      historicalData = [];
+      return;
     }
 
-    logger.info("[PriceAggregator] Binance data fetched successfully", {
-      tokenAddress,
-      binanceSymbol,
-      currentPrice,
-      historicalDataLength: historicalData.length,
-    });
+    try {
+      const { currentPrice, lastUpdated, historicalData } =
+        await fetchPriceSourceData(provider, token, options);
 
-    return {
-      currentPrice,
-      historicalData,
-    };
-  } catch (error) {
-    logger.error("[PriceAggregator] Binance fetch failed", {
-      tokenAddress,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    return {
-      currentPrice: 0,
-      historicalData: [],
-    };
-  }
-}
+      const now = Date.now();
+      const dataTimestamp =
+        historicalData[historicalData.length - 1]?.timestamp ??
+        new Date(lastUpdated).getTime();
+      const dataAgeMs = Math.max(0, now - dataTimestamp);
+      const isStale = dataAgeMs > finalConfig.staleAfterMs;
 
-/**
- * Get Bitget price data
- * Use getMarkPriceWithHistory function from markPrice.ts to get mark price data
- */
-async function fetchBitgetPriceData(
-  tokenAddress: string,
-  days: number,
-  tokenSymbol?: string,
-): Promise<{
-  currentPrice: number;
-  historicalData: Array<{
-    timestamp: number;
-    price: number;
-    source: string;
-  }>;
-}> {
-  try {
-    logger.info("[PriceAggregator] Fetching Bitget price data", {
-      tokenAddress,
-      days,
-      tokenSymbol,
-    });
-
-    if (!tokenSymbol) {
-      logger.error("[PriceAggregator] No token symbol provided for Bitget", {
+      logger.info("[PriceAggregator] Source data fetched successfully", {
+        sourceName,
         tokenAddress,
+        dataPoints: historicalData.length,
+        currentPrice,
+        dataAgeMs,
       });
-      return {
-        currentPrice: 0,
-        historicalData: [],
-      };
-    }
 
-    const bitgetSymbol = `${tokenSymbol}USDT`;
-    logger.info("[PriceAggregator] Using Bitget symbol", {
-      tokenAddress,
-      tokenSymbol,
-      bitgetSymbol,
-    });
-
-    // Use getMarkPriceWithHistory function from markPrice.ts to get data
-    const bitgetData = await getBitgetMarkPriceWithHistory(bitgetSymbol, days);
-
-    if (!bitgetData?.history?.length) {
-      logger.warn("[PriceAggregator] No Bitget mark price data available", {
-        tokenAddress,
-        bitgetSymbol,
-      });
-      return {
-        currentPrice: 0,
-        historicalData: [],
+      sources[sourceName] = {
+        status: isStale ? "stale" : "ok",
+        currentPrice,
+        lastUpdated,
+        historicalData,
+        ...(isStale && {
+          error: `Latest data point is ${Math.round(dataAgeMs / 60000)} minutes old`,
+        }),
+        latencyMs: now - startedAt,
+        dataTimestamp,
+        dataAgeMs,
       };
-    }
-
-    // Use latest mark price as current price
-    const currentPrice =
-      bitgetData.currentPrice ||
-      bitgetData.history[bitgetData.history.length - 1]?.price ||
-      0;
-
-    // Convert historical data format
-    const historicalData = bitgetData.history.map((item) => ({
-      timestamp: Number(item.timestamp),
-      price: item.price,
-      source: item.source,
-    }));
-
-    logger.info("[PriceAggregator] Bitget data fetched successfully", {
-      tokenAddress,
-      bitgetSymbol,
-      currentPrice,
-      dataPoints: historicalData.length,
-    });
-
-    return {
-      currentPrice,
-      historicalData,
-    };
-  } catch (error) {
-    logger.error("[PriceAggregator] Bitget fetch failed", {
-      tokenAddress,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    return {
-      currentPrice: 0,
-      historicalData: [],
-    };
-  }
-}
-
-/**
- * Get multi-source price data for token
- */
-export async function getMultiSourceTokenPrice(
-  tokenAddress: string,
-  tokenSymbol: string, // New: optional token symbol parameter
-  platform: string = "ethereum",
-  config: Partial<PriceAggregatorConfig> = {},
-): Promise<MultiSourcePriceData> {
-  const finalConfig = { ...DEFAULT_CONFIG, ...config };
-  const enabledSources = Object.entries(finalConfig.sources)
-    .filter(([_, source]) => source.enabled)
-    .sort(([_, a], [__, b]) => a.priority - b.priority);
-
-  logger.info("[PriceAggregator] Fetching multi-source price data", {
-    tokenAddress,
-    platform,
-    enabledSources: enabledSources.map(([name]) => name),
-  });
-
-  const sources: MultiSourcePriceData["sources"] = {};
-
-  // Parallel fetch from all enabled data sources
-  const promises = enabledSources.map(async ([sourceName]) => {
-    try {
-      switch (sourceName) {
-        case PriceSourceName.COINGECKO: {
-          const coingeckoData = await getTokenFullPriceData(
-            platform,
-            tokenAddress,
-            finalConfig.defaultDays,
-            finalConfig.defaultCurrency,
-          );
-
-          if (coingeckoData) {
-            sources[PriceSourceName.COINGECKO] = {
-              currentPrice: coingeckoData.currentPrice,
-              lastUpdated: coingeckoData.lastUpdated,
-              historicalData: coingeckoData.historicalData?.map((point) => ({
-                timestamp: point.timestamp,
-                price: point.price,
-                source: "coingecko",
-              })),
-            };
-          }
-          break;
-        }
-
-        case PriceSourceName.BYBIT: {
-          try {
-            const { currentPrice, historicalData } = await fetchBybitPriceData(
-              tokenAddress,
-              finalConfig.defaultDays,
-              tokenSymbol,
-            );
-
-            logger.info("[PriceAggregator] Bybit data fetched successfully", {
-              tokenAddress,
-              dataPoints: historicalData.length,
-              currentPrice: currentPrice,
-            });
-
-            sources[PriceSourceName.BYBIT] = {
-              currentPrice: currentPrice,
-              lastUpdated: new Date().toISOString(),
-              historicalData: historicalData,
-            };
-          } catch (error) {
-            logger.error("[PriceAggregator] Bybit fetch failed", {
-              tokenAddress,
-              platform,
-              error: error instanceof Error ? error.message : String(error),
-            });
-
-            // Set error state but don't block other data sources
-            sources[PriceSourceName.BYBIT] = {
-              currentPrice: 0,
-              lastUpdated: new Date().toISOString(),
-              historicalData: [],
-            };
-          }
-          break;
-        }
-
-        case PriceSourceName.OKX: {
-          try {
-            const { currentPrice, historicalData } = await fetchOkxDexPriceData(
-              tokenAddress,
-              finalConfig.defaultDays,
-            );
-
-            logger.info("[PriceAggregator] OKX Dex data fetched successfully", {
-              tokenAddress,
-              dataPoints: historicalData.length,
-              currentPrice: currentPrice,
-            });
-
-            sources[PriceSourceName.OKX] = {
-              currentPrice: currentPrice,
-              lastUpdated: new Date().toISOString(),
-              historicalData: historicalData,
-            };
-          } catch (error) {
-            logger.error("[PriceAggregator] OKX Dex fetch failed", {
-              tokenAddress,
-              platform,
-              error: error instanceof Error ? error.message : String(error),
-            });
-
-            // Set error state but don't block other data sources
-            sources[PriceSourceName.OKX] = {
-              currentPrice: 0,
-              lastUpdated: new Date().toISOString(),
-              historicalData: [],
-            };
-          }
-          break;
-        }
-
-        case PriceSourceName.BINANCE: {
-          try {
-            const { currentPrice, historicalData } =
-              await fetchBinancePriceData(
-                tokenAddress,
-                finalConfig.defaultDays,
-                tokenSymbol,
-              );
-
-            logger.info("[PriceAggregator] Binance data fetched successfully", {
-              tokenAddress,
-              dataPoints: historicalData.length,
-              currentPrice: currentPrice,
-            });
-
-            sources[PriceSourceName.BINANCE] = {
-              currentPrice: currentPrice,
-              lastUpdated: new Date().toISOString(),
-              historicalData: historicalData,
-            };
-          } catch (error) {
-            logger.error("[PriceAggregator] Binance fetch failed", {
-              tokenAddress,
-              platform,
-              error: error instanceof Error ? error.message : String(error),
-            });
-
-            // Set error state but don't block other data sources
-            sources[PriceSourceName.BINANCE] = {
-              currentPrice: 0,
-              lastUpdated: new Date().toISOString(),
-              historicalData: [],
-            };
-          }
-          break;
-        }
-
-        case PriceSourceName.BITGET: {
-          try {
-            const { currentPrice, historicalData } = await fetchBitgetPriceData(
-              tokenAddress,
-              finalConfig.defaultDays,
-              tokenSymbol,
-            );
-
-            logger.info("[PriceAggregator] Bitget data fetched successfully", {
-              tokenAddress,
-              dataPoints: historicalData.length,
-              currentPrice: currentPrice,
-            });
-
-            sources[PriceSourceName.BITGET] = {
-              currentPrice: currentPrice,
-              lastUpdated: new Date().toISOString(),
-              historicalData: historicalData,
-            };
-          } catch (error) {
-            logger.error("[PriceAggregator] Bitget fetch failed", {
-              tokenAddress,
-              platform,
-              error: error instanceof Error ? error.message : String(error),
-            });
-
-            // Set error state but don't block other data sources
-            sources[PriceSourceName.BITGET] = {
-              currentPrice: 0,
-              lastUpdated: new Date().toISOString(),
-              historicalData: [],
-            };
-          }
-          break;
-        }
-
-        default:
-          logger.warn("[PriceAggregator] Unknown source", { sourceName });
-      }
     } catch (error) {
+      const status = classifyPriceSourceError(error);
+      const message = error instanceof Error ? error.message : String(error);
+
       logger.error("[PriceAggregator] Error fetching from source", {
         sourceName,
         tokenAddress,
-        error: error instanceof Error ? error.message : String(error),
+        platform,
+        status,
+        error: message,
       });
+
+      // Record the failure but don't block other data sources
+      sources[sourceName] = failedEntry(status, message);
     }
   });
 
@@ -660,7 +198,9 @@ export async function getMultiSourceTokenPrice(
   logger.info("[PriceAggregator] Completed multi-source price fetch", {
     tokenAddress,
     sourcesCount: Object.keys(sources).length,
-    sources: Object.keys(sources),
+    statuses: Object.fromEntries(
+      Object.entries(sources).map(([name, entry]) => [name, entry.status]),
+    ),
   });
 
   return result;
@@ -682,13 +222,7 @@ export async function getCurrentTokenPrice(
     config,
   );
 
-  const currentPrices: { [source: string]: number } = {};
-
-  Object.entries(multiSourceData.sources).forEach(([source, data]) => {
-    currentPrices[source] = data.currentPrice;
-  });
-
-  return currentPrices;
+  return extractCurrentPrices(multiSourceData);
 }
 
 /**
@@ -707,10 +241,38 @@ export async function getHistoricalTokenPrices(
     config,
   );
 
+  return extractHistoricalPrices(multiSourceData);
+}
+
+/**
+ * Current prices of sources with a fresh price, failed and stale sources are left out
+ */
+export function extractCurrentPrices(multiSourceData: MultiSourcePriceData): {
+  [source: string]: number;
+} {
+  const currentPrices: { [source: string]: number } = {};
+
+  Object.entries(multiSourceData.sources).forEach(([source, data]) => {
+    if (data.status === "ok" && data.currentPrice !== null) {
+      currentPrices[source] = data.currentPrice;
+    }
+  });
+
+  return currentPrices;
+}
+
+/**
+ * Historical prices of sources that returned any data, including stale ones
+ */
+export function extractHistoricalPrices(
+  multiSourceData: MultiSourcePriceData,
+): {
+  [source: string]: PriceDataPoint[];
+} {
   const historicalData: { [source: string]: PriceDataPoint[] } = {};
 
   Object.entries(multiSourceData.sources).forEach(([source, data]) => {
-    if (data.historicalData) {
+    if (data.historicalData?.length) {
       historicalData[source] = data.historicalData;
     }
   });
@@ -718,37 +280,80 @@ export async function getHistoricalTokenPrices(
   return historicalData;
 }
 
+/**
+ * Per-source status summary without the price payload
+ */
+export function getPriceSourceStatuses(multiSourceData: MultiSourcePriceData): {
+  [source: string]: Omit<PriceSourceEntry, "currentPrice" | "historicalData">;
+} {
+  return Object.fromEntries(
+    Object.entries(multiSourceData.sources).map(
+      ([
+        source,
+        { currentPrice: _price, historicalData: _history, ...status },
+      ]) => [source, status],
+    ),
+  );
+}
+
+/**
+ * Source priorities from config, enabled or not
+ */
+export function getSourcePriorities(
+  config: PriceAggregatorConfig = DEFAULT_CONFIG,
+): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(config.sources).map(([name, source]) => [
+      name,
+      source.priority,
+    ]),
+  );
+}
+
+/**
+ * Get the consensus price of the fresh sources, see ./consensus
+ *
+ * Ties are broken by the priorities of the config the data was fetched with.
+ */
+export function getConsensusPrice(
+  multiSourceData: MultiSourcePriceData,
+  options: ConsensusPriceOptions = {},
+  config: Partial<PriceAggregatorConfig> = {},
+): ConsensusPrice {
+  return calculateConsensusPrice(multiSourceData, {
+    sourcePriorities: getSourcePriorities({ ...DEFAULT_CONFIG, ...config }),
+    ...options,
+  });
+}
+
 /**
  * Compare price differences between different data sources
+ *
+ * Differences are measured against the consensus price. Outliers rejected
+ * from the consensus are still listed with their difference.
  */
-export function comparePriceSources(multiSourceData: MultiSourcePriceData): {
+export function comparePriceSources(
+  multiSourceData: MultiSourcePriceData,
+  options: ConsensusPriceOptions = {},
+  config: Partial<PriceAggregatorConfig> = {},
+): {
   source: string;
   price: number;
   difference: number;
   percentageDiff: number;
 }[] {
-  const prices = Object.entries(multiSourceData.sources).map(
-    ([source, data]) => ({
-      source,
-      price: data.currentPrice,
-    }),
+  // Only fresh prices are comparable, failed sources would show as -100%
+  const prices = Object.entries(extractCurrentPrices(multiSourceData)).map(
+    ([source, price]) => ({ source, price }),
   );
 
-  if (prices.length < 2) {
-    return prices.map((p) => ({
-      ...p,
-      difference: 0,
-      percentageDiff: 0,
-    }));
-  }
-
-  // Use first price as benchmark
-  const basePrice = prices[0].price;
+  const basePrice =
+    getConsensusPrice(multiSourceData, options, config).price ?? 0;
 
   return prices.map(({ source, price }) => ({
     source,
     price,
-    difference: price - basePrice,
+    difference: basePrice > 0 ? price - basePrice : 0,
     percentageDiff: basePrice > 0 ? ((price - basePrice) / basePrice) * 100 : 0,
   }));
 }
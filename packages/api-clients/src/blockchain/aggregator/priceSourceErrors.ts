@@ -0,0 +1,41 @@
+/**
+ * Price Source Errors - Failure statuses reported by price source providers
+ */
+
+import { isRateLimitError } from "../../common/errors";
+import { PriceSourceStatus } from "../coingecko/types";
+
+export type PriceSourceFailureStatus = Exclude<
+  PriceSourceStatus,
+  "ok" | "stale"
+>;
+
+/**
+ * Thrown by providers to report a specific failure status to the aggregator
+ */
+export class PriceSourceError extends Error {
+  constructor(
+    public readonly status: PriceSourceFailureStatus,
+    message: string,
+  ) {
+    super(message);
+    this.name = "PriceSourceError";
+  }
+}
+
+/**
+ * Map a provider failure to a source status, recognising HTTP 429 responses
+ */
+export function classifyPriceSourceError(
+  error: unknown,
+): PriceSourceFailureStatus {
+  if (error instanceof PriceSourceError) {
+    return error.status;
+  }
+
+  if (isRateLimitError(error)) {
+    return "rate_limited";
+  }
+
+  return "error";
+}
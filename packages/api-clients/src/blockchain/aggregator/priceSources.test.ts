@@ -0,0 +1,231 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import {
+  comparePriceSources,
+  DEFAULT_CONFIG,
+  getMultiSourceTokenPrice,
+} from "./priceAggregator";
+import { PriceSourceError } from "./priceSourceErrors";
+import {
+  getPriceSourceProvider,
+  getPriceSourceProviders,
+  PriceSourceProvider,
+  registerPriceSourceProvider,
+  unregisterPriceSourceProvider,
+} from "./priceSources";
+
+// Built-in sources stay disabled so no venue is called over the network
+const OFFLINE_CONFIG = {
+  ...DEFAULT_CONFIG,
+  sources: Object.fromEntries(
+    Object.entries(DEFAULT_CONFIG.sources).map(([name, source]) => [
+      name,
+      { ...source, enabled: false },
+    ]),
+  ),
+};
+
+// Switch on registered providers next to the disabled built-in sources
+function withSources(...names: string[]) {
+  return {
+    ...OFFLINE_CONFIG,
+    sources: {
+      ...OFFLINE_CONFIG.sources,
+      ...Object.fromEntries(
+        names.map((name, index) => [
+          name,
+          { name, enabled: true, priority: 10 + index },
+        ]),
+      ),
+    },
+  };
+}
+
+function fakeProvider(
+  name: string,
+  price: number,
+  overrides: Partial<PriceSourceProvider> = {},
+): PriceSourceProvider {
+  return {
+    name,
+    supports: () => true,
+    fetchCurrent: vi.fn(async () => price),
+    fetchHistory: vi.fn(async () => [
+      { timestamp: Date.now(), price, source: name },
+    ]),
+    ...overrides,
+  };
+}
+
+describe("price source registry", () => {
+  afterEach(() => {
+    unregisterPriceSourceProvider("internal");
+    unregisterPriceSourceProvider("unsupported");
+    unregisterPriceSourceProvider("broken");
+  });
+
+  it("registers the built-in venues", () => {
+    const names = getPriceSourceProviders().map((provider) => provider.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining(Object.values(PriceSourceName)),
+    );
+  });
+
+  it("registers and unregisters providers at runtime", () => {
+    registerPriceSourceProvider(fakeProvider("internal", 1));
+
+    expect(getPriceSourceProvider("internal")?.name).toBe("internal");
+    expect(unregisterPriceSourceProvider("internal")).toBe(true);
+    expect(getPriceSourceProvider("internal")).toBeUndefined();
+    expect(unregisterPriceSourceProvider("internal")).toBe(false);
+  });
+
+  it("queries registered providers listed in the config", async () => {
+    const provider = fakeProvider("internal", 1.25);
+    registerPriceSourceProvider(provider);
+
+    const result = await getMultiSourceTokenPrice(
+      "0xtoken",
+      "PEPE",
+      "ethereum",
+      withSources("internal"),
+    );
+
+    expect(Object.keys(result.sources)).toEqual(["internal"]);
+    expect(result.sources.internal.currentPrice).toBe(1.25);
+    expect(result.sources.internal.historicalData).toHaveLength(1);
+    expect(provider.fetchCurrent).toHaveBeenCalledWith(
+      { address: "0xtoken", symbol: "PEPE", platform: "ethereum" },
+      { days: 1, currency: "usd" },
+    );
+  });
+
+  it("leaves registered providers missing from the config disabled", async () => {
+    const provider = fakeProvider("internal", 1.25);
+    registerPriceSourceProvider(provider);
+
+    const result = await getMultiSourceTokenPrice(
+      "0xtoken",
+      "PEPE",
+      "ethereum",
+      OFFLINE_CONFIG,
+    );
+
+    expect(result.sources).toEqual({});
+    expect(provider.fetchCurrent).not.toHaveBeenCalled();
+  });
+
+  it("honours enabled flags for registered providers", async () => {
+    const provider = fakeProvider("internal", 1);
+    registerPriceSourceProvider(provider);
+
+    const result = await getMultiSourceTokenPrice(
+      "0xtoken",
+      "PEPE",
+      "ethereum",
+      {
+        ...OFFLINE_CONFIG,
+        sources: {
+          ...OFFLINE_CONFIG.sources,
+          internal: { name: "internal", enabled: false, priority: 1 },
+        },
+      },
+    );
+
+    expect(result.sources).toEqual({});
+    expect(provider.fetchCurrent).not.toHaveBeenCalled();
+  });
+
+  it("reports a status for unsupported and failing providers", async () => {
+    registerPriceSourceProvider(fakeProvider("internal", 2));
+    registerPriceSourceProvider(
+      fakeProvider("unsupported", 3, { supports: () => false }),
+    );
+    registerPriceSourceProvider(
+      fakeProvider("broken", 4, {
+        fetchCurrent: async () => {
+          throw new Error("feed down");
+        },
+      }),
+    );
+
+    const result = await getMultiSourceTokenPrice(
+      "0xtoken",
+      "PEPE",
+      "ethereum",
+      withSources("internal", "unsupported", "broken"),
+    );
+
+    expect(result.sources.internal).toMatchObject({
+      status: "ok",
+      currentPrice: 2,
+    });
+    expect(result.sources.internal.dataAgeMs).toBeGreaterThanOrEqual(0);
+    expect(result.sources.unsupported).toMatchObject({
+      status: "unsupported_symbol",
+      currentPrice: null,
+    });
+    expect(result.sources.broken).toMatchObject({
+      status: "error",
+      currentPrice: null,
+      error: "feed down",
+    });
+    expect(result.sources.broken.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("classifies rate limits and stale data", async () => {
+    registerPriceSourceProvider(
+      fakeProvider("unsupported", 1, {
+        fetchCurrent: async () => {
+          throw new PriceSourceError("rate_limited", "429 from feed");
+        },
+      }),
+    );
+    registerPriceSourceProvider(
+      fakeProvider("broken", 1, {
+        fetchHistory: async () => [
+          { timestamp: Date.now() - 60 * 60 * 1000, price: 1, source: "x" },
+        ],
+      }),
+    );
+
+    const result = await getMultiSourceTokenPrice(
+      "0xtoken",
+      "PEPE",
+      "ethereum",
+      withSources("unsupported", "broken"),
+    );
+
+    expect(result.sources.unsupported.status).toBe("rate_limited");
+    expect(result.sources.broken).toMatchObject({
+      status: "stale",
+      currentPrice: 1,
+    });
+    expect(result.sources.broken.dataAgeMs).toBeGreaterThan(
+      DEFAULT_CONFIG.staleAfterMs,
+    );
+  });
+
+  it("leaves failed sources out of the price comparison", async () => {
+    registerPriceSourceProvider(fakeProvider("internal", 2));
+    registerPriceSourceProvider(
+      fakeProvider("broken", 1, {
+        fetchCurrent: async () => {
+          throw new Error("feed down");
+        },
+      }),
+    );
+
+    const result = await getMultiSourceTokenPrice(
+      "0xtoken",
+      "PEPE",
+      "ethereum",
+      withSources("internal", "broken"),
+    );
+
+    expect(comparePriceSources(result)).toEqual([
+      { source: "internal", price: 2, difference: 0, percentageDiff: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Price Source Providers - Pluggable price feeds for the aggregator
+ *
+ * Every venue the aggregator can query is a PriceSourceProvider held in a
+ * runtime registry. Built-in venues are registered on load, and additional
+ * venues or internal feeds can be registered without touching the aggregator,
+ * then switched on through the aggregator config.
+ */
+
+import { PriceDataPoint } from "../coingecko/types";
+import { BUILT_IN_PRICE_SOURCE_PROVIDERS } from "./providers";
+import logger from "../../common/logger";
+
+/**
+ * Token identity handed to each provider
+ */
+export interface PriceSourceToken {
+  address: string;
+  symbol: string;
+  platform: string;
+}
+
+export interface PriceSourceFetchOptions {
+  days: number;
+  currency: string;
+}
+
+export interface PriceSourceData {
+  currentPrice: number;
+  lastUpdated: string;
+  historicalData: PriceDataPoint[];
+}
+
+export interface PriceSourceProvider {
+  name: string; // Queried once the aggregator config lists and enables it
+  supports(token: PriceSourceToken): boolean;
+  fetchCurrent(
+    token: PriceSourceToken,
+    options: PriceSourceFetchOptions,
+  ): Promise<number>;
+  fetchHistory(
+    token: PriceSourceToken,
+    options: PriceSourceFetchOptions,
+  ): Promise<PriceDataPoint[]>;
+  // Optional single-call fetch for venues that return both together
+  fetchPriceData?(
+    token: PriceSourceToken,
+    options: PriceSourceFetchOptions,
+  ): Promise<PriceSourceData>;
+}
+
+const providers = new Map<string, PriceSourceProvider>(
+  BUILT_IN_PRICE_SOURCE_PROVIDERS.map((provider) => [provider.name, provider]),
+);
+
+/**
+ * Register a price source provider, replacing any provider with the same name
+ */
+export function registerPriceSourceProvider(
+  provider: PriceSourceProvider,
+): void {
+  if (providers.has(provider.name)) {
+    logger.warn("[PriceSources] Replacing registered provider", {
+      name: provider.name,
+    });
+  }
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a price source provider, returns false when it was not registered
+ */
+export function unregisterPriceSourceProvider(name: string): boolean {
+  return providers.delete(name);
+}
+
+export function getPriceSourceProvider(
+  name: string,
+): PriceSourceProvider | undefined {
+  return providers.get(name);
+}
+
+export function getPriceSourceProviders(): PriceSourceProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Fetch current price and history from a provider, in one call when supported
+ */
+export async function fetchPriceSourceData(
+  provider: PriceSourceProvider,
+  token: PriceSourceToken,
+  options: PriceSourceFetchOptions,
+): Promise<PriceSourceData> {
+  if (provider.fetchPriceData) {
+    return provider.fetchPriceData(token, options);
+  }
+
+  const [currentPrice, historicalData] = await Promise.all([
+    provider.fetchCurrent(token, options),
+    provider.fetchHistory(token, options),
+  ]);
+
+  return {
+    currentPrice,
+    lastUpdated: new Date().toISOString(),
+    historicalData,
+  };
+}
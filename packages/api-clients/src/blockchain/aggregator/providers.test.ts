@@ -0,0 +1,70 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+
+const client = { getKlines: vi.fn() };
+
+vi.mock("binance", () => ({ USDMClient: vi.fn(() => client) }));
+
+import { PriceSourceName } from "../coingecko/types";
+import {
+  clearPerpSymbolOverride,
+  setPerpSymbolOverride,
+} from "../perp/symbolResolver";
+import { DEFAULT_CONFIG, getMultiSourceTokenPrice } from "./priceAggregator";
+
+const token = { address: "0xtoken", symbol: "PEPE", platform: "ethereum" };
+
+// Only Binance is queried, its contract is pinned to skip the listing lookup
+const BINANCE_ONLY_CONFIG = {
+  ...DEFAULT_CONFIG,
+  sources: Object.fromEntries(
+    Object.entries(DEFAULT_CONFIG.sources).map(([name, source]) => [
+      name,
+      { ...source, enabled: name === PriceSourceName.BINANCE },
+    ]),
+  ),
+};
+
+describe("built-in price source providers", () => {
+  afterEach(() => {
+    clearPerpSymbolOverride(token);
+  });
+
+  it("reports a venue HTTP 429 as rate limited", async () => {
+    setPerpSymbolOverride(token, {
+      [PriceSourceName.BINANCE]: { symbol: "1000PEPEUSDT", multiplier: 1000 },
+    });
+    client.getKlines.mockRejectedValue(
+      Object.assign(new Error("Request failed with status code 429"), {
+        response: { status: 429 },
+      }),
+    );
+
+    const result = await getMultiSourceTokenPrice(
+      token.address,
+      token.symbol,
+      token.platform,
+      BINANCE_ONLY_CONFIG,
+    );
+
+    expect(result.sources[PriceSourceName.BINANCE]).toMatchObject({
+      status: "rate_limited",
+      currentPrice: null,
+    });
+  });
+
+  it("reports other venue failures as errors", async () => {
+    setPerpSymbolOverride(token, {
+      [PriceSourceName.BINANCE]: { symbol: "1000PEPEUSDT", multiplier: 1000 },
+    });
+    client.getKlines.mockRejectedValue(new Error("socket hang up"));
+
+    const result = await getMultiSourceTokenPrice(
+      token.address,
+      token.symbol,
+      token.platform,
+      BINANCE_ONLY_CONFIG,
+    );
+
+    expect(result.sources[PriceSourceName.BINANCE]?.status).toBe("error");
+  });
+});
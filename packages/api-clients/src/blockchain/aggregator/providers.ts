@@ -0,0 +1,481 @@
+/**
+ * Built-in Price Source Providers
+ *
+ * CoinGecko, Bybit, OKX Dex, Binance and Bitget wrapped as PriceSourceProviders.
+ * The exchange fetchers return one response holding both the current price and
+ * its history, so each provider derives fetchCurrent/fetchHistory from it.
+ */
+
+import {
+  getTokenFullPriceData,
+  getTokenMarketChart,
+  getTokenPrice,
+} from "../coingecko";
+import { PriceSourceName } from "../coingecko/types";
+import {
+  getOkxDexCandles,
+  convertOkxCandlesToPriceData,
+} from "../okexchange/dex";
+import {
+  getOkxDexChainIndex,
+  isOkxDexSupportedPlatform,
+} from "../okexchange/chains";
+import { OkxDexCandleData } from "../okexchange/types";
+import { getBybitKlineForDays } from "../bybit/perp";
+import { getMarkPriceWithHistory as getBinanceMarkPriceWithHistory } from "../binance/perp";
+import { getMarkPriceWithHistory as getBitgetMarkPriceWithHistory } from "../bitget/perp/markPrice";
+import { normalizePerpPrice, resolvePerpSymbol } from "../perp/symbolResolver";
+import { PerpVenue } from "../perp/types";
+import { PriceSourceError } from "./priceSourceErrors";
+import type {
+  PriceSourceData,
+  PriceSourceFetchOptions,
+  PriceSourceProvider,
+  PriceSourceToken,
+} from "./priceSources";
+import logger from "../../common/logger";
+
+/**
+ * Get Bybit price data
+ * Use mark price K-line data, which is the standard way to get current price in perpetual contracts
+ */
+async function fetchBybitPriceData(
+  tokenAddress: string,
+  days: number,
+  venueSymbol: string, // Resolved contract symbol, e.g. 1000PEPEUSDT
+): Promise<{
+  currentPrice: number;
+  historicalData: Array<{ timestamp: number; price: number; source: string }>;
+}> {
+  logger.info("[PriceAggregator] Fetching Bybit price data", {
+    tokenAddress,
+    days,
+    venueSymbol,
+  });
+
+  const bybitSymbol = venueSymbol;
+  logger.info("[PriceAggregator] Using provided symbol", {
+    tokenAddress,
+    venueSymbol,
+    bybitSymbol,
+  });
+
+  // Get K-line data
+  const klineData = await getBybitKlineForDays(bybitSymbol, days, "1");
+
+  if (!klineData.length) {
+    logger.warn("[PriceAggregator] No Bybit kline data available", {
+      tokenAddress,
+      bybitSymbol,
+    });
+    return {
+      currentPrice: 0,
+      historicalData: [],
+    };
+  }
+
+  // Get current price - use latest mark price K-line closing price
+  // Bybit already uses getMarkPriceKline API, so the closing price here is the current price of perpetual contract
+  const currentPrice = klineData[klineData.length - 1]?.price || 0;
+
+  logger.info("[PriceAggregator] Bybit data fetched successfully", {
+    tokenAddress,
+    bybitSymbol,
+    dataPoints: klineData.length,
+    currentPrice,
+  });
+
+  return {
+    currentPrice,
+    historicalData: klineData,
+  };
+}
+
+/**
+ * Get OKX Dex paginated price data
+ */
+async function fetchOkxDexPriceData(
+  tokenAddress: string,
+  days: number,
+  platform: string,
+): Promise<{
+  currentPrice: number;
+  historicalData: Array<{ timestamp: number; price: number; source: string }>;
+}> {
+  const chainIndex = getOkxDexChainIndex(platform);
+
+  // Calculate required data amount
+  const totalMinutes = days * 1440; // Maximum 1440 1-minute K-lines per day
+  const maxLimitPerRequest = 299; // Maximum limit per request for OKX API
+
+  // Calculate how many requests needed
+  const numRequests = Math.ceil(totalMinutes / maxLimitPerRequest);
+
+  logger.info("[PriceAggregator] OKX Dex pagination calculation", {
+    tokenAddress,
+    chainIndex,
+    totalMinutes,
+    maxLimitPerRequest,
+    numRequests,
+  });
+
+  // Paginate to get all data
+  const allCandlesData: OkxDexCandleData[] = [];
+  let after: string | undefined; // Timestamp for pagination
+  let remainingMinutes = totalMinutes; // Track remaining minutes to fetch
+
+  for (let i = 0; i < numRequests; i++) {
+    const limit = Math.min(maxLimitPerRequest, remainingMinutes);
+
+    if (limit <= 0) break;
+
+    logger.debug("[PriceAggregator] OKX Dex making request", {
+      tokenAddress,
+      requestIndex: i + 1,
+      numRequests,
+      limit,
+      remainingMinutes,
+      after: after || "latest",
+    });
+
+    const candlesData = await getOkxDexCandles({
+      chainIndex,
+      tokenContractAddress: tokenAddress,
+      bar: "1m",
+      limit,
+      after, // Use before parameter for pagination
+    });
+
+    if (candlesData?.length) {
+      allCandlesData.push(...candlesData);
+
+      // Update remaining minutes (based on actual data points fetched)
+      remainingMinutes -= candlesData.length;
+
+      // Set before parameter for next request (using earliest timestamp)
+      const earliestTimestamp = Math.min(
+        ...candlesData.map((candle) => Number(candle.ts)),
+      );
+      after = earliestTimestamp.toString();
+
+      logger.debug("[PriceAggregator] OKX Dex request completed", {
+        tokenAddress,
+        requestIndex: i + 1,
+        dataReceived: candlesData.length,
+        totalDataSoFar: allCandlesData.length,
+        remainingMinutes,
+        nextAfter: after,
+      });
+    } else {
+      // If no more data, exit loop
+      logger.debug("[PriceAggregator] OKX Dex no more data available", {
+        tokenAddress,
+        requestIndex: i + 1,
+      });
+      break;
+    }
+
+    // Add delay to avoid API limits
+    if (i < numRequests - 1) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  if (!allCandlesData.length) {
+    return {
+      currentPrice: 0,
+      historicalData: [],
+    };
+  }
+
+  // Sort by timestamp (earliest to latest)
+  allCandlesData.sort((a, b) => Number(a.ts) - Number(b.ts));
+
+  const priceData = convertOkxCandlesToPriceData(allCandlesData);
+
+  return {
+    currentPrice: priceData[priceData.length - 1]?.price || 0,
+    historicalData: priceData,
+  };
+}
+
+/**
+ * Get Binance price data
+ */
+async function fetchBinancePriceData(
+  tokenAddress: string,
+  days: number,
+  venueSymbol: string, // Resolved contract symbol, e.g. 1000PEPEUSDT
+): Promise<{
+  currentPrice: number;
+  historicalData: Array<{
+    timestamp: number;
+    price: number;
+    source: string;
+  }>;
+}> {
+  logger.info("[PriceAggregator] Fetching Binance price data", {
+    tokenAddress,
+    days,
+    venueSymbol,
+  });
+
+  const binanceSymbol = venueSymbol;
+  logger.info("[PriceAggregator] Using Binance symbol", {
+    tokenAddress,
+    venueSymbol,
+    binanceSymbol,
+  });
+
+  // Get current price and historical data (single API call)
+  const binanceData = await getBinanceMarkPriceWithHistory(binanceSymbol, days);
+  const historicalData = binanceData?.history ?? [];
+  // Directly use closing price of latest K-line data as current price, just like bybit
+  const currentPrice = historicalData[historicalData.length - 1]?.price || 0;
+
+  logger.info("[PriceAggregator] Binance data fetched successfully", {
+    tokenAddress,
+    binanceSymbol,
+    currentPrice,
+    historicalDataLength: historicalData.length,
+  });
+
+  return {
+    currentPrice,
+    historicalData,
+  };
+}
+
+/**
+ * Get Bitget price data
+ * Use getMarkPriceWithHistory function from markPrice.ts to get mark price data
+ */
+async function fetchBitgetPriceData(
+  tokenAddress: string,
+  days: number,
+  venueSymbol: string, // Resolved contract symbol, e.g. 1000PEPEUSDT
+): Promise<{
+  currentPrice: number;
+  historicalData: Array<{
+    timestamp: number;
+    price: number;
+    source: string;
+  }>;
+}> {
+  logger.info("[PriceAggregator] Fetching Bitget price data", {
+    tokenAddress,
+    days,
+    venueSymbol,
+  });
+
+  const bitgetSymbol = venueSymbol;
+  logger.info("[PriceAggregator] Using Bitget symbol", {
+    tokenAddress,
+    venueSymbol,
+    bitgetSymbol,
+  });
+
+  // Use getMarkPriceWithHistory function from markPrice.ts to get data
+  const bitgetData = await getBitgetMarkPriceWithHistory(bitgetSymbol, days);
+
+  if (!bitgetData?.history?.length) {
+    logger.warn("[PriceAggregator] No Bitget mark price data available", {
+      tokenAddress,
+      bitgetSymbol,
+    });
+    return {
+      currentPrice: 0,
+      historicalData: [],
+    };
+  }
+
+  // Use latest mark price as current price
+  const currentPrice =
+    bitgetData.currentPrice ||
+    bitgetData.history[bitgetData.history.length - 1]?.price ||
+    0;
+
+  // Convert historical data format
+  const historicalData = bitgetData.history.map((item) => ({
+    timestamp: Number(item.timestamp),
+    price: item.price,
+    source: item.source,
+  }));
+
+  logger.info("[PriceAggregator] Bitget data fetched successfully", {
+    tokenAddress,
+    bitgetSymbol,
+    currentPrice,
+    dataPoints: historicalData.length,
+  });
+
+  return {
+    currentPrice,
+    historicalData,
+  };
+}
+
+/**
+ * Build a provider from a fetcher that returns current price and history together
+ */
+function createCombinedProvider(
+  name: string,
+  supports: (token: PriceSourceToken) => boolean,
+  fetchPriceData: (
+    token: PriceSourceToken,
+    options: PriceSourceFetchOptions,
+  ) => Promise<{
+    currentPrice: number;
+    historicalData: Array<{ timestamp: number; price: number; source: string }>;
+  }>,
+): PriceSourceProvider {
+  const fetchAll = async (
+    token: PriceSourceToken,
+    options: PriceSourceFetchOptions,
+  ): Promise<PriceSourceData> => {
+    // Venue clients raise rate limits and log other failures, so no price
+    // means the venue returned no data
+    const data = await fetchPriceData(token, options);
+    if (!(data.currentPrice > 0)) {
+      throw new PriceSourceError(
+        "error",
+        `No ${name} price data returned for ${token.symbol}`,
+      );
+    }
+    return { ...data, lastUpdated: new Date().toISOString() };
+  };
+
+  return {
+    name,
+    supports,
+    fetchPriceData: fetchAll,
+    fetchCurrent: async (token, options) =>
+      (await fetchAll(token, options)).currentPrice,
+    fetchHistory: async (token, options) =>
+      (await fetchAll(token, options)).historicalData,
+  };
+}
+
+/**
+ * Build a perp venue provider that resolves the listed contract first and
+ * converts multiplied contract prices (1000PEPEUSDT) back to one token
+ */
+function createPerpProvider(
+  venue: PerpVenue,
+  fetchVenuePriceData: (
+    tokenAddress: string,
+    days: number,
+    venueSymbol: string,
+  ) => Promise<{
+    currentPrice: number;
+    historicalData: Array<{ timestamp: number; price: number; source: string }>;
+  }>,
+): PriceSourceProvider {
+  return createCombinedProvider(
+    venue,
+    (token) => Boolean(token.symbol),
+    async (token, options) => {
+      const listing = await resolvePerpSymbol(venue, token);
+      if (!listing) {
+        throw new PriceSourceError(
+          "unsupported_symbol",
+          `${venue} does not list a ${token.symbol} USDT perp`,
+        );
+      }
+
+      const { currentPrice, historicalData } = await fetchVenuePriceData(
+        token.address,
+        options.days,
+        listing.symbol,
+      );
+
+      return {
+        currentPrice: normalizePerpPrice(currentPrice, listing),
+        historicalData: historicalData.map((point) => ({
+          ...point,
+          price: normalizePerpPrice(point.price, listing),
+        })),
+      };
+    },
+  );
+}
+
+export const coingeckoPriceSourceProvider: PriceSourceProvider = {
+  name: PriceSourceName.COINGECKO,
+  supports: (token) => Boolean(token.address && token.platform),
+  fetchCurrent: async (token, options) => {
+    const priceData = await getTokenPrice(
+      token.platform,
+      token.address,
+      options.currency,
+    );
+    if (!priceData) {
+      throw new Error(`No CoinGecko price for ${token.address}`);
+    }
+    return priceData.currentPrice;
+  },
+  fetchHistory: async (token, options) => {
+    const chart = await getTokenMarketChart(
+      token.platform,
+      token.address,
+      options.days,
+      options.currency,
+    );
+    return chart.map((point) => ({
+      timestamp: point.timestamp,
+      price: point.price,
+      source: PriceSourceName.COINGECKO,
+    }));
+  },
+  fetchPriceData: async (token, options) => {
+    const coingeckoData = await getTokenFullPriceData(
+      token.platform,
+      token.address,
+      options.days,
+      options.currency,
+    );
+    if (!coingeckoData) {
+      throw new Error(`No CoinGecko price for ${token.address}`);
+    }
+    return {
+      currentPrice: coingeckoData.currentPrice,
+      lastUpdated: coingeckoData.lastUpdated,
+      historicalData: (coingeckoData.historicalData || []).map((point) => ({
+        timestamp: point.timestamp,
+        price: point.price,
+        source: PriceSourceName.COINGECKO,
+      })),
+    };
+  },
+};
+
+export const bybitPriceSourceProvider = createPerpProvider(
+  PriceSourceName.BYBIT,
+  fetchBybitPriceData,
+);
+
+export const okxDexPriceSourceProvider = createCombinedProvider(
+  PriceSourceName.OKX,
+  (token) =>
+    Boolean(token.address) && isOkxDexSupportedPlatform(token.platform),
+  (token, options) =>
+    fetchOkxDexPriceData(token.address, options.days, token.platform),
+);
+
+export const binancePriceSourceProvider = createPerpProvider(
+  PriceSourceName.BINANCE,
+  fetchBinancePriceData,
+);
+
+export const bitgetPriceSourceProvider = createPerpProvider(
+  PriceSourceName.BITGET,
+  fetchBitgetPriceData,
+);
+
+export const BUILT_IN_PRICE_SOURCE_PROVIDERS: PriceSourceProvider[] = [
+  coingeckoPriceSourceProvider,
+  bybitPriceSourceProvider,
+  okxDexPriceSourceProvider,
+  binancePriceSourceProvider,
+  bitgetPriceSourceProvider,
+];
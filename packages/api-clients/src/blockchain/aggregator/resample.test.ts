@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { PriceDataPoint } from "../coingecko/types";
+import {
+  alignPriceHistories,
+  calculateSpreadSeries,
+  parseResampleInterval,
+  resamplePriceSeries,
+  ResampleIntervalError,
+} from "./resample";
+
+const MINUTE = 60 * 1000;
+
+function points(source: string, data: [number, number][]): PriceDataPoint[] {
+  return data.map(([minute, price]) => ({
+    timestamp: minute * MINUTE,
+    price,
+    source,
+  }));
+}
+
+describe("parseResampleInterval", () => {
+  it("parses units into milliseconds", () => {
+    expect(parseResampleInterval("30s")).toBe(30_000);
+    expect(parseResampleInterval("5m")).toBe(5 * MINUTE);
+    expect(parseResampleInterval("1h")).toBe(60 * MINUTE);
+    expect(parseResampleInterval("1d")).toBe(24 * 60 * MINUTE);
+  });
+
+  it("rejects malformed intervals", () => {
+    expect(() => parseResampleInterval("5")).toThrow("Invalid interval");
+    expect(() => parseResampleInterval("0m")).toThrow(ResampleIntervalError);
+  });
+});
+
+describe("resamplePriceSeries", () => {
+  const grid = [0, 1, 2, 3, 4].map((minute) => minute * MINUTE);
+  const series = points("a", [
+    [0.2, 1],
+    [0.8, 2], // Last observation in the bucket wins
+    [3.5, 5],
+  ]);
+
+  it("leaves empty buckets null with fill none", () => {
+    expect(resamplePriceSeries(series, grid, MINUTE, "none")).toEqual([
+      2,
+      null,
+      null,
+      5,
+      null,
+    ]);
+  });
+
+  it("carries the last value forward with ffill", () => {
+    expect(resamplePriceSeries(series, grid, MINUTE, "ffill")).toEqual([
+      2, 2, 2, 5, 5,
+    ]);
+  });
+
+  it("interpolates between known buckets without extrapolating", () => {
+    expect(resamplePriceSeries(series, grid, MINUTE, "interpolate")).toEqual([
+      2,
+      3,
+      4,
+      5,
+      null,
+    ]);
+  });
+});
+
+describe("alignPriceHistories", () => {
+  it("puts every source on one grid and derives a spread", () => {
+    const aligned = alignPriceHistories(
+      {
+        binance: points("binance", [
+          [0, 100],
+          [1, 101],
+          [2, 102],
+        ]),
+        okx: points("okx", [
+          [0.5, 101],
+          [2.5, 103],
+        ]),
+      },
+      { intervalMs: MINUTE, fill: "ffill" },
+    );
+
+    expect(aligned.timestamps).toEqual([0, MINUTE, 2 * MINUTE]);
+    expect(aligned.series.okx).toEqual([101, 101, 103]);
+
+    const spread = calculateSpreadSeries(aligned, "binance", "okx");
+    expect(spread.map((point) => point.spread)).toEqual([1, 0, 1]);
+    expect(spread[0].spreadPercent).toBeCloseTo(1, 10);
+  });
+
+  it("refuses grids above the point limit", () => {
+    expect(() =>
+      alignPriceHistories(
+        { a: points("a", [[0, 1]]), b: points("b", [[60 * 24 * 30, 1]]) },
+        { intervalMs: 1000 },
+      ),
+    ).toThrow(ResampleIntervalError);
+  });
+
+  it("aligns histories too long to spread into Math.min", () => {
+    const history = Array.from({ length: 200_000 }, (_, index) => ({
+      timestamp: index * 1000,
+      price: 100,
+    }));
+
+    const aligned = alignPriceHistories(
+      { binance: history },
+      { intervalMs: 60 * MINUTE },
+    );
+
+    expect(aligned.timestamps).toHaveLength(56);
+    expect(aligned.series.binance[55]).toBe(100);
+  });
+
+  it("returns an empty grid without history", () => {
+    expect(alignPriceHistories({}, { intervalMs: MINUTE }).timestamps).toEqual(
+      [],
+    );
+  });
+});
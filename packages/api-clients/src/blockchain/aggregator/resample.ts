@@ -0,0 +1,206 @@
+/**
+ * Price History Resampling
+ *
+ * Sources return history at their own granularity (1m klines, 5m or hourly
+ * CoinGecko points), so their timestamps never line up. These helpers align
+ * every series to one time grid and derive spread series between sources.
+ */
+
+import { PriceDataPoint } from "../coingecko/types";
+
+export type ResampleFillPolicy = "ffill" | "none" | "interpolate";
+
+export interface ResampleOptions {
+  intervalMs: number;
+  fill?: ResampleFillPolicy;
+  startTime?: number; // Defaults to the earliest point of any series
+  endTime?: number; // Defaults to the latest point of any series
+}
+
+export interface AlignedPriceHistory {
+  intervalMs: number;
+  fill: ResampleFillPolicy;
+  timestamps: number[]; // Bucket start times, UNIX milliseconds
+  series: { [source: string]: (number | null)[] }; // One value per timestamp
+}
+
+export interface SpreadPoint {
+  timestamp: number;
+  priceA: number;
+  priceB: number;
+  spread: number; // priceB - priceA
+  spreadPercent: number; // Relative to priceA
+}
+
+// Keeps a wide range with a small interval from building a huge grid
+export const MAX_RESAMPLE_POINTS = 10_000;
+
+/**
+ * Thrown for an interval that is malformed or too small for the range
+ */
+export class ResampleIntervalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResampleIntervalError";
+  }
+}
+
+const INTERVAL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse an interval such as "30s", "5m", "1h" or "1d" into milliseconds
+ */
+export function parseResampleInterval(interval: string): number {
+  const match = interval.trim().match(/^(\d+)([smhd])$/);
+  if (!match || Number(match[1]) <= 0) {
+    throw new ResampleIntervalError(
+      `Invalid interval: ${interval}, expected e.g. "1m", "5m", "1h" or "1d"`,
+    );
+  }
+  return Number(match[1]) * INTERVAL_UNITS[match[2]];
+}
+
+/**
+ * Default grid interval for a history range in days
+ */
+export function getDefaultResampleInterval(days: number): string {
+  if (days <= 1) return "1m";
+  if (days <= 7) return "5m";
+  if (days <= 14) return "15m";
+  return "1h";
+}
+
+/**
+ * Resample one series onto a grid, each bucket takes its last observation
+ */
+export function resamplePriceSeries(
+  points: PriceDataPoint[],
+  timestamps: number[],
+  intervalMs: number,
+  fill: ResampleFillPolicy = "ffill",
+): (number | null)[] {
+  const values: (number | null)[] = new Array(timestamps.length).fill(null);
+  if (!timestamps.length) return values;
+
+  const start = timestamps[0];
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  for (const point of sorted) {
+    const index = Math.floor((point.timestamp - start) / intervalMs);
+    if (index >= 0 && index < timestamps.length) {
+      values[index] = point.price;
+    }
+  }
+
+  if (fill === "ffill") {
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] === null) values[i] = values[i - 1];
+    }
+  } else if (fill === "interpolate") {
+    // Linear between known buckets, edges are left empty
+    let previous = -1;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] === null) continue;
+      if (previous >= 0 && i - previous > 1) {
+        const from = values[previous]!;
+        const to = values[i]!;
+        for (let j = previous + 1; j < i; j++) {
+          values[j] = from + ((to - from) * (j - previous)) / (i - previous);
+        }
+      }
+      previous = i;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Align the history of every source to a common time grid
+ */
+export function alignPriceHistories(
+  histories: { [source: string]: PriceDataPoint[] },
+  options: ResampleOptions,
+): AlignedPriceHistory {
+  const { intervalMs, fill = "ffill" } = options;
+  if (!(intervalMs > 0)) {
+    throw new ResampleIntervalError("intervalMs must be a positive number");
+  }
+
+  // A loop rather than Math.min(...), spreading long histories overflows the stack
+  let earliest = Infinity;
+  let latest = -Infinity;
+  for (const points of Object.values(histories)) {
+    for (const { timestamp } of points) {
+      if (timestamp < earliest) earliest = timestamp;
+      if (timestamp > latest) latest = timestamp;
+    }
+  }
+  const startTime = options.startTime ?? earliest;
+  const endTime = options.endTime ?? latest;
+
+  if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) {
+    return { intervalMs, fill, timestamps: [], series: {} };
+  }
+
+  const firstBucket = Math.floor(startTime / intervalMs) * intervalMs;
+  const bucketCount = Math.floor((endTime - firstBucket) / intervalMs) + 1;
+  if (bucketCount > MAX_RESAMPLE_POINTS) {
+    throw new ResampleIntervalError(
+      `Resampling would produce ${bucketCount} points, use an interval above ${Math.ceil(
+        (endTime - firstBucket) / MAX_RESAMPLE_POINTS / 1000,
+      )}s`,
+    );
+  }
+
+  const timestamps = Array.from(
+    { length: Math.max(0, bucketCount) },
+    (_, index) => firstBucket + index * intervalMs,
+  );
+
+  return {
+    intervalMs,
+    fill,
+    timestamps,
+    series: Object.fromEntries(
+      Object.entries(histories).map(([source, points]) => [
+        source,
+        resamplePriceSeries(points, timestamps, intervalMs, fill),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Per-timestamp spread of sourceB over sourceA, where both have a price
+ */
+export function calculateSpreadSeries(
+  aligned: AlignedPriceHistory,
+  sourceA: string,
+  sourceB: string,
+): SpreadPoint[] {
+  const seriesA = aligned.series[sourceA];
+  const seriesB = aligned.series[sourceB];
+  if (!seriesA || !seriesB) return [];
+
+  const spread: SpreadPoint[] = [];
+  aligned.timestamps.forEach((timestamp, index) => {
+    const priceA = seriesA[index];
+    const priceB = seriesB[index];
+    if (priceA === null || priceB === null || !(priceA > 0)) return;
+
+    spread.push({
+      timestamp,
+      priceA,
+      priceB,
+      spread: priceB - priceA,
+      spreadPercent: ((priceB - priceA) / priceA) * 100,
+    });
+  });
+
+  return spread;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { AlignedPriceHistory } from "./resample";
+import {
+  calculateHalfLife,
+  calculatePairwiseSpreadStats,
+  calculateSpreadStats,
+} from "./spreadStats";
+
+const MINUTE = 60 * 1000;
+
+// sourceB quoted at the given spread percentages over a flat sourceA
+function alignedSpread(spreadPercents: (number | null)[]): AlignedPriceHistory {
+  return {
+    intervalMs: MINUTE,
+    fill: "none",
+    timestamps: spreadPercents.map((_, index) => index * MINUTE),
+    series: {
+      binance: spreadPercents.map(() => 100),
+      okx: spreadPercents.map((percent) =>
+        percent === null ? null : 100 + percent,
+      ),
+    },
+  };
+}
+
+describe("calculateSpreadStats", () => {
+  it("summarises the spread distribution and the current z-score", () => {
+    const stats = calculateSpreadStats(
+      alignedSpread([0, 1, 2, 1, 0, 3]),
+      "binance",
+      "okx",
+      { thresholdPercent: 1.5 },
+    );
+
+    expect(stats.samples).toBe(6);
+    expect(stats.meanPercent).toBeCloseTo(7 / 6, 10);
+    expect(stats.stdevPercent).toBeCloseTo(Math.sqrt(6.8333333333 / 5), 6);
+    expect(stats.currentPercent).toBeCloseTo(3, 10);
+    expect(stats.zScore).toBeCloseTo(
+      (3 - 7 / 6) / Math.sqrt(6.8333333333 / 5),
+      6,
+    );
+    expect(stats.percentAboveThreshold).toBeCloseTo((2 / 6) * 100, 10);
+    expect(stats.maxExcursionPercent).toBeCloseTo(3, 10);
+    expect(stats.maxExcursionTimestamp).toBe(5 * MINUTE);
+  });
+
+  it("keeps the sign of the largest excursion", () => {
+    const stats = calculateSpreadStats(
+      alignedSpread([0.5, -2, 1]),
+      "binance",
+      "okx",
+    );
+
+    expect(stats.maxExcursionPercent).toBeCloseTo(-2, 10);
+    expect(stats.percentAboveThreshold).toBeCloseTo((2 / 3) * 100, 10);
+  });
+
+  it("returns empty stats without overlapping history", () => {
+    const stats = calculateSpreadStats(
+      alignedSpread([null, null]),
+      "binance",
+      "okx",
+    );
+
+    expect(stats.samples).toBe(0);
+    expect(stats.currentPercent).toBeNull();
+    expect(stats.zScore).toBeNull();
+    expect(stats.halfLifeMs).toBeNull();
+  });
+});
+
+describe("calculateHalfLife", () => {
+  it("derives the half-life of a decaying spread", () => {
+    // Spread halves every interval
+    const decaying = Array.from({ length: 12 }, (_, index) => 8 * 0.5 ** index);
+    const stats = calculateSpreadStats(
+      alignedSpread(decaying),
+      "binance",
+      "okx",
+    );
+
+    expect(stats.halfLifeMs).toBeCloseTo(MINUTE, -1);
+  });
+
+  it("is null for a spread that diverges instead of reverting", () => {
+    const diverging = Array.from(
+      { length: 12 },
+      (_, index) => 0.1 * 1.5 ** index,
+    );
+    const stats = calculateSpreadStats(
+      alignedSpread(diverging),
+      "binance",
+      "okx",
+    );
+
+    expect(stats.halfLifeMs).toBeNull();
+  });
+
+  it("only fits consecutive grid points", () => {
+    const spread = [0, 2, 4].map((minute) => ({
+      timestamp: minute * MINUTE,
+      priceA: 100,
+      priceB: 101,
+      spread: 1,
+      spreadPercent: 1,
+    }));
+
+    expect(calculateHalfLife(spread, MINUTE)).toBeNull();
+  });
+});
+
+describe("calculatePairwiseSpreadStats", () => {
+  it("covers each source pair once and skips pairs without overlap", () => {
+    const aligned = alignedSpread([0, 1]);
+    aligned.series.bybit = [null, null];
+
+    const stats = calculatePairwiseSpreadStats(aligned);
+
+    expect(stats.map(({ sourceA, sourceB }) => [sourceA, sourceB])).toEqual([
+      ["binance", "okx"],
+    ]);
+  });
+});
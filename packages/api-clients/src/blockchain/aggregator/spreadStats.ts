@@ -0,0 +1,165 @@
+/**
+ * Spread Statistics - How the spread between two sources behaves over time
+ *
+ * A point-in-time diff cannot tell whether a 1.5% gap is normal for a token.
+ * These helpers summarise the aligned spread history of a source pair: its
+ * distribution, where the current spread sits in it, and how fast it reverts.
+ */
+
+import {
+  AlignedPriceHistory,
+  SpreadPoint,
+  calculateSpreadSeries,
+} from "./resample";
+
+export interface SpreadStatsOptions {
+  // Absolute spread in percent counted as "above threshold"
+  thresholdPercent?: number;
+}
+
+export interface SpreadStats {
+  sourceA: string;
+  sourceB: string;
+  samples: number;
+  intervalMs: number;
+  startTime: number | null;
+  endTime: number | null;
+  // Spread of sourceB over sourceA in percent of sourceA
+  meanPercent: number;
+  stdevPercent: number;
+  currentPercent: number | null;
+  zScore: number | null; // null without dispersion to compare against
+  halfLifeMs: number | null; // null when the spread does not mean-revert
+  thresholdPercent: number;
+  percentAboveThreshold: number; // Share of samples with |spread| >= threshold
+  maxExcursionPercent: number; // Signed spread with the largest magnitude
+  maxExcursionTimestamp: number | null;
+}
+
+const DEFAULT_THRESHOLD_PERCENT = 1;
+// Consecutive pairs needed before the AR(1) fit is meaningful
+const MIN_HALF_LIFE_SAMPLES = 10;
+
+/**
+ * Mean-reversion half-life in milliseconds from an AR(1) fit of the spread
+ *
+ * Regresses Δs(t) on s(t-1) over consecutive grid points: Δs = α + β·s(t-1).
+ * With -1 < β < 0 the spread decays by (1 + β) per interval, so the half-life
+ * is -ln 2 / ln(1 + β) intervals.
+ */
+export function calculateHalfLife(
+  spread: SpreadPoint[],
+  intervalMs: number,
+): number | null {
+  const lagged: number[] = [];
+  const deltas: number[] = [];
+  for (let i = 1; i < spread.length; i++) {
+    // Gaps in the grid break the one-interval step the fit assumes
+    if (spread[i].timestamp - spread[i - 1].timestamp !== intervalMs) continue;
+    lagged.push(spread[i - 1].spreadPercent);
+    deltas.push(spread[i].spreadPercent - spread[i - 1].spreadPercent);
+  }
+  if (lagged.length < MIN_HALF_LIFE_SAMPLES) return null;
+
+  const meanX = lagged.reduce((sum, x) => sum + x, 0) / lagged.length;
+  const meanY = deltas.reduce((sum, y) => sum + y, 0) / deltas.length;
+  let covariance = 0;
+  let variance = 0;
+  lagged.forEach((x, index) => {
+    covariance += (x - meanX) * (deltas[index] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  if (variance === 0) return null;
+
+  const beta = covariance / variance;
+  if (beta >= 0) return null;
+  // Fully reverts within one interval, a finer grid is needed to resolve it
+  if (beta <= -1) return intervalMs;
+
+  return (-Math.LN2 / Math.log(1 + beta)) * intervalMs;
+}
+
+/**
+ * Spread statistics of sourceB over sourceA on an aligned history
+ */
+export function calculateSpreadStats(
+  aligned: AlignedPriceHistory,
+  sourceA: string,
+  sourceB: string,
+  options: SpreadStatsOptions = {},
+): SpreadStats {
+  const { thresholdPercent = DEFAULT_THRESHOLD_PERCENT } = options;
+  const spread = calculateSpreadSeries(aligned, sourceA, sourceB);
+  const values = spread.map((point) => point.spreadPercent);
+  const samples = values.length;
+
+  const mean = samples
+    ? values.reduce((sum, value) => sum + value, 0) / samples
+    : 0;
+  // Sample standard deviation
+  const stdev =
+    samples > 1
+      ? Math.sqrt(
+          values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+            (samples - 1),
+        )
+      : 0;
+
+  const current = samples ? values[samples - 1] : null;
+  let maxExcursion: SpreadPoint | null = null;
+  for (const point of spread) {
+    if (
+      !maxExcursion ||
+      Math.abs(point.spreadPercent) > Math.abs(maxExcursion.spreadPercent)
+    ) {
+      maxExcursion = point;
+    }
+  }
+
+  return {
+    sourceA,
+    sourceB,
+    samples,
+    intervalMs: aligned.intervalMs,
+    startTime: samples ? spread[0].timestamp : null,
+    endTime: samples ? spread[samples - 1].timestamp : null,
+    meanPercent: mean,
+    stdevPercent: stdev,
+    currentPercent: current,
+    zScore: current !== null && stdev > 0 ? (current - mean) / stdev : null,
+    halfLifeMs: calculateHalfLife(spread, aligned.intervalMs),
+    thresholdPercent,
+    percentAboveThreshold: samples
+      ? (values.filter((value) => Math.abs(value) >= thresholdPercent).length /
+          samples) *
+        100
+      : 0,
+    maxExcursionPercent: maxExcursion?.spreadPercent ?? 0,
+    maxExcursionTimestamp: maxExcursion?.timestamp ?? null,
+  };
+}
+
+/**
+ * Spread statistics for every pair of sources in the aligned history
+ */
+export function calculatePairwiseSpreadStats(
+  aligned: AlignedPriceHistory,
+  options: SpreadStatsOptions = {},
+): SpreadStats[] {
+  const sources = Object.keys(aligned.series);
+  const stats: SpreadStats[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    for (let j = i + 1; j < sources.length; j++) {
+      const pairStats = calculateSpreadStats(
+        aligned,
+        sources[i],
+        sources[j],
+        options,
+      );
+      if (pairStats.samples) stats.push(pairStats);
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+
+vi.mock("../perp/orderbook", () => ({ getVenueOrderBook: vi.fn() }));
+vi.mock("../perp/symbolResolver", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  resolvePerpSymbols: vi.fn(),
+}));
+
+import { getVenueOrderBook } from "../perp/orderbook";
+import { resolvePerpSymbols } from "../perp/symbolResolver";
+import { PoolTickSnapshot, simulateSwap } from "../onchain/pools/swapSimulator";
+import {
+  estimateExecution,
+  estimateFromDepth,
+  estimateFromSwapSimulation,
+} from "./executionEstimator";
+
+const L = 10n ** 21n; // 1000 tokens of liquidity at 18 decimals
+
+// Two positions: [-600, 600] with L and [600, 1200] with 2L
+const snapshot: PoolTickSnapshot = {
+  sqrtPriceX96: 2n ** 96n, // price 1
+  currentTick: 0,
+  liquidity: L,
+  fee: 3000,
+  tickSpacing: 60,
+  ticks: [
+    { tick: -600, liquidityNet: L },
+    { tick: 600, liquidityNet: L }, // -L + 2L
+    { tick: 1200, liquidityNet: -2n * L },
+  ],
+};
+
+const pool = { baseIsToken0: true, token0Decimals: 18, token1Decimals: 18 };
+
+describe("execution estimator on an order book", () => {
+  const book = {
+    bids: [
+      { price: 99, quantity: 1 },
+      { price: 98, quantity: 1 },
+    ],
+    asks: [
+      { price: 101, quantity: 1 },
+      { price: 102, quantity: 1 },
+    ],
+  };
+
+  it("reports fill price, fees and slippage against mid", () => {
+    const fill = estimateFromDepth(book, "buy", 50, 0.001);
+
+    expect(fill?.fullyFilled).toBe(true);
+    expect(fill?.levelsConsumed).toBe(1);
+    expect(fill?.midPrice).toBe(100);
+    expect(fill?.averagePrice).toBe(101);
+    expect(fill?.effectivePrice).toBeCloseTo(101 / 0.999, 10);
+    expect(fill?.slippagePercent).toBeCloseTo(1, 10);
+  });
+
+  it("flags partial fills when visible liquidity runs out", () => {
+    const fill = estimateFromDepth(book, "sell", 1_000_000, 0);
+
+    expect(fill?.fullyFilled).toBe(false);
+    expect(fill?.levelsConsumed).toBe(2);
+    expect(fill?.effectivePrice).toBe(fill?.averagePrice);
+  });
+});
+
+describe("execution estimator on a swap simulation", () => {
+  it("reports near-zero slippage for a small trade inside one range", () => {
+    // 1M tokens of liquidity around price 1, a $10 buy barely moves it
+    const deep = { ...snapshot, liquidity: 10n ** 24n };
+    const fill = estimateFromSwapSimulation(deep, pool, "buy", 10);
+
+    expect(fill?.fullyFilled).toBe(true);
+    expect(fill?.levelsConsumed).toBe(1);
+    // Inside one range the average price is 1 + amountIn / L after fees
+    expect(fill?.averagePrice).toBeCloseTo(1 + (10 * 0.997) / 1e6, 9);
+    expect(fill?.effectivePrice).toBeCloseTo(fill!.averagePrice / 0.997, 9);
+    expect(fill?.slippagePercent).toBeCloseTo(0.000997, 6);
+  });
+
+  it("matches the simulated swap amounts", () => {
+    const fill = estimateFromSwapSimulation(snapshot, pool, "buy", 10);
+    const swap = simulateSwap(snapshot, {
+      zeroForOne: false,
+      type: "exactInput",
+      amount: 10n ** 19n,
+    });
+
+    expect(fill?.fullyFilled).toBe(true);
+    expect(fill?.midPrice).toBeCloseTo(1, 10);
+    expect(fill?.feeRate).toBe(0.003);
+    expect(fill?.filledQuantity).toBeCloseTo(Number(swap.amountOut) / 1e18, 10);
+    expect(fill?.averagePrice).toBeCloseTo(
+      Number(swap.amountIn - swap.feeAmount) / Number(swap.amountOut),
+      10,
+    );
+    expect(fill?.worstPrice).toBeGreaterThan(fill!.averagePrice);
+    expect(fill?.effectivePrice).toBeCloseTo(fill!.averagePrice / 0.997, 6);
+  });
+
+  it("crosses into the next range for larger trades", () => {
+    const fill = estimateFromSwapSimulation(snapshot, pool, "buy", 50);
+
+    expect(fill?.fullyFilled).toBe(true);
+    expect(fill?.levelsConsumed).toBe(2);
+    expect(fill?.worstPrice).toBeGreaterThan(Math.pow(1.0001, 600));
+  });
+
+  it("sizes sells in quote terms and flags partial fills", () => {
+    const token1Pool = { ...pool, baseIsToken0: false, quotePriceUsd: 2 };
+    const fill = estimateFromSwapSimulation(snapshot, token1Pool, "sell", 20);
+    const tooLarge = estimateFromSwapSimulation(
+      snapshot,
+      token1Pool,
+      "sell",
+      10_000_000,
+    );
+
+    expect(fill?.filledNotional).toBeCloseTo(20, 10);
+    expect(fill?.midPrice).toBeCloseTo(2, 10);
+    expect(fill?.averagePrice).toBeLessThan(2);
+    expect(fill?.effectivePrice).toBeLessThan(fill!.averagePrice);
+    expect(tooLarge?.fullyFilled).toBe(false);
+    expect(tooLarge?.levelsConsumed).toBeGreaterThan(1);
+  });
+});
+
+describe("execution estimator on a perp venue", () => {
+  it("walks the listed contract and prices multiplied contracts per token", async () => {
+    vi.mocked(resolvePerpSymbols).mockResolvedValue({
+      [PriceSourceName.BYBIT]: {
+        venue: PriceSourceName.BYBIT,
+        symbol: "1000PEPEUSDT",
+        baseAsset: "PEPE",
+        multiplier: 1000,
+      },
+    });
+    vi.mocked(getVenueOrderBook).mockResolvedValue({
+      venue: PriceSourceName.BYBIT,
+      symbol: "1000PEPEUSDT",
+      bids: [{ price: 0.0099, quantity: 5000 }],
+      asks: [{ price: 0.0101, quantity: 5000 }],
+      timestamp: 1000,
+    });
+
+    const estimate = await estimateExecution(
+      PriceSourceName.BYBIT,
+      "PEPE",
+      "buy",
+      10.1,
+    );
+
+    expect(getVenueOrderBook).toHaveBeenCalledWith(
+      PriceSourceName.BYBIT,
+      "1000PEPEUSDT",
+      expect.any(Number),
+    );
+    expect(estimate?.midPrice).toBeCloseTo(0.00001, 12);
+    expect(estimate?.averagePrice).toBeCloseTo(0.0000101, 12);
+    expect(estimate?.filledQuantity).toBeCloseTo(1_000_000, 6);
+    expect(estimate?.fullyFilled).toBe(true);
+  });
+
+  it("skips venues that do not list the token", async () => {
+    vi.mocked(resolvePerpSymbols).mockResolvedValue({});
+    vi.mocked(getVenueOrderBook).mockClear();
+
+    expect(
+      await estimateExecution(PriceSourceName.BINANCE, "PEPE", "buy", 10),
+    ).toBeNull();
+    expect(getVenueOrderBook).not.toHaveBeenCalled();
+  });
+});
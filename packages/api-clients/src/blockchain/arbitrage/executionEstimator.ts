@@ -0,0 +1,308 @@
+/**
+ * Execution Price Estimator
+ *
+ * Estimates the average fill price and slippage of a market order of a given
+ * notional, walking the perp order books on CEX venues and simulating the
+ * swap across the initialized ticks of V3 pools.
+ */
+
+import { getLogger, Logger } from "@dex-ai/core";
+import { getVwapFill, getMidPrice } from "../perp/depth";
+import { PERP_VENUES } from "../perp/funding";
+import { getVenueOrderBook } from "../perp/orderbook";
+import { normalizePerpPrice, resolvePerpSymbols } from "../perp/symbolResolver";
+import { OrderBookLevel, PerpVenue, VenueOrderBook } from "../perp/types";
+import { resolveDexConfig } from "../onchain/pools/config";
+import { getPoolBaseInfoWithTokenInfo } from "../onchain/pools/core";
+import { getPoolTickSnapshot } from "../onchain/pools/ticks";
+import { PoolTickSnapshot, simulateSwap } from "../onchain/pools/swapSimulator";
+import { DEFAULT_VENUE_FEE_RATES } from "./spreadScanner";
+import {
+  ExecutionEstimate,
+  ExecutionSide,
+  ExecutionVenue,
+  V3PoolExecutionVenue,
+} from "./types";
+
+const logger: Logger = getLogger("arbitrage-execution");
+
+const ORDER_BOOK_DEPTH = 500;
+const FEE_DENOMINATOR = 1_000_000; // V3 fees are in hundredths of a bip
+
+/**
+ * Which pool token is traded and how the quote token is priced
+ */
+export interface V3PoolTokens {
+  baseIsToken0: boolean;
+  token0Decimals: number;
+  token1Decimals: number;
+  quotePriceUsd?: number; // Defaults to 1 for stablecoin quotes
+}
+
+export type ExecutionFill = Omit<
+  ExecutionEstimate,
+  "venue" | "symbol" | "timestamp"
+>;
+
+function isV3PoolVenue(venue: ExecutionVenue): venue is V3PoolExecutionVenue {
+  return typeof venue === "object" && venue.type === "v3_pool";
+}
+
+/**
+ * Walk a book for `notional` USD and express the fill against the mid price
+ */
+export function estimateFromDepth(
+  book: Pick<VenueOrderBook, "bids" | "asks">,
+  side: ExecutionSide,
+  notional: number,
+  feeRate: number,
+  midPrice?: number,
+): ExecutionFill | null {
+  const mid = midPrice ?? getMidPrice(book);
+  const fill = getVwapFill(book, side, { notional });
+  if (!fill || !mid) return null;
+
+  // Fees make buys more expensive and sells cheaper
+  const effectivePrice =
+    side === "buy"
+      ? fill.averagePrice / (1 - feeRate)
+      : fill.averagePrice * (1 - feeRate);
+
+  return {
+    side,
+    notional,
+    midPrice: mid,
+    averagePrice: fill.averagePrice,
+    effectivePrice,
+    worstPrice: fill.worstPrice,
+    feeRate,
+    slippagePercent: (Math.abs(fill.averagePrice - mid) / mid) * 100,
+    priceImpactPercent: (Math.abs(fill.worstPrice - mid) / mid) * 100,
+    filledQuantity: fill.filledQuantity,
+    filledNotional: fill.filledNotional,
+    fullyFilled: fill.fullyFilled,
+    levelsConsumed: fill.levelsConsumed,
+  };
+}
+
+async function estimatePerpExecution(
+  venue: PerpVenue,
+  symbol: string,
+  side: ExecutionSide,
+  notional: number,
+): Promise<ExecutionEstimate | null> {
+  const listing = (await resolvePerpSymbols({ symbol }, [venue]))[venue];
+  if (!listing) {
+    logger.warn("[Execution] Venue does not list the token", { venue, symbol });
+    return null;
+  }
+
+  const book = await getVenueOrderBook(venue, listing.symbol, ORDER_BOOK_DEPTH);
+  if (!book) return null;
+
+  // A 1000PEPEUSDT level quotes 1000 PEPE, restate it per token
+  const toTokenLevel = ({ price, quantity }: OrderBookLevel) => ({
+    price: normalizePerpPrice(price, listing),
+    quantity: quantity * listing.multiplier,
+  });
+  const fill = estimateFromDepth(
+    { bids: book.bids.map(toTokenLevel), asks: book.asks.map(toTokenLevel) },
+    side,
+    notional,
+    DEFAULT_VENUE_FEE_RATES[venue] ?? 0,
+  );
+  if (!fill) return null;
+
+  return { venue, symbol, ...fill, timestamp: book.timestamp };
+}
+
+/**
+ * Simulate a market order of `notional` USD against a V3 tick snapshot
+ *
+ * A buy swaps the quote token in for exact input, a sell swaps the base token
+ * in for an exact quote output, so both sides are sized in quote terms. Pool
+ * fees are taken from the input token and excluded from `averagePrice`.
+ */
+export function estimateFromSwapSimulation(
+  snapshot: PoolTickSnapshot,
+  pool: V3PoolTokens,
+  side: ExecutionSide,
+  notional: number,
+): ExecutionFill | null {
+  const { baseIsToken0, token0Decimals, token1Decimals } = pool;
+  const quotePriceUsd = pool.quotePriceUsd ?? 1;
+  const baseDecimals = baseIsToken0 ? token0Decimals : token1Decimals;
+  const quoteDecimals = baseIsToken0 ? token1Decimals : token0Decimals;
+  const toUnits = (amount: bigint, decimals: number) =>
+    Number(amount) / Math.pow(10, decimals);
+
+  // USD price of the base token at a given pool price
+  const toBasePrice = (sqrtPriceX96: bigint) => {
+    const sqrtPrice = Number(sqrtPriceX96) / 2 ** 96;
+    const spot =
+      sqrtPrice * sqrtPrice * Math.pow(10, token0Decimals - token1Decimals);
+    return (baseIsToken0 ? spot : 1 / spot) * quotePriceUsd;
+  };
+
+  const quoteAmount = BigInt(
+    Math.floor((notional / quotePriceUsd) * Math.pow(10, quoteDecimals)),
+  );
+  if (quoteAmount <= 0n) return null;
+
+  const swap = simulateSwap(snapshot, {
+    zeroForOne: side === "buy" ? !baseIsToken0 : baseIsToken0,
+    type: side === "buy" ? "exactInput" : "exactOutput",
+    amount: quoteAmount,
+  });
+  if (swap.amountIn === 0n || swap.amountOut === 0n) return null;
+
+  const baseAmount = toUnits(
+    side === "buy" ? swap.amountOut : swap.amountIn,
+    baseDecimals,
+  );
+  const quoteFilled = toUnits(
+    side === "buy" ? swap.amountIn : swap.amountOut,
+    quoteDecimals,
+  );
+  const averagePrice =
+    side === "buy"
+      ? ((quoteFilled - toUnits(swap.feeAmount, quoteDecimals)) / baseAmount) *
+        quotePriceUsd
+      : (quoteFilled / (baseAmount - toUnits(swap.feeAmount, baseDecimals))) *
+        quotePriceUsd;
+
+  const midPrice = toBasePrice(snapshot.sqrtPriceX96);
+  const worstPrice = toBasePrice(swap.sqrtPriceX96After);
+
+  return {
+    side,
+    notional,
+    midPrice,
+    averagePrice,
+    effectivePrice: (quoteFilled / baseAmount) * quotePriceUsd,
+    worstPrice,
+    feeRate: snapshot.fee / FEE_DENOMINATOR,
+    slippagePercent: (Math.abs(averagePrice - midPrice) / midPrice) * 100,
+    priceImpactPercent: (Math.abs(worstPrice - midPrice) / midPrice) * 100,
+    filledQuantity: baseAmount,
+    filledNotional: quoteFilled * quotePriceUsd,
+    fullyFilled: swap.fullyFilled,
+    levelsConsumed: swap.ticksCrossed + 1,
+  };
+}
+
+async function estimatePoolExecution(
+  venue: V3PoolExecutionVenue,
+  symbol: string,
+  side: ExecutionSide,
+  notional: number,
+): Promise<ExecutionEstimate | null> {
+  const config = resolveDexConfig(venue.config);
+  const [poolInfo, snapshot] = await Promise.all([
+    getPoolBaseInfoWithTokenInfo(venue.poolAddress, config),
+    getPoolTickSnapshot(venue.poolAddress, venue.wordRange ?? 10, config),
+  ]);
+
+  const upperSymbol = symbol.toUpperCase();
+  const baseIsToken0 = poolInfo.token0.symbol.toUpperCase() === upperSymbol;
+  if (!baseIsToken0 && poolInfo.token1.symbol.toUpperCase() !== upperSymbol) {
+    logger.warn("[Execution] Symbol is not part of the pool", {
+      poolAddress: venue.poolAddress,
+      symbol,
+      token0: poolInfo.token0.symbol,
+      token1: poolInfo.token1.symbol,
+    });
+    return null;
+  }
+
+  const quoteToken = baseIsToken0 ? poolInfo.token1 : poolInfo.token0;
+  const fill = estimateFromSwapSimulation(
+    snapshot,
+    {
+      baseIsToken0,
+      token0Decimals: poolInfo.token0.decimals,
+      token1Decimals: poolInfo.token1.decimals,
+      quotePriceUsd: quoteToken.priceUSD > 0 ? quoteToken.priceUSD : 1,
+    },
+    side,
+    notional,
+  );
+  if (!fill) return null;
+
+  return {
+    venue: venue.poolAddress,
+    symbol,
+    ...fill,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Estimate the price a market order of `notional` USD would actually get
+ *
+ * Perp venues walk the REST order book of the contract each venue lists for
+ * the token, priced per token for multiplied contracts. V3 pools run the exact
+ * swap simulation over a tick snapshot. The taker fee (CEX) or
+ * pool fee (DEX) is reported separately in `effectivePrice`.
+ *
+ * @param symbol - Base asset, e.g. "BTC"
+ * @param side - "buy" to buy the base asset, "sell" to sell it
+ */
+export async function estimateExecution(
+  venue: ExecutionVenue,
+  symbol: string,
+  side: ExecutionSide,
+  notional: number,
+): Promise<ExecutionEstimate | null> {
+  if (!(notional > 0)) {
+    throw new Error("notional must be a positive number");
+  }
+
+  const venueName = isV3PoolVenue(venue) ? venue.poolAddress : venue;
+
+  try {
+    const estimate = isV3PoolVenue(venue)
+      ? await estimatePoolExecution(venue, symbol, side, notional)
+      : await estimatePerpExecution(venue, symbol, side, notional);
+
+    logger.info("[Execution] Estimated execution", {
+      venue: venueName,
+      symbol,
+      side,
+      notional,
+      averagePrice: estimate?.averagePrice,
+      slippagePercent: estimate?.slippagePercent,
+    });
+
+    return estimate;
+  } catch (error) {
+    logger.error("[Execution] Failed to estimate execution", {
+      venue: venueName,
+      symbol,
+      side,
+      notional,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Estimate execution on every perp venue and the given pools in parallel
+ *
+ * Venues that fail or lack depth are omitted from the result.
+ */
+export async function estimateExecutionAcrossVenues(
+  symbol: string,
+  side: ExecutionSide,
+  notional: number,
+  venues: ExecutionVenue[] = PERP_VENUES,
+): Promise<ExecutionEstimate[]> {
+  const estimates = await Promise.all(
+    venues.map((venue) => estimateExecution(venue, symbol, side, notional)),
+  );
+
+  return estimates.filter(
+    (estimate): estimate is ExecutionEstimate => estimate !== null,
+  );
+}
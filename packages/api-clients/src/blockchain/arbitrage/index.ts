@@ -0,0 +1,10 @@
+/**
+ * Arbitrage - Cross-venue spread detection and net P&L estimation
+ */
+
+export * from "./spreadScanner";
+export * from "./netArbitrage";
+export * from "./executionEstimator";
+export * from "./quoteComparison";
+export * from "./quoteLadder";
+export * from "./types";
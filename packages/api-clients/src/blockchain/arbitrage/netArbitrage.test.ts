@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  MultiSourcePriceData,
+  PriceSourceEntry,
+  PriceSourceName,
+} from "../coingecko/types";
+import { calculateNetArbitrage } from "./netArbitrage";
+
+function entry(
+  currentPrice: number | null,
+  status: PriceSourceEntry["status"] = "ok",
+): PriceSourceEntry {
+  return {
+    status,
+    currentPrice,
+    lastUpdated: "2024-01-01T00:00:00.000Z",
+    latencyMs: 0,
+    dataTimestamp: null,
+    dataAgeMs: null,
+  };
+}
+
+const priceData: MultiSourcePriceData = {
+  tokenAddress: "0xtoken",
+  sources: {
+    [PriceSourceName.COINGECKO]: entry(0.5),
+    [PriceSourceName.BINANCE]: entry(1.0),
+    [PriceSourceName.BYBIT]: entry(1.02),
+    [PriceSourceName.BITGET]: entry(0),
+    [PriceSourceName.OKX]: entry(null, "rate_limited"),
+  },
+};
+
+const noSlippage = {
+  [PriceSourceName.BINANCE]: { takerFeeRate: 0.001, slippageRate: 0 },
+  [PriceSourceName.BYBIT]: { takerFeeRate: 0.001, slippageRate: 0 },
+};
+
+describe("calculateNetArbitrage", () => {
+  it("only pairs tradable venues with a valid price", () => {
+    const result = calculateNetArbitrage(priceData, {
+      tradeSizeUsd: 1000,
+      feeSchedules: noSlippage,
+    });
+
+    expect(result.opportunities).toHaveLength(2);
+    expect(result.best?.buyVenue).toBe(PriceSourceName.BINANCE);
+    expect(result.best?.sellVenue).toBe(PriceSourceName.BYBIT);
+  });
+
+  it("subtracts fees from the gross profit", () => {
+    const { best } = calculateNetArbitrage(priceData, {
+      tradeSizeUsd: 1000,
+      feeSchedules: noSlippage,
+    });
+
+    expect(best?.grossProfitUsd).toBeCloseTo(20, 8);
+    // 1000 * 0.001 + 1020 * 0.001
+    expect(best?.totalCostUsd).toBeCloseTo(2.02, 8);
+    expect(best?.netProfitUsd).toBeCloseTo(17.98, 8);
+    expect(best?.profitable).toBe(true);
+  });
+
+  it("charges funding to longs and credits it to shorts", () => {
+    const { best } = calculateNetArbitrage(priceData, {
+      tradeSizeUsd: 1000,
+      feeSchedules: noSlippage,
+      fundingRates: {
+        [PriceSourceName.BINANCE]: 0.001,
+        [PriceSourceName.BYBIT]: 0.001,
+      },
+      holdingHours: 16,
+    });
+
+    expect(best?.legs.buy.fundingUsd).toBeCloseTo(2, 8);
+    expect(best?.legs.sell.fundingUsd).toBeCloseTo(-2.04, 8);
+  });
+
+  it("rejects a non-positive trade size", () => {
+    expect(() =>
+      calculateNetArbitrage(priceData, { tradeSizeUsd: 0 }),
+    ).toThrow();
+  });
+});
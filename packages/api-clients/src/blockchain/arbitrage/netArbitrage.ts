@@ -0,0 +1,216 @@
+/**
+ * Net Arbitrage Calculator
+ *
+ * Turns raw cross-source price differences into expected net P&L per leg
+ * pair, after taker fees, DEX gas, slippage and perp funding.
+ */
+
+import { MultiSourcePriceData, PriceSourceName } from "../coingecko/types";
+import { getFundingRates, PERP_VENUES } from "../perp/funding";
+import { DEFAULT_VENUE_FEE_RATES } from "./spreadScanner";
+import {
+  ArbitrageLeg,
+  FundingIntervals,
+  FundingRates,
+  NetArbitrageOpportunity,
+  NetArbitrageOptions,
+  NetArbitrageResult,
+  PerpSpreadVenue,
+  SpreadVenue,
+  VenueFeeSchedule,
+} from "./types";
+
+/**
+ * Default cost schedule per venue. CEX legs are USDT perps,
+ * the OKX leg is an on-chain swap and pays gas.
+ */
+export const DEFAULT_FEE_SCHEDULES: Record<SpreadVenue, VenueFeeSchedule> = {
+  [PriceSourceName.BINANCE]: {
+    takerFeeRate: DEFAULT_VENUE_FEE_RATES[PriceSourceName.BINANCE],
+    slippageRate: 0.0002,
+  },
+  [PriceSourceName.BYBIT]: {
+    takerFeeRate: DEFAULT_VENUE_FEE_RATES[PriceSourceName.BYBIT],
+    slippageRate: 0.0002,
+  },
+  [PriceSourceName.BITGET]: {
+    takerFeeRate: DEFAULT_VENUE_FEE_RATES[PriceSourceName.BITGET],
+    slippageRate: 0.0002,
+  },
+  [PriceSourceName.OKX]: {
+    takerFeeRate: DEFAULT_VENUE_FEE_RATES[PriceSourceName.OKX],
+    slippageRate: 0.001,
+    gasCostUsd: 0.3, // BSC swap
+  },
+};
+
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+const DEFAULT_HOLDING_HOURS = 8;
+
+function isTradableVenue(source: string): source is SpreadVenue {
+  return source in DEFAULT_FEE_SCHEDULES;
+}
+
+function isPerpVenue(venue: SpreadVenue): venue is PerpSpreadVenue {
+  return (PERP_VENUES as SpreadVenue[]).includes(venue);
+}
+
+/**
+ * Fetch the predicted funding rate and interval of the USDT perp on each
+ * CEX venue, ready to be passed to `calculateNetArbitrage`
+ *
+ * Venues that fail or do not list the symbol are omitted from the result.
+ */
+export async function getCurrentFundingRates(
+  tokenSymbol: string,
+): Promise<Pick<NetArbitrageOptions, "fundingRates" | "fundingIntervals">> {
+  const rates = await getFundingRates(tokenSymbol);
+
+  const fundingRates: FundingRates = {};
+  const fundingIntervals: FundingIntervals = {};
+  Object.values(rates).forEach((rate) => {
+    if (!Number.isFinite(rate.predictedFundingRate)) return;
+    fundingRates[rate.venue] = rate.predictedFundingRate;
+    fundingIntervals[rate.venue] = rate.fundingIntervalHours;
+  });
+
+  return { fundingRates, fundingIntervals };
+}
+
+function buildLeg(
+  venue: SpreadVenue,
+  side: "buy" | "sell",
+  price: number,
+  tradeSizeUsd: number,
+  schedule: VenueFeeSchedule,
+  fundingRates: FundingRates,
+  fundingIntervals: FundingIntervals,
+  holdingHours: number,
+): ArbitrageLeg {
+  const feeUsd = tradeSizeUsd * schedule.takerFeeRate;
+  const slippageUsd = tradeSizeUsd * (schedule.slippageRate ?? 0);
+  const gasUsd = schedule.gasCostUsd ?? 0;
+
+  // Longs pay positive funding, shorts receive it
+  let fundingRate: number | undefined;
+  let fundingUsd = 0;
+  if (isPerpVenue(venue) && fundingRates[venue] !== undefined) {
+    fundingRate = fundingRates[venue];
+    const fundingPeriods =
+      holdingHours /
+      (fundingIntervals[venue] ?? DEFAULT_FUNDING_INTERVAL_HOURS);
+    fundingUsd =
+      tradeSizeUsd * fundingRate * fundingPeriods * (side === "buy" ? 1 : -1);
+  }
+
+  return {
+    venue,
+    side,
+    price,
+    feeUsd,
+    slippageUsd,
+    gasUsd,
+    fundingRate,
+    fundingUsd,
+    totalCostUsd: feeUsd + slippageUsd + gasUsd + fundingUsd,
+  };
+}
+
+/**
+ * Calculate the expected net edge for every buy/sell venue pair
+ *
+ * Buys `tradeSizeUsd` worth of the token at the cheaper venue and sells the
+ * same quantity at the other. Costs are expressed in USD and positive values
+ * reduce the profit. Funding is applied for `holdingHours` to perp legs.
+ */
+export function calculateNetArbitrage(
+  priceData: MultiSourcePriceData,
+  options: NetArbitrageOptions,
+): NetArbitrageResult {
+  const {
+    tradeSizeUsd,
+    fundingRates = {},
+    fundingIntervals = {},
+    holdingHours = DEFAULT_HOLDING_HOURS,
+  } = options;
+
+  if (!(tradeSizeUsd > 0)) {
+    throw new Error("tradeSizeUsd must be a positive number");
+  }
+
+  const prices: { venue: SpreadVenue; price: number }[] = [];
+  Object.entries(priceData.sources).forEach(([source, data]) => {
+    if (
+      isTradableVenue(source) &&
+      data.status === "ok" &&
+      data.currentPrice !== null &&
+      data.currentPrice > 0
+    ) {
+      prices.push({ venue: source, price: data.currentPrice });
+    }
+  });
+
+  const scheduleFor = (venue: SpreadVenue): VenueFeeSchedule => ({
+    ...DEFAULT_FEE_SCHEDULES[venue],
+    ...options.feeSchedules?.[venue],
+  });
+
+  const opportunities: NetArbitrageOpportunity[] = [];
+  for (const buy of prices) {
+    for (const sell of prices) {
+      if (buy.venue === sell.venue) continue;
+
+      const quantity = tradeSizeUsd / buy.price;
+      const grossProfitUsd = quantity * sell.price - tradeSizeUsd;
+      const buyLeg = buildLeg(
+        buy.venue,
+        "buy",
+        buy.price,
+        tradeSizeUsd,
+        scheduleFor(buy.venue),
+        fundingRates,
+        fundingIntervals,
+        holdingHours,
+      );
+      const sellLeg = buildLeg(
+        sell.venue,
+        "sell",
+        sell.price,
+        quantity * sell.price,
+        scheduleFor(sell.venue),
+        fundingRates,
+        fundingIntervals,
+        holdingHours,
+      );
+      const totalCostUsd = buyLeg.totalCostUsd + sellLeg.totalCostUsd;
+      const netProfitUsd = grossProfitUsd - totalCostUsd;
+
+      opportunities.push({
+        buyVenue: buy.venue,
+        sellVenue: sell.venue,
+        buyPrice: buy.price,
+        sellPrice: sell.price,
+        quantity,
+        grossSpreadPercent: ((sell.price - buy.price) / buy.price) * 100,
+        grossProfitUsd,
+        totalCostUsd,
+        netProfitUsd,
+        netEdgePercent: (netProfitUsd / tradeSizeUsd) * 100,
+        profitable: netProfitUsd > 0,
+        legs: { buy: buyLeg, sell: sellLeg },
+      });
+    }
+  }
+
+  opportunities.sort((a, b) => b.netProfitUsd - a.netProfitUsd);
+
+  return {
+    tokenAddress: priceData.tokenAddress,
+    tradeSizeUsd,
+    holdingHours,
+    fundingRates,
+    opportunities,
+    best: opportunities[0] ?? null,
+    timestamp: Date.now(),
+  };
+}
@@ -0,0 +1,163 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const getSwapQuote = vi.fn();
+
+vi.mock("../okexchange/dex", () => ({
+  createOkxDexClient: () => ({ getSwapQuote }),
+}));
+vi.mock("../pancake", () => ({
+  PANCAKE_SMART_ROUTER_ADDRESS: "0xrouter",
+  getSmartRouterQuote: vi.fn(),
+}));
+
+import { getSmartRouterQuote } from "../pancake";
+import { compareRouterQuotes } from "./quoteComparison";
+
+const USDT = { address: "0xusdt", symbol: "USDT", decimals: 18 };
+const CAKE = { address: "0xcake", symbol: "CAKE", decimals: 18 };
+
+function hop(from: string, to: string) {
+  return {
+    dexProtocol: [{ dexName: "PancakeSwap V3", percent: "100" }],
+    fromToken: { tokenSymbol: from },
+    toToken: { tokenSymbol: to },
+  };
+}
+
+function okxQuote(toTokenAmount: string, priceImpactPercentage = "-0.25") {
+  return {
+    toTokenAmount,
+    toToken: { decimal: "18" },
+    priceImpactPercentage,
+    estimateGasFee: "180000",
+    tradeFee: "0.12",
+    dexRouterList: [
+      {
+        routerAddress: "0xokx",
+        routerName: "PancakeSwap V3",
+        fee: "0",
+        gasEstimate: "180000",
+        subRouterList: [hop("USDT", "CAKE")],
+      },
+    ],
+  };
+}
+
+function pancakeQuote(outputAmount: string) {
+  return {
+    inputAmount: "1000",
+    outputAmount,
+    priceImpactPercent: 0.3,
+    routes: [
+      {
+        percent: 100,
+        path: [
+          { address: "0xusdt", symbol: "USDT" },
+          { address: "0xwbnb", symbol: "WBNB" },
+          { address: "0xcake", symbol: "CAKE" },
+        ],
+        pools: ["0xpool1", "0xpool2"],
+      },
+    ],
+    gasEstimate: "250000",
+    gasEstimateInUSD: "0.08",
+  };
+}
+
+describe("compareRouterQuotes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("normalizes both routers and picks the larger output", async () => {
+    getSwapQuote.mockResolvedValue(okxQuote("401000000000000000000"));
+    vi.mocked(getSmartRouterQuote).mockResolvedValue(pancakeQuote("400"));
+
+    const result = await compareRouterQuotes({
+      fromToken: USDT,
+      toToken: CAKE,
+      amount: "1000",
+    });
+
+    expect(getSwapQuote).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: "1000000000000000000000",
+        slippage: "0.005",
+        chainIndex: "56",
+      }),
+    );
+
+    const [okx, pancake] = result.quotes;
+    expect(okx).toMatchObject({
+      router: "okx-dex",
+      status: "ok",
+      amountOut: 401,
+      priceImpactPercent: 0.25,
+      hops: 1,
+      estimatedGas: "180000",
+      gasFeeUsd: 0.12,
+    });
+    expect(okx.comparison?.dexName).toBe("OKX DEX");
+    expect(pancake).toMatchObject({
+      router: "pancake-smart-router",
+      amountOut: 400,
+      hops: 2,
+      gasFeeUsd: 0.08,
+    });
+    expect(pancake.comparison?.route).toEqual(["USDT", "WBNB", "CAKE"]);
+    expect(pancake.dexRouters[0].routerAddress).toBe("0xrouter");
+
+    expect(result.bestRouter).toBe("okx-dex");
+    expect(result.advantagePercent).toBeCloseTo(0.25, 10);
+  });
+
+  it("reports failed and routeless quotes without dropping the other", async () => {
+    getSwapQuote.mockRejectedValue(new Error("Request failed with 429"));
+    vi.mocked(getSmartRouterQuote).mockResolvedValue(null);
+
+    const result = await compareRouterQuotes({
+      fromToken: USDT,
+      toToken: CAKE,
+      amount: "1000",
+    });
+
+    expect(result.quotes.map(({ status }) => status)).toEqual([
+      "error",
+      "no_route",
+    ]);
+    expect(result.quotes[0].error).toBe("Request failed with 429");
+    expect(result.bestRouter).toBeNull();
+    expect(result.advantagePercent).toBeNull();
+  });
+
+  it("counts OKX hops per split route and keeps an unknown impact empty", async () => {
+    getSwapQuote.mockResolvedValue({
+      ...okxQuote("401000000000000000000", ""),
+      dexRouterList: [
+        { subRouterList: [hop("USDT", "CAKE")] },
+        { subRouterList: [hop("USDT", "WBNB"), hop("WBNB", "CAKE")] },
+        { subRouterList: [hop("USDT", "BUSD"), hop("BUSD", "CAKE")] },
+      ],
+    });
+    vi.mocked(getSmartRouterQuote).mockResolvedValue(null);
+
+    const result = await compareRouterQuotes({
+      fromToken: USDT,
+      toToken: CAKE,
+      amount: "1000",
+    });
+
+    expect(result.quotes[0]).toMatchObject({
+      status: "ok",
+      hops: 2,
+      priceImpactPercent: null,
+    });
+    expect(result.quotes[0].comparison?.priceImpact).toBe("");
+  });
+
+  it("rejects non-positive amounts", async () => {
+    await expect(
+      compareRouterQuotes({ fromToken: USDT, toToken: CAKE, amount: "0" }),
+    ).rejects.toThrow("amount must be a positive number");
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * DEX Router Quote Comparison
+ *
+ * Requests the same exact-input trade from the OKX DEX aggregator and the
+ * PancakeSwap Smart Router on BSC and reports which one returns more output,
+ * along with the price impact, route and gas of each quote.
+ */
+
+import { getLogger, Logger } from "@dex-ai/core";
+import { parseUnits } from "viem";
+import { createOkxDexClient } from "../okexchange/dex";
+import { getOkxDexChainIndex } from "../okexchange/chains";
+import { PANCAKE_SMART_ROUTER_ADDRESS, getSmartRouterQuote } from "../pancake";
+import { BlockchainPlatform, DexRouter, SwapQuote } from "../types";
+import {
+  QuoteRouterName,
+  QuoteToken,
+  RouterQuote,
+  RouterQuoteComparison,
+  RouterQuoteRequest,
+} from "./types";
+
+const logger: Logger = getLogger("arbitrage-quotes");
+
+const DEFAULT_SLIPPAGE_PERCENT = 0.5;
+
+// Default token trade sizes are denominated in, routed by both routers on BSC
+export const BSC_USDT_QUOTE_TOKEN: QuoteToken = {
+  address: "0x55d398326f99059fF775485246999027B3197955",
+  symbol: "USDT",
+  decimals: 18,
+};
+
+type RouterQuoteFields = Omit<RouterQuote, "router" | "latencyMs">;
+
+let okxDexClient: ReturnType<typeof createOkxDexClient> | null = null;
+
+// One client so its rate limit manager is shared across comparisons
+function getOkxDexClient() {
+  if (!okxDexClient) okxDexClient = createOkxDexClient();
+  return okxDexClient;
+}
+
+function emptyQuote(
+  status: Exclude<RouterQuote["status"], "ok">,
+  error?: string,
+): RouterQuoteFields {
+  return {
+    status,
+    amountOut: null,
+    price: null,
+    priceImpactPercent: null,
+    hops: null,
+    estimatedGas: null,
+    gasFeeUsd: null,
+    comparison: null,
+    dexRouters: [],
+    ...(error && { error }),
+  };
+}
+
+/**
+ * Quote the trade on the OKX DEX aggregator
+ */
+async function quoteOkxDex(
+  request: RouterQuoteRequest,
+  slippagePercent: number,
+): Promise<RouterQuoteFields> {
+  const { fromToken, toToken, amount } = request;
+  const quote: SwapQuote | null = await getOkxDexClient().getSwapQuote({
+    fromTokenAddress: fromToken.address,
+    toTokenAddress: toToken.address,
+    amount: parseUnits(amount, fromToken.decimals).toString(),
+    slippage: (slippagePercent / 100).toString(),
+    chainIndex: getOkxDexChainIndex(BlockchainPlatform.BINANCE_SMART_CHAIN),
+  });
+
+  if (!quote || !(Number(quote.toTokenAmount) > 0)) {
+    return emptyQuote("no_route");
+  }
+
+  const decimals = Number(quote.toToken?.decimal ?? toToken.decimals);
+  const amountOut = Number(quote.toTokenAmount) / 10 ** decimals;
+  const price = amountOut / Number(amount);
+  // OKX reports impact as a signed change in value, losses are negative,
+  // and leaves it empty when it cannot estimate one
+  const impact = parseFloat(quote.priceImpactPercentage);
+  const priceImpactPercent = Number.isFinite(impact) ? Math.abs(impact) : null;
+  const dexRouters = quote.dexRouterList ?? [];
+  const route = dexRouters[0]?.path?.length
+    ? dexRouters[0].path
+    : [fromToken.symbol, toToken.symbol];
+
+  return {
+    status: "ok",
+    amountOut,
+    price,
+    priceImpactPercent,
+    // dexRouterList holds split routes, their sub-routers are the hops
+    hops: Math.max(
+      1,
+      ...dexRouters.map((router) => router.subRouterList?.length ?? 1),
+    ),
+    estimatedGas: quote.estimateGasFee ?? null,
+    // tradeFee is the network fee of the route in USD
+    gasFeeUsd: quote.tradeFee ? Number(quote.tradeFee) : null,
+    comparison: {
+      dexName: "OKX DEX",
+      price: price.toString(),
+      priceImpact: priceImpactPercent?.toString() ?? "",
+      gasFee: quote.tradeFee ?? "",
+      slippage: slippagePercent.toString(),
+      route,
+    },
+    dexRouters,
+  };
+}
+
+/**
+ * Quote the trade on the PancakeSwap Smart Router
+ */
+async function quotePancake(
+  request: RouterQuoteRequest,
+  slippagePercent: number,
+): Promise<RouterQuoteFields> {
+  const { fromToken, toToken, amount } = request;
+  const quote = await getSmartRouterQuote({
+    swapFrom: fromToken,
+    toToken,
+    amount: parseUnits(amount, fromToken.decimals).toString(),
+  });
+
+  if (!quote || !(Number(quote.outputAmount) > 0)) {
+    return emptyQuote("no_route");
+  }
+
+  const amountOut = Number(quote.outputAmount);
+  const price = amountOut / Number(amount);
+  // The route carrying the largest share of the input
+  const mainRoute = [...quote.routes].sort((a, b) => b.percent - a.percent)[0];
+  const route = mainRoute?.path.map((token) => token.symbol) ?? [];
+  const gasFeeUsd = quote.gasEstimateInUSD
+    ? Number(quote.gasEstimateInUSD)
+    : null;
+
+  // Pool fees are already priced into amountOut, the router takes none
+  const dexRouters: DexRouter[] = quote.routes.map((splitRoute) => ({
+    routerAddress: PANCAKE_SMART_ROUTER_ADDRESS,
+    routerName: `PancakeSwap Smart Router (${splitRoute.percent}%)`,
+    fee: "0",
+    gasEstimate: quote.gasEstimate,
+    path: splitRoute.path.map((token) => token.address),
+  }));
+
+  return {
+    status: "ok",
+    amountOut,
+    price,
+    priceImpactPercent: quote.priceImpactPercent,
+    hops: Math.max(0, ...quote.routes.map((r) => r.pools.length)),
+    estimatedGas: quote.gasEstimate,
+    gasFeeUsd,
+    comparison: {
+      dexName: "PancakeSwap",
+      price: price.toString(),
+      priceImpact: quote.priceImpactPercent.toString(),
+      gasFee: quote.gasEstimateInUSD ?? "",
+      slippage: slippagePercent.toString(),
+      route,
+    },
+    dexRouters,
+  };
+}
+
+const ROUTER_QUOTERS: Record<
+  QuoteRouterName,
+  (
+    request: RouterQuoteRequest,
+    slippagePercent: number,
+  ) => Promise<RouterQuoteFields>
+> = {
+  "okx-dex": quoteOkxDex,
+  "pancake-smart-router": quotePancake,
+};
+
+/**
+ * Request the trade from one router, failures become an error quote
+ */
+async function getRouterQuote(
+  router: QuoteRouterName,
+  request: RouterQuoteRequest,
+  slippagePercent: number,
+): Promise<RouterQuote> {
+  const startTime = Date.now();
+  try {
+    const fields = await ROUTER_QUOTERS[router](request, slippagePercent);
+    return { router, ...fields, latencyMs: Date.now() - startTime };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("[QuoteComparison] Router quote failed", {
+      router,
+      fromToken: request.fromToken.symbol,
+      toToken: request.toToken.symbol,
+      amount: request.amount,
+      error: message,
+    });
+    return {
+      router,
+      ...emptyQuote("error", message),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Compare the same exact-input trade across OKX DEX and PancakeSwap
+ */
+export async function compareRouterQuotes(
+  request: RouterQuoteRequest,
+  routers: QuoteRouterName[] = ["okx-dex", "pancake-smart-router"],
+): Promise<RouterQuoteComparison> {
+  const { slippagePercent = DEFAULT_SLIPPAGE_PERCENT } = request;
+  if (!(Number(request.amount) > 0)) {
+    throw new Error(`amount must be a positive number: ${request.amount}`);
+  }
+
+  const quotes = await Promise.all(
+    routers.map((router) => getRouterQuote(router, request, slippagePercent)),
+  );
+
+  const ranked = quotes
+    .filter((quote) => quote.status === "ok" && quote.amountOut !== null)
+    .sort((a, b) => b.amountOut! - a.amountOut!);
+  const [best, runnerUp] = ranked;
+
+  logger.info("[QuoteComparison] Router quotes compared", {
+    fromToken: request.fromToken.symbol,
+    toToken: request.toToken.symbol,
+    amount: request.amount,
+    bestRouter: best?.router ?? null,
+    statuses: quotes.map(({ router, status }) => `${router}:${status}`),
+  });
+
+  return {
+    fromToken: request.fromToken,
+    toToken: request.toToken,
+    amountIn: request.amount,
+    quotes,
+    bestRouter: best?.router ?? null,
+    advantagePercent:
+      best && runnerUp
+        ? ((best.amountOut! - runnerUp.amountOut!) / runnerUp.amountOut!) * 100
+        : null,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Compare router quotes for several trade sizes, one size at a time so the
+ * OKX rate limit window is not burst
+ */
+export async function compareRouterQuotesBySize(
+  request: Omit<RouterQuoteRequest, "amount">,
+  amounts: string[],
+  routers?: QuoteRouterName[],
+): Promise<RouterQuoteComparison[]> {
+  const comparisons: RouterQuoteComparison[] = [];
+  for (const amount of amounts) {
+    comparisons.push(
+      await compareRouterQuotes({ ...request, amount }, routers),
+    );
+  }
+  return comparisons;
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { memoryCacheAdapter } from "@dex-ai/core";
+
+vi.mock("./quoteComparison", () => ({ compareRouterQuotes: vi.fn() }));
+
+import { compareRouterQuotes } from "./quoteComparison";
+import { getQuoteLadder } from "./quoteLadder";
+import { RouterQuoteRequest } from "./types";
+
+const USDT = { address: "0xusdt", symbol: "USDT", decimals: 18 };
+const TOKEN = { address: "0xtoken", symbol: "TKN", decimals: 18 };
+
+// A pool priced at $2 per token losing 1% of output per $10k traded
+function fakeComparison(request: RouterQuoteRequest) {
+  const amount = Number(request.amount);
+  const isBuy = request.fromToken.symbol === "USDT";
+  const sizeUsd = isBuy ? amount : amount * 2;
+  const amountOut = (isBuy ? amount / 2 : amount * 2) * (1 - sizeUsd / 1e6);
+
+  return {
+    fromToken: request.fromToken,
+    toToken: request.toToken,
+    amountIn: request.amount,
+    quotes: [
+      {
+        router: "okx-dex" as const,
+        status: "ok" as const,
+        amountOut,
+        price: amountOut / amount,
+        priceImpactPercent: (sizeUsd / 1e6) * 100,
+        hops: 1,
+        estimatedGas: "150000",
+        gasFeeUsd: 0.1,
+        comparison: null,
+        dexRouters: [],
+        latencyMs: 0,
+      },
+    ],
+    bestRouter: "okx-dex" as const,
+    advantagePercent: null,
+    timestamp: 0,
+  };
+}
+
+describe("getQuoteLadder", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await memoryCacheAdapter.clearCache("router-quote-ladders");
+    vi.mocked(compareRouterQuotes).mockImplementation(async (request) =>
+      fakeComparison(request),
+    );
+  });
+
+  it("measures slippage against the probe mid in both directions", async () => {
+    const ladder = await getQuoteLadder({
+      token: TOKEN,
+      quoteToken: USDT,
+      sizesUsd: [100000, 1000],
+    });
+
+    expect(ladder.referencePriceUsd).toBeCloseTo(2, 3);
+    expect(ladder.sizesUsd).toEqual([1000, 100000]);
+
+    const [smallBuy, largeBuy] = ladder.buy;
+    expect(smallBuy.slippagePercent).toBeCloseTo(0.1, 1);
+    expect(largeBuy.effectivePriceUsd).toBeCloseTo(2 / 0.9, 3);
+    expect(largeBuy.slippagePercent).toBeCloseTo(11.1, 1);
+
+    const largeSell = ladder.sell[1];
+    expect(Number(largeSell.amountIn)).toBeCloseTo(50000, 2);
+    expect(largeSell.effectivePriceUsd).toBeCloseTo(1.8, 3);
+    expect(largeSell.slippagePercent).toBeCloseTo(10, 1);
+  });
+
+  it("caches ladders briefly", async () => {
+    const request = { token: TOKEN, quoteToken: USDT, sizesUsd: [1000] };
+    await getQuoteLadder(request);
+    const calls = vi.mocked(compareRouterQuotes).mock.calls.length;
+
+    await getQuoteLadder(request);
+
+    expect(compareRouterQuotes).toHaveBeenCalledTimes(calls);
+  });
+
+  it("skips sells when the token cannot be priced", async () => {
+    vi.mocked(compareRouterQuotes).mockImplementation(async (request) => ({
+      ...fakeComparison(request),
+      bestRouter: null,
+      quotes: [],
+    }));
+
+    const ladder = await getQuoteLadder({
+      token: TOKEN,
+      quoteToken: USDT,
+      sizesUsd: [1000],
+    });
+
+    expect(ladder.referencePriceUsd).toBeNull();
+    expect(ladder.sell).toEqual([]);
+  });
+
+  it("rejects an empty or non-positive ladder", async () => {
+    await expect(
+      getQuoteLadder({ token: TOKEN, quoteToken: USDT, sizesUsd: [0] }),
+    ).rejects.toThrow("sizesUsd must be");
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * DEX Quote Ladder
+ *
+ * Quotes a token on the DEX routers at a ladder of trade sizes in both
+ * directions, giving a price impact vs size curve that reflects real routing
+ * across pools. Requests run one size at a time through the shared OKX DEX
+ * client, so its RateLimitManager spaces them out.
+ */
+
+import { getLogger, Logger, memoryCacheAdapter } from "@dex-ai/core";
+import { compareRouterQuotes } from "./quoteComparison";
+import {
+  QuoteLadder,
+  QuoteLadderDirection,
+  QuoteLadderPoint,
+  QuoteLadderRequest,
+  RouterQuoteComparison,
+} from "./types";
+
+const logger: Logger = getLogger("arbitrage-quote-ladder");
+
+export const DEFAULT_LADDER_SIZES_USD = [1000, 5000, 10000, 50000, 100000];
+
+const LADDER_CACHE = "router-quote-ladders";
+const LADDER_TTL = 30 * 1000; // Quotes move with every block, keep them briefly
+// Small enough to barely move the price, large enough to route
+const PROBE_SIZE_USD = 10;
+const MAX_AMOUNT_DECIMALS = 8;
+
+/**
+ * Format a token amount for a router request without exceeding its decimals
+ */
+function formatAmount(amount: number, decimals: number): string {
+  return amount.toFixed(Math.min(decimals, MAX_AMOUNT_DECIMALS));
+}
+
+/**
+ * Best effective USD price of a comparison, the one the ladder is measured from
+ */
+function bestEffectivePrice(
+  comparison: RouterQuoteComparison,
+  direction: QuoteLadderDirection,
+): number | null {
+  const best = comparison.quotes.find(
+    (quote) => quote.router === comparison.bestRouter,
+  );
+  if (!best?.amountOut) return null;
+
+  const amountIn = Number(comparison.amountIn);
+  return direction === "buy"
+    ? amountIn / best.amountOut
+    : best.amountOut / amountIn;
+}
+
+/**
+ * Turn one size's router quotes into ladder points
+ */
+export function toQuoteLadderPoints(
+  comparison: RouterQuoteComparison,
+  sizeUsd: number,
+  direction: QuoteLadderDirection,
+  referencePriceUsd: number | null,
+): QuoteLadderPoint[] {
+  const amountIn = Number(comparison.amountIn);
+
+  return comparison.quotes.map((quote) => {
+    const effectivePriceUsd = quote.amountOut
+      ? direction === "buy"
+        ? amountIn / quote.amountOut
+        : quote.amountOut / amountIn
+      : null;
+
+    // Paying more on a buy or receiving less on a sell is positive slippage
+    const slippagePercent =
+      effectivePriceUsd !== null && referencePriceUsd
+        ? ((direction === "buy"
+            ? effectivePriceUsd - referencePriceUsd
+            : referencePriceUsd - effectivePriceUsd) /
+            referencePriceUsd) *
+          100
+        : null;
+
+    return {
+      sizeUsd,
+      direction,
+      router: quote.router,
+      status: quote.status,
+      amountIn: comparison.amountIn,
+      amountOut: quote.amountOut,
+      effectivePriceUsd,
+      slippagePercent,
+      priceImpactPercent: quote.priceImpactPercent,
+      hops: quote.hops,
+      gasFeeUsd: quote.gasFeeUsd,
+      ...(quote.error && { error: quote.error }),
+    };
+  });
+}
+
+/**
+ * Reference price from a small buy and sell, the mid when both route
+ */
+async function probeReferencePrice(
+  request: QuoteLadderRequest,
+): Promise<number | null> {
+  const { token, quoteToken, slippagePercent, routers } = request;
+
+  const buyProbe = await compareRouterQuotes(
+    {
+      fromToken: quoteToken,
+      toToken: token,
+      amount: formatAmount(PROBE_SIZE_USD, quoteToken.decimals),
+      slippagePercent,
+    },
+    routers,
+  );
+  const buyPrice = bestEffectivePrice(buyProbe, "buy");
+  if (buyPrice === null) return null;
+
+  const sellProbe = await compareRouterQuotes(
+    {
+      fromToken: token,
+      toToken: quoteToken,
+      amount: formatAmount(PROBE_SIZE_USD / buyPrice, token.decimals),
+      slippagePercent,
+    },
+    routers,
+  );
+  const sellPrice = bestEffectivePrice(sellProbe, "sell");
+
+  return sellPrice === null ? buyPrice : (buyPrice + sellPrice) / 2;
+}
+
+/**
+ * Quote the token at every ladder size in both directions
+ */
+export async function getQuoteLadder(
+  request: QuoteLadderRequest,
+): Promise<QuoteLadder> {
+  const { token, quoteToken, slippagePercent, routers } = request;
+  const sizesUsd = [...new Set(request.sizesUsd)].sort((a, b) => a - b);
+  if (!sizesUsd.length || sizesUsd.some((size) => !(size > 0))) {
+    throw new Error("sizesUsd must be a non-empty list of positive sizes");
+  }
+
+  const cacheKeys = [
+    token.address.toLowerCase(),
+    quoteToken.address.toLowerCase(),
+    sizesUsd.join(","),
+    String(slippagePercent ?? ""),
+    (routers ?? []).join(","),
+  ];
+  const cached = await memoryCacheAdapter.getFromCache<QuoteLadder>(
+    LADDER_CACHE,
+    ...cacheKeys,
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const referencePriceUsd = await probeReferencePrice(request);
+
+  const buy: QuoteLadderPoint[] = [];
+  const sell: QuoteLadderPoint[] = [];
+  for (const sizeUsd of sizesUsd) {
+    const buyComparison = await compareRouterQuotes(
+      {
+        fromToken: quoteToken,
+        toToken: token,
+        amount: formatAmount(sizeUsd, quoteToken.decimals),
+        slippagePercent,
+      },
+      routers,
+    );
+    buy.push(
+      ...toQuoteLadderPoints(buyComparison, sizeUsd, "buy", referencePriceUsd),
+    );
+
+    // Sells are sized in tokens, which needs a price to convert from USD
+    if (referencePriceUsd) {
+      const sellComparison = await compareRouterQuotes(
+        {
+          fromToken: token,
+          toToken: quoteToken,
+          amount: formatAmount(sizeUsd / referencePriceUsd, token.decimals),
+          slippagePercent,
+        },
+        routers,
+      );
+      sell.push(
+        ...toQuoteLadderPoints(
+          sellComparison,
+          sizeUsd,
+          "sell",
+          referencePriceUsd,
+        ),
+      );
+    }
+  }
+
+  const ladder: QuoteLadder = {
+    token,
+    quoteToken,
+    referencePriceUsd,
+    sizesUsd,
+    buy,
+    sell,
+    timestamp: Date.now(),
+  };
+
+  logger.info("[QuoteLadder] Ladder quoted", {
+    token: token.symbol,
+    sizes: sizesUsd.length,
+    referencePriceUsd,
+    buyPoints: buy.length,
+    sellPoints: sell.length,
+  });
+
+  // Only cache ladders that priced the token at all
+  if (referencePriceUsd !== null) {
+    await memoryCacheAdapter.saveToCache(
+      LADDER_CACHE,
+      ladder,
+      LADDER_TTL,
+      ...cacheKeys,
+    );
+  }
+
+  return ladder;
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+
+vi.mock("../bybit/perp/tickers", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  subscribeBybitTickers: vi.fn(),
+}));
+
+import { BybitTicker, subscribeBybitTickers } from "../bybit/perp/tickers";
+import { calculateSpread, createSpreadScanner } from "./spreadScanner";
+import { SpreadVenue, VenueQuote } from "./types";
+
+function quote(
+  venue: SpreadVenue,
+  bid: number,
+  ask: number,
+  timestamp: number,
+  symbol = "PEPE",
+): VenueQuote {
+  return { venue, symbol, venueSymbol: `${symbol}USDT`, bid, ask, timestamp };
+}
+
+describe("calculateSpread", () => {
+  it("computes gross and fee-adjusted net spread", () => {
+    const buy = quote(PriceSourceName.BINANCE, 99, 100, 1000);
+    const sell = quote(PriceSourceName.BYBIT, 101, 102, 1000);
+
+    const spread = calculateSpread(buy, sell, {
+      [PriceSourceName.BINANCE]: 0.001,
+      [PriceSourceName.BYBIT]: 0.001,
+    });
+
+    expect(spread.buyPrice).toBe(100);
+    expect(spread.sellPrice).toBe(101);
+    expect(spread.grossSpreadPercent).toBeCloseTo((1 / 100.5) * 100, 10);
+    expect(spread.feesPercent).toBeCloseTo(0.2, 10);
+    expect(spread.netSpreadPercent).toBeCloseTo(
+      spread.grossSpreadPercent - 0.2,
+      10,
+    );
+  });
+});
+
+describe("createSpreadScanner", () => {
+  const feeRates = {
+    [PriceSourceName.BINANCE]: 0.0005,
+    [PriceSourceName.BYBIT]: 0.0005,
+    [PriceSourceName.BITGET]: 0.0005,
+  };
+
+  it("emits a signal when the net spread clears the threshold", () => {
+    const scanner = createSpreadScanner({
+      symbols: ["PEPE"],
+      minNetSpreadPercent: 0.5,
+      feeRates,
+    });
+    const onSignal = vi.fn();
+    scanner.onSignal(onSignal);
+
+    expect(
+      scanner.ingestQuote(quote(PriceSourceName.BINANCE, 99, 100, 1000)),
+    ).toHaveLength(0);
+    const signals = scanner.ingestQuote(
+      quote(PriceSourceName.BYBIT, 101.5, 102, 1100),
+    );
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].buyVenue).toBe(PriceSourceName.BINANCE);
+    expect(signals[0].sellVenue).toBe(PriceSourceName.BYBIT);
+    expect(signals[0].netSpreadPercent).toBeGreaterThan(0.5);
+    expect(onSignal).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores spreads below the threshold and stale quotes", () => {
+    const scanner = createSpreadScanner({
+      symbols: ["PEPE"],
+      minNetSpreadPercent: 0.5,
+      maxQuoteAgeMs: 1000,
+      feeRates,
+    });
+
+    scanner.ingestQuote(quote(PriceSourceName.BINANCE, 99, 100, 1000));
+    // Spread too small
+    expect(
+      scanner.ingestQuote(quote(PriceSourceName.BYBIT, 100.2, 100.5, 1100)),
+    ).toHaveLength(0);
+    // Large spread but Binance quote is stale
+    expect(
+      scanner.ingestQuote(quote(PriceSourceName.BITGET, 105, 106, 5000)),
+    ).toHaveLength(0);
+  });
+
+  it("applies the per-route cooldown", () => {
+    const scanner = createSpreadScanner({
+      symbols: ["PEPE"],
+      minNetSpreadPercent: 0.5,
+      signalCooldownMs: 1000,
+      feeRates,
+    });
+
+    scanner.ingestQuote(quote(PriceSourceName.BINANCE, 99, 100, 1000));
+    expect(
+      scanner.ingestQuote(quote(PriceSourceName.BYBIT, 102, 103, 1100)),
+    ).toHaveLength(1);
+    expect(
+      scanner.ingestQuote(quote(PriceSourceName.BYBIT, 102, 103, 1500)),
+    ).toHaveLength(0);
+    expect(
+      scanner.ingestQuote(quote(PriceSourceName.BYBIT, 102, 103, 2200)),
+    ).toHaveLength(1);
+  });
+
+  it("keeps a bounded, filterable and replayable history", () => {
+    const scanner = createSpreadScanner({
+      symbols: ["PEPE", "WIF"],
+      minNetSpreadPercent: 0.5,
+      signalCooldownMs: 0,
+      historySize: 2,
+      feeRates,
+    });
+
+    scanner.ingestQuote(quote(PriceSourceName.BINANCE, 99, 100, 1000));
+    scanner.ingestQuote(quote(PriceSourceName.BYBIT, 102, 103, 1001));
+    scanner.ingestQuote(quote(PriceSourceName.BINANCE, 9, 10, 1002, "WIF"));
+    scanner.ingestQuote(quote(PriceSourceName.BITGET, 11, 12, 1003, "WIF"));
+    scanner.ingestQuote(quote(PriceSourceName.BITGET, 11, 12, 1004, "WIF"));
+
+    const history = scanner.getHistory();
+    expect(history).toHaveLength(2);
+    expect(history.every((s) => s.symbol === "WIF")).toBe(true);
+    expect(scanner.getHistory({ symbol: "pepe" })).toHaveLength(0);
+    expect(scanner.getHistory({ since: 1004 })).toHaveLength(1);
+
+    const replayed: string[] = [];
+    expect(scanner.replay((s) => replayed.push(s.id))).toBe(2);
+    expect(replayed).toEqual(history.map((s) => s.id));
+  });
+});
+
+describe("spread scanner Bybit feed", () => {
+  it("stamps quotes with the exchange time of the push", async () => {
+    let onUpdate: (ticker: BybitTicker) => void = () => {};
+    vi.mocked(subscribeBybitTickers).mockImplementation(async (_, callback) => {
+      onUpdate = callback;
+      return { ws: {} as never, close: vi.fn() };
+    });
+    const scanner = createSpreadScanner({
+      symbols: ["PEPE"],
+      venues: [PriceSourceName.BYBIT],
+    });
+
+    await scanner.start();
+    onUpdate({
+      symbol: "PEPEUSDT",
+      bid1Price: "0.99",
+      ask1Price: "1.01",
+      ts: 1234,
+    });
+    scanner.stop();
+
+    expect(scanner.getLatestQuotes("PEPE")[0].timestamp).toBe(1234);
+  });
+
+  it("closes a subscription that resolves after stop", async () => {
+    const close = vi.fn();
+    let resolve: () => void = () => {};
+    vi.mocked(subscribeBybitTickers).mockImplementation(
+      () =>
+        new Promise((done) => {
+          resolve = () => done({ ws: {} as never, close });
+        }),
+    );
+    const scanner = createSpreadScanner({
+      symbols: ["PEPE"],
+      venues: [PriceSourceName.BYBIT],
+    });
+
+    const started = scanner.start();
+    scanner.stop();
+    resolve();
+    await started;
+
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(scanner.isRunning()).toBe(false);
+  });
+});
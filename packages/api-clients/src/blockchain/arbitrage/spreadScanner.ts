@@ -0,0 +1,498 @@
+/**
+ * Cross-venue Spread Scanner
+ *
+ * Consumes live top-of-book quotes from the perp venues (Binance, Bybit, Bitget)
+ * and OKX DEX, and emits bid/ask based spread signals per symbol in real time.
+ */
+
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../coingecko/types";
+import {
+  subscribeOrderBookTicker,
+  BinanceTickerSubscription,
+} from "../binance/perp";
+import {
+  subscribeBybitTickers,
+  toBybitTicker,
+  BybitTickerSubscription,
+} from "../bybit/perp/tickers";
+import {
+  subscribePerpPrices,
+  toBitgetTicker,
+  BitgetTickerSubscription,
+} from "../bitget/perp";
+import {
+  getOkxBatchTokenPrices,
+  convertOkxBatchPriceToPriceData,
+  OKX_DEX_CHAIN_INDEX,
+} from "../okexchange/dex";
+import { resolveOkxDexChainIndex } from "../okexchange/chains";
+import {
+  SpreadHistoryFilter,
+  SpreadScannerConfig,
+  SpreadSignal,
+  SpreadSignalCallback,
+  SpreadVenue,
+  VenueFeeRates,
+  VenueQuote,
+} from "./types";
+
+const logger: Logger = getLogger("arbitrage-spread-scanner");
+
+/**
+ * Default taker fee rates per venue (fraction of notional)
+ */
+export const DEFAULT_VENUE_FEE_RATES: Record<SpreadVenue, number> = {
+  [PriceSourceName.BINANCE]: 0.0005, // 0.05% USDM taker
+  [PriceSourceName.BYBIT]: 0.00055, // 0.055% linear taker
+  [PriceSourceName.BITGET]: 0.0006, // 0.06% USDT-M taker
+  [PriceSourceName.OKX]: 0.003, // Typical V2/V3 pool fee routed by the aggregator
+};
+
+export const ALL_SPREAD_VENUES: SpreadVenue[] = [
+  PriceSourceName.BINANCE,
+  PriceSourceName.BYBIT,
+  PriceSourceName.BITGET,
+  PriceSourceName.OKX,
+];
+
+const DEFAULT_MAX_QUOTE_AGE_MS = 5000;
+const DEFAULT_HISTORY_SIZE = 1000;
+const DEFAULT_SIGNAL_COOLDOWN_MS = 1000;
+const DEFAULT_MIN_NET_SPREAD_PERCENT = 0.2;
+const DEFAULT_OKX_POLL_INTERVAL_MS = 5000;
+
+export interface SpreadScanner {
+  start: () => Promise<void>;
+  stop: () => void;
+  isRunning: () => boolean;
+  onSignal: (callback: SpreadSignalCallback) => () => void;
+  ingestQuote: (quote: VenueQuote) => SpreadSignal[];
+  getLatestQuotes: (symbol?: string) => VenueQuote[];
+  getHistory: (filter?: SpreadHistoryFilter) => SpreadSignal[];
+  replay: (
+    callback: SpreadSignalCallback,
+    filter?: SpreadHistoryFilter,
+  ) => number;
+  clearHistory: () => void;
+}
+
+/**
+ * Calculate the spread of buying at `buy.ask` and selling at `sell.bid`
+ *
+ * Spread formula: (sell bid - buy ask) / mid * 100, where mid is the average
+ * of the two prices. Net spread subtracts the taker fee of both legs.
+ */
+export function calculateSpread(
+  buy: VenueQuote,
+  sell: VenueQuote,
+  feeRates: VenueFeeRates = DEFAULT_VENUE_FEE_RATES,
+): Omit<SpreadSignal, "id"> {
+  const mid = (sell.bid + buy.ask) / 2;
+  const grossSpreadPercent = mid > 0 ? ((sell.bid - buy.ask) / mid) * 100 : 0;
+  const buyFee = feeRates[buy.venue] ?? DEFAULT_VENUE_FEE_RATES[buy.venue];
+  const sellFee = feeRates[sell.venue] ?? DEFAULT_VENUE_FEE_RATES[sell.venue];
+  const feesPercent = (buyFee + sellFee) * 100;
+
+  return {
+    symbol: buy.symbol,
+    buyVenue: buy.venue,
+    sellVenue: sell.venue,
+    buyPrice: buy.ask,
+    sellPrice: sell.bid,
+    grossSpreadPercent,
+    feesPercent,
+    netSpreadPercent: grossSpreadPercent - feesPercent,
+    timestamp: Math.max(buy.timestamp, sell.timestamp),
+    quotes: { buy, sell },
+  };
+}
+
+function matchesFilter(
+  signal: SpreadSignal,
+  filter?: SpreadHistoryFilter,
+): boolean {
+  if (!filter) return true;
+  if (filter.symbol && signal.symbol !== filter.symbol.toUpperCase()) {
+    return false;
+  }
+  if (filter.buyVenue && signal.buyVenue !== filter.buyVenue) return false;
+  if (filter.sellVenue && signal.sellVenue !== filter.sellVenue) return false;
+  if (filter.since !== undefined && signal.timestamp < filter.since) {
+    return false;
+  }
+  if (
+    filter.minNetSpreadPercent !== undefined &&
+    signal.netSpreadPercent < filter.minNetSpreadPercent
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Create a long-running spread scanner
+ *
+ * Usage example:
+ *
+ * const scanner = createSpreadScanner({ symbols: ["PEPE", "WIF"] });
+ * scanner.onSignal((signal) => console.log(signal));
+ * await scanner.start();
+ * ...
+ * scanner.stop();
+ */
+export function createSpreadScanner(
+  config: SpreadScannerConfig,
+): SpreadScanner {
+  const symbols = config.symbols.map((s) => s.toUpperCase());
+  const venues = config.venues ?? ALL_SPREAD_VENUES;
+  const feeRates: VenueFeeRates = {
+    ...DEFAULT_VENUE_FEE_RATES,
+    ...config.feeRates,
+  };
+  const maxQuoteAgeMs = config.maxQuoteAgeMs ?? DEFAULT_MAX_QUOTE_AGE_MS;
+  const historySize = config.historySize ?? DEFAULT_HISTORY_SIZE;
+  const signalCooldownMs =
+    config.signalCooldownMs ?? DEFAULT_SIGNAL_COOLDOWN_MS;
+  const minNetSpreadPercent =
+    config.minNetSpreadPercent ?? DEFAULT_MIN_NET_SPREAD_PERCENT;
+  const minGrossSpreadPercent = config.minGrossSpreadPercent ?? 0;
+
+  // symbol -> venue -> latest quote
+  const quotes = new Map<string, Map<SpreadVenue, VenueQuote>>();
+  const history: SpreadSignal[] = [];
+  const listeners = new Set<SpreadSignalCallback>();
+  // route key -> timestamp of the last emitted signal
+  const lastEmitted = new Map<string, number>();
+
+  let running = false;
+  let signalCounter = 0;
+  let binanceSubscription: BinanceTickerSubscription | null = null;
+  let bybitSubscription: BybitTickerSubscription | null = null;
+  let bitgetSubscription: BitgetTickerSubscription | null = null;
+  let okxTimer: ReturnType<typeof setInterval> | null = null;
+
+  const reportError = (venue: SpreadVenue, error: unknown) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error("[SpreadScanner] Venue error", {
+      venue,
+      error: err.message,
+    });
+    config.onError?.(venue, err);
+  };
+
+  const emit = (signal: SpreadSignal) => {
+    history.push(signal);
+    if (history.length > historySize) {
+      history.splice(0, history.length - historySize);
+    }
+
+    listeners.forEach((listener) => {
+      try {
+        listener(signal);
+      } catch (error) {
+        logger.error("[SpreadScanner] Signal listener failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  };
+
+  const evaluate = (
+    buy: VenueQuote,
+    sell: VenueQuote,
+    now: number,
+  ): SpreadSignal | null => {
+    const spread = calculateSpread(buy, sell, feeRates);
+
+    if (
+      spread.grossSpreadPercent < minGrossSpreadPercent ||
+      spread.netSpreadPercent < minNetSpreadPercent
+    ) {
+      return null;
+    }
+
+    const routeKey = `${spread.symbol}:${buy.venue}:${sell.venue}`;
+    const last = lastEmitted.get(routeKey);
+    if (last !== undefined && now - last < signalCooldownMs) {
+      return null;
+    }
+    lastEmitted.set(routeKey, now);
+
+    signalCounter += 1;
+    return { id: `${routeKey}:${now}:${signalCounter}`, ...spread };
+  };
+
+  const ingestQuote = (quote: VenueQuote): SpreadSignal[] => {
+    if (
+      !Number.isFinite(quote.bid) ||
+      !Number.isFinite(quote.ask) ||
+      quote.bid <= 0 ||
+      quote.ask <= 0
+    ) {
+      logger.debug("[SpreadScanner] Ignoring invalid quote", { ...quote });
+      return [];
+    }
+
+    const symbol = quote.symbol.toUpperCase();
+    const normalized: VenueQuote = { ...quote, symbol };
+
+    let venueQuotes = quotes.get(symbol);
+    if (!venueQuotes) {
+      venueQuotes = new Map();
+      quotes.set(symbol, venueQuotes);
+    }
+    venueQuotes.set(normalized.venue, normalized);
+
+    const now = normalized.timestamp;
+    const signals: SpreadSignal[] = [];
+
+    for (const [venue, other] of venueQuotes) {
+      if (venue === normalized.venue) continue;
+      if (now - other.timestamp > maxQuoteAgeMs) continue;
+
+      const candidates = [
+        evaluate(normalized, other, now),
+        evaluate(other, normalized, now),
+      ];
+      for (const signal of candidates) {
+        if (signal) {
+          signals.push(signal);
+          emit(signal);
+        }
+      }
+    }
+
+    return signals;
+  };
+
+  // Track the last full quote per venue symbol, since delta updates
+  // (e.g. Bybit) only include the fields that changed
+  const mergeQuote = (
+    venue: SpreadVenue,
+    symbol: string,
+    venueSymbol: string,
+    bid: number | undefined,
+    ask: number | undefined,
+    timestamp: number,
+  ) => {
+    const previous = quotes.get(symbol)?.get(venue);
+    ingestQuote({
+      venue,
+      symbol,
+      venueSymbol,
+      bid: bid ?? previous?.bid ?? 0,
+      ask: ask ?? previous?.ask ?? 0,
+      timestamp,
+    });
+  };
+
+  const toNumber = (value: string | undefined): number | undefined => {
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  const startBinance = () => {
+    const symbolMap = new Map(symbols.map((s) => [`${s}USDT`, s]));
+    binanceSubscription = subscribeOrderBookTicker(
+      [...symbolMap.keys()],
+      (ticker) => {
+        const symbol = symbolMap.get(ticker.symbol);
+        if (!symbol) return;
+        mergeQuote(
+          PriceSourceName.BINANCE,
+          symbol,
+          ticker.symbol,
+          toNumber(ticker.bidPrice),
+          toNumber(ticker.askPrice),
+          ticker.time || Date.now(),
+        );
+      },
+      {
+        reconnect: true,
+        onError: (err) => reportError(PriceSourceName.BINANCE, err),
+      },
+    );
+  };
+
+  const startBybit = async () => {
+    const symbolMap = new Map(symbols.map((s) => [toBybitTicker(s), s]));
+    try {
+      const subscription = await subscribeBybitTickers(
+        [...symbolMap.keys()],
+        (ticker) => {
+          const symbol = symbolMap.get(ticker.symbol);
+          if (!symbol) return;
+          mergeQuote(
+            PriceSourceName.BYBIT,
+            symbol,
+            ticker.symbol,
+            toNumber(ticker.bid1Price),
+            toNumber(ticker.ask1Price),
+            ticker.ts || Date.now(),
+          );
+        },
+        {
+          reconnect: true,
+          onError: (err) => reportError(PriceSourceName.BYBIT, err),
+        },
+      );
+      // stop() may have run while the symbols were being validated
+      if (!running) {
+        subscription.close();
+        return;
+      }
+      bybitSubscription = subscription;
+    } catch (error) {
+      reportError(PriceSourceName.BYBIT, error);
+    }
+  };
+
+  const startBitget = () => {
+    const symbolMap = new Map(symbols.map((s) => [toBitgetTicker(s), s]));
+    bitgetSubscription = subscribePerpPrices(
+      [...symbolMap.keys()],
+      (ticker) => {
+        // WebSocket payloads carry instId instead of symbol
+        const venueSymbol =
+          ticker.symbol ??
+          ("instId" in ticker && typeof ticker.instId === "string"
+            ? ticker.instId
+            : undefined);
+        const symbol = venueSymbol ? symbolMap.get(venueSymbol) : undefined;
+        if (!venueSymbol || !symbol) return;
+        mergeQuote(
+          PriceSourceName.BITGET,
+          symbol,
+          venueSymbol,
+          toNumber(ticker.bidPr),
+          toNumber(ticker.askPr),
+          Number(ticker.ts) || Date.now(),
+        );
+      },
+      {
+        reconnect: true,
+        onError: (err) => reportError(PriceSourceName.BITGET, err),
+      },
+    );
+  };
+
+  const startOkxDex = () => {
+    const tokens = (config.okxDex?.tokens ?? []).filter((t) =>
+      symbols.includes(t.symbol.toUpperCase()),
+    );
+    if (!tokens.length) {
+      logger.warn("[SpreadScanner] No OKX DEX tokens configured, skipping");
+      return;
+    }
+
+    const chainIndex = resolveOkxDexChainIndex(
+      {
+        chainIndex: config.okxDex?.chainIndex,
+        platform: config.okxDex?.platform,
+      },
+      OKX_DEX_CHAIN_INDEX,
+    );
+    const addressMap = new Map(
+      tokens.map((t) => [t.address.toLowerCase(), t.symbol.toUpperCase()]),
+    );
+
+    const poll = async () => {
+      try {
+        const prices = await getOkxBatchTokenPrices({
+          chainIndex,
+          // Original case, Solana and Sui addresses are case-sensitive
+          tokenContractAddresses: tokens.map((t) => t.address),
+        });
+        convertOkxBatchPriceToPriceData(prices).forEach((price) => {
+          const symbol = addressMap.get(price.address.toLowerCase());
+          if (!symbol) return;
+          mergeQuote(
+            PriceSourceName.OKX,
+            symbol,
+            price.address,
+            price.bid1Price,
+            price.ask1Price,
+            price.timestamp || Date.now(),
+          );
+        });
+      } catch (error) {
+        reportError(PriceSourceName.OKX, error);
+      }
+    };
+
+    void poll();
+    okxTimer = setInterval(
+      poll,
+      config.okxDex?.pollIntervalMs ?? DEFAULT_OKX_POLL_INTERVAL_MS,
+    );
+  };
+
+  const start = async () => {
+    if (running) return;
+    if (!symbols.length) {
+      throw new Error("No symbols provided for spread scanner");
+    }
+    running = true;
+
+    logger.info("[SpreadScanner] Starting", {
+      symbols,
+      venues,
+      minNetSpreadPercent,
+    });
+
+    if (venues.includes(PriceSourceName.BINANCE)) startBinance();
+    if (venues.includes(PriceSourceName.BITGET)) startBitget();
+    if (venues.includes(PriceSourceName.OKX)) startOkxDex();
+    if (venues.includes(PriceSourceName.BYBIT)) await startBybit();
+  };
+
+  const stop = () => {
+    if (!running) return;
+    running = false;
+
+    binanceSubscription?.close();
+    bybitSubscription?.close();
+    bitgetSubscription?.close();
+    if (okxTimer) clearInterval(okxTimer);
+
+    binanceSubscription = null;
+    bybitSubscription = null;
+    bitgetSubscription = null;
+    okxTimer = null;
+
+    logger.info("[SpreadScanner] Stopped", {
+      signalsInHistory: history.length,
+    });
+  };
+
+  return {
+    start,
+    stop,
+    isRunning: () => running,
+    onSignal: (callback) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+    ingestQuote,
+    getLatestQuotes: (symbol) => {
+      if (symbol) {
+        return [...(quotes.get(symbol.toUpperCase())?.values() ?? [])];
+      }
+      return [...quotes.values()].flatMap((venueQuotes) => [
+        ...venueQuotes.values(),
+      ]);
+    },
+    getHistory: (filter) => history.filter((s) => matchesFilter(s, filter)),
+    replay: (callback, filter) => {
+      const signals = history.filter((s) => matchesFilter(s, filter));
+      signals.forEach((signal) => callback(signal));
+      return signals.length;
+    },
+    clearHistory: () => {
+      history.length = 0;
+      lastEmitted.clear();
+    },
+  };
+}
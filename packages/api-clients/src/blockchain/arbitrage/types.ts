@@ -0,0 +1,276 @@
+/**
+ * Arbitrage Types
+ *
+ * Shared type definitions for cross-venue spread detection
+ */
+
+import { PriceSourceName } from "../coingecko/types";
+import { PerpVenue } from "../perp/types";
+import { PoolConfigInput } from "../onchain/pools/config";
+import { BlockchainPlatform, DexRouter, QuoteComparison } from "../types";
+
+/**
+ * Venues the spread scanner can consume quotes from.
+ * Uses the same identifiers as the price aggregator sources.
+ */
+export type SpreadVenue =
+  | PriceSourceName.BINANCE
+  | PriceSourceName.BYBIT
+  | PriceSourceName.BITGET
+  | PriceSourceName.OKX;
+
+/**
+ * Top-of-book quote normalized across venues
+ */
+export interface VenueQuote {
+  venue: SpreadVenue;
+  symbol: string; // Base symbol, e.g. "PEPE"
+  venueSymbol: string; // Venue specific symbol, e.g. "PEPEUSDT"
+  bid: number;
+  ask: number;
+  timestamp: number; // UNIX timestamp in milliseconds
+}
+
+/**
+ * Spread signal emitted when buying on one venue and selling on another
+ * clears the configured threshold
+ */
+export interface SpreadSignal {
+  id: string;
+  symbol: string;
+  buyVenue: SpreadVenue; // Venue where we lift the ask
+  sellVenue: SpreadVenue; // Venue where we hit the bid
+  buyPrice: number; // Ask on buyVenue
+  sellPrice: number; // Bid on sellVenue
+  grossSpreadPercent: number; // (bid - ask) / mid * 100
+  feesPercent: number; // Round-trip taker fees of both legs, in percent
+  netSpreadPercent: number; // grossSpreadPercent - feesPercent
+  timestamp: number;
+  quotes: {
+    buy: VenueQuote;
+    sell: VenueQuote;
+  };
+}
+
+export type SpreadSignalCallback = (signal: SpreadSignal) => void;
+
+/**
+ * Taker fee rate per venue, as a fraction (0.0005 = 0.05%)
+ */
+export type VenueFeeRates = Partial<Record<SpreadVenue, number>>;
+
+export interface OkxDexSpreadToken {
+  symbol: string; // Base symbol used by the scanner, e.g. "PEPE"
+  address: string; // Token contract address on the OKX DEX chain
+}
+
+export interface SpreadScannerConfig {
+  symbols: string[]; // Base symbols, e.g. ["BTC", "PEPE"]
+  venues?: SpreadVenue[]; // Defaults to every venue
+  minGrossSpreadPercent?: number; // Minimum gross spread to consider, default 0
+  minNetSpreadPercent?: number; // Minimum fee-adjusted spread to emit, default 0.2
+  feeRates?: VenueFeeRates; // Overrides DEFAULT_VENUE_FEE_RATES
+  maxQuoteAgeMs?: number; // Quotes older than this are ignored, default 5s
+  historySize?: number; // Max signals kept in memory, default 1000
+  signalCooldownMs?: number; // Min interval between signals for the same route, default 1s
+  okxDex?: {
+    tokens: OkxDexSpreadToken[];
+    chainIndex?: string;
+    platform?: BlockchainPlatform; // Resolves chainIndex, defaults to BSC
+    pollIntervalMs?: number; // Default 5s
+  };
+  onError?: (venue: SpreadVenue, error: Error) => void;
+}
+
+export interface SpreadHistoryFilter {
+  symbol?: string;
+  buyVenue?: SpreadVenue;
+  sellVenue?: SpreadVenue;
+  since?: number; // Only signals with timestamp >= since
+  minNetSpreadPercent?: number;
+}
+
+/**
+ * Perp venues that charge funding
+ */
+export type PerpSpreadVenue = PerpVenue;
+
+/**
+ * Current funding rate per perp venue, per funding interval (0.0001 = 0.01%)
+ */
+export type FundingRates = Partial<Record<PerpSpreadVenue, number>>;
+
+/**
+ * Funding interval per perp venue in hours
+ */
+export type FundingIntervals = Partial<Record<PerpSpreadVenue, number>>;
+
+export interface VenueFeeSchedule {
+  takerFeeRate: number; // Fraction of notional
+  slippageRate?: number; // Expected slippage as fraction of notional
+  gasCostUsd?: number; // Fixed on-chain cost per trade
+}
+
+export interface NetArbitrageOptions {
+  tradeSizeUsd: number;
+  feeSchedules?: Partial<Record<SpreadVenue, Partial<VenueFeeSchedule>>>;
+  fundingRates?: FundingRates;
+  fundingIntervals?: FundingIntervals; // Defaults to 8h for every venue
+  holdingHours?: number; // How long the hedge is held, default 8h
+}
+
+export interface ArbitrageLeg {
+  venue: SpreadVenue;
+  side: "buy" | "sell";
+  price: number;
+  feeUsd: number;
+  slippageUsd: number;
+  gasUsd: number;
+  fundingRate?: number;
+  fundingUsd: number; // Positive = paid, negative = received
+  totalCostUsd: number;
+}
+
+export interface NetArbitrageOpportunity {
+  buyVenue: SpreadVenue;
+  sellVenue: SpreadVenue;
+  buyPrice: number;
+  sellPrice: number;
+  quantity: number; // Token amount bought and sold
+  grossSpreadPercent: number;
+  grossProfitUsd: number;
+  totalCostUsd: number;
+  netProfitUsd: number;
+  netEdgePercent: number; // netProfitUsd / tradeSizeUsd * 100
+  profitable: boolean;
+  legs: {
+    buy: ArbitrageLeg;
+    sell: ArbitrageLeg;
+  };
+}
+
+export interface NetArbitrageResult {
+  tokenAddress: string;
+  tradeSizeUsd: number;
+  holdingHours: number;
+  fundingRates: FundingRates;
+  opportunities: NetArbitrageOpportunity[]; // Sorted by netProfitUsd desc
+  best: NetArbitrageOpportunity | null;
+  timestamp: number;
+}
+
+/**
+ * Uniswap V3 style pool used as an execution venue
+ */
+export interface V3PoolExecutionVenue {
+  type: "v3_pool";
+  poolAddress: `0x${string}`;
+  config?: PoolConfigInput; // Config or { chainId, dexKey }, default BSC
+  wordRange?: number; // Tick bitmap words read on each side, default 10
+}
+
+export type ExecutionVenue = PerpVenue | V3PoolExecutionVenue;
+
+export type ExecutionSide = "buy" | "sell";
+
+export interface ExecutionEstimate {
+  venue: string; // Perp venue name or pool address
+  symbol: string;
+  side: ExecutionSide;
+  notional: number; // Requested size in USD
+  midPrice: number;
+  averagePrice: number; // VWAP before fees
+  effectivePrice: number; // VWAP after the taker / pool fee
+  worstPrice: number; // Last price level touched
+  feeRate: number; // Fraction of notional
+  slippagePercent: number; // averagePrice vs midPrice
+  priceImpactPercent: number; // worstPrice vs midPrice
+  filledQuantity: number; // Base token amount
+  filledNotional: number;
+  fullyFilled: boolean; // False when visible depth ran out
+  levelsConsumed: number; // Book levels or tick ranges crossed
+  timestamp: number;
+}
+
+/**
+ * DEX routers the quote comparison can request the same trade from
+ */
+export type QuoteRouterName = "okx-dex" | "pancake-smart-router";
+
+export interface QuoteToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface RouterQuoteRequest {
+  fromToken: QuoteToken;
+  toToken: QuoteToken;
+  amount: string; // Exact input in whole fromToken units, e.g. "1000"
+  slippagePercent?: number; // Slippage tolerance passed to the routers, default 0.5
+}
+
+export type RouterQuoteStatus = "ok" | "no_route" | "error";
+
+export interface RouterQuote {
+  router: QuoteRouterName;
+  status: RouterQuoteStatus;
+  amountOut: number | null; // Whole toToken units
+  price: number | null; // toToken received per fromToken
+  priceImpactPercent: number | null;
+  hops: number | null; // Pools on the longest route
+  estimatedGas: string | null; // Gas units
+  gasFeeUsd: number | null;
+  comparison: QuoteComparison | null;
+  dexRouters: DexRouter[];
+  latencyMs: number;
+  error?: string;
+}
+
+export interface RouterQuoteComparison {
+  fromToken: QuoteToken;
+  toToken: QuoteToken;
+  amountIn: string;
+  quotes: RouterQuote[];
+  bestRouter: QuoteRouterName | null; // Most toToken out
+  advantagePercent: number | null; // Best amountOut over the runner-up
+  timestamp: number;
+}
+
+/**
+ * Trade direction of a quote ladder, buy spends the quote token on the token
+ */
+export type QuoteLadderDirection = "buy" | "sell";
+
+export interface QuoteLadderRequest {
+  token: QuoteToken;
+  quoteToken: QuoteToken; // Stablecoin the sizes are denominated in
+  sizesUsd: number[];
+  slippagePercent?: number;
+  routers?: QuoteRouterName[];
+}
+
+export interface QuoteLadderPoint {
+  sizeUsd: number;
+  direction: QuoteLadderDirection;
+  router: QuoteRouterName;
+  status: RouterQuoteStatus;
+  amountIn: string; // Quote token units for buys, token units for sells
+  amountOut: number | null;
+  effectivePriceUsd: number | null; // USD per token actually paid or received
+  slippagePercent: number | null; // Worse than the reference price, in percent
+  priceImpactPercent: number | null; // As reported by the router
+  hops: number | null;
+  gasFeeUsd: number | null;
+  error?: string;
+}
+
+export interface QuoteLadder {
+  token: QuoteToken;
+  quoteToken: QuoteToken;
+  referencePriceUsd: number | null; // Mid of the small probe trades
+  sizesUsd: number[];
+  buy: QuoteLadderPoint[];
+  sell: QuoteLadderPoint[];
+  timestamp: number;
+}
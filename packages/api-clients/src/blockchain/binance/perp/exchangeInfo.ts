@@ -0,0 +1,66 @@
+/**
+ * Binance USDM Exchange Info - Contract filters as a PerpContractSpec
+ */
+
+import { FuturesSymbolExchangeInfo, USDMClient } from "binance";
+import { PriceSourceName } from "../../coingecko/types";
+import { PerpContractSpec } from "../../perp/types";
+
+/**
+ * Normalize a symbol's LOT_SIZE, PRICE_FILTER and MIN_NOTIONAL filters
+ */
+export function toBinanceContractSpec(
+  symbolInfo: FuturesSymbolExchangeInfo,
+): PerpContractSpec {
+  let lotSize: { stepSize: string; minQty: string; maxQty: string } | null =
+    null;
+  let tickSize: string | null = null;
+  let minNotional: number | null = null;
+
+  for (const filter of symbolInfo.filters) {
+    if (filter.filterType === "LOT_SIZE") {
+      lotSize = {
+        stepSize: String(filter.stepSize),
+        minQty: String(filter.minQty),
+        maxQty: String(filter.maxQty),
+      };
+    } else if (filter.filterType === "PRICE_FILTER") {
+      tickSize = String(filter.tickSize);
+    } else if (filter.filterType === "MIN_NOTIONAL") {
+      minNotional = Number(filter.notional) || null;
+    }
+  }
+
+  if (!lotSize || !tickSize) {
+    throw new Error(
+      `Missing LOT_SIZE or PRICE_FILTER for symbol: ${symbolInfo.symbol}`,
+    );
+  }
+
+  return {
+    venue: PriceSourceName.BINANCE,
+    symbol: symbolInfo.symbol,
+    quantityStep: lotSize.stepSize,
+    minQuantity: lotSize.minQty,
+    maxQuantity: lotSize.maxQty,
+    tickSize,
+    minNotional,
+  };
+}
+
+/**
+ * Fetch the contract spec with an existing client, so testnet clients read testnet filters
+ */
+export async function fetchBinanceContractSpec(
+  client: USDMClient,
+  symbol: string,
+): Promise<PerpContractSpec> {
+  const exchangeInfo = await client.getExchangeInfo();
+  const symbolInfo = exchangeInfo.symbols.find(
+    (info) => info.symbol === symbol,
+  );
+  if (!symbolInfo) {
+    throw new Error(`No exchange info found for symbol: ${symbol}`);
+  }
+  return toBinanceContractSpec(symbolInfo);
+}
@@ -0,0 +1,127 @@
+import { USDMClient } from "binance";
+import { getLogger, Logger, memoryCacheAdapter } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  FundingRateHistoryOptions,
+  FundingRateHistoryPoint,
+  PerpFundingRate,
+} from "../../perp/types";
+
+const logger: Logger = getLogger("binance-perp-funding");
+
+const FUNDING_INFO_CACHE = "binance-funding-info";
+const FUNDING_INFO_TTL = 60 * 60 * 1000; // 1 hour
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+const MAX_HISTORY_LIMIT = 1000;
+
+/**
+ * Get the funding interval of a symbol in hours
+ *
+ * /fapi/v1/fundingInfo only lists symbols with an adjusted interval,
+ * every other symbol settles every 8 hours.
+ */
+export async function getFundingIntervalHours(symbol: string): Promise<number> {
+  let intervals = await memoryCacheAdapter.getFromCache<Record<string, number>>(
+    FUNDING_INFO_CACHE,
+    "all",
+  );
+
+  if (!intervals) {
+    const client = new USDMClient();
+    const fundingInfo = await client.getFundingRates();
+    intervals = Object.fromEntries(
+      fundingInfo.map((info) => [info.symbol, info.fundingIntervalHours]),
+    );
+    await memoryCacheAdapter.saveToCache(
+      FUNDING_INFO_CACHE,
+      intervals,
+      FUNDING_INFO_TTL,
+      "all",
+    );
+  }
+
+  return intervals[symbol] ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+}
+
+/**
+ * Get current and predicted funding rate for a USDM perp symbol
+ */
+export async function getFundingRate(
+  symbol: string,
+): Promise<PerpFundingRate | null> {
+  logger.info("[Binance Perp] Fetching funding rate", { symbol });
+
+  try {
+    if (!symbol) {
+      logger.error("[Binance Perp] Missing required parameter: symbol");
+      return null;
+    }
+
+    const client = new USDMClient();
+    const [premiumIndex, lastSettled, fundingIntervalHours] = await Promise.all(
+      [
+        client.getMarkPrice({ symbol }),
+        client.getFundingRateHistory({ symbol, limit: 1 }),
+        getFundingIntervalHours(symbol),
+      ],
+    );
+
+    const last = lastSettled[lastSettled.length - 1];
+
+    return {
+      venue: PriceSourceName.BINANCE,
+      symbol,
+      fundingRate: last ? Number(last.fundingRate) : null,
+      predictedFundingRate: Number(premiumIndex.lastFundingRate),
+      fundingIntervalHours,
+      nextFundingTime: premiumIndex.nextFundingTime,
+      markPrice: Number(premiumIndex.markPrice),
+      indexPrice: Number(premiumIndex.indexPrice),
+      timestamp: premiumIndex.time,
+    };
+  } catch (error) {
+    logger.error("[Binance Perp] Failed to fetch funding rate", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Get settled funding rate history, sorted by funding time ascending
+ */
+export async function getFundingRateHistory(
+  symbol: string,
+  options: FundingRateHistoryOptions = {},
+): Promise<FundingRateHistoryPoint[] | null> {
+  logger.info("[Binance Perp] Fetching funding rate history", {
+    symbol,
+    ...options,
+  });
+
+  try {
+    const client = new USDMClient();
+    const history = await client.getFundingRateHistory({
+      symbol,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      limit: Math.min(options.limit ?? MAX_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+    });
+
+    return history
+      .map((item) => ({
+        venue: PriceSourceName.BINANCE as const,
+        symbol: item.symbol,
+        fundingRate: Number(item.fundingRate),
+        fundingTime: item.fundingTime,
+      }))
+      .sort((a, b) => a.fundingTime - b.fundingTime);
+  } catch (error) {
+    logger.error("[Binance Perp] Failed to fetch funding rate history", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
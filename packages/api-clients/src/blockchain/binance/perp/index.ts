@@ -1,3 +1,7 @@
 export * from "./tickers";
 export * from "./orderbook";
 export * from "./types";
+export * from "./funding";
+export * from "./localOrderBook";
+export * from "./trading";
+export * from "./exchangeInfo";
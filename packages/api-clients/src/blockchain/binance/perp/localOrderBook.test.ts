@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyDepthEvent,
+  applySnapshot,
+  BinanceDepthDiffEvent,
+  createLocalOrderBookState,
+  toOrderBook,
+} from "./localOrderBook";
+
+function depthEvent(
+  U: number,
+  u: number,
+  pu: number,
+  b: [string, string][] = [],
+  a: [string, string][] = [],
+): BinanceDepthDiffEvent {
+  return { e: "depthUpdate", E: u, T: u, s: "BTCUSDT", U, u, pu, b, a };
+}
+
+function syncedState() {
+  const state = createLocalOrderBookState("BTCUSDT");
+  applySnapshot(state, {
+    symbol: "BTCUSDT",
+    bids: [
+      { price: "100.0", quantity: "1" },
+      { price: "99.5", quantity: "2" },
+    ],
+    asks: [
+      { price: "100.5", quantity: "1" },
+      { price: "101.0", quantity: "3" },
+    ],
+    lastUpdateId: 100,
+    time: 0,
+  });
+  return state;
+}
+
+describe("Binance local order book", () => {
+  it("drops events older than the snapshot", () => {
+    const state = syncedState();
+    expect(applyDepthEvent(state, depthEvent(90, 99, 89))).toBe("skipped");
+    expect(state.synced).toBe(false);
+  });
+
+  it("requires the first event to bridge the snapshot", () => {
+    const state = syncedState();
+    expect(applyDepthEvent(state, depthEvent(101, 105, 100))).toBe("gap");
+
+    const bridged = syncedState();
+    expect(applyDepthEvent(bridged, depthEvent(95, 105, 94))).toBe("applied");
+    expect(bridged.synced).toBe(true);
+    expect(bridged.lastUpdateId).toBe(105);
+  });
+
+  it("validates pu against the previous final update id", () => {
+    const state = syncedState();
+    applyDepthEvent(state, depthEvent(95, 105, 94));
+
+    expect(applyDepthEvent(state, depthEvent(106, 110, 105))).toBe("applied");
+    expect(applyDepthEvent(state, depthEvent(115, 120, 112))).toBe("gap");
+    expect(state.lastUpdateId).toBe(110);
+  });
+
+  it("updates and removes price levels", () => {
+    const state = syncedState();
+    applyDepthEvent(
+      state,
+      depthEvent(
+        95,
+        105,
+        94,
+        [
+          ["100.0", "0"],
+          ["99.8", "4"],
+        ],
+        [["100.5", "2.5"]],
+      ),
+    );
+
+    const book = toOrderBook(state);
+    expect(book.bids).toEqual([
+      { price: "99.8", quantity: "4" },
+      { price: "99.5", quantity: "2" },
+    ]);
+    expect(book.asks[0]).toEqual({ price: "100.5", quantity: "2.5" });
+    expect(toOrderBook(state, 1).asks).toHaveLength(1);
+  });
+});
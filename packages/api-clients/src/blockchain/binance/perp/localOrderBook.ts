@@ -0,0 +1,333 @@
+import { getLogger, Logger } from "@dex-ai/core";
+import WebSocket from "ws";
+import { BINANCE_USDM_WS_URL } from "./constants";
+import { BinanceErrorCallback } from "./types";
+import { BinanceOrderBook, getOrderBook } from "./orderbook";
+
+const logger: Logger = getLogger("binance-perp-local-orderbook");
+
+// Types
+/**
+ * Diff depth event from the `<symbol>@depth@100ms` stream
+ */
+export interface BinanceDepthDiffEvent {
+  e: "depthUpdate";
+  E: number; // Event time
+  T: number; // Transaction time
+  s: string; // Symbol
+  U: number; // First update ID in event
+  u: number; // Final update ID in event
+  pu: number; // Final update ID in last event
+  b: [string, string][]; // Bids to be updated
+  a: [string, string][]; // Asks to be updated
+}
+
+/**
+ * Local book state, price -> quantity as strings to keep exchange precision
+ */
+export interface LocalOrderBookState {
+  symbol: string;
+  bids: Map<string, string>;
+  asks: Map<string, string>;
+  lastUpdateId: number;
+  synced: boolean; // True once the first diff event bridged the snapshot
+  time: number;
+}
+
+/**
+ * Result of applying a diff event:
+ * - applied: the book was updated
+ * - skipped: the event is older than the book and was dropped
+ * - gap: the event does not continue the sequence, the book must be resynced
+ */
+export type DepthEventResult = "applied" | "skipped" | "gap";
+
+export interface LocalOrderBookOptions {
+  snapshotLimit?: 5 | 10 | 20 | 50 | 100 | 500 | 1000;
+  reconnect?: boolean; // Whether to auto-reconnect, default true
+  onUpdate?: (book: BinanceOrderBook) => void;
+  onResync?: (reason: string) => void;
+  onError?: BinanceErrorCallback;
+}
+
+export interface BinanceLocalOrderBook {
+  start: () => void;
+  stop: () => void;
+  isSynced: () => boolean;
+  getOrderBook: (depth?: number) => BinanceOrderBook | null;
+}
+
+const RESYNC_DELAY_MS = 1000;
+const RECONNECT_DELAY_MS = 2000;
+const MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * Create an empty local book state
+ */
+export function createLocalOrderBookState(symbol: string): LocalOrderBookState {
+  return {
+    symbol,
+    bids: new Map(),
+    asks: new Map(),
+    lastUpdateId: 0,
+    synced: false,
+    time: 0,
+  };
+}
+
+function applyLevels(side: Map<string, string>, levels: [string, string][]) {
+  for (const [price, quantity] of levels) {
+    if (Number(quantity) === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, quantity);
+    }
+  }
+}
+
+/**
+ * Reset the state from a REST snapshot
+ */
+export function applySnapshot(
+  state: LocalOrderBookState,
+  snapshot: BinanceOrderBook,
+): void {
+  state.bids = new Map(snapshot.bids.map((b) => [b.price, b.quantity]));
+  state.asks = new Map(snapshot.asks.map((a) => [a.price, a.quantity]));
+  state.lastUpdateId = snapshot.lastUpdateId;
+  state.synced = false;
+  state.time = snapshot.time;
+}
+
+/**
+ * Apply a diff event following Binance's USDM local book rules:
+ * 1. Drop events with u < lastUpdateId of the snapshot
+ * 2. The first event must satisfy U <= lastUpdateId <= u
+ * 3. Every following event's pu must equal the previous event's u
+ */
+export function applyDepthEvent(
+  state: LocalOrderBookState,
+  event: BinanceDepthDiffEvent,
+): DepthEventResult {
+  if (!state.synced) {
+    if (event.u < state.lastUpdateId) {
+      return "skipped";
+    }
+    if (event.U > state.lastUpdateId) {
+      return "gap";
+    }
+  } else if (event.pu !== state.lastUpdateId) {
+    return "gap";
+  }
+
+  applyLevels(state.bids, event.b);
+  applyLevels(state.asks, event.a);
+  state.lastUpdateId = event.u;
+  state.synced = true;
+  state.time = event.E;
+  return "applied";
+}
+
+/**
+ * Convert the state into a sorted BinanceOrderBook
+ */
+export function toOrderBook(
+  state: LocalOrderBookState,
+  depth?: number,
+): BinanceOrderBook {
+  const sortLevels = (side: Map<string, string>, descending: boolean) =>
+    [...side.entries()]
+      .sort(([a], [b]) =>
+        descending ? Number(b) - Number(a) : Number(a) - Number(b),
+      )
+      .slice(0, depth)
+      .map(([price, quantity]) => ({ price, quantity }));
+
+  return {
+    symbol: state.symbol,
+    bids: sortLevels(state.bids, true),
+    asks: sortLevels(state.asks, false),
+    lastUpdateId: state.lastUpdateId,
+    time: state.time,
+  };
+}
+
+/**
+ * Create a synchronized local order book for a USDM perp symbol
+ *
+ * Buffers `@depth@100ms` diff events, merges them with the REST snapshot and
+ * resyncs automatically when a sequence gap or disconnect is detected.
+ */
+export function createBinanceLocalOrderBook(
+  symbol: string,
+  options: LocalOrderBookOptions = {},
+): BinanceLocalOrderBook {
+  const { snapshotLimit = 1000, reconnect = true } = options;
+  const state = createLocalOrderBookState(symbol.toUpperCase());
+
+  let ws: WebSocket | null = null;
+  let running = false;
+  let snapshotLoaded = false;
+  let resyncing = false;
+  let buffer: BinanceDepthDiffEvent[] = [];
+
+  const handleEvent = (event: BinanceDepthDiffEvent) => {
+    const result = applyDepthEvent(state, event);
+
+    if (result === "gap") {
+      logger.warn("[Binance Perp] Local orderbook sequence gap", {
+        symbol: state.symbol,
+        lastUpdateId: state.lastUpdateId,
+        U: event.U,
+        u: event.u,
+        pu: event.pu,
+      });
+      // Buffer further events until a new snapshot is loaded
+      snapshotLoaded = false;
+      state.synced = false;
+      resync("sequence gap");
+      return;
+    }
+
+    if (result === "applied") {
+      options.onUpdate?.(toOrderBook(state));
+    }
+  };
+
+  const loadSnapshot = async () => {
+    snapshotLoaded = false;
+    const snapshot = await getOrderBook(state.symbol, snapshotLimit);
+    if (!running) return;
+
+    if (!snapshot) {
+      throw new Error(`Failed to fetch snapshot for ${state.symbol}`);
+    }
+
+    applySnapshot(state, snapshot);
+    snapshotLoaded = true;
+
+    logger.info("[Binance Perp] Local orderbook snapshot loaded", {
+      symbol: state.symbol,
+      lastUpdateId: state.lastUpdateId,
+      bufferedEvents: buffer.length,
+    });
+
+    // Replay events that arrived while the snapshot was loading
+    const pending = buffer;
+    buffer = [];
+    for (const event of pending) {
+      if (!snapshotLoaded) {
+        buffer.push(event);
+        continue;
+      }
+      handleEvent(event);
+    }
+  };
+
+  const resync = (reason: string) => {
+    if (resyncing || !running) return;
+    resyncing = true;
+    snapshotLoaded = false;
+    state.synced = false;
+    options.onResync?.(reason);
+
+    const attempt = () => {
+      if (!running) {
+        resyncing = false;
+        return;
+      }
+      loadSnapshot()
+        .then(() => {
+          resyncing = false;
+          // A buffered event did not bridge the new snapshot
+          if (running && !snapshotLoaded) resync("sequence gap");
+        })
+        .catch((error) => {
+          logger.error("[Binance Perp] Local orderbook resync failed", {
+            symbol: state.symbol,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          options.onError?.(error);
+          setTimeout(attempt, RESYNC_DELAY_MS);
+        });
+    };
+
+    attempt();
+  };
+
+  const connect = () => {
+    const stream = `${state.symbol.toLowerCase()}@depth@100ms`;
+    const socket = new WebSocket(`${BINANCE_USDM_WS_URL}/${stream}`);
+
+    socket.onopen = () => {
+      logger.info("[Binance Perp] Local orderbook stream opened", {
+        symbol: state.symbol,
+      });
+      buffer = [];
+      resync("connected");
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        const event = JSON.parse(
+          message.data as string,
+        ) as BinanceDepthDiffEvent;
+        if (event.e !== "depthUpdate") return;
+
+        if (!snapshotLoaded) {
+          buffer.push(event);
+          if (buffer.length > MAX_BUFFERED_EVENTS) buffer.shift();
+          return;
+        }
+        handleEvent(event);
+      } catch (error) {
+        logger.error("[Binance Perp] Failed to parse depth event", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        options.onError?.(error);
+      }
+    };
+
+    socket.onerror = (error) => {
+      logger.error("[Binance Perp] Local orderbook stream error", {
+        symbol: state.symbol,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      options.onError?.(error);
+    };
+
+    socket.onclose = () => {
+      logger.warn("[Binance Perp] Local orderbook stream closed", {
+        symbol: state.symbol,
+      });
+      snapshotLoaded = false;
+      state.synced = false;
+      if (running && reconnect) {
+        setTimeout(() => {
+          if (running) ws = connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+
+    return socket;
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      ws = connect();
+    },
+    stop: () => {
+      running = false;
+      snapshotLoaded = false;
+      buffer = [];
+      if (ws && ws.readyState === WebSocket.OPEN) {
+        ws.close();
+      }
+      ws = null;
+    },
+    isSynced: () => state.synced,
+    getOrderBook: (depth) => (state.synced ? toOrderBook(state, depth) : null),
+  };
+}
@@ -2,6 +2,7 @@ import { USDMClient } from "binance";
 import { getLogger, Logger } from "@dex-ai/core";
 import WebSocket, { MessageEvent, CloseEvent, ErrorEvent } from "ws";
 import { BINANCE_USDM_WS_URL } from "./constants";
+import { isRateLimitError } from "../../../common/errors";
 
 const logger: Logger = getLogger("blockchain-binance");
 
@@ -152,10 +153,12 @@ export function subscribeOrderBookTicker(
   }
 
   let reconnecting = false;
+  let closed = false; // Set by close() to stop auto-reconnect
 
   const wrapper: BinanceTickerSubscription = {
     ws: undefined as unknown as WebSocket, // will be set after connect
     close: () => {
+      closed = true;
       if (wrapper.ws && wrapper.ws.readyState === WebSocket.OPEN) {
         wrapper.ws.close();
       }
@@ -243,7 +246,7 @@ export function subscribeOrderBookTicker(
         code: event.code,
         reason: event.reason,
       });
-      if (options?.reconnect && !reconnecting) {
+      if (options?.reconnect && !reconnecting && !closed) {
         reconnecting = true;
         setTimeout(() => {
           reconnecting = false;
@@ -401,6 +404,8 @@ export async function getMarkPriceKlines(
 
     return klines;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[Binance Perp] Failed to fetch mark price klines", {
       symbol,
       interval,
@@ -469,6 +474,8 @@ export async function getMarkPriceHistory(
 
     return priceHistory;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[Binance Perp] Failed to fetch mark price history", {
       symbol,
       days,
@@ -527,6 +534,8 @@ export async function getMarkPriceWithHistory(
       history,
     };
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[Binance Perp] Failed to fetch mark price with history", {
       symbol,
       days,
@@ -0,0 +1,478 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const client = {
+  setLeverage: vi.fn(),
+  setMarginType: vi.fn(),
+  submitNewOrder: vi.fn(),
+  cancelOrder: vi.fn(),
+  getOrder: vi.fn(),
+  modifyOrder: vi.fn(),
+  getAllOpenOrders: vi.fn(),
+  getExchangeInfo: vi.fn(),
+  getMarkPrice: vi.fn(),
+  getPositionsV3: vi.fn(),
+  getBalanceV3: vi.fn(),
+};
+
+vi.mock("binance", () => ({ USDMClient: vi.fn(() => client) }));
+
+import { createBinanceTradingVenue } from "./trading";
+
+const credentials = { apiKey: "key", apiSecret: "secret" };
+
+const exchangeInfo = {
+  symbols: [
+    {
+      symbol: "BTCUSDT",
+      filters: [
+        {
+          filterType: "PRICE_FILTER",
+          minPrice: "0.10",
+          maxPrice: "4529764",
+          tickSize: "0.10",
+        },
+        {
+          filterType: "LOT_SIZE",
+          minQty: "0.001",
+          maxQty: "1000",
+          stepSize: "0.001",
+        },
+        { filterType: "MIN_NOTIONAL", notional: "100" },
+      ],
+    },
+  ],
+};
+
+function position(positionAmt: string) {
+  return {
+    symbol: "BTCUSDT",
+    positionSide: "BOTH",
+    positionAmt,
+    entryPrice: "60000",
+    markPrice: "60100",
+    unRealizedProfit: "-1.5",
+    liquidationPrice: "0",
+  };
+}
+
+describe("Binance trading venue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.setLeverage.mockResolvedValue({});
+    client.getExchangeInfo.mockResolvedValue(exchangeInfo);
+    client.getMarkPrice.mockResolvedValue({
+      symbol: "BTCUSDT",
+      markPrice: "60000",
+    });
+    client.submitNewOrder.mockImplementation(async (params) => ({
+      orderId: 42,
+      clientOrderId: params.newClientOrderId,
+      status: "FILLED",
+      updateTime: 1000,
+    }));
+  });
+
+  it("opens a market position with our client order id", async () => {
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.01",
+      clientOrderId: "hedge-1",
+    });
+
+    expect(client.submitNewOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        side: "SELL",
+        type: "MARKET",
+        quantity: 0.01,
+        reduceOnly: "false",
+        newClientOrderId: "hedge-1",
+      }),
+    );
+    expect(result).toEqual({
+      success: true,
+      data: {
+        venue: "binance",
+        symbol: "BTCUSDT",
+        orderId: "42",
+        clientOrderId: "hedge-1",
+        side: "sell",
+        orderType: "market",
+        price: null,
+        timeInForce: null,
+        quantity: "0.01",
+        reduceOnly: false,
+        timestamp: 1000,
+      },
+    });
+  });
+
+  it("opens a post-only limit position with the requested leverage and margin mode", async () => {
+    client.setMarginType.mockRejectedValue({
+      code: -4046,
+      message: "No need to change margin type.",
+    });
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.01",
+      orderType: "limit",
+      price: "60500",
+      timeInForce: "post_only",
+      leverage: 3,
+      marginMode: "cross",
+    });
+
+    expect(client.setMarginType).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      marginType: "CROSSED",
+    });
+    expect(client.setLeverage).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      leverage: 3,
+    });
+    expect(client.submitNewOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "LIMIT",
+        price: 60500,
+        timeInForce: "GTX",
+      }),
+    );
+    expect(result.success && result.data).toMatchObject({
+      orderType: "limit",
+      price: "60500",
+      timeInForce: "post_only",
+    });
+  });
+
+  it("rejects the order when a requested leverage is refused", async () => {
+    client.setLeverage.mockRejectedValue({
+      code: -4028,
+      message: "Leverage 300 is not valid",
+    });
+    const venue = createBinanceTradingVenue(credentials);
+
+    const refused = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      leverage: 300,
+    });
+    const defaulted = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+    });
+
+    expect(refused).toMatchObject({
+      success: false,
+      error: "Failed to set leverage",
+      details: "Leverage 300 is not valid",
+      venueCode: "-4028",
+    });
+    expect(defaulted.success).toBe(true);
+    expect(client.submitNewOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("rounds quantity and price to the contract filters", async () => {
+    const venue = createBinanceTradingVenue(credentials);
+
+    await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.01234",
+      orderType: "limit",
+      price: "60500.03",
+    });
+
+    expect(client.submitNewOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ quantity: 0.012, price: 60500.1 }),
+    );
+  });
+
+  it("sizes a USDT notional at the mark price", async () => {
+    client.getMarkPrice.mockResolvedValue({
+      symbol: "BTCUSDT",
+      markPrice: "50000",
+    });
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      notional: 1000,
+    });
+
+    expect(client.submitNewOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ quantity: 0.02 }),
+    );
+    expect(result.success && result.data.quantity).toBe("0.02");
+  });
+
+  it("rejects orders below the minimum notional before submitting", async () => {
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.001",
+      orderType: "limit",
+      price: "60000",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      code: "invalid_size",
+      error: "Failed to open position",
+      details:
+        "Order value 60.00 USDT is below the 100 USDT minimum for BTCUSDT",
+    });
+    expect(client.submitNewOrder).not.toHaveBeenCalled();
+  });
+
+  it("checks the minimum notional of a market quantity at the mark price", async () => {
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.001",
+    });
+
+    expect(client.getMarkPrice).toHaveBeenCalledWith({ symbol: "BTCUSDT" });
+    expect(!result.success && result.details).toBe(
+      "Order value 60.00 USDT is below the 100 USDT minimum for BTCUSDT",
+    );
+    expect(client.submitNewOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects a limit order without a price", async () => {
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      orderType: "limit",
+    });
+
+    expect(!result.success && result.code).toBe("invalid_params");
+    expect(client.submitNewOrder).not.toHaveBeenCalled();
+  });
+
+  it("closes with a reduce-only limit order for part of the position", async () => {
+    client.getPositionsV3.mockResolvedValue([position("0.02")]);
+    const venue = createBinanceTradingVenue(credentials);
+
+    await venue.closePosition({
+      symbol: "BTCUSDT",
+      quantity: "0.01",
+      orderType: "limit",
+      price: "61000",
+    });
+
+    expect(client.submitNewOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        side: "SELL",
+        type: "LIMIT",
+        price: 61000,
+        timeInForce: "GTC",
+        quantity: 0.01,
+        reduceOnly: "true",
+      }),
+    );
+  });
+
+  it("cancels an order by client order id", async () => {
+    client.cancelOrder.mockResolvedValue({
+      symbol: "BTCUSDT",
+      orderId: 42,
+      clientOrderId: "maker-1",
+      updateTime: 2000,
+    });
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.cancelOrder({
+      symbol: "BTCUSDT",
+      clientOrderId: "maker-1",
+    });
+
+    expect(client.cancelOrder).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      origClientOrderId: "maker-1",
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        venue: "binance",
+        symbol: "BTCUSDT",
+        orderId: "42",
+        clientOrderId: "maker-1",
+        timestamp: 2000,
+      },
+    });
+  });
+
+  it("amends the price and keeps the current side and quantity", async () => {
+    client.getOrder.mockResolvedValue({
+      symbol: "BTCUSDT",
+      side: "SELL",
+      origQty: "0.01",
+      price: "60500",
+    });
+    client.modifyOrder.mockResolvedValue({
+      symbol: "BTCUSDT",
+      orderId: 42,
+      clientOrderId: "maker-1",
+      updateTime: 3000,
+    });
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.amendOrder({
+      symbol: "BTCUSDT",
+      orderId: "42",
+      price: "60400",
+    });
+
+    expect(client.modifyOrder).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      orderId: 42,
+      side: "SELL",
+      quantity: 0.01,
+      price: 60400,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("normalizes open orders", async () => {
+    client.getAllOpenOrders.mockResolvedValue([
+      {
+        symbol: "BTCUSDT",
+        orderId: 42,
+        clientOrderId: "maker-1",
+        side: "SELL",
+        type: "LIMIT",
+        timeInForce: "GTX",
+        price: "60500",
+        origQty: "0.01",
+        executedQty: "0.004",
+        reduceOnly: false,
+        time: 1000,
+      },
+    ]);
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.getOpenOrders("BTCUSDT");
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          venue: "binance",
+          symbol: "BTCUSDT",
+          orderId: "42",
+          clientOrderId: "maker-1",
+          side: "sell",
+          orderType: "limit",
+          price: "60500",
+          timeInForce: "post_only",
+          quantity: "0.01",
+          filledQuantity: "0.004",
+          reduceOnly: false,
+          timestamp: 1000,
+        },
+      ],
+    });
+  });
+
+  it("closes the open position with a reduce-only order on the other side", async () => {
+    client.getPositionsV3.mockResolvedValue([position("-0.02")]);
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.closePosition({ symbol: "BTCUSDT" });
+
+    expect(client.submitNewOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        side: "BUY",
+        quantity: 0.02,
+        reduceOnly: "true",
+      }),
+    );
+    expect(result.success && result.data.clientOrderId).toMatch(/^close-/);
+  });
+
+  it("normalizes positions and skips flat ones", async () => {
+    client.getPositionsV3.mockResolvedValue([position("-0.02"), position("0")]);
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.getPositions();
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          venue: "binance",
+          symbol: "BTCUSDT",
+          side: "short",
+          quantity: 0.02,
+          entryPrice: 60000,
+          markPrice: 60100,
+          liquidationPrice: null,
+          unrealizedPnl: -1.5,
+          leverage: null,
+        },
+      ],
+    });
+  });
+
+  it("maps venue error codes", async () => {
+    client.submitNewOrder.mockRejectedValue({
+      code: -2019,
+      message: "Margin is insufficient.",
+      body: { code: -2019, msg: "Margin is insufficient." },
+    });
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "1",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      code: "insufficient_balance",
+      error: "Failed to open position",
+      details: "Margin is insufficient.",
+      venueCode: "-2019",
+    });
+  });
+
+  it("reports closing a flat symbol as no_position", async () => {
+    client.getPositionsV3.mockResolvedValue([position("0")]);
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.closePosition({ symbol: "BTCUSDT" });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.code).toBe("no_position");
+    expect(client.submitNewOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid parameters before calling the venue", async () => {
+    const venue = createBinanceTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0",
+    });
+
+    expect(!result.success && result.code).toBe("invalid_params");
+    expect(client.submitNewOrder).not.toHaveBeenCalled();
+  });
+});
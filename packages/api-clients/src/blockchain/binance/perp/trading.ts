@@ -0,0 +1,453 @@
+/**
+ * Binance USDM Trading - Perps behind the normalized PerpTradingVenue
+ */
+
+import {
+  FuturesPositionV3,
+  OrderResult,
+  OrderTimeInForce,
+  USDMClient,
+} from "binance";
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  PerpMarginMode,
+  PerpOpenOrder,
+  PerpOrder,
+  PerpOrderAck,
+  PerpOrderRequest,
+  PerpPosition,
+  PerpTimeInForce,
+  PerpTradingFailure,
+  PerpTradingVenue,
+} from "../../perp/types";
+import {
+  createClientOrderId,
+  createPerpTradingFailure,
+  noPositionFailure,
+  resolvePerpOrderPricing,
+  toPerpTradingFailure,
+  validatePerpOrderParams,
+  validatePerpOrderRef,
+} from "../../perp/tradingErrors";
+import { createContractSpecCache, sizePerpOrder } from "../../perp/sizing";
+import { fetchBinanceContractSpec } from "./exchangeInfo";
+
+const logger: Logger = getLogger("binance-perp-trading");
+
+const VENUE = PriceSourceName.BINANCE;
+const MARGIN_ASSET = "USDT";
+
+// GTX is Binance's post-only time in force
+const TIME_IN_FORCE: Record<PerpTimeInForce, OrderTimeInForce> = {
+  gtc: "GTC",
+  ioc: "IOC",
+  fok: "FOK",
+  post_only: "GTX",
+};
+
+// Returned by setMarginType when the symbol already uses that margin type
+const MARGIN_TYPE_UNCHANGED = -4046;
+
+export interface BinanceCredentials {
+  apiKey: string;
+  apiSecret: string;
+  useTestnet?: boolean;
+}
+
+/**
+ * Create Binance USDM client instance
+ */
+export function createBinanceTradingClient(
+  credentials: BinanceCredentials,
+): USDMClient {
+  logger.debug("[Binance Trading] Creating client instance", {
+    useTestnet: credentials.useTestnet ?? true,
+    hasApiKey: !!credentials.apiKey,
+  });
+
+  return new USDMClient({
+    api_key: credentials.apiKey,
+    api_secret: credentials.apiSecret,
+    testnet: credentials.useTestnet ?? true, // Default to use testnet
+  });
+}
+
+/**
+ * Set leverage, returns a failure unless Binance applied it
+ */
+export async function setLeverage(
+  client: USDMClient,
+  symbol: string,
+  leverage: number = 1,
+): Promise<PerpTradingFailure | null> {
+  try {
+    await client.setLeverage({ symbol, leverage });
+    logger.info("[Binance Trading] Leverage set successfully", {
+      symbol,
+      leverage,
+    });
+    return null;
+  } catch (error) {
+    return toPerpTradingFailure(VENUE, "Failed to set leverage", error);
+  }
+}
+
+function toNumberOrNull(value: string | number | undefined): number | null {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed !== 0
+    ? parsed
+    : null;
+}
+
+export function toPerpPosition(position: FuturesPositionV3): PerpPosition {
+  const amount = Number(position.positionAmt);
+  return {
+    venue: VENUE,
+    symbol: position.symbol,
+    side: amount < 0 ? "short" : "long",
+    quantity: Math.abs(amount),
+    entryPrice: toNumberOrNull(position.entryPrice),
+    markPrice: toNumberOrNull(position.markPrice),
+    liquidationPrice: toNumberOrNull(position.liquidationPrice),
+    unrealizedPnl: Number(position.unRealizedProfit) || 0,
+    leverage: null, // Not returned by the v3 position endpoint
+  };
+}
+
+export function toPerpOpenOrder(order: OrderResult): PerpOpenOrder {
+  const isLimit = order.type === "LIMIT";
+  const timeInForce = (Object.keys(TIME_IN_FORCE) as PerpTimeInForce[]).find(
+    (key) => TIME_IN_FORCE[key] === order.timeInForce,
+  );
+  return {
+    venue: VENUE,
+    symbol: order.symbol,
+    orderId: String(order.orderId),
+    clientOrderId: order.clientOrderId,
+    side: order.side === "SELL" ? "sell" : "buy",
+    orderType: isLimit ? "limit" : "market",
+    price: isLimit ? String(order.price) : null,
+    timeInForce: isLimit ? (timeInForce ?? "gtc") : null,
+    quantity: String(order.origQty),
+    filledQuantity: String(order.executedQty || "0"),
+    reduceOnly: order.reduceOnly,
+    timestamp: order.time,
+  };
+}
+
+function toOrderAck(order: {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  updateTime: number;
+}): PerpOrderAck {
+  return {
+    venue: VENUE,
+    symbol: order.symbol,
+    orderId: String(order.orderId),
+    clientOrderId: order.clientOrderId,
+    timestamp: order.updateTime,
+  };
+}
+
+/**
+ * Create a Binance USDM trading venue bound to a set of credentials
+ */
+export function createBinanceTradingVenue(
+  credentials: BinanceCredentials,
+): PerpTradingVenue {
+  const client = createBinanceTradingClient(credentials);
+  const getContractSpec = createContractSpecCache((symbol) =>
+    fetchBinanceContractSpec(client, symbol),
+  );
+
+  const submitOrder = async (request: PerpOrderRequest) => {
+    const { symbol, side, orderType, price, timeInForce, quantity } = request;
+    const order = await client.submitNewOrder({
+      symbol,
+      side: side === "buy" ? "BUY" : "SELL",
+      type: orderType === "limit" ? "LIMIT" : "MARKET",
+      quantity: Number(quantity),
+      ...(price && { price: Number(price) }),
+      ...(timeInForce && { timeInForce: TIME_IN_FORCE[timeInForce] }),
+      reduceOnly: request.reduceOnly ? "true" : "false", // One-way position mode
+      newClientOrderId: request.clientOrderId,
+      newOrderRespType: "RESULT",
+    });
+
+    const result: PerpOrder = {
+      ...request,
+      venue: VENUE,
+      orderId: String(order.orderId),
+      clientOrderId: order.clientOrderId || request.clientOrderId,
+      timestamp: order.updateTime,
+    };
+
+    logger.info("[Binance Trading] Order submitted", {
+      ...result,
+      status: order.status,
+    });
+
+    return { success: true as const, data: result };
+  };
+
+  const setMarginType = async (symbol: string, marginMode: PerpMarginMode) => {
+    try {
+      await client.setMarginType({
+        symbol,
+        marginType: marginMode === "cross" ? "CROSSED" : "ISOLATED",
+      });
+      return null;
+    } catch (error) {
+      if ((error as { code?: number })?.code === MARGIN_TYPE_UNCHANGED) {
+        return null;
+      }
+      return toPerpTradingFailure(VENUE, "Failed to set margin mode", error);
+    }
+  };
+
+  const fetchOpenPositions = async (symbol?: string) => {
+    const positions = await client.getPositionsV3(symbol ? { symbol } : {});
+    return {
+      success: true as const,
+      data: positions
+        .filter((position) => Number(position.positionAmt) !== 0)
+        .map(toPerpPosition),
+    };
+  };
+
+  const fetchMarkPrice = async (symbol: string) => {
+    const markPrice = await client.getMarkPrice({ symbol });
+    return Number(markPrice.markPrice) || undefined;
+  };
+
+  return {
+    venue: VENUE,
+
+    openPosition: async (params) => {
+      const {
+        symbol,
+        side,
+        quantity,
+        notional,
+        leverage = 1,
+        marginMode,
+      } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to open position",
+      );
+      if (invalid) return invalid;
+
+      const pricing = resolvePerpOrderPricing(params);
+      logger.info("[Binance Trading] Opening position", {
+        symbol,
+        side,
+        quantity,
+        notional,
+        ...pricing,
+        leverage,
+        marginMode,
+      });
+      try {
+        const sized = sizePerpOrder(
+          await getContractSpec(symbol),
+          {
+            side,
+            quantity,
+            notional,
+            price: pricing.price,
+            referencePrice: pricing.price
+              ? undefined
+              : await fetchMarkPrice(symbol),
+          },
+          "Failed to open position",
+        );
+        if (!sized.success) return sized;
+
+        if (marginMode) {
+          const marginFailure = await setMarginType(symbol, marginMode);
+          if (marginFailure) return marginFailure;
+        }
+        const leverageFailure = await setLeverage(client, symbol, leverage);
+        if (leverageFailure) {
+          // Only a leverage the caller asked for holds the order back
+          if (params.leverage !== undefined) return leverageFailure;
+          logger.warn("[Binance Trading] Default leverage not applied", {
+            symbol,
+            details: leverageFailure.details,
+          });
+        }
+        return await submitOrder({
+          symbol,
+          side,
+          ...pricing,
+          ...sized.data,
+          clientOrderId: params.clientOrderId ?? createClientOrderId("open"),
+          reduceOnly: false,
+        });
+      } catch (error) {
+        logger.error("[Binance Trading] Failed to open position", {
+          symbol,
+          side,
+          quantity,
+          error: (error as Error)?.message ?? String(error),
+        });
+        return toPerpTradingFailure(VENUE, "Failed to open position", error);
+      }
+    },
+
+    closePosition: async (params) => {
+      const { symbol, side } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to close position",
+      );
+      if (invalid) return invalid;
+
+      logger.info("[Binance Trading] Closing position", { symbol, side });
+      try {
+        const positions = await fetchOpenPositions(symbol);
+        const position = positions.data.find(
+          (candidate) => !side || candidate.side === side,
+        );
+        if (!position) {
+          return noPositionFailure(symbol);
+        }
+
+        const closeSide = position.side === "long" ? "sell" : "buy";
+        const pricing = resolvePerpOrderPricing(params);
+        const sized = sizePerpOrder(
+          await getContractSpec(symbol),
+          {
+            side: closeSide,
+            quantity: params.quantity ?? String(position.quantity),
+            price: pricing.price,
+            reduceOnly: true,
+          },
+          "Failed to close position",
+        );
+        if (!sized.success) return sized;
+
+        return await submitOrder({
+          symbol,
+          side: closeSide,
+          ...pricing,
+          ...sized.data,
+          clientOrderId: params.clientOrderId ?? createClientOrderId("close"),
+          reduceOnly: true,
+        });
+      } catch (error) {
+        logger.error("[Binance Trading] Failed to close position", {
+          symbol,
+          error: (error as Error)?.message ?? String(error),
+        });
+        return toPerpTradingFailure(VENUE, "Failed to close position", error);
+      }
+    },
+
+    cancelOrder: async (params) => {
+      const invalid = validatePerpOrderRef(params, "Failed to cancel order");
+      if (invalid) return invalid;
+
+      logger.info("[Binance Trading] Cancelling order", { ...params });
+      try {
+        const order = await client.cancelOrder({
+          symbol: params.symbol,
+          ...(params.orderId
+            ? { orderId: Number(params.orderId) }
+            : { origClientOrderId: params.clientOrderId }),
+        });
+        return { success: true, data: toOrderAck(order) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to cancel order", error);
+      }
+    },
+
+    amendOrder: async (params) => {
+      const invalid = validatePerpOrderRef(params, "Failed to amend order");
+      if (invalid) return invalid;
+      if (!params.price && !params.quantity) {
+        return createPerpTradingFailure(
+          "invalid_params",
+          "Failed to amend order",
+          "price or quantity is required",
+        );
+      }
+
+      logger.info("[Binance Trading] Amending order", { ...params });
+      try {
+        const orderRef = {
+          symbol: params.symbol,
+          ...(params.orderId
+            ? { orderId: Number(params.orderId) }
+            : { origClientOrderId: params.clientOrderId }),
+        };
+        // Side, quantity and price are all required, keep the current values
+        const current = await client.getOrder(orderRef);
+        const order = await client.modifyOrder({
+          ...orderRef,
+          side: current.side,
+          quantity: Number(params.quantity ?? current.origQty),
+          price: Number(params.price ?? current.price),
+        });
+        return { success: true, data: toOrderAck(order) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to amend order", error);
+      }
+    },
+
+    getOpenOrders: async (symbol) => {
+      try {
+        const orders = await client.getAllOpenOrders(
+          symbol ? { symbol } : undefined,
+        );
+        return { success: true, data: orders.map(toPerpOpenOrder) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to get open orders", error);
+      }
+    },
+
+    getPositions: async (symbol) => {
+      try {
+        return await fetchOpenPositions(symbol);
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to get positions", error);
+      }
+    },
+
+    getWalletBalance: async () => {
+      try {
+        const balances = await client.getBalanceV3();
+        const balance = balances.find((asset) => asset.asset === MARGIN_ASSET);
+        if (!balance) {
+          return createPerpTradingFailure(
+            "venue_error",
+            "Failed to get wallet balance",
+            `No ${MARGIN_ASSET} balance returned`,
+          );
+        }
+
+        const unrealizedPnl = Number(balance.crossUnPnl) || 0;
+        return {
+          success: true,
+          data: {
+            venue: VENUE,
+            asset: MARGIN_ASSET,
+            equity: (Number(balance.balance) || 0) + unrealizedPnl,
+            available: Number(balance.availableBalance) || 0,
+            unrealizedPnl,
+            timestamp: Number(balance.updateTime) || Date.now(),
+          },
+        };
+      } catch (error) {
+        return toPerpTradingFailure(
+          VENUE,
+          "Failed to get wallet balance",
+          error,
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Bitget REST client shared by the legacy helpers and the trading venue
+ */
+
+import { RestClientV2 } from "bitget-api";
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  perpTradingFailure,
+  toPerpTradingFailure,
+} from "../../perp/tradingErrors";
+import { PerpTradingFailure } from "../../perp/types";
+
+const logger: Logger = getLogger("bitget-perp-trading");
+
+const SUCCESS_CODE = "00000";
+
+export interface BitgetCredentials {
+  apiKey: string;
+  apiSecret: string;
+  apiPass: string; // Bitget-specific API password
+  useTestnet?: boolean;
+}
+
+/**
+ * Create Bitget client instance
+ */
+export function createBitgetClient(
+  credentials: BitgetCredentials,
+): RestClientV2 {
+  logger.debug("[Bitget Trading] Creating client instance", {
+    useTestnet: credentials.useTestnet ?? false,
+    hasApiKey: !!credentials.apiKey,
+    hasApiPass: !!credentials.apiPass,
+  });
+
+  return new RestClientV2({
+    apiKey: credentials.apiKey,
+    apiSecret: credentials.apiSecret,
+    apiPass: credentials.apiPass,
+    demoTrading: credentials.useTestnet ?? false, // Default to live trading
+  });
+}
+
+/**
+ * Set leverage for a symbol, returns a failure unless Bitget applied it
+ */
+export async function setLeverage(
+  client: RestClientV2,
+  symbol: string,
+  leverage: string = "1",
+  marginCoin: string = "USDT",
+): Promise<PerpTradingFailure | null> {
+  logger.debug("[Bitget Trading] Setting leverage", {
+    symbol,
+    leverage,
+    marginCoin,
+  });
+
+  try {
+    const response = await client.setFuturesLeverage({
+      symbol: symbol,
+      productType: "USDT-FUTURES",
+      marginCoin: marginCoin,
+      leverage: leverage,
+    });
+    if (response.code !== SUCCESS_CODE) {
+      return perpTradingFailure(
+        PriceSourceName.BITGET,
+        "Failed to set leverage",
+        response.code,
+        response.msg,
+      );
+    }
+
+    logger.info("[Bitget Trading] Leverage set successfully", {
+      symbol,
+      leverage,
+      marginCoin,
+    });
+    return null;
+  } catch (error) {
+    return toPerpTradingFailure(
+      PriceSourceName.BITGET,
+      "Failed to set leverage",
+      error,
+    );
+  }
+}
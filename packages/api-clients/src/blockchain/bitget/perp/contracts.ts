@@ -1,5 +1,7 @@
 import { FuturesContractConfigV2, RestClientV2 } from "bitget-api";
 import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import { PerpContractSpec } from "../../perp/types";
 
 const logger: Logger = getLogger("bitget-perp-contracts");
 
@@ -78,6 +80,49 @@ export async function getContractBySymbol(
   }
 }
 
+/**
+ * Normalize a contract into the lot size, tick size and minimum notional
+ *
+ * Bitget gives the tick as priceEndStep in units of the last price decimal,
+ * e.g. pricePlace 1 with priceEndStep 5 is a 0.5 tick.
+ */
+export function toBitgetContractSpec(
+  contract: BitgetContract,
+): PerpContractSpec {
+  const pricePlace = Number(contract.pricePlace);
+  return {
+    venue: PriceSourceName.BITGET,
+    symbol: contract.symbol,
+    quantityStep: contract.sizeMultiplier,
+    minQuantity: contract.minTradeNum,
+    maxQuantity: null,
+    tickSize: (Number(contract.priceEndStep) / 10 ** pricePlace).toFixed(
+      pricePlace,
+    ),
+    minNotional: Number(contract.minTradeUSDT) || null,
+  };
+}
+
+/**
+ * Fetch the contract spec with an existing client
+ * @param client - Bitget REST client, e.g. a trading client
+ * @param symbol - The trading symbol (e.g., "BTCUSDT")
+ */
+export async function fetchBitgetContractSpec(
+  client: RestClientV2,
+  symbol: string,
+): Promise<PerpContractSpec> {
+  const response = await client.getFuturesContractConfig({
+    productType: "USDT-FUTURES",
+    symbol,
+  });
+  const contract = await getContractBySymbol(symbol, response.data);
+  if (!contract) {
+    throw new Error(`No contract found for symbol: ${symbol}`);
+  }
+  return toBitgetContractSpec(contract);
+}
+
 /**
  * Get contracts by base coin
  * @param baseCoin - The base coin symbol (e.g., "BTC")
@@ -0,0 +1,63 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const client = {
+  getFuturesHistoricFundingRates: vi.fn(),
+};
+
+vi.mock("bitget-api", () => ({ RestClientV2: vi.fn(() => client) }));
+
+import { getFundingRateHistory } from "./funding";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1000 * 8 * HOUR;
+
+// One full page of 8h funding settlements, newest first
+function page(pageNo: number) {
+  return {
+    code: "00000",
+    data: Array.from({ length: 100 }, (_, index) => ({
+      symbol: "BTCUSDT",
+      fundingRate: "0.0001",
+      fundingTime: String(NOW - ((pageNo - 1) * 100 + index) * 8 * HOUR),
+    })),
+  };
+}
+
+describe("Bitget funding rate history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.getFuturesHistoricFundingRates.mockImplementation(
+      async ({ pageNo }) => page(Number(pageNo)),
+    );
+  });
+
+  it("pages past settlements newer than a past endTime", async () => {
+    const endTime = NOW - 150 * 8 * HOUR;
+
+    const history = await getFundingRateHistory("BTCUSDT", {
+      endTime,
+      limit: 10,
+    });
+
+    expect(history).toHaveLength(10);
+    expect(history![9].fundingTime).toBe(endTime);
+    expect(history![0].fundingTime).toBe(endTime - 9 * 8 * HOUR);
+    expect(client.getFuturesHistoricFundingRates).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns a whole window and stops paging at startTime", async () => {
+    const startTime = NOW - 250 * 8 * HOUR;
+    const endTime = NOW - 120 * 8 * HOUR;
+
+    const history = await getFundingRateHistory("BTCUSDT", {
+      startTime,
+      endTime,
+      limit: 1000,
+    });
+
+    expect(history).toHaveLength(131);
+    expect(history![0].fundingTime).toBe(startTime);
+    expect(history![130].fundingTime).toBe(endTime);
+    expect(client.getFuturesHistoricFundingRates).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,133 @@
+import { FuturesHistoricalFundingRateV2, RestClientV2 } from "bitget-api";
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  FundingRateHistoryOptions,
+  FundingRateHistoryPoint,
+  PerpFundingRate,
+} from "../../perp/types";
+
+const logger: Logger = getLogger("bitget-perp-funding");
+
+const PRODUCT_TYPE = "USDT-FUTURES";
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Get current and predicted funding rate for a USDT-M perp symbol
+ */
+export async function getFundingRate(
+  symbol: string,
+): Promise<PerpFundingRate | null> {
+  logger.info("[Bitget Perp] Fetching funding rate", { symbol });
+
+  try {
+    if (!symbol) {
+      logger.error("[Bitget Perp] Missing required parameter: symbol");
+      return null;
+    }
+
+    const client = new RestClientV2();
+    const [tickers, fundingTime, lastSettled] = await Promise.all([
+      client.getFuturesTicker({ symbol, productType: PRODUCT_TYPE }),
+      client.getFuturesNextFundingTime({ symbol, productType: PRODUCT_TYPE }),
+      client.getFuturesHistoricFundingRates({
+        symbol,
+        productType: PRODUCT_TYPE,
+        pageSize: "1",
+      }),
+    ]);
+
+    const ticker = tickers.data?.[0];
+    if (!ticker) {
+      logger.warn("[Bitget Perp] No ticker found", { symbol });
+      return null;
+    }
+
+    const next = fundingTime.data?.[0];
+    // The SDK types this endpoint as a single object, the API returns a list
+    const last = (
+      lastSettled.data as unknown as FuturesHistoricalFundingRateV2[]
+    )?.[0];
+
+    return {
+      venue: PriceSourceName.BITGET,
+      symbol,
+      fundingRate: last ? Number(last.fundingRate) : null,
+      predictedFundingRate: Number(ticker.fundingRate),
+      fundingIntervalHours:
+        Number(next?.ratePeriod) || DEFAULT_FUNDING_INTERVAL_HOURS,
+      nextFundingTime: Number(next?.nextFundingTime),
+      markPrice: Number(ticker.markPrice),
+      indexPrice: Number(ticker.indexPrice),
+      timestamp: Number(ticker.ts),
+    };
+  } catch (error) {
+    logger.error("[Bitget Perp] Failed to fetch funding rate", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Get settled funding rate history, sorted by funding time ascending
+ *
+ * Bitget only supports paging, so pages newer than endTime are skipped and
+ * paging stops at startTime.
+ */
+export async function getFundingRateHistory(
+  symbol: string,
+  options: FundingRateHistoryOptions = {},
+): Promise<FundingRateHistoryPoint[] | null> {
+  logger.info("[Bitget Perp] Fetching funding rate history", {
+    symbol,
+    ...options,
+  });
+
+  try {
+    const client = new RestClientV2();
+    const { startTime, endTime } = options;
+    const limit = options.limit ?? MAX_PAGE_SIZE;
+    const points: FundingRateHistoryPoint[] = [];
+    let reachedStart = false;
+
+    // Pages are returned newest first
+    for (let pageNo = 1; points.length < limit && !reachedStart; pageNo++) {
+      const res = await client.getFuturesHistoricFundingRates({
+        symbol,
+        productType: PRODUCT_TYPE,
+        pageSize: String(MAX_PAGE_SIZE),
+        pageNo: String(pageNo),
+      });
+      const page =
+        (res.data as unknown as FuturesHistoricalFundingRateV2[]) || [];
+
+      for (const item of page) {
+        const fundingTime = Number(item.fundingTime);
+        if (endTime !== undefined && fundingTime > endTime) continue;
+        if (startTime !== undefined && fundingTime < startTime) {
+          reachedStart = true;
+          break;
+        }
+        points.push({
+          venue: PriceSourceName.BITGET,
+          symbol: item.symbol,
+          fundingRate: Number(item.fundingRate),
+          fundingTime,
+        });
+      }
+
+      if (page.length < MAX_PAGE_SIZE) break;
+    }
+
+    return points.slice(0, limit).sort((a, b) => a.fundingTime - b.fundingTime);
+  } catch (error) {
+    logger.error("[Bitget Perp] Failed to fetch funding rate history", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
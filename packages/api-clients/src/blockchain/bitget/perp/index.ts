@@ -44,10 +44,12 @@ export function subscribePerpPrices(
   }
 
   let reconnecting = false;
+  let closed = false; // Set by close() to stop auto-reconnect
 
   const wrapper: BitgetTickerSubscription = {
     ws: undefined as unknown as WebsocketClientV2, // will be set after connect
     close: () => {
+      closed = true;
       if (wrapper.ws) {
         wrapper.ws.closeAll();
       }
@@ -101,7 +103,7 @@ export function subscribePerpPrices(
 
     ws.on("close", () => {
       logger.warn("[Bitget Perp] WebSocket connection closed");
-      if (options?.reconnect && !reconnecting) {
+      if (options?.reconnect && !reconnecting && !closed) {
         reconnecting = true;
         setTimeout(() => {
           reconnecting = false;
@@ -157,4 +159,12 @@ export * from "./contracts";
 export * from "./markPrice";
 
 // Export trading functionality
+export * from "./client";
 export * from "./trading";
+export * from "./tradingVenue";
+
+// Export funding rate functionality
+export * from "./funding";
+
+// Export orderbook functionality
+export * from "./orderbook";
@@ -4,6 +4,7 @@ import {
   FuturesCandlestickV2,
 } from "bitget-api";
 import { getLogger, Logger } from "@dex-ai/core";
+import { isRateLimitError } from "../../../common/errors";
 
 const logger: Logger = getLogger("bitget-perp-mark-price");
 
@@ -112,6 +113,8 @@ export async function getMarkPriceHistory(
 
     return priceHistory;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[Bitget Perp] Failed to fetch mark price history", {
       symbol,
       days,
@@ -163,6 +166,8 @@ export async function getMarkPriceWithHistory(
       history,
     };
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[Bitget Perp] Failed to fetch mark price with history", {
       symbol,
       days,
@@ -305,6 +310,8 @@ export async function getMarkPriceKlinesWithPagination(
 
     return allKlines;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error(
       "[Bitget Perp] Failed to fetch mark price klines with pagination",
       {
@@ -0,0 +1,162 @@
+import {
+  FuturesProductTypeV2,
+  RestClientV2,
+  WebsocketClientV2,
+} from "bitget-api";
+import { getLogger, Logger } from "@dex-ai/core";
+
+const logger: Logger = getLogger("bitget-perp-orderbook");
+
+export interface BitgetOrderBook {
+  symbol: string;
+  bids: [string, string][]; // [price, size], best bid first
+  asks: [string, string][]; // [price, size], best ask first
+  timestamp: number;
+}
+
+export type BitgetOrderBookCallback = (book: BitgetOrderBook) => void;
+
+export type BitgetOrderBookDepth = 1 | 5 | 15;
+
+export interface SubscribeBitgetOrderBookOptions {
+  reconnect?: boolean; // Whether to auto-reconnect
+  onError?: (err: Error) => void;
+}
+
+export interface BitgetOrderBookSubscription {
+  ws: WebsocketClientV2;
+  close: () => void;
+}
+
+/**
+ * Get USDT-M perp order book (REST API)
+ */
+export async function getOrderBook(
+  symbol: string,
+  limit: "1" | "5" | "15" | "50" | "max" = "max",
+): Promise<BitgetOrderBook | null> {
+  logger.info("[Bitget Perp] Fetching orderbook", { symbol, limit });
+
+  try {
+    const client = new RestClientV2();
+    const res = await client.getFuturesMergeDepth({
+      symbol,
+      productType: "USDT-FUTURES",
+      limit,
+    });
+
+    if (!res.data) {
+      logger.warn("[Bitget Perp] No orderbook data received", { symbol });
+      return null;
+    }
+
+    return {
+      symbol,
+      bids: res.data.bids.map(([price, size]) => [String(price), String(size)]),
+      asks: res.data.asks.map(([price, size]) => [String(price), String(size)]),
+      timestamp: Number(res.data.ts),
+    };
+  } catch (error) {
+    logger.error("[Bitget Perp] Failed to fetch orderbook", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Subscribe to a USDT-M perp order book via WebSocket
+ *
+ * Uses the `books{depth}` channels, which push a full snapshot every update.
+ */
+export function subscribeOrderBook(
+  symbol: string,
+  depth: BitgetOrderBookDepth,
+  onBook: BitgetOrderBookCallback,
+  options?: SubscribeBitgetOrderBookOptions,
+): BitgetOrderBookSubscription {
+  if (!symbol) {
+    throw new Error("No symbol provided for Bitget orderbook subscription");
+  }
+
+  let reconnecting = false;
+  let closed = false;
+
+  const wrapper: BitgetOrderBookSubscription = {
+    ws: undefined as unknown as WebsocketClientV2, // will be set after connect
+    close: () => {
+      closed = true;
+      if (wrapper.ws) {
+        wrapper.ws.closeAll();
+      }
+    },
+  };
+
+  const connect = (): WebsocketClientV2 => {
+    // Suppress the SDK's internal logs, errors are surfaced through onError
+    const silentLogger = {
+      silly: () => {},
+      debug: () => {},
+      notice: () => {},
+      info: () => {},
+      warning: () => {},
+      error: () => {},
+    };
+
+    const ws = new WebsocketClientV2({}, silentLogger);
+    ws.subscribe({
+      channel: `books${depth}` as const,
+      instType: "USDT-FUTURES" as FuturesProductTypeV2,
+      instId: symbol,
+    });
+
+    ws.on("open", () => {
+      logger.info("[Bitget Perp] WebSocket opened, subscribing to orderbook", {
+        symbol,
+        depth,
+      });
+    });
+
+    ws.on("update", (msg) => {
+      if (!msg.data || !Array.isArray(msg.data)) return;
+      msg.data.forEach(
+        (item: {
+          bids: [string, string][];
+          asks: [string, string][];
+          ts: string;
+        }) => {
+          onBook({
+            symbol,
+            bids: item.bids,
+            asks: item.asks,
+            timestamp: Number(item.ts),
+          });
+        },
+      );
+    });
+
+    ws.on("exception", (msg: string) => {
+      logger.error("[Bitget Perp] Orderbook WebSocket exception", { msg });
+      options?.onError?.(new Error(msg));
+    });
+
+    ws.on("close", () => {
+      logger.warn("[Bitget Perp] Orderbook WebSocket connection closed");
+      if (options?.reconnect && !reconnecting && !closed) {
+        reconnecting = true;
+        setTimeout(() => {
+          reconnecting = false;
+          const newWs = connect();
+          wrapper.ws = newWs;
+        }, 2000);
+      }
+    });
+
+    wrapper.ws = ws;
+    return ws;
+  };
+
+  connect();
+  return wrapper;
+}
@@ -1,15 +1,11 @@
-import { FuturesAccountV2, RestClientV2 } from "bitget-api";
+import { FuturesAccountV2 } from "bitget-api";
 import { getLogger, Logger } from "@dex-ai/core";
+import { PerpTradingVenue } from "../../perp/types";
+import { BitgetCredentials, createBitgetClient } from "./client";
+import { createBitgetTradingVenue } from "./tradingVenue";
 
 const logger: Logger = getLogger("bitget-perp-trading");
 
-export interface BitgetCredentials {
-  apiKey: string;
-  apiSecret: string;
-  apiPass: string; // Bitget-specific API password
-  useTestnet?: boolean;
-}
-
 export interface OpenPositionParams {
   symbol: string;
   amount: string;
@@ -92,68 +88,26 @@ export interface PositionsResult {
   details?: string;
 }
 
-/**
- * Create Bitget client instance
- */
-function createBitgetClient(credentials: BitgetCredentials): RestClientV2 {
-  logger.debug("[Bitget Trading] Creating client instance", {
-    useTestnet: credentials.useTestnet ?? false,
-    hasApiKey: !!credentials.apiKey,
-    hasApiPass: !!credentials.apiPass,
-  });
+// One venue per account, so contract specs stay cached between calls
+const venues = new Map<string, PerpTradingVenue>();
 
-  return new RestClientV2({
-    apiKey: credentials.apiKey,
-    apiSecret: credentials.apiSecret,
-    apiPass: credentials.apiPass,
-    demoTrading: credentials.useTestnet ?? false, // Default to live trading
-  });
+function getTradingVenue(credentials: BitgetCredentials): PerpTradingVenue {
+  const key = `${credentials.apiKey}:${credentials.useTestnet ?? false}`;
+  let venue = venues.get(key);
+  if (!venue) {
+    venue = createBitgetTradingVenue(credentials);
+    venues.set(key, venue);
+  }
+  return venue;
 }
 
-/**
- * Set leverage for a symbol
- */
-async function setLeverage(
-  client: RestClientV2,
-  symbol: string,
-  leverage: string = "1",
-  marginCoin: string = "USDT",
-): Promise<void> {
-  try {
-    logger.debug("[Bitget Trading] Setting leverage", {
-      symbol,
-      leverage,
-      marginCoin,
-    });
-
-    await client.setFuturesLeverage({
-      symbol: symbol,
-      productType: "USDT-FUTURES",
-      marginCoin: marginCoin,
-      leverage: leverage,
-    });
-
-    logger.info("[Bitget Trading] Leverage set successfully", {
-      symbol,
-      leverage,
-      marginCoin,
-    });
-  } catch (error) {
-    // Leverage setting failed should not prevent trading, may already be set
-    logger.warn(
-      "[Bitget Trading] Leverage setting failed (might already be set)",
-      {
-        symbol,
-        leverage,
-        marginCoin,
-        error: error instanceof Error ? error.message : String(error),
-      },
-    );
-  }
+function hasCredentials(credentials: BitgetCredentials): boolean {
+  return !!(credentials.apiKey && credentials.apiSecret && credentials.apiPass);
 }
 
 /**
  * Open position (generic function, can choose to buy or sell)
+ * @deprecated Use createBitgetTradingVenue(credentials).openPosition
  */
 export async function openPosition(
   params: OpenPositionParams,
@@ -167,231 +121,98 @@ export async function openPosition(
     marginCoin = "USDT",
   } = params;
 
-  logger.info("[Bitget Trading] Opening position", {
+  if (!amount || !side || !hasCredentials(credentials)) {
+    return {
+      success: false,
+      error:
+        "Missing required parameters: symbol, amount, side, apiKey, apiSecret, apiPass",
+    };
+  }
+  if (marginCoin !== "USDT") {
+    return {
+      success: false,
+      error: `Failed to open ${side} position`,
+      details: `Only USDT margin is supported, got ${marginCoin}`,
+    };
+  }
+
+  const result = await getTradingVenue(credentials).openPosition({
     symbol,
-    amount,
     side,
-    marginMode,
-    marginCoin,
+    quantity: String(amount),
+    // The venue keeps the symbol's setting unless a mode is asked for
+    ...(params.marginMode && {
+      marginMode: marginMode === "crossed" ? "cross" : "isolated",
+    }),
   });
+  if (!result.success) {
+    return { success: false, error: result.error, details: result.details };
+  }
 
-  try {
-    if (
-      !symbol ||
-      !amount ||
-      !side ||
-      !credentials.apiKey ||
-      !credentials.apiSecret ||
-      !credentials.apiPass
-    ) {
-      logger.error(
-        "[Bitget Trading] Missing required parameters for opening position",
-        {
-          hasSymbol: !!symbol,
-          hasAmount: !!amount,
-          hasSide: !!side,
-          hasApiKey: !!credentials.apiKey,
-          hasApiSecret: !!credentials.apiSecret,
-          hasApiPass: !!credentials.apiPass,
-        },
-      );
-
-      return {
-        success: false,
-        error:
-          "Missing required parameters: symbol, amount, side, apiKey, apiSecret, apiPass",
-      };
-    }
-
-    const client = createBitgetClient(credentials);
-
-    // First set leverage to 1x
-    await setLeverage(client, symbol, "1", marginCoin);
-
-    const clientOid = `open-${side}-${symbol}-${Date.now()}`;
-
-    logger.debug("[Bitget Trading] Submitting order", {
-      symbol,
-      amount,
-      side,
-      orderType: "market",
-      tradeSide: "open",
-      marginMode,
-      marginCoin,
-    });
-
-    // Open position using market order
-    const order = await client.futuresSubmitOrder({
-      symbol: symbol,
-      productType: "USDT-FUTURES",
-      marginMode: marginMode,
-      marginCoin: marginCoin,
-      size: amount.toString(),
-      side,
-      //   tradeSide: "open",
-      orderType: "market",
-      clientOid: clientOid,
-    });
-
-    logger.info("[Bitget Trading] Position opened successfully", {
-      symbol,
-      amount,
+  return {
+    success: true,
+    data: {
+      order: {
+        orderId: result.data.orderId,
+        orderLinkId: result.data.clientOrderId,
+      },
+      message: `Successfully opened ${side} position for ${symbol}`,
       side,
       marginMode,
       marginCoin,
-      retCode: order.code,
-      retMsg: order.msg,
-      result: order.data,
-      orderId: order.data?.orderId,
-      clientOid: order.data?.clientOid,
-    });
-    if (order.code !== "00000") {
-      logger.error("[Bitget Trading] Failed to open position", {
-        symbol,
-        amount,
-        side,
-        error: order.msg,
-      });
-      return {
-        success: false,
-        error: `Failed to open ${side} position`,
-        details: order.msg,
-      };
-    }
-
-    return {
-      success: true,
-      data: {
-        order: {
-          orderId: order.data?.orderId ?? "",
-          orderLinkId: order.data?.clientOid ?? "",
-        },
-        message: `Successfully opened ${side} position for ${symbol}`,
-        side,
-        marginMode,
-        marginCoin,
-      },
-    };
-  } catch (error: unknown) {
-    logger.error("[Bitget Trading] Failed to open position", {
-      symbol,
-      amount,
-      side,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-
-    return {
-      success: false,
-      error: "Failed to open position",
-      details: (error as Error).message || (error as string),
-    };
-  }
+    },
+  };
 }
 
 /**
- * Close position using flash close
+ * Close position with a reduce-only market order
+ * @deprecated Use createBitgetTradingVenue(credentials).closePosition
  */
 export async function closePosition(
   params: ClosePositionParams,
 ): Promise<ClosePositionResult> {
-  const { symbol, credentials } = params;
-
-  logger.info("[Bitget Trading] Closing position", { symbol });
-
-  try {
-    if (
-      !symbol ||
-      !credentials.apiKey ||
-      !credentials.apiSecret ||
-      !credentials.apiPass
-    ) {
-      logger.error(
-        "[Bitget Trading] Missing required parameters for closing position",
-        {
-          hasSymbol: !!symbol,
-          hasApiKey: !!credentials.apiKey,
-          hasApiSecret: !!credentials.apiSecret,
-          hasApiPass: !!credentials.apiPass,
-        },
-      );
-
-      return {
-        success: false,
-        error:
-          "Missing required parameters: symbol, apiKey, apiSecret, apiPass",
-      };
-    }
-
-    const client = createBitgetClient(credentials);
+  const { symbol, credentials, holdSide } = params;
 
-    logger.debug("[Bitget Trading] Flash closing position", {
-      symbol,
-    });
+  if (!hasCredentials(credentials)) {
+    return {
+      success: false,
+      error: "Missing required parameters: symbol, apiKey, apiSecret, apiPass",
+    };
+  }
 
-    // Execute flash close position
-    const result = await client.futuresFlashClosePositions({
-      symbol: symbol,
-      productType: "USDT-FUTURES",
-    });
-    if (result.code !== "00000") {
-      logger.error("[Bitget Trading] Failed to close position", {
-        symbol,
-        error: result.msg,
-      });
+  const result = await getTradingVenue(credentials).closePosition({
+    symbol,
+    side: holdSide,
+  });
+  if (!result.success) {
+    if (result.code === "no_position") {
       return {
-        success: false,
-        error: "Failed to close position",
-        details: result.msg,
+        success: true,
+        data: { orders: [], message: "No position to close", symbol },
       };
     }
+    return { success: false, error: result.error, details: result.details };
+  }
 
-    logger.info("[Bitget Trading] Position closed successfully", {
-      symbol,
-      result: result.data,
-    });
-
-    return {
-      success: true,
-      data: {
-        orders: result.data.successList,
-        message: `Successfully closed all position(s) for ${symbol}`,
-        symbol,
-      },
-    };
-  } catch (error: unknown) {
-    if (
-      error &&
-      typeof error === "object" &&
-      "body" in error &&
-      typeof (error as { body: { code?: string } }).body === "object" &&
-      (error as { body: { code?: string } }).body.code === "22002"
-    ) {
-      return {
-        success: true,
-        data: {
-          orders: [],
-          message: "No position to close",
+  return {
+    success: true,
+    data: {
+      orders: [
+        {
+          orderId: result.data.orderId,
+          clientOid: result.data.clientOrderId,
           symbol,
         },
-      };
-    }
-    logger.error("[Bitget Trading] Failed to close position", {
+      ],
+      message: `Successfully closed position for ${symbol}`,
       symbol,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-
-    return {
-      success: false,
-      error: "Failed to close position",
-      details: (error as Error).message || (error as string),
-    };
-  }
+    },
+  };
 }
 
 /**
  * Get position info
+ * @deprecated Use createBitgetTradingVenue(credentials).getPositions
  */
 export async function getPositions(
   params: GetPositionsParams,
@@ -464,6 +285,7 @@ export async function getPositions(
 
 /**
  * Get wallet balance
+ * @deprecated Use createBitgetTradingVenue(credentials).getWalletBalance
  */
 export async function getWalletBalance(
   credentials: BitgetCredentials,
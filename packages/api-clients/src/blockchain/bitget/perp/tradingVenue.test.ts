@@ -0,0 +1,358 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const client = {
+  setFuturesLeverage: vi.fn(),
+  setFuturesMarginMode: vi.fn(),
+  futuresSubmitOrder: vi.fn(),
+  futuresCancelOrder: vi.fn(),
+  futuresModifyOrder: vi.fn(),
+  getFuturesOrder: vi.fn(),
+  getFuturesOpenOrders: vi.fn(),
+  getFuturesContractConfig: vi.fn(),
+  getFuturesTicker: vi.fn(),
+  getFuturesPositions: vi.fn(),
+  getFuturesAccountAsset: vi.fn(),
+  getFuturesAccountAssets: vi.fn(),
+};
+
+vi.mock("bitget-api", () => ({ RestClientV2: vi.fn(() => client) }));
+
+import { createBitgetTradingVenue } from "./tradingVenue";
+
+const credentials = { apiKey: "key", apiSecret: "secret", apiPass: "pass" };
+
+const contract = {
+  symbol: "BTCUSDT",
+  sizeMultiplier: "0.001",
+  minTradeNum: "0.001",
+  pricePlace: "1",
+  priceEndStep: "1",
+  minTradeUSDT: "5",
+};
+
+function position(holdSide: "long" | "short", total: string) {
+  return {
+    symbol: "BTCUSDT",
+    holdSide,
+    total,
+    marginMode: "crossed",
+    openPriceAvg: "60000",
+    markPrice: "60100",
+    liquidationPrice: "0",
+    unrealizedPL: "-1.5",
+    leverage: "2",
+  };
+}
+
+describe("Bitget trading venue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.setFuturesLeverage.mockResolvedValue({ code: "00000" });
+    client.getFuturesContractConfig.mockResolvedValue({
+      code: "00000",
+      data: [contract],
+    });
+    client.getFuturesTicker.mockResolvedValue({
+      code: "00000",
+      data: [{ symbol: "BTCUSDT", markPrice: "60000" }],
+    });
+    client.getFuturesAccountAsset.mockResolvedValue({
+      code: "00000",
+      data: { marginCoin: "USDT", marginMode: "crossed" },
+    });
+    client.futuresSubmitOrder.mockImplementation(async (params) => ({
+      code: "00000",
+      msg: "success",
+      data: { orderId: "42", clientOid: params.clientOid },
+      requestTime: 1000,
+    }));
+  });
+
+  it("opens a market position in the symbol's margin mode with our client order id", async () => {
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.0105",
+      clientOrderId: "hedge-1",
+    });
+
+    expect(client.setFuturesMarginMode).not.toHaveBeenCalled();
+    expect(client.getFuturesAccountAsset).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      productType: "USDT-FUTURES",
+      marginCoin: "USDT",
+    });
+    expect(client.futuresSubmitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        productType: "USDT-FUTURES",
+        marginMode: "crossed",
+        side: "sell",
+        orderType: "market",
+        size: "0.01",
+        clientOid: "hedge-1",
+        reduceOnly: "NO",
+      }),
+    );
+    expect(result).toEqual({
+      success: true,
+      data: {
+        venue: "bitget",
+        symbol: "BTCUSDT",
+        orderId: "42",
+        clientOrderId: "hedge-1",
+        side: "sell",
+        orderType: "market",
+        price: null,
+        timeInForce: null,
+        quantity: "0.01",
+        reduceOnly: false,
+        timestamp: 1000,
+      },
+    });
+  });
+
+  it("sets the margin mode of the symbol before a post-only limit order", async () => {
+    client.setFuturesMarginMode.mockResolvedValue({ code: "00000" });
+    const venue = createBitgetTradingVenue(credentials);
+
+    await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      orderType: "limit",
+      price: "60000.04",
+      timeInForce: "post_only",
+      leverage: 3,
+      marginMode: "cross",
+    });
+
+    expect(client.setFuturesMarginMode).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      productType: "USDT-FUTURES",
+      marginCoin: "USDT",
+      marginMode: "crossed",
+    });
+    expect(client.setFuturesLeverage).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: "BTCUSDT", leverage: "3" }),
+    );
+    expect(client.futuresSubmitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        marginMode: "crossed",
+        orderType: "limit",
+        price: "60000",
+        force: "post_only",
+      }),
+    );
+    expect(client.getFuturesTicker).not.toHaveBeenCalled();
+  });
+
+  it("rejects the order when a requested leverage is refused", async () => {
+    client.setFuturesLeverage.mockResolvedValue({
+      code: "40017",
+      msg: "Parameter verification failed",
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      leverage: 300,
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      code: "invalid_params",
+      error: "Failed to set leverage",
+      venueCode: "40017",
+    });
+    expect(client.futuresSubmitOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects an omitted margin mode the account does not report", async () => {
+    client.getFuturesAccountAsset.mockResolvedValue({
+      code: "00000",
+      data: { marginCoin: "USDT", marginMode: "" },
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+    });
+
+    expect(!result.success && result.code).toBe("invalid_params");
+    expect(client.futuresSubmitOrder).not.toHaveBeenCalled();
+  });
+
+  it("checks the minimum notional of a market quantity at the mark price", async () => {
+    client.getFuturesTicker.mockResolvedValue({
+      code: "00000",
+      data: [{ symbol: "BTCUSDT", markPrice: "1000" }],
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.001",
+    });
+
+    expect(!result.success && result.details).toBe(
+      "Order value 1.00 USDT is below the 5 USDT minimum for BTCUSDT",
+    );
+    expect(client.futuresSubmitOrder).not.toHaveBeenCalled();
+  });
+
+  it("maps a rejected order to a failure code", async () => {
+    client.futuresSubmitOrder.mockResolvedValue({
+      code: "40762",
+      msg: "The order amount exceeds the balance",
+      data: null,
+      requestTime: 1000,
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      code: "insufficient_balance",
+      error: "Failed to open position",
+      venueCode: "40762",
+    });
+  });
+
+  it("closes in the position's margin mode with a reduce-only order", async () => {
+    client.getFuturesPositions.mockResolvedValue({
+      code: "00000",
+      data: [position("short", "0.02")],
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.closePosition({ symbol: "BTCUSDT" });
+
+    expect(client.futuresSubmitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        marginMode: "crossed",
+        side: "buy",
+        size: "0.02",
+        reduceOnly: "YES",
+      }),
+    );
+    expect(result.success && result.data.clientOrderId).toMatch(/^close-/);
+  });
+
+  it("amends the price and keeps the current quantity", async () => {
+    client.getFuturesOrder.mockResolvedValue({
+      code: "00000",
+      data: { price: "60500", size: "0.01" },
+    });
+    client.futuresModifyOrder.mockResolvedValue({
+      code: "00000",
+      data: { orderId: "42", clientOid: "amend-1" },
+      requestTime: 3000,
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.amendOrder({
+      symbol: "BTCUSDT",
+      orderId: "42",
+      price: "60400",
+    });
+
+    expect(client.futuresModifyOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderId: "42",
+        newPrice: "60400",
+        newSize: "0.01",
+        newClientOid: expect.stringMatching(/^amend-/),
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("normalizes open orders and a missing list", async () => {
+    client.getFuturesOpenOrders
+      .mockResolvedValueOnce({
+        code: "00000",
+        data: {
+          entrustedList: [
+            {
+              symbol: "BTCUSDT",
+              orderId: "42",
+              clientOid: "maker-1",
+              side: "sell",
+              orderType: "limit",
+              force: "post_only",
+              price: "60500",
+              size: "0.01",
+              baseVolume: "0.004",
+              reduceOnly: "NO",
+              cTime: "1000",
+            },
+          ],
+        },
+      })
+      .mockResolvedValueOnce({ code: "00000", data: { entrustedList: null } });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.getOpenOrders("BTCUSDT");
+    const empty = await venue.getOpenOrders();
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          venue: "bitget",
+          symbol: "BTCUSDT",
+          orderId: "42",
+          clientOrderId: "maker-1",
+          side: "sell",
+          orderType: "limit",
+          price: "60500",
+          timeInForce: "post_only",
+          quantity: "0.01",
+          filledQuantity: "0.004",
+          reduceOnly: false,
+          timestamp: 1000,
+        },
+      ],
+    });
+    expect(empty).toEqual({ success: true, data: [] });
+  });
+
+  it("normalizes positions and skips flat ones", async () => {
+    client.getFuturesPositions.mockResolvedValue({
+      code: "00000",
+      data: [position("short", "0.02"), position("long", "0")],
+    });
+    const venue = createBitgetTradingVenue(credentials);
+
+    const result = await venue.getPositions();
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          venue: "bitget",
+          symbol: "BTCUSDT",
+          side: "short",
+          quantity: 0.02,
+          entryPrice: 60000,
+          markPrice: 60100,
+          liquidationPrice: null,
+          unrealizedPnl: -1.5,
+          leverage: 2,
+        },
+      ],
+    });
+  });
+});
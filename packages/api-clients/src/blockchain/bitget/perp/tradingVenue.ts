@@ -0,0 +1,536 @@
+/**
+ * Bitget Trading Venue - USDT-M perps behind the normalized PerpTradingVenue
+ */
+
+import { FuturesOpenOrderV2, FuturesPositionV2 } from "bitget-api";
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  PerpMarginMode,
+  PerpOpenOrder,
+  PerpOrder,
+  PerpOrderAck,
+  PerpOrderRequest,
+  PerpPosition,
+  PerpTimeInForce,
+  PerpTradingVenue,
+} from "../../perp/types";
+import {
+  createClientOrderId,
+  createPerpTradingFailure,
+  noPositionFailure,
+  perpTradingFailure,
+  resolvePerpOrderPricing,
+  toPerpTradingFailure,
+  validatePerpOrderParams,
+  validatePerpOrderRef,
+} from "../../perp/tradingErrors";
+import { createContractSpecCache, sizePerpOrder } from "../../perp/sizing";
+import { BitgetCredentials, createBitgetClient, setLeverage } from "./client";
+import { fetchBitgetContractSpec } from "./contracts";
+
+const logger: Logger = getLogger("bitget-perp-trading-venue");
+
+const VENUE = PriceSourceName.BITGET;
+const PRODUCT_TYPE = "USDT-FUTURES";
+const MARGIN_COIN = "USDT";
+const SUCCESS_CODE = "00000";
+
+type BitgetMarginMode = "isolated" | "crossed";
+
+const TIME_IN_FORCE: PerpTimeInForce[] = ["gtc", "ioc", "fok", "post_only"];
+
+function toBitgetMarginMode(marginMode: PerpMarginMode): BitgetMarginMode {
+  return marginMode === "cross" ? "crossed" : "isolated";
+}
+
+function toNumberOrNull(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed !== 0 ? parsed : null;
+}
+
+export function toPerpPosition(position: FuturesPositionV2): PerpPosition {
+  return {
+    venue: VENUE,
+    symbol: position.symbol,
+    side: position.holdSide === "short" ? "short" : "long",
+    quantity: Math.abs(Number(position.total)),
+    entryPrice: toNumberOrNull(position.openPriceAvg),
+    markPrice: toNumberOrNull(position.markPrice),
+    liquidationPrice: toNumberOrNull(position.liquidationPrice),
+    unrealizedPnl: Number(position.unrealizedPL) || 0,
+    leverage: toNumberOrNull(position.leverage),
+  };
+}
+
+export function toPerpOpenOrder(
+  // reduceOnly is returned by the API but missing from the SDK type
+  order: FuturesOpenOrderV2 & { reduceOnly?: string },
+): PerpOpenOrder {
+  const isLimit = order.orderType === "limit";
+  const timeInForce = TIME_IN_FORCE.find((force) => force === order.force);
+  return {
+    venue: VENUE,
+    symbol: order.symbol,
+    orderId: order.orderId,
+    clientOrderId: order.clientOid,
+    side: order.side === "sell" ? "sell" : "buy",
+    orderType: isLimit ? "limit" : "market",
+    price: isLimit ? order.price : null,
+    timeInForce: isLimit ? (timeInForce ?? "gtc") : null,
+    quantity: order.size,
+    filledQuantity: order.baseVolume || "0",
+    reduceOnly: order.reduceOnly === "YES",
+    timestamp: Number(order.cTime),
+  };
+}
+
+function toOrderAck(
+  symbol: string,
+  response: {
+    data: { orderId: string; clientOid: string };
+    requestTime: number;
+  },
+): PerpOrderAck {
+  return {
+    venue: VENUE,
+    symbol,
+    orderId: response.data.orderId,
+    clientOrderId: response.data.clientOid,
+    timestamp: response.requestTime,
+  };
+}
+
+/**
+ * Create a Bitget trading venue bound to a set of credentials
+ */
+export function createBitgetTradingVenue(
+  credentials: BitgetCredentials,
+): PerpTradingVenue {
+  const client = createBitgetClient(credentials);
+  const getContractSpec = createContractSpecCache((symbol) =>
+    fetchBitgetContractSpec(client, symbol),
+  );
+
+  const submitOrder = async (
+    request: PerpOrderRequest,
+    marginMode: BitgetMarginMode,
+    action: string,
+  ) => {
+    const { symbol, side, orderType, price, timeInForce, quantity } = request;
+    const order = await client.futuresSubmitOrder({
+      symbol,
+      productType: PRODUCT_TYPE,
+      marginMode,
+      marginCoin: MARGIN_COIN,
+      size: quantity,
+      side,
+      orderType,
+      ...(price && { price }),
+      ...(timeInForce && { force: timeInForce }),
+      clientOid: request.clientOrderId,
+      reduceOnly: request.reduceOnly ? "YES" : "NO", // One-way position mode
+    });
+
+    if (order.code !== SUCCESS_CODE) {
+      logger.error("[Bitget Venue] Order rejected", {
+        symbol,
+        side,
+        orderType,
+        price,
+        quantity,
+        code: order.code,
+        msg: order.msg,
+      });
+      return perpTradingFailure(
+        VENUE,
+        `Failed to ${action}`,
+        order.code,
+        order.msg,
+      );
+    }
+
+    const result: PerpOrder = {
+      ...request,
+      venue: VENUE,
+      orderId: order.data.orderId,
+      clientOrderId: order.data.clientOid || request.clientOrderId,
+      timestamp: order.requestTime,
+    };
+
+    logger.info("[Bitget Venue] Order submitted", { ...result });
+
+    return { success: true as const, data: result };
+  };
+
+  const setMarginMode = async (symbol: string, marginMode: PerpMarginMode) => {
+    const response = await client.setFuturesMarginMode({
+      symbol,
+      productType: PRODUCT_TYPE,
+      marginCoin: MARGIN_COIN,
+      marginMode: toBitgetMarginMode(marginMode),
+    });
+    if (response.code !== SUCCESS_CODE) {
+      return perpTradingFailure(
+        VENUE,
+        "Failed to set margin mode",
+        response.code,
+        response.msg,
+      );
+    }
+    return null;
+  };
+
+  // Orders must name a margin mode, so an omitted one is read from the account
+  const fetchMarginMode = async (symbol: string) => {
+    const response = await client.getFuturesAccountAsset({
+      symbol,
+      productType: PRODUCT_TYPE,
+      marginCoin: MARGIN_COIN,
+    });
+    if (response.code !== SUCCESS_CODE) {
+      return perpTradingFailure(
+        VENUE,
+        "Failed to get margin mode",
+        response.code,
+        response.msg,
+      );
+    }
+
+    const marginMode = response.data?.marginMode;
+    if (marginMode !== "crossed" && marginMode !== "isolated") {
+      return createPerpTradingFailure(
+        "invalid_params",
+        "Failed to get margin mode",
+        `Bitget reported no margin mode for ${symbol}, pass marginMode`,
+      );
+    }
+    return { success: true as const, data: marginMode as BitgetMarginMode };
+  };
+
+  const fetchRawPositions = async (symbol?: string) => {
+    const response = await client.getFuturesPositions({
+      productType: PRODUCT_TYPE,
+      marginCoin: MARGIN_COIN,
+    });
+    if (response.code !== SUCCESS_CODE) {
+      return perpTradingFailure(
+        VENUE,
+        "Failed to get positions",
+        response.code,
+        response.msg,
+      );
+    }
+
+    return {
+      success: true as const,
+      data: response.data.filter(
+        (position) =>
+          Number(position.total) !== 0 &&
+          (!symbol || position.symbol === symbol),
+      ),
+    };
+  };
+
+  const fetchMarkPrice = async (symbol: string) => {
+    const response = await client.getFuturesTicker({
+      symbol,
+      productType: PRODUCT_TYPE,
+    });
+    return Number(response.data?.[0]?.markPrice) || undefined;
+  };
+
+  return {
+    venue: VENUE,
+
+    openPosition: async (params) => {
+      const {
+        symbol,
+        side,
+        quantity,
+        notional,
+        leverage = 1,
+        marginMode,
+      } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to open position",
+      );
+      if (invalid) return invalid;
+
+      const pricing = resolvePerpOrderPricing(params);
+      logger.info("[Bitget Venue] Opening position", {
+        symbol,
+        side,
+        quantity,
+        notional,
+        ...pricing,
+        leverage,
+        marginMode,
+      });
+      try {
+        const sized = sizePerpOrder(
+          await getContractSpec(symbol),
+          {
+            side,
+            quantity,
+            notional,
+            price: pricing.price,
+            referencePrice: pricing.price
+              ? undefined
+              : await fetchMarkPrice(symbol),
+          },
+          "Failed to open position",
+        );
+        if (!sized.success) return sized;
+
+        let orderMarginMode: BitgetMarginMode;
+        if (marginMode) {
+          const marginFailure = await setMarginMode(symbol, marginMode);
+          if (marginFailure) return marginFailure;
+          orderMarginMode = toBitgetMarginMode(marginMode);
+        } else {
+          const current = await fetchMarginMode(symbol);
+          if (!current.success) return current;
+          orderMarginMode = current.data;
+        }
+        const leverageFailure = await setLeverage(
+          client,
+          symbol,
+          String(leverage),
+          MARGIN_COIN,
+        );
+        if (leverageFailure) {
+          // Only a leverage the caller asked for holds the order back
+          if (params.leverage !== undefined) return leverageFailure;
+          logger.warn("[Bitget Venue] Default leverage not applied", {
+            symbol,
+            details: leverageFailure.details,
+          });
+        }
+        return await submitOrder(
+          {
+            symbol,
+            side,
+            ...pricing,
+            ...sized.data,
+            clientOrderId: params.clientOrderId ?? createClientOrderId("open"),
+            reduceOnly: false,
+          },
+          orderMarginMode,
+          "open position",
+        );
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to open position", error);
+      }
+    },
+
+    closePosition: async (params) => {
+      const { symbol, side } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to close position",
+      );
+      if (invalid) return invalid;
+
+      logger.info("[Bitget Venue] Closing position", { symbol, side });
+      try {
+        const positions = await fetchRawPositions(symbol);
+        if (!positions.success) return positions;
+
+        const raw = positions.data.find(
+          (candidate) => !side || toPerpPosition(candidate).side === side,
+        );
+        if (!raw) {
+          return noPositionFailure(symbol);
+        }
+
+        const position = toPerpPosition(raw);
+        const closeSide = position.side === "long" ? "sell" : "buy";
+        const pricing = resolvePerpOrderPricing(params);
+        const sized = sizePerpOrder(
+          await getContractSpec(symbol),
+          {
+            side: closeSide,
+            quantity: params.quantity ?? String(position.quantity),
+            price: pricing.price,
+            reduceOnly: true,
+          },
+          "Failed to close position",
+        );
+        if (!sized.success) return sized;
+
+        return await submitOrder(
+          {
+            symbol,
+            side: closeSide,
+            ...pricing,
+            ...sized.data,
+            clientOrderId: params.clientOrderId ?? createClientOrderId("close"),
+            reduceOnly: true,
+          },
+          raw.marginMode === "crossed" ? "crossed" : "isolated",
+          "close position",
+        );
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to close position", error);
+      }
+    },
+
+    cancelOrder: async (params) => {
+      const invalid = validatePerpOrderRef(params, "Failed to cancel order");
+      if (invalid) return invalid;
+
+      logger.info("[Bitget Venue] Cancelling order", { ...params });
+      try {
+        const response = await client.futuresCancelOrder({
+          symbol: params.symbol,
+          productType: PRODUCT_TYPE,
+          marginCoin: MARGIN_COIN,
+          orderId: params.orderId,
+          clientOid: params.clientOrderId,
+        });
+        if (response.code !== SUCCESS_CODE) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to cancel order",
+            response.code,
+            response.msg,
+          );
+        }
+        return { success: true, data: toOrderAck(params.symbol, response) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to cancel order", error);
+      }
+    },
+
+    amendOrder: async (params) => {
+      const { symbol, orderId, clientOrderId } = params;
+      const invalid = validatePerpOrderRef(params, "Failed to amend order");
+      if (invalid) return invalid;
+      if (!params.price && !params.quantity) {
+        return createPerpTradingFailure(
+          "invalid_params",
+          "Failed to amend order",
+          "price or quantity is required",
+        );
+      }
+
+      logger.info("[Bitget Venue] Amending order", { ...params });
+      try {
+        // Size and price are amended together, keep the current value of the other
+        let { price, quantity } = params;
+        if (!price || !quantity) {
+          const current = await client.getFuturesOrder({
+            symbol,
+            productType: PRODUCT_TYPE,
+            orderId,
+            clientOid: clientOrderId,
+          });
+          if (current.code !== SUCCESS_CODE) {
+            return perpTradingFailure(
+              VENUE,
+              "Failed to amend order",
+              current.code,
+              current.msg,
+            );
+          }
+          price = price ?? current.data.price;
+          quantity = quantity ?? current.data.size;
+        }
+
+        const response = await client.futuresModifyOrder({
+          symbol,
+          productType: PRODUCT_TYPE,
+          orderId,
+          clientOid: clientOrderId,
+          newClientOid: createClientOrderId("amend"), // Required by Bitget
+          newPrice: price,
+          newSize: quantity,
+        });
+        if (response.code !== SUCCESS_CODE) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to amend order",
+            response.code,
+            response.msg,
+          );
+        }
+        return { success: true, data: toOrderAck(symbol, response) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to amend order", error);
+      }
+    },
+
+    getOpenOrders: async (symbol) => {
+      try {
+        const response = await client.getFuturesOpenOrders({
+          productType: PRODUCT_TYPE,
+          ...(symbol && { symbol }),
+        });
+        if (response.code !== SUCCESS_CODE) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to get open orders",
+            response.code,
+            response.msg,
+          );
+        }
+        return {
+          success: true,
+          // Bitget returns null instead of an empty list
+          data: (response.data.entrustedList ?? []).map(toPerpOpenOrder),
+        };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to get open orders", error);
+      }
+    },
+
+    getPositions: async (symbol) => {
+      try {
+        const positions = await fetchRawPositions(symbol);
+        if (!positions.success) return positions;
+        return { success: true, data: positions.data.map(toPerpPosition) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to get positions", error);
+      }
+    },
+
+    getWalletBalance: async () => {
+      try {
+        const response = await client.getFuturesAccountAssets({
+          productType: PRODUCT_TYPE,
+        });
+        const account = response.data?.find(
+          (asset) => asset.marginCoin === MARGIN_COIN,
+        );
+        if (response.code !== SUCCESS_CODE || !account) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to get wallet balance",
+            response.code,
+            response.msg,
+          );
+        }
+
+        return {
+          success: true,
+          data: {
+            venue: VENUE,
+            asset: MARGIN_COIN,
+            equity: Number(account.accountEquity) || 0,
+            available: Number(account.available) || 0,
+            unrealizedPnl: Number(account.unrealizedPL) || 0,
+            timestamp: response.requestTime,
+          },
+        };
+      } catch (error) {
+        return toPerpTradingFailure(
+          VENUE,
+          "Failed to get wallet balance",
+          error,
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Bybit REST client shared by the legacy helpers and the trading venue
+ */
+
+import { RestClientV5 } from "bybit-api";
+import logger from "../../../common/logger";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  perpTradingFailure,
+  toPerpTradingFailure,
+} from "../../perp/tradingErrors";
+import { PerpTradingFailure } from "../../perp/types";
+
+export interface BybitCredentials {
+  apiKey: string;
+  apiSecret: string;
+  useTestnet?: boolean;
+}
+
+/**
+ * Create Bybit client instance
+ */
+export function createBybitClient(credentials: BybitCredentials): RestClientV5 {
+  logger.debug("[Bybit Trading] Creating client instance", {
+    useTestnet: credentials.useTestnet ?? true,
+    hasApiKey: !!credentials.apiKey,
+  });
+
+  return new RestClientV5({
+    key: credentials.apiKey,
+    secret: credentials.apiSecret,
+    demoTrading: credentials.useTestnet ?? true, // Default to use testnet
+  });
+}
+
+// The symbol already uses the requested leverage
+const LEVERAGE_NOT_MODIFIED = 110043;
+
+/**
+ * Set leverage, returns a failure unless Bybit applied it
+ */
+export async function setLeverage(
+  client: RestClientV5,
+  symbol: string,
+  leverage: string = "1",
+): Promise<PerpTradingFailure | null> {
+  logger.debug("[Bybit Trading] Setting leverage", { symbol, leverage });
+
+  try {
+    const response = await client.setLeverage({
+      category: "linear",
+      symbol: symbol,
+      buyLeverage: leverage,
+      sellLeverage: leverage,
+    });
+    if (response.retCode !== 0 && response.retCode !== LEVERAGE_NOT_MODIFIED) {
+      return perpTradingFailure(
+        PriceSourceName.BYBIT,
+        "Failed to set leverage",
+        response.retCode,
+        response.retMsg,
+      );
+    }
+
+    logger.info("[Bybit Trading] Leverage set successfully", {
+      symbol,
+      leverage,
+    });
+    return null;
+  } catch (error) {
+    return toPerpTradingFailure(
+      PriceSourceName.BYBIT,
+      "Failed to set leverage",
+      error,
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+
+const client = {
+  getFundingRateHistory: vi.fn(),
+};
+
+vi.mock("bybit-api", () => ({ RestClientV5: vi.fn(() => client) }));
+
+import { getFundingRateHistory } from "./funding";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1000 * 8 * HOUR;
+
+// Settlements every 8h up to now, the newest `limit` of the range first
+function settlements({
+  startTime = 0,
+  endTime = NOW,
+  limit,
+}: {
+  startTime?: number;
+  endTime?: number;
+  limit: number;
+}) {
+  const list = [];
+  for (
+    let time = Math.floor(endTime / (8 * HOUR)) * 8 * HOUR;
+    time >= startTime && list.length < limit;
+    time -= 8 * HOUR
+  ) {
+    list.push({
+      symbol: "BTCUSDT",
+      fundingRate: "0.0001",
+      fundingRateTimestamp: String(time),
+    });
+  }
+  return { retCode: 0, result: { list } };
+}
+
+describe("Bybit funding rate history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: NOW });
+    client.getFundingRateHistory.mockImplementation(async (params) =>
+      settlements(params),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends an endTime of now with a startTime", async () => {
+    const startTime = NOW - 10 * 8 * HOUR;
+
+    const history = await getFundingRateHistory("BTCUSDT", { startTime });
+
+    expect(client.getFundingRateHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ startTime, endTime: NOW }),
+    );
+    expect(history).toHaveLength(11);
+    expect(history![0].fundingTime).toBe(startTime);
+  });
+
+  it("pages backward by endTime until the limit", async () => {
+    const history = await getFundingRateHistory("BTCUSDT", {
+      startTime: 0,
+      limit: 450,
+    });
+
+    expect(history).toHaveLength(450);
+    expect(history![449].fundingTime).toBe(NOW);
+    expect(history![0].fundingTime).toBe(NOW - 449 * 8 * HOUR);
+    expect(client.getFundingRateHistory).toHaveBeenCalledTimes(3);
+    expect(client.getFundingRateHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({ endTime: NOW - 399 * 8 * HOUR - 1, limit: 50 }),
+    );
+  });
+});
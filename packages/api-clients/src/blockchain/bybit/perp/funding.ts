@@ -0,0 +1,128 @@
+import { RestClientV5 } from "bybit-api";
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  FundingRateHistoryOptions,
+  FundingRateHistoryPoint,
+  PerpFundingRate,
+} from "../../perp/types";
+
+const logger: Logger = getLogger("bybit-perp-funding");
+
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+const MAX_HISTORY_LIMIT = 200;
+
+/**
+ * Get current and predicted funding rate for a linear perp symbol
+ */
+export async function getFundingRate(
+  symbol: string,
+): Promise<PerpFundingRate | null> {
+  logger.info("[Bybit Perp] Fetching funding rate", { symbol });
+
+  try {
+    if (!symbol) {
+      logger.error("[Bybit Perp] Missing required parameter: symbol");
+      return null;
+    }
+
+    const client = new RestClientV5();
+    const [tickers, lastSettled] = await Promise.all([
+      client.getTickers({ category: "linear", symbol }),
+      client.getFundingRateHistory({ category: "linear", symbol, limit: 1 }),
+    ]);
+
+    const ticker = tickers.result?.list?.[0];
+    if (!ticker) {
+      logger.warn("[Bybit Perp] No ticker found", { symbol });
+      return null;
+    }
+
+    const last = lastSettled.result?.list?.[0];
+
+    return {
+      venue: PriceSourceName.BYBIT,
+      symbol,
+      fundingRate: last ? Number(last.fundingRate) : null,
+      predictedFundingRate: Number(ticker.fundingRate),
+      fundingIntervalHours:
+        Number(ticker.fundingIntervalHour) || DEFAULT_FUNDING_INTERVAL_HOURS,
+      nextFundingTime: Number(ticker.nextFundingTime),
+      markPrice: Number(ticker.markPrice),
+      indexPrice: Number(ticker.indexPrice),
+      timestamp: tickers.time,
+    };
+  } catch (error) {
+    logger.error("[Bybit Perp] Failed to fetch funding rate", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Get settled funding rate history, sorted by funding time ascending
+ *
+ * Bybit returns the newest page of a range first and rejects a startTime
+ * without an endTime, so the range is paged backward by endTime.
+ */
+export async function getFundingRateHistory(
+  symbol: string,
+  options: FundingRateHistoryOptions = {},
+): Promise<FundingRateHistoryPoint[] | null> {
+  logger.info("[Bybit Perp] Fetching funding rate history", {
+    symbol,
+    ...options,
+  });
+
+  try {
+    const client = new RestClientV5();
+    const limit = options.limit ?? MAX_HISTORY_LIMIT;
+    const points: FundingRateHistoryPoint[] = [];
+    let endTime =
+      options.startTime !== undefined
+        ? (options.endTime ?? Date.now())
+        : options.endTime;
+
+    while (points.length < limit) {
+      const pageSize = Math.min(limit - points.length, MAX_HISTORY_LIMIT);
+      const res = await client.getFundingRateHistory({
+        category: "linear",
+        symbol,
+        startTime: options.startTime,
+        endTime,
+        limit: pageSize,
+      });
+      const page = res.result?.list || [];
+
+      let oldest = Infinity;
+      page.forEach((item) => {
+        const fundingTime = Number(item.fundingRateTimestamp);
+        oldest = Math.min(oldest, fundingTime);
+        points.push({
+          venue: PriceSourceName.BYBIT,
+          symbol: item.symbol,
+          fundingRate: Number(item.fundingRate),
+          fundingTime,
+        });
+      });
+
+      if (
+        page.length < pageSize ||
+        (options.startTime !== undefined && oldest <= options.startTime)
+      ) {
+        break;
+      }
+      endTime = oldest - 1;
+    }
+
+    return points.sort((a, b) => a.fundingTime - b.fundingTime);
+  } catch (error) {
+    logger.error("[Bybit Perp] Failed to fetch funding rate history", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -1,4 +1,8 @@
 export * from "./instrumentInfo";
+export * from "./client";
 export * from "./trading";
+export * from "./tradingVenue";
 export * from "./tickers";
 export * from "./kline";
+export * from "./funding";
+export * from "./orderbook";
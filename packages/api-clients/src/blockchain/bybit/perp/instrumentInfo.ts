@@ -1,4 +1,6 @@
-import { RestClientV5 } from "bybit-api";
+import { LinearInverseInstrumentInfoV5, RestClientV5 } from "bybit-api";
+import { PriceSourceName } from "../../coingecko/types";
+import { PerpContractSpec } from "../../perp/types";
 
 /**
  * Get Bybit contract minimum order unit (qtyStep) and minimum order quantity (minOrderQty)
@@ -25,3 +27,39 @@ export async function getInstrumentInfo(
     minOrderQty: Number(info.lotSizeFilter.minOrderQty),
   };
 }
+
+/**
+ * Normalize a linear instrument into the lot size, tick size and minimum notional
+ */
+export function toBybitContractSpec(
+  instrument: LinearInverseInstrumentInfoV5,
+): PerpContractSpec {
+  const { lotSizeFilter, priceFilter } = instrument;
+  return {
+    venue: PriceSourceName.BYBIT,
+    symbol: instrument.symbol,
+    quantityStep: lotSizeFilter.qtyStep,
+    minQuantity: lotSizeFilter.minOrderQty,
+    maxQuantity: lotSizeFilter.maxOrderQty || null,
+    tickSize: priceFilter.tickSize,
+    minNotional: Number(lotSizeFilter.minNotionalValue) || null,
+  };
+}
+
+/**
+ * Fetch the contract spec with an existing client, so testnet clients read testnet specs
+ */
+export async function fetchBybitContractSpec(
+  client: RestClientV5,
+  symbol: string,
+): Promise<PerpContractSpec> {
+  const res = await client.getInstrumentsInfo({
+    category: "linear",
+    symbol,
+  });
+  const instrument = res.result?.list?.[0];
+  if (!instrument) {
+    throw new Error(`No instrument info found for symbol: ${symbol}`);
+  }
+  return toBybitContractSpec(instrument);
+}
@@ -1,5 +1,6 @@
 import { OHLCKlineV5, RestClientV5 } from "bybit-api";
 import { getLogger, Logger } from "@dex-ai/core";
+import { isRateLimitError } from "../../../common/errors";
 
 const logger: Logger = getLogger("bybit-perp-kline");
 
@@ -75,6 +76,9 @@ export async function getBybitKline(
         retCode: response.retCode,
         retMsg: response.retMsg,
       });
+      if (response.retCode === 10006) {
+        throw new Error(`Bybit rate limit exceeded: ${response.retMsg}`);
+      }
       return null;
     }
 
@@ -100,6 +104,8 @@ export async function getBybitKline(
 
     return null;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[Bybit Kline] Failed to fetch kline data", {
       symbol,
       error: error instanceof Error ? error.message : String(error),
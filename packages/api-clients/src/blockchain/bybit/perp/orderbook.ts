@@ -0,0 +1,188 @@
+import WebSocket from "ws";
+import { getLogger, Logger } from "@dex-ai/core";
+import { RestClientV5 } from "bybit-api";
+
+const logger: Logger = getLogger("bybit-perp-orderbook");
+
+const BYBIT_WS_URL = "wss://stream.bybit.com/v5/public/linear";
+
+export interface BybitOrderBook {
+  symbol: string;
+  bids: [string, string][]; // [price, size], best bid first
+  asks: [string, string][]; // [price, size], best ask first
+  updateId: number;
+  timestamp: number;
+}
+
+export type BybitOrderBookCallback = (book: BybitOrderBook) => void;
+
+export type BybitOrderBookDepth = 1 | 50 | 200 | 500;
+
+export interface SubscribeBybitOrderBookOptions {
+  reconnect?: boolean; // Whether to auto-reconnect
+  onError?: (err: Error) => void;
+}
+
+export interface BybitOrderBookSubscription {
+  ws: WebSocket;
+  close: () => void;
+}
+
+/**
+ * Get linear perp order book (REST API)
+ */
+export async function getOrderBook(
+  symbol: string,
+  limit: number = 200,
+): Promise<BybitOrderBook | null> {
+  logger.info("[Bybit Perp] Fetching orderbook", { symbol, limit });
+
+  try {
+    const client = new RestClientV5();
+    const res = await client.getOrderbook({
+      category: "linear",
+      symbol,
+      limit,
+    });
+
+    if (res.retCode !== 0 || !res.result) {
+      logger.warn("[Bybit Perp] Failed to fetch orderbook", {
+        symbol,
+        retMsg: res.retMsg,
+      });
+      return null;
+    }
+
+    return {
+      symbol: res.result.s,
+      bids: res.result.b.map((level) => [level[0], level[1]]),
+      asks: res.result.a.map((level) => [level[0], level[1]]),
+      updateId: res.result.u,
+      timestamp: res.result.ts,
+    };
+  } catch (error) {
+    logger.error("[Bybit Perp] Failed to fetch orderbook", {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+function applyLevels(side: Map<string, string>, levels: [string, string][]) {
+  for (const [price, size] of levels) {
+    if (Number(size) === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, size);
+    }
+  }
+}
+
+function sortLevels(
+  side: Map<string, string>,
+  descending: boolean,
+): [string, string][] {
+  return [...side.entries()].sort(([a], [b]) =>
+    descending ? Number(b) - Number(a) : Number(a) - Number(b),
+  );
+}
+
+/**
+ * Subscribe to a linear perp order book via WebSocket
+ *
+ * Bybit pushes a snapshot followed by deltas; the book is maintained locally
+ * and the full book is passed to the callback on every update.
+ */
+export function subscribeOrderBook(
+  symbol: string,
+  depth: BybitOrderBookDepth,
+  onBook: BybitOrderBookCallback,
+  options?: SubscribeBybitOrderBookOptions,
+): BybitOrderBookSubscription {
+  if (!symbol) {
+    throw new Error("No symbol provided for Bybit orderbook subscription");
+  }
+
+  let reconnecting = false;
+  let closed = false;
+  const bids = new Map<string, string>();
+  const asks = new Map<string, string>();
+
+  const wrapper: BybitOrderBookSubscription = {
+    ws: undefined as unknown as WebSocket, // will be set after connect
+    close: () => {
+      closed = true;
+      if (wrapper.ws && wrapper.ws.readyState === WebSocket.OPEN) {
+        wrapper.ws.close();
+      }
+    },
+  };
+
+  const connect = (): WebSocket => {
+    const socket = new WebSocket(BYBIT_WS_URL);
+    const topic = `orderbook.${depth}.${symbol}`;
+
+    socket.onopen = () => {
+      logger.info("[Bybit Perp] WebSocket opened, subscribing to orderbook", {
+        symbol,
+        depth,
+      });
+      socket.send(JSON.stringify({ op: "subscribe", args: [topic] }));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data as string);
+        if (data.topic !== topic || !data.data) return;
+
+        // A snapshot (or u=1 after a service restart) resets the book
+        if (data.type === "snapshot" || data.data.u === 1) {
+          bids.clear();
+          asks.clear();
+        }
+        applyLevels(bids, data.data.b);
+        applyLevels(asks, data.data.a);
+
+        onBook({
+          symbol: data.data.s,
+          bids: sortLevels(bids, true),
+          asks: sortLevels(asks, false),
+          updateId: data.data.u,
+          timestamp: data.ts,
+        });
+      } catch (err) {
+        logger.error("[Bybit Perp] Failed to parse orderbook message", {
+          error: err,
+        });
+        options?.onError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    };
+
+    socket.onerror = (err) => {
+      logger.error("[Bybit Perp] Orderbook WebSocket error", { error: err });
+      options?.onError?.(err instanceof Error ? err : new Error(String(err)));
+    };
+
+    socket.onclose = (event) => {
+      logger.warn("[Bybit Perp] Orderbook WebSocket closed", {
+        code: event.code,
+        reason: event.reason,
+      });
+      if (options?.reconnect && !reconnecting && !closed) {
+        reconnecting = true;
+        setTimeout(() => {
+          reconnecting = false;
+          const newWs = connect();
+          wrapper.ws = newWs;
+        }, 2000);
+      }
+    };
+
+    wrapper.ws = socket;
+    return socket;
+  };
+
+  connect();
+  return wrapper;
+}
@@ -10,6 +10,7 @@ export interface BybitTicker {
   ask1Price?: string;
   bid1Price?: string;
   indexPrice?: string;
+  ts?: number; // Exchange time of the WebSocket push, UNIX milliseconds
 }
 
 export type BybitTickerCallback = (ticker: BybitTicker) => void;
@@ -71,10 +72,12 @@ function _subscribeBybitTickers(
     throw new Error("No symbols provided for Bybit ticker subscription");
 
   let reconnecting = false;
+  let closed = false; // Set by close() to stop auto-reconnect
 
   const wrapper: BybitTickerSubscription = {
     ws: undefined as unknown as WebSocket, // will be set after connect
     close: () => {
+      closed = true;
       if (wrapper.ws && wrapper.ws.readyState === WebSocket.OPEN) {
         wrapper.ws.close();
       }
@@ -108,6 +111,7 @@ function _subscribeBybitTickers(
               markPrice: ticker.markPrice,
               ask1Price: ticker.ask1Price,
               bid1Price: ticker.bid1Price,
+              ts: data.ts,
             };
             onUpdate(result);
           }
@@ -130,7 +134,7 @@ function _subscribeBybitTickers(
         code: event.code,
         reason: event.reason,
       });
-      if (options?.reconnect && !reconnecting) {
+      if (options?.reconnect && !reconnecting && !closed) {
         reconnecting = true;
         setTimeout(() => {
           reconnecting = false;
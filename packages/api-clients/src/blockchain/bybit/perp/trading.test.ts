@@ -0,0 +1,103 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const client = {
+  setLeverage: vi.fn(),
+  submitOrder: vi.fn(),
+  getInstrumentsInfo: vi.fn(),
+  getTickers: vi.fn(),
+  getPositionInfo: vi.fn(),
+};
+
+vi.mock("bybit-api", () => ({ RestClientV5: vi.fn(() => client) }));
+
+import { closePosition, openPosition } from "./trading";
+
+const credentials = { apiKey: "legacy-key", apiSecret: "secret" };
+
+describe("Bybit legacy trading helpers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.setLeverage.mockResolvedValue({ retCode: 0 });
+    client.getInstrumentsInfo.mockResolvedValue({
+      retCode: 0,
+      result: {
+        list: [
+          {
+            symbol: "BTCUSDT",
+            priceFilter: { tickSize: "0.10" },
+            lotSizeFilter: {
+              qtyStep: "0.001",
+              minOrderQty: "0.001",
+              maxOrderQty: "100",
+              minNotionalValue: "100",
+            },
+          },
+        ],
+      },
+    });
+    client.getTickers.mockResolvedValue({
+      retCode: 0,
+      result: { list: [{ symbol: "BTCUSDT", markPrice: "60000" }] },
+    });
+    client.submitOrder.mockImplementation(async (params) => ({
+      retCode: 0,
+      retMsg: "OK",
+      result: { orderId: "42", orderLinkId: params.orderLinkId },
+      time: 1000,
+    }));
+  });
+
+  it("opens through the venue and reuses its contract spec", async () => {
+    const first = await openPosition({
+      symbol: "BTCUSDT",
+      amount: "0.01",
+      side: "Sell",
+      credentials,
+    });
+    const tooSmall = await openPosition({
+      symbol: "BTCUSDT",
+      amount: "0.001",
+      side: "Sell",
+      credentials,
+    });
+
+    expect(first).toMatchObject({
+      success: true,
+      data: { order: { orderId: "42" }, side: "Sell", positionType: "short" },
+    });
+    expect(tooSmall).toEqual({
+      success: false,
+      error: "Failed to open position",
+      details:
+        "Order value 60.00 USDT is below the 100 USDT minimum for BTCUSDT",
+    });
+    expect(client.getInstrumentsInfo).toHaveBeenCalledTimes(1);
+    expect(client.submitOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes the open position and reports its side", async () => {
+    client.getPositionInfo.mockResolvedValue({
+      retCode: 0,
+      result: {
+        list: [{ symbol: "BTCUSDT", side: "Sell", size: "0.02" }],
+      },
+    });
+
+    const result = await closePosition({ symbol: "BTCUSDT", credentials });
+
+    expect(client.submitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ side: "Buy", qty: "0.02", reduceOnly: true }),
+    );
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        positionClosed: {
+          symbol: "BTCUSDT",
+          side: "Sell",
+          size: "0.02",
+          closeSide: "Buy",
+        },
+      },
+    });
+  });
+});
@@ -1,5 +1,7 @@
-import { RestClientV5 } from "bybit-api";
 import logger from "../../../common/logger";
+import { PerpTradingVenue } from "../../perp/types";
+import { BybitCredentials, createBybitClient } from "./client";
+import { createBybitTradingVenue } from "./tradingVenue";
 
 // Bybit API response types based on actual usage
 interface BybitOrderResult {
@@ -29,12 +31,6 @@ interface BybitWalletBalance {
   [key: string]: unknown;
 }
 
-export interface BybitCredentials {
-  apiKey: string;
-  apiSecret: string;
-  useTestnet?: boolean;
-}
-
 export interface OpenShortParams {
   symbol: string;
   amount: string;
@@ -103,300 +99,105 @@ export interface PositionsResult {
   details?: string;
 }
 
-/**
- * Create Bybit client instance
- */
-function createBybitClient(credentials: BybitCredentials): RestClientV5 {
-  logger.debug("[Bybit Trading] Creating client instance", {
-    useTestnet: credentials.useTestnet ?? true,
-    hasApiKey: !!credentials.apiKey,
-  });
+// One venue per account, so contract specs stay cached between calls
+const venues = new Map<string, PerpTradingVenue>();
 
-  return new RestClientV5({
-    key: credentials.apiKey,
-    secret: credentials.apiSecret,
-    demoTrading: credentials.useTestnet ?? true, // Default to use testnet
-  });
-}
-
-/**
- * Set leverage
- */
-async function setLeverage(
-  client: RestClientV5,
-  symbol: string,
-  leverage: string = "1",
-): Promise<void> {
-  try {
-    logger.debug("[Bybit Trading] Setting leverage", { symbol, leverage });
-
-    await client.setLeverage({
-      category: "linear",
-      symbol: symbol,
-      buyLeverage: leverage,
-      sellLeverage: leverage,
-    });
-
-    logger.info("[Bybit Trading] Leverage set successfully", {
-      symbol,
-      leverage,
-    });
-  } catch (error) {
-    // Leverage setting failed should not prevent trading, may already be set
-    logger.warn(
-      "[Bybit Trading] Leverage setting failed (might already be set)",
-      {
-        symbol,
-        leverage,
-        error: error instanceof Error ? error.message : String(error),
-      },
-    );
+function getTradingVenue(credentials: BybitCredentials): PerpTradingVenue {
+  const key = `${credentials.apiKey}:${credentials.useTestnet ?? true}`;
+  let venue = venues.get(key);
+  if (!venue) {
+    venue = createBybitTradingVenue(credentials);
+    venues.set(key, venue);
   }
+  return venue;
 }
 
 /**
  * Open position (generic function, can choose to buy or sell)
+ * @deprecated Use createBybitTradingVenue(credentials).openPosition
  */
 export async function openPosition(
   params: OpenPositionParams,
 ): Promise<TradeResult> {
   const { symbol, amount, side, credentials } = params;
 
-  logger.info("[Bybit Trading] Opening position", { symbol, amount, side });
-
-  try {
-    if (
-      !symbol ||
-      !amount ||
-      !side ||
-      !credentials.apiKey ||
-      !credentials.apiSecret
-    ) {
-      logger.error(
-        "[Bybit Trading] Missing required parameters for opening position",
-        {
-          hasSymbol: !!symbol,
-          hasAmount: !!amount,
-          hasSide: !!side,
-          hasApiKey: !!credentials.apiKey,
-          hasApiSecret: !!credentials.apiSecret,
-        },
-      );
-
-      return {
-        success: false,
-        error:
-          "Missing required parameters: symbol, amount, side, apiKey, apiSecret",
-      };
-    }
-
-    const client = createBybitClient(credentials);
-
-    // First set leverage to 1x
-    await setLeverage(client, symbol, "1");
-
-    const positionType = side === "Buy" ? "long" : "short";
-    const orderLinkId = `${positionType}-${symbol}-${Date.now()}`;
-
-    logger.debug("[Bybit Trading] Submitting order", {
-      symbol,
-      amount,
-      side,
-      orderType: "Market",
-      positionType,
-    });
-
-    // Open position
-    const order = await client.submitOrder({
-      category: "linear",
-      symbol: symbol,
-      side,
-      orderType: "Market", // Market order
-      qty: amount.toString(),
-      positionIdx: 0, // Single-sided position mode
-      orderLinkId: orderLinkId,
-      reduceOnly: false, // Open position
-    });
-
-    logger.info("[Bybit Trading] Position opened successfully", {
-      symbol,
-      amount,
-      side,
-      positionType,
-      retCode: order.retCode,
-      retMsg: order.retMsg,
-      result: order.result,
-      orderId: order.result?.orderId,
-      orderLinkId: order.result?.orderLinkId,
-    });
-
-    if (order.retCode !== 0) {
-      logger.error("[Bybit Trading] Failed to open position", {
-        symbol,
-        amount,
-        side,
-        positionType,
-        error: order.retMsg,
-      });
-      return {
-        success: false,
-        error: `Failed to open ${positionType} position`,
-        details: order.retMsg,
-      };
-    }
-
-    return {
-      success: true,
-      data: {
-        order: order.result as BybitOrderResult,
-        message: `Successfully opened ${positionType} position for ${symbol}`,
-        side,
-        positionType,
-      },
-    };
-  } catch (error: unknown) {
-    logger.error("[Bybit Trading] Failed to open position", {
-      symbol,
-      amount,
-      side,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-
+  if (!amount || !side || !credentials.apiKey || !credentials.apiSecret) {
     return {
       success: false,
-      error: "Failed to open position",
-      details: (error as Error).message || (error as string),
+      error:
+        "Missing required parameters: symbol, amount, side, apiKey, apiSecret",
     };
   }
+
+  const positionType = side === "Buy" ? "long" : "short";
+  const result = await getTradingVenue(credentials).openPosition({
+    symbol,
+    side: side === "Buy" ? "buy" : "sell",
+    quantity: String(amount),
+  });
+  if (!result.success) {
+    return { success: false, error: result.error, details: result.details };
+  }
+
+  return {
+    success: true,
+    data: {
+      order: {
+        orderId: result.data.orderId,
+        orderLinkId: result.data.clientOrderId,
+      },
+      message: `Successfully opened ${positionType} position for ${symbol}`,
+      side,
+      positionType,
+    },
+  };
 }
 
 /**
  * Close position
+ * @deprecated Use createBybitTradingVenue(credentials).closePosition
  */
 export async function closePosition(
   params: ClosePositionParams,
 ): Promise<TradeResult> {
   const { symbol, credentials } = params;
 
-  logger.info("[Bybit Trading] Closing position", { symbol });
-
-  try {
-    if (!symbol || !credentials.apiKey || !credentials.apiSecret) {
-      logger.error(
-        "[Bybit Trading] Missing required parameters for closing position",
-        {
-          hasSymbol: !!symbol,
-          hasApiKey: !!credentials.apiKey,
-          hasApiSecret: !!credentials.apiSecret,
-        },
-      );
-
-      return {
-        success: false,
-        error: "Missing required parameters: symbol, apiKey, apiSecret",
-      };
-    }
-
-    const client = createBybitClient(credentials);
-
-    logger.debug("[Bybit Trading] Getting current position info", { symbol });
-
-    // Get current position info
-    const positions = await client.getPositionInfo({
-      category: "linear",
-      symbol: symbol,
-    });
-
-    const position = positions.result.list?.find(
-      (p) => p.symbol === symbol && p.size !== "0",
-    );
-
-    if (!position || position.size === "0") {
-      logger.warn("[Bybit Trading] No open position found for closing", {
-        symbol,
-      });
-
-      return {
-        success: false,
-        error: `No open position found for ${symbol}`,
-      };
-    }
-
-    // Determine close side: if it's a short position (side=Sell), close needs to be buy
-    const closeSide = position.side === "Sell" ? "Buy" : "Sell";
-    const qty = position.size;
-
-    logger.debug("[Bybit Trading] Submitting close order", {
-      symbol,
-      currentSide: position.side,
-      closeSide,
-      qty,
-    });
-
-    // Execute close position
-    const order = await client.submitOrder({
-      category: "linear",
-      symbol: symbol,
-      side: closeSide,
-      orderType: "Market",
-      qty: qty,
-      positionIdx: 0,
-      reduceOnly: true, // Reduce only, no new position
-      orderLinkId: `close-${symbol}-${Date.now()}`,
-    });
-
-    if (order.retCode !== 0) {
-      logger.error("[Bybit Trading] Failed to close position", {
-        symbol,
-        error: order.retMsg,
-      });
-      return {
-        success: false,
-        error: "Failed to close position",
-        details: order.retMsg,
-      };
-    }
-
-    logger.info("[Bybit Trading] Position closed successfully", {
-      symbol,
-      originalSide: position.side,
-      closeSide,
-      qty,
-      orderId: order.result?.orderId,
-      orderLinkId: order.result?.orderLinkId,
-    });
-
-    return {
-      success: true,
-      data: {
-        order: order.result as BybitOrderResult,
-        positionClosed: {
-          symbol: symbol,
-          side: position.side,
-          size: qty,
-          closeSide: closeSide,
-        },
-        message: `Successfully closed ${position.side.toLowerCase()} position for ${symbol}`,
-      },
-    };
-  } catch (error: unknown) {
-    logger.error("[Bybit Trading] Failed to close position", {
-      symbol,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-
+  if (!credentials.apiKey || !credentials.apiSecret) {
     return {
       success: false,
-      error: "Failed to close position",
-      details: (error as Error).message || (error as string),
+      error: "Missing required parameters: symbol, apiKey, apiSecret",
     };
   }
+
+  const result = await getTradingVenue(credentials).closePosition({ symbol });
+  if (!result.success) {
+    return { success: false, error: result.error, details: result.details };
+  }
+
+  // A buy closes a short, which Bybit reports as a Sell position
+  const closeSide = result.data.side === "buy" ? "Buy" : "Sell";
+  const positionSide = closeSide === "Buy" ? "Sell" : "Buy";
+  return {
+    success: true,
+    data: {
+      order: {
+        orderId: result.data.orderId,
+        orderLinkId: result.data.clientOrderId,
+      },
+      positionClosed: {
+        symbol,
+        side: positionSide,
+        size: result.data.quantity,
+        closeSide,
+      },
+      message: `Successfully closed ${positionSide.toLowerCase()} position for ${symbol}`,
+    },
+  };
 }
 
 /**
  * Get position info
+ * @deprecated Use createBybitTradingVenue(credentials).getPositions
  */
 export async function getPositions(
   params: GetPositionsParams,
@@ -462,6 +263,7 @@ export async function getPositions(
 
 /**
  * Get wallet balance
+ * @deprecated Use createBybitTradingVenue(credentials).getWalletBalance
  */
 export async function getWalletBalance(
   credentials: BybitCredentials,
@@ -0,0 +1,393 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const client = {
+  setLeverage: vi.fn(),
+  setMarginMode: vi.fn(),
+  switchIsolatedMargin: vi.fn(),
+  getAccountInfo: vi.fn(),
+  submitOrder: vi.fn(),
+  cancelOrder: vi.fn(),
+  amendOrder: vi.fn(),
+  getActiveOrders: vi.fn(),
+  getInstrumentsInfo: vi.fn(),
+  getTickers: vi.fn(),
+  getPositionInfo: vi.fn(),
+  getWalletBalance: vi.fn(),
+};
+
+vi.mock("bybit-api", () => ({ RestClientV5: vi.fn(() => client) }));
+
+import { createBybitTradingVenue } from "./tradingVenue";
+
+const credentials = { apiKey: "key", apiSecret: "secret" };
+
+const instrument = {
+  symbol: "BTCUSDT",
+  priceFilter: { tickSize: "0.10" },
+  lotSizeFilter: {
+    qtyStep: "0.001",
+    minOrderQty: "0.001",
+    maxOrderQty: "100",
+    minNotionalValue: "5",
+  },
+};
+
+function position(side: "Buy" | "Sell" | "", size: string) {
+  return {
+    symbol: "BTCUSDT",
+    side,
+    size,
+    avgPrice: "60000",
+    markPrice: "60100",
+    liqPrice: "",
+    unrealisedPnl: "-1.5",
+    leverage: "2",
+  };
+}
+
+// Classic accounts report 1, unified accounts 3 and up
+function accountInfo(unifiedMarginStatus: number) {
+  return { retCode: 0, retMsg: "OK", result: { unifiedMarginStatus } };
+}
+
+describe("Bybit trading venue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.setLeverage.mockResolvedValue({ retCode: 0 });
+    client.getInstrumentsInfo.mockResolvedValue({
+      retCode: 0,
+      result: { list: [instrument] },
+    });
+    client.getTickers.mockResolvedValue({
+      retCode: 0,
+      result: { list: [{ symbol: "BTCUSDT", markPrice: "60000" }] },
+    });
+    client.submitOrder.mockImplementation(async (params) => ({
+      retCode: 0,
+      retMsg: "OK",
+      result: { orderId: "42", orderLinkId: params.orderLinkId },
+      time: 1000,
+    }));
+  });
+
+  it("opens a market position with our client order id", async () => {
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.0105",
+      clientOrderId: "hedge-1",
+    });
+
+    expect(client.submitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        category: "linear",
+        side: "Sell",
+        orderType: "Market",
+        qty: "0.01",
+        orderLinkId: "hedge-1",
+        reduceOnly: false,
+      }),
+    );
+    expect(result).toEqual({
+      success: true,
+      data: {
+        venue: "bybit",
+        symbol: "BTCUSDT",
+        orderId: "42",
+        clientOrderId: "hedge-1",
+        side: "sell",
+        orderType: "market",
+        price: null,
+        timeInForce: null,
+        quantity: "0.01",
+        reduceOnly: false,
+        timestamp: 1000,
+      },
+    });
+  });
+
+  it("switches margin mode for the symbol on a classic account", async () => {
+    client.getAccountInfo.mockResolvedValue(accountInfo(1));
+    client.switchIsolatedMargin.mockResolvedValue({ retCode: 0 });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      leverage: 3,
+      marginMode: "isolated",
+    });
+
+    expect(client.switchIsolatedMargin).toHaveBeenCalledWith({
+      category: "linear",
+      symbol: "BTCUSDT",
+      tradeMode: 1,
+      buyLeverage: "3",
+      sellLeverage: "3",
+    });
+    expect(client.setMarginMode).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a per-order margin mode on a unified account", async () => {
+    client.getAccountInfo.mockResolvedValue(accountInfo(5));
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      marginMode: "cross",
+    });
+
+    expect(!result.success && result.code).toBe("invalid_params");
+    expect(client.setMarginMode).not.toHaveBeenCalled();
+    expect(client.switchIsolatedMargin).not.toHaveBeenCalled();
+    expect(client.submitOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects the order when a requested leverage is refused", async () => {
+    client.setLeverage.mockResolvedValue({
+      retCode: 10001,
+      retMsg: "leverage invalid",
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      leverage: 300,
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      code: "invalid_params",
+      error: "Failed to set leverage",
+      venueCode: "10001",
+    });
+    expect(client.submitOrder).not.toHaveBeenCalled();
+  });
+
+  it("keeps a leverage that is already set", async () => {
+    client.setLeverage.mockResolvedValue({
+      retCode: 110043,
+      retMsg: "Set leverage not modified",
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+      leverage: 3,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("sizes a USDT notional at the mark price", async () => {
+    client.getTickers.mockResolvedValue({
+      retCode: 0,
+      result: { list: [{ symbol: "BTCUSDT", markPrice: "50000" }] },
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      notional: 1000,
+    });
+
+    expect(client.submitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ qty: "0.02" }),
+    );
+    expect(result.success && result.data.quantity).toBe("0.02");
+  });
+
+  it("maps a rejected order to a failure code", async () => {
+    client.submitOrder.mockResolvedValue({
+      retCode: 110007,
+      retMsg: "ab not enough for new order",
+      result: {},
+      time: 1000,
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.01",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      code: "insufficient_balance",
+      error: "Failed to open position",
+      venueCode: "110007",
+    });
+  });
+
+  it("closes the open position with a reduce-only order on the other side", async () => {
+    client.getPositionInfo.mockResolvedValue({
+      retCode: 0,
+      result: { list: [position("Sell", "0.02")] },
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.closePosition({ symbol: "BTCUSDT" });
+
+    expect(client.submitOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        side: "Buy",
+        qty: "0.02",
+        reduceOnly: true,
+      }),
+    );
+    expect(result.success && result.data.clientOrderId).toMatch(/^close-/);
+  });
+
+  it("amends an order by client order id", async () => {
+    client.amendOrder.mockResolvedValue({
+      retCode: 0,
+      result: { orderId: "42", orderLinkId: "maker-1" },
+      time: 3000,
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.amendOrder({
+      symbol: "BTCUSDT",
+      clientOrderId: "maker-1",
+      price: "60400",
+    });
+
+    expect(client.amendOrder).toHaveBeenCalledWith({
+      category: "linear",
+      symbol: "BTCUSDT",
+      orderId: undefined,
+      orderLinkId: "maker-1",
+      price: "60400",
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        venue: "bybit",
+        symbol: "BTCUSDT",
+        orderId: "42",
+        clientOrderId: "maker-1",
+        timestamp: 3000,
+      },
+    });
+  });
+
+  it("normalizes open orders", async () => {
+    client.getActiveOrders.mockResolvedValue({
+      retCode: 0,
+      result: {
+        list: [
+          {
+            symbol: "BTCUSDT",
+            orderId: "42",
+            orderLinkId: "maker-1",
+            side: "Sell",
+            orderType: "Limit",
+            timeInForce: "PostOnly",
+            price: "60500",
+            qty: "0.01",
+            cumExecQty: "0.004",
+            reduceOnly: false,
+            createdTime: "1000",
+          },
+        ],
+      },
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.getOpenOrders("BTCUSDT");
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          venue: "bybit",
+          symbol: "BTCUSDT",
+          orderId: "42",
+          clientOrderId: "maker-1",
+          side: "sell",
+          orderType: "limit",
+          price: "60500",
+          timeInForce: "post_only",
+          quantity: "0.01",
+          filledQuantity: "0.004",
+          reduceOnly: false,
+          timestamp: 1000,
+        },
+      ],
+    });
+  });
+
+  it("normalizes positions and skips flat ones", async () => {
+    client.getPositionInfo.mockResolvedValue({
+      retCode: 0,
+      result: { list: [position("Sell", "0.02"), position("", "0")] },
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.getPositions();
+
+    expect(client.getPositionInfo).toHaveBeenCalledWith({
+      category: "linear",
+      settleCoin: "USDT",
+    });
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          venue: "bybit",
+          symbol: "BTCUSDT",
+          side: "short",
+          quantity: 0.02,
+          entryPrice: 60000,
+          markPrice: 60100,
+          liquidationPrice: null,
+          unrealizedPnl: -1.5,
+          leverage: 2,
+        },
+      ],
+    });
+  });
+
+  it("reports the unified account balance in USDT like other venues", async () => {
+    client.getWalletBalance.mockResolvedValue({
+      retCode: 0,
+      result: {
+        list: [
+          {
+            totalEquity: "1000.5",
+            totalAvailableBalance: "800",
+            totalPerpUPL: "-1.5",
+          },
+        ],
+      },
+      time: 4000,
+    });
+    const venue = createBybitTradingVenue(credentials);
+
+    const result = await venue.getWalletBalance();
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        venue: "bybit",
+        asset: "USDT",
+        equity: 1000.5,
+        available: 800,
+        unrealizedPnl: -1.5,
+        timestamp: 4000,
+      },
+    });
+  });
+});
@@ -0,0 +1,492 @@
+/**
+ * Bybit Trading Venue - Linear perps behind the normalized PerpTradingVenue
+ */
+
+import { AccountOrderV5, OrderTimeInForceV5, PositionV5 } from "bybit-api";
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../../coingecko/types";
+import {
+  PerpMarginMode,
+  PerpOpenOrder,
+  PerpOrder,
+  PerpOrderAck,
+  PerpOrderRequest,
+  PerpPosition,
+  PerpTimeInForce,
+  PerpTradingVenue,
+} from "../../perp/types";
+import {
+  createClientOrderId,
+  createPerpTradingFailure,
+  noPositionFailure,
+  perpTradingFailure,
+  resolvePerpOrderPricing,
+  toPerpTradingFailure,
+  validatePerpOrderParams,
+  validatePerpOrderRef,
+} from "../../perp/tradingErrors";
+import { createContractSpecCache, sizePerpOrder } from "../../perp/sizing";
+import { BybitCredentials, createBybitClient, setLeverage } from "./client";
+import { fetchBybitContractSpec } from "./instrumentInfo";
+
+const logger: Logger = getLogger("bybit-perp-trading-venue");
+
+const VENUE = PriceSourceName.BYBIT;
+
+const TIME_IN_FORCE: Record<PerpTimeInForce, OrderTimeInForceV5> = {
+  gtc: "GTC",
+  ioc: "IOC",
+  fok: "FOK",
+  post_only: "PostOnly",
+};
+
+function toNumberOrNull(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed !== 0 ? parsed : null;
+}
+
+export function toPerpPosition(position: PositionV5): PerpPosition {
+  return {
+    venue: VENUE,
+    symbol: position.symbol,
+    side: position.side === "Buy" ? "long" : "short",
+    quantity: Math.abs(Number(position.size)),
+    entryPrice: toNumberOrNull(position.avgPrice),
+    markPrice: toNumberOrNull(position.markPrice),
+    liquidationPrice: toNumberOrNull(position.liqPrice),
+    unrealizedPnl: Number(position.unrealisedPnl) || 0,
+    leverage: toNumberOrNull(position.leverage),
+  };
+}
+
+export function toPerpOpenOrder(order: AccountOrderV5): PerpOpenOrder {
+  const isLimit = order.orderType === "Limit";
+  const timeInForce = (Object.keys(TIME_IN_FORCE) as PerpTimeInForce[]).find(
+    (key) => TIME_IN_FORCE[key] === order.timeInForce,
+  );
+  return {
+    venue: VENUE,
+    symbol: order.symbol,
+    orderId: order.orderId,
+    clientOrderId: order.orderLinkId,
+    side: order.side === "Buy" ? "buy" : "sell",
+    orderType: isLimit ? "limit" : "market",
+    price: isLimit ? order.price : null,
+    timeInForce: isLimit ? (timeInForce ?? "gtc") : null,
+    quantity: order.qty,
+    filledQuantity: order.cumExecQty || "0",
+    reduceOnly: order.reduceOnly,
+    timestamp: Number(order.createdTime),
+  };
+}
+
+function toOrderAck(
+  symbol: string,
+  response: { result: { orderId: string; orderLinkId: string }; time: number },
+): PerpOrderAck {
+  return {
+    venue: VENUE,
+    symbol,
+    orderId: response.result.orderId,
+    clientOrderId: response.result.orderLinkId,
+    timestamp: response.time,
+  };
+}
+
+/**
+ * Create a Bybit trading venue bound to a set of credentials
+ */
+export function createBybitTradingVenue(
+  credentials: BybitCredentials,
+): PerpTradingVenue {
+  const client = createBybitClient(credentials);
+  const getContractSpec = createContractSpecCache((symbol) =>
+    fetchBybitContractSpec(client, symbol),
+  );
+
+  const submitOrder = async (request: PerpOrderRequest, action: string) => {
+    const { symbol, side, orderType, price, timeInForce, quantity } = request;
+    const order = await client.submitOrder({
+      category: "linear",
+      symbol,
+      side: side === "buy" ? "Buy" : "Sell",
+      orderType: orderType === "limit" ? "Limit" : "Market",
+      qty: quantity,
+      ...(price && { price }),
+      ...(timeInForce && { timeInForce: TIME_IN_FORCE[timeInForce] }),
+      positionIdx: 0, // One-way position mode
+      orderLinkId: request.clientOrderId,
+      reduceOnly: request.reduceOnly,
+    });
+
+    if (order.retCode !== 0) {
+      logger.error("[Bybit Venue] Order rejected", {
+        symbol,
+        side,
+        orderType,
+        price,
+        quantity,
+        retCode: order.retCode,
+        retMsg: order.retMsg,
+      });
+      return perpTradingFailure(
+        VENUE,
+        `Failed to ${action}`,
+        order.retCode,
+        order.retMsg,
+      );
+    }
+
+    const result: PerpOrder = {
+      ...request,
+      venue: VENUE,
+      orderId: order.result.orderId,
+      clientOrderId: order.result.orderLinkId || request.clientOrderId,
+      timestamp: order.time,
+    };
+
+    logger.info("[Bybit Venue] Order submitted", { ...result });
+
+    return { success: true as const, data: result };
+  };
+
+  // Unified accounts only switch margin mode for the whole account, classic
+  // accounts switch it per symbol, so the account type is read once
+  let unifiedAccount: Promise<boolean> | null = null;
+  const isUnifiedAccount = () => {
+    unifiedAccount ??= client.getAccountInfo().then(
+      (response) => {
+        if (response.retCode !== 0) {
+          throw new Error(`Bybit account info: ${response.retMsg}`);
+        }
+        return response.result.unifiedMarginStatus !== 1;
+      },
+      (error) => {
+        unifiedAccount = null;
+        throw error;
+      },
+    );
+    return unifiedAccount;
+  };
+
+  const setMarginMode = async (
+    symbol: string,
+    marginMode: PerpMarginMode,
+    leverage: number,
+  ) => {
+    if (await isUnifiedAccount()) {
+      return createPerpTradingFailure(
+        "invalid_params",
+        "Failed to set margin mode",
+        "Bybit unified accounts set margin mode account-wide, not per order",
+      );
+    }
+
+    const response = await client.switchIsolatedMargin({
+      category: "linear",
+      symbol,
+      tradeMode: marginMode === "isolated" ? 1 : 0,
+      buyLeverage: String(leverage),
+      sellLeverage: String(leverage),
+    });
+    // 110026: the symbol is already in this margin mode
+    if (response.retCode !== 0 && response.retCode !== 110026) {
+      return perpTradingFailure(
+        VENUE,
+        "Failed to set margin mode",
+        response.retCode,
+        response.retMsg,
+      );
+    }
+    return null;
+  };
+
+  const fetchOpenPositions = async (symbol?: string) => {
+    const response = await client.getPositionInfo({
+      category: "linear",
+      ...(symbol ? { symbol } : { settleCoin: "USDT" }),
+    });
+    if (response.retCode !== 0) {
+      return perpTradingFailure(
+        VENUE,
+        "Failed to get positions",
+        response.retCode,
+        response.retMsg,
+      );
+    }
+
+    return {
+      success: true as const,
+      data: response.result.list
+        .filter((position) => Number(position.size) !== 0)
+        .map(toPerpPosition),
+    };
+  };
+
+  const fetchMarkPrice = async (symbol: string) => {
+    const response = await client.getTickers({ category: "linear", symbol });
+    return Number(response.result?.list?.[0]?.markPrice) || undefined;
+  };
+
+  return {
+    venue: VENUE,
+
+    openPosition: async (params) => {
+      const {
+        symbol,
+        side,
+        quantity,
+        notional,
+        leverage = 1,
+        marginMode,
+      } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to open position",
+      );
+      if (invalid) return invalid;
+
+      const pricing = resolvePerpOrderPricing(params);
+      logger.info("[Bybit Venue] Opening position", {
+        symbol,
+        side,
+        quantity,
+        notional,
+        ...pricing,
+        leverage,
+        marginMode,
+      });
+      try {
+        const sized = sizePerpOrder(
+          await getContractSpec(symbol),
+          {
+            side,
+            quantity,
+            notional,
+            price: pricing.price,
+            referencePrice: pricing.price
+              ? undefined
+              : await fetchMarkPrice(symbol),
+          },
+          "Failed to open position",
+        );
+        if (!sized.success) return sized;
+
+        if (marginMode) {
+          const marginFailure = await setMarginMode(
+            symbol,
+            marginMode,
+            leverage,
+          );
+          if (marginFailure) return marginFailure;
+        }
+        const leverageFailure = await setLeverage(
+          client,
+          symbol,
+          String(leverage),
+        );
+        if (leverageFailure) {
+          // Only a leverage the caller asked for holds the order back
+          if (params.leverage !== undefined) return leverageFailure;
+          logger.warn("[Bybit Venue] Default leverage not applied", {
+            symbol,
+            details: leverageFailure.details,
+          });
+        }
+        return await submitOrder(
+          {
+            symbol,
+            side,
+            ...pricing,
+            ...sized.data,
+            clientOrderId: params.clientOrderId ?? createClientOrderId("open"),
+            reduceOnly: false,
+          },
+          "open position",
+        );
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to open position", error);
+      }
+    },
+
+    closePosition: async (params) => {
+      const { symbol, side } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to close position",
+      );
+      if (invalid) return invalid;
+
+      logger.info("[Bybit Venue] Closing position", { symbol, side });
+      try {
+        const positions = await fetchOpenPositions(symbol);
+        if (!positions.success) return positions;
+
+        const position = positions.data.find(
+          (candidate) => !side || candidate.side === side,
+        );
+        if (!position) {
+          return noPositionFailure(symbol);
+        }
+
+        const closeSide = position.side === "long" ? "sell" : "buy";
+        const pricing = resolvePerpOrderPricing(params);
+        const sized = sizePerpOrder(
+          await getContractSpec(symbol),
+          {
+            side: closeSide,
+            quantity: params.quantity ?? String(position.quantity),
+            price: pricing.price,
+            reduceOnly: true,
+          },
+          "Failed to close position",
+        );
+        if (!sized.success) return sized;
+
+        return await submitOrder(
+          {
+            symbol,
+            side: closeSide,
+            ...pricing,
+            ...sized.data,
+            clientOrderId: params.clientOrderId ?? createClientOrderId("close"),
+            reduceOnly: true,
+          },
+          "close position",
+        );
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to close position", error);
+      }
+    },
+
+    cancelOrder: async (params) => {
+      const invalid = validatePerpOrderRef(params, "Failed to cancel order");
+      if (invalid) return invalid;
+
+      logger.info("[Bybit Venue] Cancelling order", { ...params });
+      try {
+        const response = await client.cancelOrder({
+          category: "linear",
+          symbol: params.symbol,
+          orderId: params.orderId,
+          orderLinkId: params.clientOrderId,
+        });
+        if (response.retCode !== 0) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to cancel order",
+            response.retCode,
+            response.retMsg,
+          );
+        }
+        return { success: true, data: toOrderAck(params.symbol, response) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to cancel order", error);
+      }
+    },
+
+    amendOrder: async (params) => {
+      const { symbol, price, quantity } = params;
+      const invalid = validatePerpOrderRef(params, "Failed to amend order");
+      if (invalid) return invalid;
+      if (!price && !quantity) {
+        return createPerpTradingFailure(
+          "invalid_params",
+          "Failed to amend order",
+          "price or quantity is required",
+        );
+      }
+
+      logger.info("[Bybit Venue] Amending order", { ...params });
+      try {
+        const response = await client.amendOrder({
+          category: "linear",
+          symbol,
+          orderId: params.orderId,
+          orderLinkId: params.clientOrderId,
+          ...(price && { price }),
+          ...(quantity && { qty: quantity }),
+        });
+        if (response.retCode !== 0) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to amend order",
+            response.retCode,
+            response.retMsg,
+          );
+        }
+        return { success: true, data: toOrderAck(symbol, response) };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to amend order", error);
+      }
+    },
+
+    getOpenOrders: async (symbol) => {
+      try {
+        const response = await client.getActiveOrders({
+          category: "linear",
+          ...(symbol ? { symbol } : { settleCoin: "USDT" }),
+          openOnly: 0,
+        });
+        if (response.retCode !== 0) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to get open orders",
+            response.retCode,
+            response.retMsg,
+          );
+        }
+        return {
+          success: true,
+          data: response.result.list.map(toPerpOpenOrder),
+        };
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to get open orders", error);
+      }
+    },
+
+    getPositions: async (symbol) => {
+      try {
+        return await fetchOpenPositions(symbol);
+      } catch (error) {
+        return toPerpTradingFailure(VENUE, "Failed to get positions", error);
+      }
+    },
+
+    getWalletBalance: async () => {
+      try {
+        const response = await client.getWalletBalance({
+          accountType: "UNIFIED",
+        });
+        const account = response.result?.list?.[0];
+        if (response.retCode !== 0 || !account) {
+          return perpTradingFailure(
+            VENUE,
+            "Failed to get wallet balance",
+            response.retCode,
+            response.retMsg,
+          );
+        }
+
+        return {
+          success: true,
+          data: {
+            venue: VENUE,
+            // Unified totals are USD valued, reported like the USDT venues
+            asset: "USDT",
+            equity: Number(account.totalEquity) || 0,
+            available: Number(account.totalAvailableBalance) || 0,
+            unrealizedPnl: Number(account.totalPerpUPL) || 0,
+            timestamp: response.time,
+          },
+        };
+      } catch (error) {
+        return toPerpTradingFailure(
+          VENUE,
+          "Failed to get wallet balance",
+          error,
+        );
+      }
+    },
+  };
+}
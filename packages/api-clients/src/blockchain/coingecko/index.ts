@@ -7,6 +7,7 @@
 import { CACHE_DURATION, getPlatformFromChainId } from "./constants"; // Keep CACHE_DURATION
 import { apiClient } from "./client"; // Import the apiClient instance
 import { makeApiRequest } from "./request";
+import { isRateLimitError } from "../../common/errors";
 import { fileCacheAdapter as cache } from "@dex-ai/core";
 import {
   CoinListInfo,
@@ -505,6 +506,8 @@ export async function getTokenMarketChart(
 
     return chartData;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[CoinGecko] Error fetching token market chart", {
       platform,
       contractAddress,
@@ -581,6 +584,8 @@ export async function getTokenPrice(
 
     return result;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[CoinGecko] Error fetching token price", {
       platform,
       contractAddress,
@@ -638,6 +643,8 @@ export async function getTokenFullPriceData(
 
     return fullData;
   } catch (error) {
+    if (isRateLimitError(error)) throw error;
+
     logger.error("[CoinGecko] Error fetching full token price data", {
       platform,
       contractAddress,
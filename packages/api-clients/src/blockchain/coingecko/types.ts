@@ -108,16 +108,34 @@ export enum PriceSourceName {
   BITGET = "bitget",
 }
 
-// Type-safe version using enum as keys
+/**
+ * Outcome of fetching a single price source
+ * - ok: fresh price available
+ * - unsupported_symbol: the source does not list this token
+ * - rate_limited: the source throttled the request
+ * - error: the fetch failed or returned no data
+ * - stale: a price was returned but its latest data point is too old
+ */
+export type PriceSourceStatus =
+  "ok" | "unsupported_symbol" | "rate_limited" | "error" | "stale";
+
+export interface PriceSourceEntry {
+  status: PriceSourceStatus;
+  currentPrice: number | null; // null when the source returned no price
+  lastUpdated: string; // When the source was queried
+  historicalData?: PriceDataPoint[];
+  error?: string;
+  latencyMs: number;
+  dataTimestamp: number | null; // Timestamp of the latest data point (ms)
+  dataAgeMs: number | null;
+}
+
+// Keyed by PriceSourceName or the name of a registered price source provider
 export interface MultiSourcePriceData {
   tokenAddress: string;
-  sources: Partial<{
-    [K in PriceSourceName]: {
-      currentPrice: number;
-      lastUpdated: string;
-      historicalData?: PriceDataPoint[];
-    };
-  }>;
+  sources: {
+    [source: string]: PriceSourceEntry;
+  };
 }
 
 /**
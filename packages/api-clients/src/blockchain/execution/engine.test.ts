@@ -0,0 +1,327 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import { PerpTradingVenue } from "../perp/types";
+import { createArbExecutionEngine } from "./engine";
+import { createMemoryExecutionStore } from "./store";
+import { DexSwapNotSentError } from "./swapErrors";
+import { ArbExecution, ArbExecutionParams, ExecutionStore } from "./types";
+
+const USDT = "0x55d398326f99059ff775485246999027b3197955";
+const CAKE = "0x0e09fabb73bd3ade0a17ecc321fd13a19e81ce82";
+
+const params: ArbExecutionParams = {
+  id: "arb-1",
+  dex: { fromTokenAddress: USDT, toTokenAddress: CAKE, amount: "1000" },
+  perp: { symbol: "CAKEUSDT", side: "sell", quantity: "400" },
+  policy: { retryDelayMs: 0 },
+};
+
+// Short position on CAKEUSDT, moved by the fake venue's orders
+let shortQuantity = 0;
+
+const dex = {
+  submitSwap: vi.fn(),
+  waitForSwap: vi.fn(),
+};
+
+const perp = {
+  venue: PriceSourceName.BYBIT,
+  openPosition: vi.fn(),
+  closePosition: vi.fn(),
+  cancelOrder: vi.fn(),
+  amendOrder: vi.fn(),
+  getOpenOrders: vi.fn(),
+  getPositions: vi.fn(),
+  getWalletBalance: vi.fn(),
+};
+
+function fillShort(ratio = 1) {
+  return async ({ quantity }: { quantity: string }) => {
+    shortQuantity += Number(quantity) * ratio;
+    return { success: true, data: { orderId: "1" } };
+  };
+}
+
+function createEngine(store: ExecutionStore) {
+  return createArbExecutionEngine({
+    store,
+    dex,
+    perp: perp as unknown as PerpTradingVenue,
+  });
+}
+
+describe("Arb execution engine", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    shortQuantity = 0;
+    dex.submitSwap.mockImplementation(async (request) =>
+      request.fromTokenAddress === USDT ? "0xopen" : "0xunwind",
+    );
+    dex.waitForSwap.mockImplementation(async (txHash) => ({
+      txHash,
+      status: "confirmed",
+      amountOut: "400",
+    }));
+    perp.getPositions.mockImplementation(async () => ({
+      success: true,
+      data: shortQuantity
+        ? [{ symbol: "CAKEUSDT", side: "short", quantity: shortQuantity }]
+        : [],
+    }));
+    perp.openPosition.mockImplementation(fillShort());
+    perp.closePosition.mockImplementation(async ({ quantity }) => {
+      shortQuantity -= Number(quantity);
+      return { success: true, data: { orderId: "2" } };
+    });
+  });
+
+  it("runs both legs and persists every step", async () => {
+    const store = createMemoryExecutionStore();
+    const saves = vi.spyOn(store, "save");
+
+    const execution = await createEngine(store).execute(params);
+
+    expect(execution.status).toBe("completed");
+    expect(execution.dex).toMatchObject({
+      status: "filled",
+      txHash: "0xopen",
+      amountOut: "400",
+    });
+    expect(execution.perp).toMatchObject({
+      status: "filled",
+      baselineQuantity: 0,
+      filledQuantity: 400,
+    });
+    expect(perp.openPosition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        symbol: "CAKEUSDT",
+        side: "sell",
+        quantity: "400",
+      }),
+    );
+    expect(await store.get("arb-1")).toEqual(execution);
+    expect(saves.mock.calls.map(([saved]) => saved.status)).toContain(
+      "executing",
+    );
+    expect(await store.listActive()).toEqual([]);
+  });
+
+  it("retries a hedge that failed for a transient reason", async () => {
+    perp.openPosition.mockResolvedValueOnce({
+      success: false,
+      code: "network_error",
+      error: "Failed to open position",
+      details: "socket hang up",
+    });
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute(
+      params,
+    );
+
+    expect(execution.status).toBe("completed");
+    expect(execution.perp.attempts).toBe(2);
+    expect(execution.perp.clientOrderIds).toHaveLength(2);
+    expect(execution.events.map((event) => event.status)).toContain("retrying");
+  });
+
+  it("sends the rest of a partially filled hedge", async () => {
+    perp.openPosition.mockImplementationOnce(fillShort(0.25));
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute(
+      params,
+    );
+
+    expect(execution.status).toBe("completed");
+    expect(perp.openPosition).toHaveBeenLastCalledWith(
+      expect.objectContaining({ quantity: "300" }),
+    );
+    expect(shortQuantity).toBe(400);
+  });
+
+  it("reads the position again before topping up a hedge", async () => {
+    // The baseline read and the read right after the order both lag
+    perp.getPositions
+      .mockResolvedValueOnce({ success: true, data: [] })
+      .mockResolvedValueOnce({ success: true, data: [] });
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute(
+      params,
+    );
+
+    expect(execution.status).toBe("completed");
+    expect(perp.openPosition).toHaveBeenCalledTimes(1);
+    expect(execution.perp).toMatchObject({ attempts: 1, filledQuantity: 400 });
+    expect(shortQuantity).toBe(400);
+  });
+
+  it("unwinds the swap when the hedge cannot be placed", async () => {
+    perp.openPosition.mockResolvedValue({
+      success: false,
+      code: "insufficient_balance",
+      error: "Failed to open position",
+      details: "ab not enough for new order",
+    });
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute(
+      params,
+    );
+
+    expect(execution.status).toBe("unwound");
+    expect(perp.openPosition).toHaveBeenCalledTimes(1);
+    expect(dex.submitSwap).toHaveBeenLastCalledWith({
+      fromTokenAddress: CAKE,
+      toTokenAddress: USDT,
+      amount: "400",
+    });
+    expect(execution.dex).toMatchObject({
+      status: "unwound",
+      unwindTxHash: "0xunwind",
+    });
+    expect(execution.perp).toMatchObject({
+      status: "failed",
+      errorCode: "insufficient_balance",
+    });
+  });
+
+  it("closes the hedge right away when the policy is to unwind", async () => {
+    dex.waitForSwap.mockResolvedValueOnce({
+      txHash: "0xopen",
+      status: "reverted",
+      amountOut: null,
+    });
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute({
+      ...params,
+      policy: { onLegFailure: "unwind", retryDelayMs: 0 },
+    });
+
+    expect(execution.status).toBe("unwound");
+    expect(dex.submitSwap).toHaveBeenCalledTimes(1);
+    expect(perp.closePosition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        symbol: "CAKEUSDT",
+        side: "short",
+        quantity: "400",
+      }),
+    );
+    expect(shortQuantity).toBe(0);
+  });
+
+  it("fails without unwinding when neither leg filled", async () => {
+    dex.submitSwap.mockRejectedValue(new DexSwapNotSentError("No swap route"));
+    perp.openPosition.mockResolvedValue({
+      success: false,
+      code: "invalid_size",
+      error: "Failed to open position",
+    });
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute(
+      params,
+    );
+
+    expect(execution.status).toBe("failed");
+    expect(execution.error).toContain("No swap route");
+    expect(perp.closePosition).not.toHaveBeenCalled();
+  });
+
+  it("reports exposure it could not unwind as stuck", async () => {
+    perp.openPosition.mockResolvedValue({
+      success: false,
+      code: "insufficient_balance",
+      error: "Failed to open position",
+    });
+    dex.waitForSwap.mockImplementation(async (txHash) => ({
+      txHash,
+      status: txHash === "0xopen" ? "confirmed" : "reverted",
+      amountOut: txHash === "0xopen" ? "400" : null,
+    }));
+
+    const execution = await createEngine(createMemoryExecutionStore()).execute({
+      ...params,
+      policy: { retryDelayMs: 0, maxRetries: 1 },
+    });
+
+    expect(execution.status).toBe("stuck");
+    expect(execution.error).toBe("Swap back 0xunwind reverted");
+    expect(dex.submitSwap).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not resend a swap whose submission failed after signing", async () => {
+    dex.submitSwap.mockRejectedValueOnce(new Error("RPC timeout"));
+    const store = createMemoryExecutionStore();
+    const engine = createEngine(store);
+
+    const interrupted = await engine.execute(params);
+
+    expect(interrupted.status).toBe("executing");
+    expect(interrupted.dex).toMatchObject({
+      status: "submitting",
+      txHash: null,
+      error: "RPC timeout",
+    });
+    expect(dex.submitSwap).toHaveBeenCalledTimes(1);
+
+    const resumed = await engine.resume("arb-1");
+    expect(resumed?.status).toBe("stuck");
+    expect(dex.submitSwap).toHaveBeenCalledTimes(1);
+  });
+
+  describe("resume", () => {
+    async function crashedExecution(
+      store: ExecutionStore,
+      update: (execution: ArbExecution) => ArbExecution,
+    ) {
+      const engine = createEngine(store);
+      dex.waitForSwap.mockRejectedValueOnce(new Error("RPC timeout"));
+      perp.getPositions
+        .mockImplementationOnce(async () => ({ success: true, data: [] }))
+        .mockResolvedValueOnce({
+          success: false,
+          code: "network_error",
+          error: "Failed to get positions",
+        });
+
+      const interrupted = await engine.execute(params);
+      expect(interrupted.status).toBe("executing");
+      await store.save(update(interrupted));
+      vi.clearAllMocks();
+      return engine;
+    }
+
+    it("reconciles legs in flight instead of sending them again", async () => {
+      const store = createMemoryExecutionStore();
+      const engine = await crashedExecution(store, (execution) => execution);
+
+      const [resumed] = await engine.resumeActive();
+
+      expect(resumed.status).toBe("completed");
+      expect(dex.submitSwap).not.toHaveBeenCalled();
+      expect(dex.waitForSwap).toHaveBeenCalledWith("0xopen", params.dex);
+      expect(perp.openPosition).not.toHaveBeenCalled();
+      expect(resumed.perp.filledQuantity).toBe(400);
+    });
+
+    it("stops on a swap that may have been sent without a hash", async () => {
+      const store = createMemoryExecutionStore();
+      const engine = await crashedExecution(store, (execution) => ({
+        ...execution,
+        dex: { ...execution.dex, status: "submitting", txHash: null },
+      }));
+
+      const resumed = await engine.resume("arb-1");
+
+      expect(resumed?.status).toBe("stuck");
+      expect(dex.submitSwap).not.toHaveBeenCalled();
+      expect((await store.get("arb-1"))?.status).toBe("stuck");
+    });
+  });
+
+  it("rejects a hedge without a quantity", async () => {
+    await expect(
+      createEngine(createMemoryExecutionStore()).execute({
+        ...params,
+        perp: { ...params.perp, quantity: "0" },
+      }),
+    ).rejects.toThrow("Perp quantity must be positive");
+  });
+});
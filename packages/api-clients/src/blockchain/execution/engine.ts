@@ -0,0 +1,645 @@
+/**
+ * Arbitrage Execution Engine
+ *
+ * Runs a DEX swap and a perp hedge concurrently, retries or unwinds legs that
+ * fail or fill partially, and persists every step so a restarted process can
+ * resume where it stopped.
+ */
+
+import { getLogger, Logger, sleep } from "@dex-ai/core";
+import { createClientOrderId } from "../perp/tradingErrors";
+import {
+  PerpPosition,
+  PerpTradingErrorCode,
+  PerpTradingFailure,
+  PerpTradingResult,
+  PerpTradingVenue,
+} from "../perp/types";
+import {
+  isTerminalExecution,
+  transitionExecution,
+  transitionLeg,
+} from "./stateMachine";
+import { DexSwapNotSentError } from "./swapErrors";
+import {
+  ArbExecution,
+  ArbExecutionParams,
+  DexLegState,
+  DexSwapExecutor,
+  DexSwapRequest,
+  ExecutionLeg,
+  ExecutionPolicy,
+  ExecutionStatus,
+  ExecutionStore,
+  LegStatus,
+  PerpLegState,
+} from "./types";
+
+const logger: Logger = getLogger("arb-execution-engine");
+
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicy = {
+  onLegFailure: "retry",
+  maxRetries: 2,
+  retryDelayMs: 1000,
+  fillTolerance: 0.01,
+};
+
+// Failures that will not go away by sending the same order again
+const NON_RETRYABLE_CODES: PerpTradingErrorCode[] = [
+  "invalid_params",
+  "invalid_credentials",
+  "insufficient_balance",
+  "invalid_size",
+];
+
+const QUANTITY_PRECISION = 1e9;
+
+export interface ArbExecutionEngineConfig {
+  store: ExecutionStore;
+  dex: DexSwapExecutor;
+  perp: PerpTradingVenue;
+}
+
+export interface ArbExecutionEngine {
+  execute: (params: ArbExecutionParams) => Promise<ArbExecution>;
+  resume: (id: string) => Promise<ArbExecution | null>;
+  resumeActive: () => Promise<ArbExecution[]>;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Net position on a symbol, longs positive and shorts negative
+ */
+function signedPosition(positions: PerpPosition[], symbol: string): number {
+  return positions
+    .filter((position) => position.symbol === symbol)
+    .reduce(
+      (total, position) =>
+        total +
+        (position.side === "long" ? position.quantity : -position.quantity),
+      0,
+    );
+}
+
+function reverseSwap(leg: DexLegState): DexSwapRequest | null {
+  if (!leg.amountOut) return null;
+  return {
+    ...leg.request,
+    fromTokenAddress: leg.request.toTokenAddress,
+    toTokenAddress: leg.request.fromTokenAddress,
+    amount: leg.amountOut,
+  };
+}
+
+function isUnsettled(status: LegStatus): boolean {
+  return status === "submitting" || status === "submitted";
+}
+
+function createArbExecution(
+  params: ArbExecutionParams,
+  venue: PerpTradingVenue["venue"],
+  now: number = Date.now(),
+): ArbExecution {
+  if (!(Number(params.perp.quantity) > 0)) {
+    throw new Error(
+      `Perp quantity must be positive, got: ${params.perp.quantity}`,
+    );
+  }
+  if (!/^\d+$/.test(params.dex.amount) || BigInt(params.dex.amount) <= 0) {
+    throw new Error(
+      `DEX amount must be a positive integer in the token's smallest unit, got: ${params.dex.amount}`,
+    );
+  }
+
+  return {
+    id: params.id ?? createClientOrderId("arb"),
+    status: "pending",
+    policy: { ...DEFAULT_EXECUTION_POLICY, ...params.policy },
+    dex: {
+      status: "pending",
+      attempts: 0,
+      retryable: true,
+      error: null,
+      request: params.dex,
+      txHash: null,
+      amountOut: null,
+      unwindTxHash: null,
+    },
+    perp: {
+      status: "pending",
+      attempts: 0,
+      retryable: true,
+      error: null,
+      venue,
+      ...params.perp,
+      baselineQuantity: null,
+      filledQuantity: 0,
+      clientOrderIds: [],
+      errorCode: null,
+    },
+    error: null,
+    events: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Create an execution engine for one DEX wallet and one perp venue
+ *
+ * Perp fills are measured as the change of the symbol's position since the
+ * first hedge order, so the engine should be the only one trading that
+ * symbol on the account while an execution is active.
+ *
+ * Usage example:
+ *
+ * const engine = createArbExecutionEngine({
+ *   store: createRedisExecutionStore(),
+ *   dex: createOkxDexSwapExecutor({ dexClient, walletClient, publicClient, account }),
+ *   perp: createPerpTradingVenue(PriceSourceName.BYBIT, credentials),
+ * });
+ * const execution = await engine.execute({
+ *   dex: { fromTokenAddress: USDT, toTokenAddress: CAKE, amount: "1000000000000000000000" },
+ *   perp: { symbol: "CAKEUSDT", side: "sell", quantity: "400" },
+ * });
+ * if (execution.status === "stuck") { ... }
+ *
+ * // After a restart
+ * await engine.resumeActive();
+ */
+export function createArbExecutionEngine(
+  config: ArbExecutionEngineConfig,
+): ArbExecutionEngine {
+  const { store, dex, perp } = config;
+
+  const run = async (initial: ArbExecution): Promise<ArbExecution> => {
+    let execution = initial;
+    let saved: Promise<void> = Promise.resolve();
+    const { policy } = execution;
+
+    // Transitions are computed against the latest state and saved in order,
+    // so both legs can update the execution while they run concurrently
+    const commit = async (next: ArbExecution) => {
+      execution = next;
+      saved = saved.then(() => store.save(next));
+      await saved;
+    };
+
+    const setStatus = async (
+      status: ExecutionStatus,
+      message: string | null = null,
+    ) => {
+      logger.info("[Arb Execution] Status changed", {
+        id: execution.id,
+        from: execution.status,
+        to: status,
+        message,
+      });
+      await commit(transitionExecution(execution, status, message));
+    };
+
+    const setDexLeg = (
+      status: LegStatus,
+      patch: Partial<Omit<DexLegState, "status">> = {},
+    ) => commit(transitionLeg(execution, "dex", status, patch));
+
+    const setPerpLeg = (
+      status: LegStatus,
+      patch: Partial<Omit<PerpLegState, "status">> = {},
+    ) => commit(transitionLeg(execution, "perp", status, patch));
+
+    const readPerpFill = async (): Promise<PerpTradingResult<number>> => {
+      const { symbol, side, baselineQuantity } = execution.perp;
+      const positions = await perp.getPositions(symbol);
+      if (!positions.success) return positions;
+
+      const direction = side === "buy" ? 1 : -1;
+      const delta =
+        (signedPosition(positions.data, symbol) - (baselineQuantity ?? 0)) *
+        direction;
+      return { success: true, data: roundQuantity(delta) };
+    };
+
+    const runDexLeg = async () => {
+      const { request } = execution.dex;
+
+      if (!execution.dex.txHash) {
+        await setDexLeg("submitting", {
+          attempts: execution.dex.attempts + 1,
+          error: null,
+        });
+        try {
+          const txHash = await dex.submitSwap(request);
+          await setDexLeg("submitted", { txHash });
+        } catch (error) {
+          if (error instanceof DexSwapNotSentError) {
+            await setDexLeg("failed", {
+              retryable: true,
+              error: errorMessage(error),
+            });
+          } else {
+            // The swap may have been sent, resume stops instead of resending
+            await setDexLeg("submitting", { error: errorMessage(error) });
+          }
+          return;
+        }
+      }
+
+      const txHash = execution.dex.txHash as string;
+      try {
+        const receipt = await dex.waitForSwap(txHash, request);
+        if (receipt.status === "confirmed") {
+          await setDexLeg("filled", { amountOut: receipt.amountOut });
+        } else {
+          await setDexLeg("failed", {
+            txHash: null,
+            retryable: true,
+            error: `Swap ${txHash} reverted`,
+          });
+        }
+      } catch (error) {
+        // The swap may still be mined, wait for it again on resume
+        await setDexLeg("submitted", { error: errorMessage(error) });
+      }
+    };
+
+    const settlePerpLeg = async (failure: PerpTradingFailure | null) => {
+      const fill = await readPerpFill();
+      if (!fill.success) {
+        // Fills are unknown, reconcile against positions on resume
+        await setPerpLeg(execution.perp.status, {
+          error: fill.details ?? fill.error,
+        });
+        return;
+      }
+
+      const target = Number(execution.perp.quantity);
+      const filledQuantity = fill.data;
+      const retryable = failure
+        ? !NON_RETRYABLE_CODES.includes(failure.code)
+        : true;
+      const error = failure
+        ? [failure.error, failure.details].filter(Boolean).join(": ")
+        : `Filled ${filledQuantity} of ${target}`;
+
+      if (filledQuantity >= target * (1 - policy.fillTolerance)) {
+        await setPerpLeg("filled", { filledQuantity, error: null });
+      } else {
+        await setPerpLeg(filledQuantity > 0 ? "partial" : "failed", {
+          filledQuantity,
+          retryable,
+          error,
+          errorCode: failure?.code ?? null,
+        });
+      }
+    };
+
+    const runPerpLeg = async () => {
+      const { symbol, side } = execution.perp;
+
+      if (!isUnsettled(execution.perp.status)) {
+        const target = Number(execution.perp.quantity);
+        let filledQuantity = execution.perp.filledQuantity;
+        let baselineQuantity = execution.perp.baselineQuantity;
+        if (baselineQuantity === null) {
+          const positions = await perp.getPositions(symbol);
+          if (!positions.success) {
+            await setPerpLeg("failed", {
+              attempts: execution.perp.attempts + 1,
+              retryable: !NON_RETRYABLE_CODES.includes(positions.code),
+              error: positions.details ?? positions.error,
+              errorCode: positions.code,
+            });
+            return;
+          }
+          baselineQuantity = signedPosition(positions.data, symbol);
+        } else {
+          // Position endpoints lag behind fills, so the previous order may
+          // have filled after it was settled. Read again before topping up.
+          const fill = await readPerpFill();
+          if (!fill.success) {
+            await setPerpLeg(execution.perp.status, {
+              attempts: execution.perp.attempts + 1,
+              retryable: !NON_RETRYABLE_CODES.includes(fill.code),
+              error: fill.details ?? fill.error,
+              errorCode: fill.code,
+            });
+            return;
+          }
+          filledQuantity = fill.data;
+          if (filledQuantity >= target * (1 - policy.fillTolerance)) {
+            await setPerpLeg("filled", {
+              filledQuantity,
+              error: null,
+              errorCode: null,
+            });
+            return;
+          }
+        }
+
+        const remaining = roundQuantity(target - filledQuantity);
+        const clientOrderId = createClientOrderId("arb");
+        await setPerpLeg("submitting", {
+          attempts: execution.perp.attempts + 1,
+          baselineQuantity,
+          filledQuantity,
+          clientOrderIds: [...execution.perp.clientOrderIds, clientOrderId],
+          error: null,
+          errorCode: null,
+        });
+
+        const order = await perp.openPosition({
+          symbol,
+          side,
+          quantity: String(remaining),
+          clientOrderId,
+        });
+        if (!order.success) {
+          await settlePerpLeg(order);
+          return;
+        }
+        await setPerpLeg("submitted");
+      }
+
+      await settlePerpLeg(null);
+    };
+
+    const unwindDexLeg = async () => {
+      const reverse = reverseSwap(execution.dex);
+      if (!reverse) {
+        await setDexLeg(execution.dex.status, {
+          error: "Received amount is unknown, the swap cannot be reversed",
+        });
+        return;
+      }
+      if (execution.dex.status === "filled") {
+        await setDexLeg("unwinding", { error: null });
+      }
+
+      for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+        if (attempt > 0) await sleep(policy.retryDelayMs);
+
+        if (!execution.dex.unwindTxHash) {
+          try {
+            const unwindTxHash = await dex.submitSwap(reverse);
+            await setDexLeg("unwinding", { unwindTxHash });
+          } catch (error) {
+            await setDexLeg("unwinding", { error: errorMessage(error) });
+            if (error instanceof DexSwapNotSentError) continue;
+            // The swap back may have been sent, do not send it again
+            return;
+          }
+        }
+
+        const unwindTxHash = execution.dex.unwindTxHash as string;
+        try {
+          const receipt = await dex.waitForSwap(unwindTxHash, reverse);
+          if (receipt.status === "confirmed") {
+            await setDexLeg("unwound", { error: null });
+            return;
+          }
+          await setDexLeg("unwinding", {
+            unwindTxHash: null,
+            error: `Swap back ${unwindTxHash} reverted`,
+          });
+        } catch (error) {
+          // The swap back may still be mined, wait for it again on resume
+          await setDexLeg("unwinding", { error: errorMessage(error) });
+          return;
+        }
+      }
+    };
+
+    const unwindPerpLeg = async () => {
+      const { symbol, side } = execution.perp;
+      if (execution.perp.status !== "unwinding") {
+        await setPerpLeg("unwinding", { error: null, errorCode: null });
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        if (attempt > 0) await sleep(policy.retryDelayMs);
+
+        const fill = await readPerpFill();
+        if (!fill.success) {
+          await setPerpLeg("unwinding", {
+            error: fill.details ?? fill.error,
+            errorCode: fill.code,
+          });
+          if (attempt > policy.maxRetries) return;
+          continue;
+        }
+        if (fill.data <= 0) {
+          await setPerpLeg("unwound", {
+            filledQuantity: 0,
+            error: null,
+            errorCode: null,
+          });
+          return;
+        }
+        if (attempt > policy.maxRetries) {
+          await setPerpLeg("unwinding", { filledQuantity: fill.data });
+          return;
+        }
+
+        const clientOrderId = createClientOrderId("unwind");
+        await setPerpLeg("unwinding", {
+          filledQuantity: fill.data,
+          clientOrderIds: [...execution.perp.clientOrderIds, clientOrderId],
+        });
+        const order = await perp.closePosition({
+          symbol,
+          side: side === "buy" ? "long" : "short",
+          quantity: String(fill.data),
+          clientOrderId,
+        });
+        if (!order.success) {
+          await setPerpLeg("unwinding", {
+            error: [order.error, order.details].filter(Boolean).join(": "),
+            errorCode: order.code,
+          });
+        }
+      }
+    };
+
+    const unwind = async () => {
+      const hasDexExposure = ["filled", "unwinding"].includes(
+        execution.dex.status,
+      );
+      const hasPerpExposure =
+        execution.perp.status === "unwinding" ||
+        execution.perp.filledQuantity > 0;
+
+      await Promise.all([
+        hasDexExposure ? unwindDexLeg() : undefined,
+        hasPerpExposure ? unwindPerpLeg() : undefined,
+      ]);
+
+      const { dex: dexLeg, perp: perpLeg } = execution;
+      const remaining = [
+        hasDexExposure && dexLeg.status !== "unwound" ? dexLeg : null,
+        hasPerpExposure && perpLeg.status !== "unwound" ? perpLeg : null,
+      ].filter((leg) => leg !== null);
+      if (remaining.length === 0) {
+        await setStatus("unwound");
+      } else if (
+        dexLeg.status === "unwinding" &&
+        dexLeg.unwindTxHash &&
+        perpLeg.status !== "unwinding"
+      ) {
+        // Only a swap back is waiting to be mined, leave it for resume
+        return;
+      } else {
+        await setStatus(
+          "stuck",
+          remaining
+            .map((leg) => leg.error)
+            .filter(Boolean)
+            .join("; ") || "Unwind incomplete",
+        );
+      }
+    };
+
+    const canRetry = (leg: ExecutionLeg) => {
+      const state = execution[leg];
+      return (
+        policy.onLegFailure === "retry" &&
+        state.retryable &&
+        state.attempts <= policy.maxRetries
+      );
+    };
+
+    if (execution.status === "pending") {
+      await setStatus("executing");
+    }
+
+    while (
+      execution.status === "executing" ||
+      execution.status === "retrying"
+    ) {
+      const needsAction = (leg: ExecutionLeg) => {
+        const { status } = execution[leg];
+        if (status === "pending" || isUnsettled(status)) return true;
+        return (
+          execution.status === "retrying" &&
+          (status === "failed" || status === "partial") &&
+          canRetry(leg)
+        );
+      };
+      const runDex = needsAction("dex");
+      const runPerp = needsAction("perp");
+      if (runDex || runPerp) {
+        await Promise.all([
+          runDex ? runDexLeg() : undefined,
+          runPerp ? runPerpLeg() : undefined,
+        ]);
+      }
+
+      const { dex: dexLeg, perp: perpLeg } = execution;
+      if (isUnsettled(dexLeg.status) || isUnsettled(perpLeg.status)) {
+        logger.warn("[Arb Execution] Leg outcome unknown, resume later", {
+          id: execution.id,
+          dex: dexLeg.status,
+          perp: perpLeg.status,
+        });
+        return execution;
+      }
+
+      if (dexLeg.status === "filled" && perpLeg.status === "filled") {
+        await setStatus("completed");
+        break;
+      }
+
+      const unfilled = (["dex", "perp"] as ExecutionLeg[]).filter(
+        (leg) => execution[leg].status !== "filled",
+      );
+      const summary = unfilled
+        .map((leg) => `${leg}: ${execution[leg].error}`)
+        .join("; ");
+      if (unfilled.every(canRetry)) {
+        if (execution.status !== "retrying") {
+          await setStatus("retrying", summary);
+        }
+        await sleep(policy.retryDelayMs);
+        continue;
+      }
+
+      if (dexLeg.status === "filled" || perpLeg.filledQuantity > 0) {
+        await setStatus("unwinding", summary);
+      } else {
+        await setStatus("failed", summary);
+      }
+    }
+
+    if (execution.status === "unwinding") {
+      await unwind();
+    }
+
+    return execution;
+  };
+
+  const resume = async (id: string) => {
+    const execution = await store.get(id);
+    if (!execution || isTerminalExecution(execution)) {
+      return execution;
+    }
+
+    logger.info("[Arb Execution] Resuming execution", {
+      id,
+      status: execution.status,
+      dex: execution.dex.status,
+      perp: execution.perp.status,
+    });
+
+    // A swap sent without a recorded hash cannot be looked up, so it is
+    // neither safe to send again nor to assume it never happened
+    const { dex: dexLeg } = execution;
+    if (
+      (dexLeg.status === "submitting" && !dexLeg.txHash) ||
+      (dexLeg.status === "unwinding" && !dexLeg.unwindTxHash)
+    ) {
+      const stuck = transitionExecution(
+        execution,
+        "stuck",
+        "A DEX swap may have been sent before the restart, check the wallet",
+      );
+      await store.save(stuck);
+      return stuck;
+    }
+
+    return run(execution);
+  };
+
+  return {
+    execute: async (params) => {
+      const execution = createArbExecution(params, perp.venue);
+      logger.info("[Arb Execution] Starting execution", {
+        id: execution.id,
+        dex: execution.dex.request,
+        perp: params.perp,
+        policy: execution.policy,
+      });
+      await store.save(execution);
+      return run(execution);
+    },
+
+    resume,
+
+    resumeActive: async () => {
+      const active = await store.listActive();
+      const results: ArbExecution[] = [];
+      // One at a time, executions may share a wallet or a perp symbol
+      for (const execution of active) {
+        const resumed = await resume(execution.id);
+        if (resumed) results.push(resumed);
+      }
+      return results;
+    },
+  };
+}
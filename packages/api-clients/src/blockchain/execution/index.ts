@@ -0,0 +1,10 @@
+/**
+ * Execution - Two-leg DEX swap + perp hedge execution with recovery
+ */
+
+export * from "./engine";
+export * from "./stateMachine";
+export * from "./store";
+export * from "./okxDexSwap";
+export * from "./swapErrors";
+export * from "./types";
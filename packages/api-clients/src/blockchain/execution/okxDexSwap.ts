@@ -0,0 +1,130 @@
+/**
+ * OKX DEX Swap Executor - Sends OKX DEX aggregator swaps from a viem wallet
+ */
+
+import {
+  Account,
+  erc20Abi,
+  Hex,
+  parseEventLogs,
+  PublicClient,
+  WalletClient,
+} from "viem";
+import { getLogger, Logger } from "@dex-ai/core";
+import { createOkxDexClient } from "../okexchange/dex";
+import { DexSwapNotSentError } from "./swapErrors";
+import { DexSwapExecutor } from "./types";
+
+const logger: Logger = getLogger("okx-dex-swap-executor");
+
+export interface OkxDexSwapExecutorConfig {
+  dexClient: Pick<ReturnType<typeof createOkxDexClient>, "getSwapData">;
+  walletClient: WalletClient;
+  publicClient: PublicClient;
+  account: Account;
+}
+
+/**
+ * Create a swap executor for an EVM wallet
+ *
+ * The wallet must already have approved the OKX DEX router for every token it
+ * sells. The received amount is read from the ERC-20 Transfer logs, so swaps
+ * into the native coin report amountOut as null. Failures while fetching the
+ * route or preparing the transaction throw DexSwapNotSentError, a failure
+ * while sending it leaves the outcome unknown.
+ */
+export function createOkxDexSwapExecutor(
+  config: OkxDexSwapExecutorConfig,
+): DexSwapExecutor {
+  const { dexClient, walletClient, publicClient, account } = config;
+
+  return {
+    submitSwap: async (request) => {
+      // Everything up to signing can fail without the swap being sent
+      const prepareSwap = async () => {
+        const swapData = await dexClient.getSwapData({
+          ...request,
+          userWalletAddress: account.address,
+        });
+        if (!swapData.success) {
+          const { error } = swapData;
+          throw new DexSwapNotSentError(
+            error instanceof Error ? error.message : error.msg,
+            { cause: error },
+          );
+        }
+        if (!swapData.data) {
+          throw new DexSwapNotSentError(
+            `No swap route for ${request.fromTokenAddress} -> ${request.toTokenAddress}`,
+          );
+        }
+
+        const { tx } = swapData.data;
+        const transaction = {
+          account,
+          chain: walletClient.chain,
+          to: tx.to as Hex,
+          data: tx.data as Hex,
+          value: BigInt(tx.value || "0"),
+        };
+        // Estimating gas simulates the swap, so routes that would revert
+        // fail here instead of after signing
+        const { gas, nonce } =
+          await walletClient.prepareTransactionRequest(transaction);
+        return { ...transaction, gas, nonce };
+      };
+
+      let transaction: Awaited<ReturnType<typeof prepareSwap>>;
+      try {
+        transaction = await prepareSwap();
+      } catch (error) {
+        if (error instanceof DexSwapNotSentError) throw error;
+        throw new DexSwapNotSentError(
+          error instanceof Error ? error.message : String(error),
+          { cause: error },
+        );
+      }
+
+      // From here on the transaction may reach the network even if this throws
+      const txHash = await walletClient.sendTransaction(transaction);
+
+      logger.info("[OKX DEX Swap] Swap sent", {
+        txHash,
+        fromTokenAddress: request.fromTokenAddress,
+        toTokenAddress: request.toTokenAddress,
+        amount: request.amount,
+      });
+      return txHash;
+    },
+
+    waitForSwap: async (txHash, request) => {
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash as Hex,
+      });
+      if (receipt.status !== "success") {
+        logger.warn("[OKX DEX Swap] Swap reverted", { txHash });
+        return { txHash, status: "reverted", amountOut: null };
+      }
+
+      const toToken = request.toTokenAddress.toLowerCase();
+      const wallet = account.address.toLowerCase();
+      const transfers = parseEventLogs({
+        abi: erc20Abi,
+        eventName: "Transfer",
+        logs: receipt.logs,
+      }).filter(
+        (log) =>
+          log.address.toLowerCase() === toToken &&
+          log.args.to.toLowerCase() === wallet,
+      );
+      const amountOut = transfers.length
+        ? transfers
+            .reduce((total, log) => total + log.args.value, BigInt(0))
+            .toString()
+        : null;
+
+      logger.info("[OKX DEX Swap] Swap confirmed", { txHash, amountOut });
+      return { txHash, status: "confirmed", amountOut };
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import {
+  isTerminalExecution,
+  transitionExecution,
+  transitionLeg,
+} from "./stateMachine";
+import { ArbExecution } from "./types";
+
+const execution: ArbExecution = {
+  id: "arb-1",
+  status: "executing",
+  policy: {
+    onLegFailure: "retry",
+    maxRetries: 2,
+    retryDelayMs: 0,
+    fillTolerance: 0.01,
+  },
+  dex: {
+    status: "pending",
+    attempts: 0,
+    retryable: true,
+    error: null,
+    request: { fromTokenAddress: "0xa", toTokenAddress: "0xb", amount: "1" },
+    txHash: null,
+    amountOut: null,
+    unwindTxHash: null,
+  },
+  perp: {
+    status: "filled",
+    attempts: 1,
+    retryable: true,
+    error: null,
+    venue: PriceSourceName.BITGET,
+    symbol: "CAKEUSDT",
+    side: "sell",
+    quantity: "10",
+    baselineQuantity: 0,
+    filledQuantity: 10,
+    clientOrderIds: ["arb-1"],
+    errorCode: null,
+  },
+  error: null,
+  events: [],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe("execution state machine", () => {
+  it("records transitions as events", () => {
+    const stuck = transitionExecution(execution, "stuck", "Unwind failed", 5);
+
+    expect(stuck).toMatchObject({
+      status: "stuck",
+      error: "Unwind failed",
+      updatedAt: 5,
+      events: [
+        { timestamp: 5, leg: null, status: "stuck", message: "Unwind failed" },
+      ],
+    });
+    expect(isTerminalExecution(stuck)).toBe(true);
+    expect(isTerminalExecution(execution)).toBe(false);
+  });
+
+  it("rejects transitions the lifecycle does not allow", () => {
+    expect(() => transitionExecution(execution, "pending")).toThrow(
+      "Invalid execution transition: executing -> pending",
+    );
+    expect(() => transitionLeg(execution, "perp", "submitting")).toThrow(
+      "Invalid perp leg transition: filled -> submitting",
+    );
+  });
+
+  it("patches a leg without an event when its status is unchanged", () => {
+    const patched = transitionLeg(
+      execution,
+      "perp",
+      "filled",
+      { filledQuantity: 9.95 },
+      7,
+    );
+
+    expect(patched.perp.filledQuantity).toBe(9.95);
+    expect(patched.events).toEqual([]);
+
+    const submitted = transitionLeg(
+      transitionLeg(execution, "dex", "submitting", {}, 8),
+      "dex",
+      "submitted",
+      { txHash: "0x1" },
+      9,
+    );
+    expect(submitted.dex.txHash).toBe("0x1");
+    expect(submitted.events.map((event) => event.status)).toEqual([
+      "submitting",
+      "submitted",
+    ]);
+  });
+});
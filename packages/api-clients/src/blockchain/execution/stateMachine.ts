@@ -0,0 +1,111 @@
+/**
+ * Execution State Machine - Allowed transitions for executions and their legs
+ */
+
+import {
+  ArbExecution,
+  DexLegState,
+  ExecutionLeg,
+  ExecutionStatus,
+  LegStatus,
+  PerpLegState,
+} from "./types";
+
+const EXECUTION_TRANSITIONS: Record<ExecutionStatus, ExecutionStatus[]> = {
+  pending: ["executing"],
+  executing: ["completed", "retrying", "unwinding", "failed", "stuck"],
+  retrying: ["completed", "unwinding", "failed", "stuck"],
+  unwinding: ["unwound", "stuck"],
+  completed: [],
+  failed: [],
+  unwound: [],
+  stuck: [],
+};
+
+const LEG_TRANSITIONS: Record<LegStatus, LegStatus[]> = {
+  pending: ["submitting", "failed"],
+  submitting: ["submitted", "filled", "partial", "failed"],
+  submitted: ["filled", "partial", "failed"],
+  partial: ["submitting", "filled", "unwinding"],
+  failed: ["submitting", "filled"],
+  filled: ["unwinding"],
+  unwinding: ["unwound"],
+  unwound: [],
+};
+
+const TERMINAL_STATUSES: ExecutionStatus[] = [
+  "completed",
+  "failed",
+  "unwound",
+  "stuck",
+];
+
+export function isTerminalExecution(execution: ArbExecution): boolean {
+  return TERMINAL_STATUSES.includes(execution.status);
+}
+
+/**
+ * Move an execution to a new status, recording the transition
+ */
+export function transitionExecution(
+  execution: ArbExecution,
+  status: ExecutionStatus,
+  message: string | null = null,
+  now: number = Date.now(),
+): ArbExecution {
+  if (!EXECUTION_TRANSITIONS[execution.status].includes(status)) {
+    throw new Error(
+      `Invalid execution transition: ${execution.status} -> ${status}`,
+    );
+  }
+
+  return {
+    ...execution,
+    status,
+    error: status === "stuck" || status === "failed" ? message : null,
+    events: [
+      ...execution.events,
+      { timestamp: now, leg: null, status, message },
+    ],
+    updatedAt: now,
+  };
+}
+
+type LegPatch<L extends ExecutionLeg> = Partial<
+  Omit<L extends "dex" ? DexLegState : PerpLegState, "status">
+>;
+
+/**
+ * Update a leg. Passing the leg's current status only patches its fields,
+ * e.g. to record fills while it stays "submitted".
+ */
+export function transitionLeg<L extends ExecutionLeg>(
+  execution: ArbExecution,
+  leg: L,
+  status: LegStatus,
+  patch: LegPatch<L> = {},
+  now: number = Date.now(),
+): ArbExecution {
+  const current = execution[leg];
+  if (
+    current.status !== status &&
+    !LEG_TRANSITIONS[current.status].includes(status)
+  ) {
+    throw new Error(
+      `Invalid ${leg} leg transition: ${current.status} -> ${status}`,
+    );
+  }
+
+  const changed = current.status !== status;
+  return {
+    ...execution,
+    [leg]: { ...current, ...patch, status },
+    events: changed
+      ? [
+          ...execution.events,
+          { timestamp: now, leg, status, message: patch.error ?? null },
+        ]
+      : execution.events,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Execution Stores - Where execution state machines are persisted
+ */
+
+import { getRedisClient, safeJsonParse } from "@dex-ai/core";
+import { isTerminalExecution } from "./stateMachine";
+import { ArbExecution, ExecutionStore } from "./types";
+
+const DEFAULT_REDIS_KEY = "arb-executions";
+
+/**
+ * In-process store, for tests and dry runs. State is lost with the process.
+ */
+export function createMemoryExecutionStore(): ExecutionStore {
+  const executions = new Map<string, ArbExecution>();
+
+  return {
+    save: async (execution) => {
+      executions.set(execution.id, structuredClone(execution));
+    },
+    get: async (id) => {
+      const execution = executions.get(id);
+      return execution ? structuredClone(execution) : null;
+    },
+    listActive: async () =>
+      [...executions.values()]
+        .filter((execution) => !isTerminalExecution(execution))
+        .map((execution) => structuredClone(execution)),
+  };
+}
+
+/**
+ * Redis store, one hash field per execution so a restarted process can resume
+ */
+export function createRedisExecutionStore(
+  redisKey: string = DEFAULT_REDIS_KEY,
+): ExecutionStore {
+  const parse = (raw: string | null | undefined) =>
+    raw ? safeJsonParse<ArbExecution | null>(raw, null) : null;
+
+  return {
+    save: async (execution) => {
+      const redis = await getRedisClient();
+      await redis.hSet(redisKey, execution.id, JSON.stringify(execution));
+    },
+    get: async (id) => {
+      const redis = await getRedisClient();
+      return parse(await redis.hGet(redisKey, id));
+    },
+    listActive: async () => {
+      const redis = await getRedisClient();
+      const raw = await redis.hGetAll(redisKey);
+      return Object.values(raw)
+        .map(parse)
+        .filter(
+          (execution): execution is ArbExecution =>
+            execution !== null && !isTerminalExecution(execution),
+        );
+    },
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Swap Errors - Failures a DEX swap executor reports to the engine
+ */
+
+/**
+ * Thrown by executors when a swap failed before it was signed, e.g. when no
+ * route or quote was found. The swap was never sent, so it is safe to retry.
+ * Any other error from `submitSwap` leaves the outcome unknown.
+ */
+export class DexSwapNotSentError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "DexSwapNotSentError";
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Execution Types
+ *
+ * Shared type definitions for two-leg arbitrage execution
+ */
+
+import { PerpOrderSide, PerpTradingErrorCode, PerpVenue } from "../perp/types";
+
+/**
+ * Lifecycle of an execution. "completed", "failed", "unwound" and "stuck"
+ * are terminal; "stuck" means exposure is left that needs manual attention.
+ */
+export type ExecutionStatus =
+  | "pending" // Persisted, nothing sent yet
+  | "executing" // Both legs in flight
+  | "retrying" // Retrying a failed or partially filled leg
+  | "unwinding" // Reversing whatever filled
+  | "completed" // Both legs filled
+  | "failed" // No leg filled, nothing to unwind
+  | "unwound" // Filled legs were reversed
+  | "stuck";
+
+export type LegStatus =
+  | "pending"
+  | "submitting" // About to be sent, the venue may or may not have it
+  | "submitted"
+  | "filled"
+  | "partial"
+  | "failed"
+  | "unwinding"
+  | "unwound";
+
+export type ExecutionLeg = "dex" | "perp";
+
+/**
+ * Swap through a DEX aggregator, amounts in the token's smallest unit
+ */
+export interface DexSwapRequest {
+  chainIndex?: string; // OKX DEX chain index, defaults to BSC
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  amount: string;
+  slippage?: string; // Fraction, e.g. "0.005"
+}
+
+export interface DexSwapReceipt {
+  txHash: string;
+  status: "confirmed" | "reverted";
+  amountOut: string | null; // toToken received, null when reverted
+}
+
+/**
+ * Sends swaps and reports their outcome. Submitting and waiting are separate
+ * so the transaction hash is persisted before we block on the receipt.
+ * `submitSwap` throws DexSwapNotSentError when the swap was never signed,
+ * any other error is treated as a swap that may have been sent.
+ */
+export interface DexSwapExecutor {
+  submitSwap: (request: DexSwapRequest) => Promise<string>; // Transaction hash
+  waitForSwap: (
+    txHash: string,
+    request: DexSwapRequest,
+  ) => Promise<DexSwapReceipt>;
+}
+
+/**
+ * How the engine reacts to a failed or partially filled leg
+ */
+export interface ExecutionPolicy {
+  onLegFailure: "retry" | "unwind"; // "retry" retries first and unwinds once retries run out
+  maxRetries: number; // Extra attempts per leg, also used for unwind orders
+  retryDelayMs: number;
+  fillTolerance: number; // Fraction of the perp target that may stay unfilled, e.g. 0.01
+}
+
+export interface ExecutionEvent {
+  timestamp: number;
+  leg: ExecutionLeg | null; // Null for execution-level transitions
+  status: ExecutionStatus | LegStatus;
+  message: string | null;
+}
+
+interface LegStateBase {
+  status: LegStatus;
+  attempts: number;
+  retryable: boolean; // Whether the last failure may succeed on a retry
+  error: string | null;
+}
+
+export interface DexLegState extends LegStateBase {
+  request: DexSwapRequest;
+  txHash: string | null;
+  amountOut: string | null; // toToken received
+  unwindTxHash: string | null;
+}
+
+export interface PerpLegState extends LegStateBase {
+  venue: PerpVenue;
+  symbol: string;
+  side: PerpOrderSide;
+  quantity: string; // Target contract quantity
+  baselineQuantity: number | null; // Signed position before the first order, longs positive
+  filledQuantity: number; // Contracts filled by this execution
+  clientOrderIds: string[]; // Every order sent for this leg, unwind orders included
+  errorCode: PerpTradingErrorCode | null;
+}
+
+/**
+ * Persisted state of one DEX swap + perp hedge execution
+ */
+export interface ArbExecution {
+  id: string;
+  status: ExecutionStatus;
+  policy: ExecutionPolicy;
+  dex: DexLegState;
+  perp: PerpLegState;
+  error: string | null;
+  events: ExecutionEvent[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ArbExecutionParams {
+  id?: string; // Generated when omitted
+  dex: DexSwapRequest;
+  perp: {
+    symbol: string;
+    side: PerpOrderSide; // "sell" hedges a DEX buy
+    quantity: string;
+  };
+  policy?: Partial<ExecutionPolicy>;
+}
+
+/**
+ * Persistence for executions, written on every state change
+ */
+export interface ExecutionStore {
+  save: (execution: ArbExecution) => Promise<void>;
+  get: (id: string) => Promise<ArbExecution | null>;
+  listActive: () => Promise<ArbExecution[]>; // Executions not in a terminal status
+}
@@ -13,11 +13,15 @@ export * as binanceAlpha from "./binance/alpha";
 export * as binancePerp from "./binance/perp";
 export * as bybitPerp from "./bybit/perp";
 export * as bitgetPerp from "./bitget/perp";
+export * as perp from "./perp";
 export * as moralis from "./moralis";
 export * as coingecko from "./coingecko";
 export * as etherscan from "./etherscan";
+export * as arbitrage from "./arbitrage";
+export * as execution from "./execution";
 
 export * from "./okexchange/dex";
+export * from "./okexchange/chains";
 export * from "./types";
 
 // Export onchain functionality
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { BlockchainPlatform } from "../types";
+import {
+  getOkxDexChainIndex,
+  isOkxDexSupportedPlatform,
+  normalizeOkxTokenAddress,
+  resolveOkxDexChainIndex,
+} from "./chains";
+
+describe("getOkxDexChainIndex", () => {
+  it("uses the EVM chain id from the platform registry", () => {
+    expect(getOkxDexChainIndex(BlockchainPlatform.ETHEREUM)).toBe("1");
+    expect(getOkxDexChainIndex(BlockchainPlatform.BINANCE_SMART_CHAIN)).toBe(
+      "56",
+    );
+    expect(getOkxDexChainIndex(BlockchainPlatform.BASE)).toBe("8453");
+    expect(getOkxDexChainIndex("arbitrum-one")).toBe("42161");
+  });
+
+  it("maps non-EVM chains to OKX specific indexes", () => {
+    expect(getOkxDexChainIndex(BlockchainPlatform.SOLANA)).toBe("501");
+    expect(getOkxDexChainIndex(BlockchainPlatform.SUI)).toBe("784");
+  });
+
+  it("rejects unknown platforms", () => {
+    expect(() => getOkxDexChainIndex("dogechain")).toThrow(
+      "Invalid platform: dogechain",
+    );
+    expect(isOkxDexSupportedPlatform("dogechain")).toBe(false);
+    expect(isOkxDexSupportedPlatform(BlockchainPlatform.SOLANA)).toBe(true);
+  });
+});
+
+describe("resolveOkxDexChainIndex", () => {
+  it("prefers the platform and falls back to the default", () => {
+    expect(
+      resolveOkxDexChainIndex({ platform: BlockchainPlatform.BASE }, "56"),
+    ).toBe("8453");
+    expect(resolveOkxDexChainIndex({ chainIndex: "1" }, "56")).toBe("1");
+    expect(resolveOkxDexChainIndex({}, "56")).toBe("56");
+  });
+
+  it("rejects malformed or conflicting chain indexes", () => {
+    expect(() => resolveOkxDexChainIndex({ chainIndex: "bsc" }, "56")).toThrow(
+      "Invalid OKX DEX chainIndex",
+    );
+    expect(() =>
+      resolveOkxDexChainIndex(
+        { chainIndex: "56", platform: BlockchainPlatform.ETHEREUM },
+        "56",
+      ),
+    ).toThrow("does not match platform");
+  });
+});
+
+describe("normalizeOkxTokenAddress", () => {
+  it("lowercases EVM addresses only", () => {
+    expect(normalizeOkxTokenAddress("0xAbC", "56")).toBe("0xabc");
+    expect(
+      normalizeOkxTokenAddress(
+        "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+        "501",
+      ),
+    ).toBe("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * OKX DEX Chain Index Resolution
+ * Maps BlockchainPlatform to the chainIndex expected by the OKX DEX market APIs
+ */
+
+import {
+  BlockchainPlatform,
+  PLATFORM_REGISTRY,
+  isValidPlatform,
+} from "../types";
+
+/**
+ * OKX specific indexes for chains without an EVM chain id
+ */
+const NON_EVM_CHAIN_INDEXES: Partial<Record<BlockchainPlatform, string>> = {
+  [BlockchainPlatform.SOLANA]: "501",
+  [BlockchainPlatform.SUI]: "784",
+};
+
+/**
+ * OKX DEX chain index per platform
+ * EVM chains use their chain id from PLATFORM_REGISTRY
+ */
+export const OKX_DEX_CHAIN_INDEXES: Partial<
+  Record<BlockchainPlatform, string>
+> = Object.fromEntries(
+  Object.values(PLATFORM_REGISTRY).flatMap((info) => {
+    const chainIndex =
+      NON_EVM_CHAIN_INDEXES[info.id] ?? info.chainId?.toString();
+    return chainIndex ? [[info.id, chainIndex]] : [];
+  }),
+);
+
+/**
+ * Check if OKX DEX has a chain index for the platform
+ */
+export function isOkxDexSupportedPlatform(platform: string): boolean {
+  return isValidPlatform(platform) && Boolean(OKX_DEX_CHAIN_INDEXES[platform]);
+}
+
+/**
+ * Get the OKX DEX chain index of a platform
+ */
+export function getOkxDexChainIndex(
+  platform: BlockchainPlatform | string,
+): string {
+  if (!isValidPlatform(platform)) {
+    throw new Error(`Invalid platform: ${platform}`);
+  }
+
+  const chainIndex = OKX_DEX_CHAIN_INDEXES[platform];
+  if (!chainIndex) {
+    throw new Error(`Platform not supported by OKX DEX: ${platform}`);
+  }
+  return chainIndex;
+}
+
+/**
+ * Resolve the chain index of a request from an explicit chainIndex or platform
+ * Falls back to defaultChainIndex when neither is given
+ */
+export function resolveOkxDexChainIndex(
+  params: { chainIndex?: string; platform?: BlockchainPlatform | string },
+  defaultChainIndex: string,
+): string {
+  const { chainIndex, platform } = params;
+
+  if (chainIndex !== undefined && !/^\d+$/.test(chainIndex)) {
+    throw new Error(`Invalid OKX DEX chainIndex: ${chainIndex}`);
+  }
+
+  if (platform === undefined) {
+    return chainIndex ?? defaultChainIndex;
+  }
+
+  const platformChainIndex = getOkxDexChainIndex(platform);
+  if (chainIndex !== undefined && chainIndex !== platformChainIndex) {
+    throw new Error(
+      `chainIndex ${chainIndex} does not match platform ${platform} (${platformChainIndex})`,
+    );
+  }
+  return platformChainIndex;
+}
+
+/**
+ * Normalize a token address for OKX DEX requests
+ * EVM addresses are lowercased, Solana and Sui addresses are case-sensitive
+ */
+export function normalizeOkxTokenAddress(
+  address: string,
+  chainIndex: string,
+): string {
+  return Object.values(NON_EVM_CHAIN_INDEXES).includes(chainIndex)
+    ? address
+    : address.toLowerCase();
+}
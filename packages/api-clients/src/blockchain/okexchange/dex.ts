@@ -14,6 +14,7 @@ import {
   DEFAULT_SLIPPAGE,
 } from "./config";
 import { createOkxDexHeaders } from "./auth";
+import { normalizeOkxTokenAddress, resolveOkxDexChainIndex } from "./chains";
 import type {
   SwapDataResponse,
   ApproveTransactionResponse,
@@ -28,8 +29,8 @@ import type {
 } from "./types";
 
 /**
- * Fixed to use BSC chain (chainIndex: "56")
- * Other chains are not considered for now
+ * Default chain (BSC) when a request names neither chainIndex nor platform
+ * Other chains are resolved from BlockchainPlatform, see ./chains
  */
 export const OKX_DEX_CHAIN_INDEX = "56"; // BSC
 
@@ -477,13 +478,13 @@ export const getOkxDexCandles = async (
   }
 
   const {
-    chainIndex,
     tokenContractAddress,
     bar = "1m",
     limit = 299,
     after,
     before,
   } = params;
+  const chainIndex = resolveOkxDexChainIndex(params, OKX_DEX_CHAIN_INDEX);
 
   const rateLimitManager = new RateLimitManager(
     config.configs,
@@ -495,7 +496,10 @@ export const getOkxDexCandles = async (
   const url = `${OKX_CONFIG_CONSTANTS.API_BASE_URL}${path}`;
   const queryParams: Record<string, string> = {
     chainIndex,
-    tokenContractAddress: tokenContractAddress.toLowerCase(),
+    tokenContractAddress: normalizeOkxTokenAddress(
+      tokenContractAddress,
+      chainIndex,
+    ),
     bar,
     limit: limit.toString(),
   };
@@ -638,7 +642,8 @@ export async function getOkxBatchTokenPrices(
     throw new Error("No valid OKX DEX configurations found");
   }
 
-  const { chainIndex = OKX_DEX_CHAIN_INDEX, tokenContractAddresses } = params;
+  const { tokenContractAddresses } = params;
+  const chainIndex = resolveOkxDexChainIndex(params, OKX_DEX_CHAIN_INDEX);
   if (
     !Array.isArray(tokenContractAddresses) ||
     tokenContractAddresses.length === 0
@@ -670,7 +675,7 @@ export async function getOkxBatchTokenPrices(
     const url = `${OKX_CONFIG_CONSTANTS.API_BASE_URL}dex/market/price-info`;
     const requestBody = tokenContractAddresses.map((addr) => ({
       chainIndex,
-      tokenContractAddress: addr.toLowerCase(),
+      tokenContractAddress: normalizeOkxTokenAddress(addr, chainIndex),
     }));
 
     const timestamp = new Date().toISOString();
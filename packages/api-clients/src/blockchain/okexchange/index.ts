@@ -12,6 +12,9 @@ export * from "./auth";
 // DEX core functionality
 export * from "./dex";
 
+// Chain index resolution
+export * from "./chains";
+
 // Re-export commonly used types (for backward compatibility)
 export type { SwapQuote } from "../types";
 
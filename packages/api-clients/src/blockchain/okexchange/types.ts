@@ -4,6 +4,8 @@
  * Comprehensive type definitions for OKX DEX API responses and data structures
  */
 
+import { BlockchainPlatform } from "../types";
+
 /**
  * Base API response structure
  */
@@ -142,8 +144,7 @@ export type OkxApiError = OkxErrorResponse | RateLimitError | Error;
  * Generic API function result
  */
 export type ApiResult<T> =
-  | { success: true; data: T }
-  | { success: false; error: OkxApiError };
+  { success: true; data: T } | { success: false; error: OkxApiError };
 
 /**
  * Retry configuration
@@ -191,7 +192,8 @@ export interface ApproveTransactionParams {
  * OKX Dex Candles related types and functions
  */
 export interface OkxDexCandlesParams {
-  chainIndex: string;
+  chainIndex?: string; // Explicit OKX chain index, e.g. "56"
+  platform?: BlockchainPlatform | string; // Resolved to a chain index when set
   tokenContractAddress: string;
   bar?: string;
   limit?: number;
@@ -211,7 +213,8 @@ export interface OkxDexCandleData {
 }
 
 export interface OkxBatchPriceParams {
-  chainIndex: string;
+  chainIndex?: string; // Explicit OKX chain index, e.g. "56"
+  platform?: BlockchainPlatform | string; // Resolved to a chain index when set
   tokenContractAddresses: string[]; // Batch addresses
 }
 
@@ -1,2 +1,4 @@
 export * from "./erc20";
 export * from "./uniswapV3Pool";
+export * from "./uniswapV2Pair";
+export * from "./uniswapV4";
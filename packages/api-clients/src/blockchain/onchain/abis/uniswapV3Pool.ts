@@ -35,6 +35,13 @@ export const UNISWAP_V3_POOL_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "fee",
+    outputs: [{ name: "", type: "uint24" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "tickSpacing",
@@ -0,0 +1,117 @@
+const POOL_ID = { name: "poolId", type: "bytes32" } as const;
+
+const SLOT0_OUTPUTS = [
+  { name: "sqrtPriceX96", type: "uint160" },
+  { name: "tick", type: "int24" },
+  { name: "protocolFee", type: "uint24" },
+  { name: "lpFee", type: "uint24" },
+] as const;
+
+// Uniswap V4 StateView lens over the PoolManager's storage
+export const UNISWAP_V4_STATE_VIEW_ABI = [
+  {
+    inputs: [POOL_ID],
+    name: "getSlot0",
+    outputs: SLOT0_OUTPUTS,
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID],
+    name: "getLiquidity",
+    outputs: [{ name: "liquidity", type: "uint128" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID, { name: "tick", type: "int16" }],
+    name: "getTickBitmap",
+    outputs: [{ name: "tickBitmap", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID, { name: "tick", type: "int24" }],
+    name: "getTickLiquidity",
+    outputs: [
+      { name: "liquidityGross", type: "uint128" },
+      { name: "liquidityNet", type: "int128" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Uniswap V4 PositionManager, keeps PoolKeys by their truncated PoolId
+export const UNISWAP_V4_POSITION_MANAGER_ABI = [
+  {
+    inputs: [{ name: "poolId", type: "bytes25" }],
+    name: "poolKeys",
+    outputs: [
+      { name: "currency0", type: "address" },
+      { name: "currency1", type: "address" },
+      { name: "fee", type: "uint24" },
+      { name: "tickSpacing", type: "int24" },
+      { name: "hooks", type: "address" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// PancakeSwap Infinity CLPoolManager
+export const PANCAKE_INFINITY_CL_POOL_MANAGER_ABI = [
+  {
+    inputs: [POOL_ID],
+    name: "getSlot0",
+    outputs: SLOT0_OUTPUTS,
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID],
+    name: "getLiquidity",
+    outputs: [{ name: "liquidity", type: "uint128" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID, { name: "word", type: "int16" }],
+    name: "getPoolBitmapInfo",
+    outputs: [{ name: "tickBitmap", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID, { name: "tick", type: "int24" }],
+    name: "getPoolTickInfo",
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "liquidityGross", type: "uint128" },
+          { name: "liquidityNet", type: "int128" },
+          { name: "feeGrowthOutside0X128", type: "uint256" },
+          { name: "feeGrowthOutside1X128", type: "uint256" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [POOL_ID],
+    name: "poolIdToPoolKey",
+    outputs: [
+      { name: "currency0", type: "address" },
+      { name: "currency1", type: "address" },
+      { name: "hooks", type: "address" },
+      { name: "poolManager", type: "address" },
+      { name: "fee", type: "uint24" },
+      { name: "parameters", type: "bytes32" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CONFIG,
+  DEX_CONFIGS,
+  getDexConfigsByChainId,
+  resolveDexConfig,
+  validateConfig,
+} from "./config";
+
+describe("DEX config selection", () => {
+  it("has a valid config for every DEX", () => {
+    Object.values(DEX_CONFIGS).forEach((config) => {
+      expect(validateConfig(config)).toBe(true);
+    });
+    [1, 56, 10, 137, 8453, 42161].forEach((chainId) => {
+      expect(getDexConfigsByChainId(chainId).length).toBeGreaterThan(0);
+    });
+  });
+
+  it("resolves by dexKey, chainId or full config", () => {
+    expect(resolveDexConfig()).toBe(DEFAULT_CONFIG);
+    expect(resolveDexConfig({ dexKey: "sushiswap-v3-base" })).toBe(
+      DEX_CONFIGS["sushiswap-v3-base"],
+    );
+    expect(resolveDexConfig({ chainId: 42161 })).toBe(
+      DEX_CONFIGS["uniswap-v3-arbitrum"],
+    );
+    expect(resolveDexConfig({ chainId: 56 })).toBe(DEFAULT_CONFIG);
+
+    const custom = { ...DEFAULT_CONFIG, rpcUrl: "http://localhost:8545" };
+    expect(resolveDexConfig(custom)).toBe(custom);
+  });
+
+  it("rejects unknown or mismatched selections", () => {
+    expect(() => resolveDexConfig({ chainId: 999 })).toThrow();
+    expect(() =>
+      resolveDexConfig({ dexKey: "uniswap-v3-base", chainId: 1 }),
+    ).toThrow();
+  });
+});
@@ -1,4 +1,4 @@
-import { mainnet, bsc, polygon, arbitrum, optimism } from "viem/chains";
+import { mainnet, bsc, polygon, arbitrum, optimism, base } from "viem/chains";
 import logger from "../../../common/logger";
 
 /**
@@ -14,12 +14,52 @@ export const BSC_CONFIG = {
   chainName: "Binance Smart Chain",
 } as const;
 
-// DEX configurations for BSC
+// Ethereum Chain configuration
+export const ETHEREUM_CONFIG = {
+  rpcUrl: process.env.ETHEREUM_RPC_URL || "https://ethereum-rpc.publicnode.com",
+  chainId: 1,
+  chainName: "Ethereum",
+} as const;
+
+// Arbitrum One Chain configuration
+export const ARBITRUM_CONFIG = {
+  rpcUrl: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
+  chainId: 42161,
+  chainName: "Arbitrum One",
+} as const;
+
+// Base Chain configuration
+export const BASE_CONFIG = {
+  rpcUrl: process.env.BASE_RPC_URL || "https://mainnet.base.org",
+  chainId: 8453,
+  chainName: "Base",
+} as const;
+
+// Optimism Chain configuration
+export const OPTIMISM_CONFIG = {
+  rpcUrl: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
+  chainId: 10,
+  chainName: "Optimism",
+} as const;
+
+// Polygon PoS Chain configuration
+export const POLYGON_CONFIG = {
+  rpcUrl: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com",
+  chainId: 137,
+  chainName: "Polygon",
+} as const;
+
+// Factory addresses shared across chains
+const UNISWAP_V3_FACTORY = "0x1F98431c8aD98523631AE4a59f267346ea31F984";
+const PANCAKESWAP_V3_FACTORY = "0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865";
+
+// DEX configurations, the first entry of each chain is its default
 export const DEX_CONFIGS = {
+  // ===== BSC =====
   // PancakeSwap V3 on BSC
   "pancakeswap-v3-bsc": {
     rpcUrl: BSC_CONFIG.rpcUrl,
-    factoryAddress: "0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865",
+    factoryAddress: PANCAKESWAP_V3_FACTORY,
     chainId: BSC_CONFIG.chainId,
     dexName: "PancakeSwap V3",
     version: "v3",
@@ -35,6 +75,130 @@ export const DEX_CONFIGS = {
     version: "v3",
     chainName: BSC_CONFIG.chainName,
   },
+
+  // SushiSwap V3 on BSC
+  "sushiswap-v3-bsc": {
+    rpcUrl: BSC_CONFIG.rpcUrl,
+    factoryAddress: "0x126555dd55a39328F69400d6aE4F782Bd4C34ABb",
+    chainId: BSC_CONFIG.chainId,
+    dexName: "SushiSwap V3",
+    version: "v3",
+    chainName: BSC_CONFIG.chainName,
+  },
+
+  // ===== Ethereum =====
+  "uniswap-v3-ethereum": {
+    rpcUrl: ETHEREUM_CONFIG.rpcUrl,
+    factoryAddress: UNISWAP_V3_FACTORY,
+    chainId: ETHEREUM_CONFIG.chainId,
+    dexName: "Uniswap V3",
+    version: "v3",
+    chainName: ETHEREUM_CONFIG.chainName,
+  },
+  "pancakeswap-v3-ethereum": {
+    rpcUrl: ETHEREUM_CONFIG.rpcUrl,
+    factoryAddress: PANCAKESWAP_V3_FACTORY,
+    chainId: ETHEREUM_CONFIG.chainId,
+    dexName: "PancakeSwap V3",
+    version: "v3",
+    chainName: ETHEREUM_CONFIG.chainName,
+  },
+  "sushiswap-v3-ethereum": {
+    rpcUrl: ETHEREUM_CONFIG.rpcUrl,
+    factoryAddress: "0xbACEB8eC6b9355Dfc0269C18bac9d6E2Bdc29C4F",
+    chainId: ETHEREUM_CONFIG.chainId,
+    dexName: "SushiSwap V3",
+    version: "v3",
+    chainName: ETHEREUM_CONFIG.chainName,
+  },
+
+  // ===== Arbitrum =====
+  "uniswap-v3-arbitrum": {
+    rpcUrl: ARBITRUM_CONFIG.rpcUrl,
+    factoryAddress: UNISWAP_V3_FACTORY,
+    chainId: ARBITRUM_CONFIG.chainId,
+    dexName: "Uniswap V3",
+    version: "v3",
+    chainName: ARBITRUM_CONFIG.chainName,
+  },
+  "pancakeswap-v3-arbitrum": {
+    rpcUrl: ARBITRUM_CONFIG.rpcUrl,
+    factoryAddress: PANCAKESWAP_V3_FACTORY,
+    chainId: ARBITRUM_CONFIG.chainId,
+    dexName: "PancakeSwap V3",
+    version: "v3",
+    chainName: ARBITRUM_CONFIG.chainName,
+  },
+  "sushiswap-v3-arbitrum": {
+    rpcUrl: ARBITRUM_CONFIG.rpcUrl,
+    factoryAddress: "0x1af415a1EbA07a4986a52B6f2e7dE7003D82231e",
+    chainId: ARBITRUM_CONFIG.chainId,
+    dexName: "SushiSwap V3",
+    version: "v3",
+    chainName: ARBITRUM_CONFIG.chainName,
+  },
+
+  // ===== Base =====
+  "uniswap-v3-base": {
+    rpcUrl: BASE_CONFIG.rpcUrl,
+    factoryAddress: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD", // Uniswap V3 factory on Base
+    chainId: BASE_CONFIG.chainId,
+    dexName: "Uniswap V3",
+    version: "v3",
+    chainName: BASE_CONFIG.chainName,
+  },
+  "pancakeswap-v3-base": {
+    rpcUrl: BASE_CONFIG.rpcUrl,
+    factoryAddress: PANCAKESWAP_V3_FACTORY,
+    chainId: BASE_CONFIG.chainId,
+    dexName: "PancakeSwap V3",
+    version: "v3",
+    chainName: BASE_CONFIG.chainName,
+  },
+  "sushiswap-v3-base": {
+    rpcUrl: BASE_CONFIG.rpcUrl,
+    factoryAddress: "0xc35DADB65012eC5796536bD9864eD8773aBc74C4",
+    chainId: BASE_CONFIG.chainId,
+    dexName: "SushiSwap V3",
+    version: "v3",
+    chainName: BASE_CONFIG.chainName,
+  },
+
+  // ===== Optimism =====
+  "uniswap-v3-optimism": {
+    rpcUrl: OPTIMISM_CONFIG.rpcUrl,
+    factoryAddress: UNISWAP_V3_FACTORY,
+    chainId: OPTIMISM_CONFIG.chainId,
+    dexName: "Uniswap V3",
+    version: "v3",
+    chainName: OPTIMISM_CONFIG.chainName,
+  },
+  "sushiswap-v3-optimism": {
+    rpcUrl: OPTIMISM_CONFIG.rpcUrl,
+    factoryAddress: "0x9c6522117e2ed1fE5bdb72bb0eD5E3f2bdE7DBe0",
+    chainId: OPTIMISM_CONFIG.chainId,
+    dexName: "SushiSwap V3",
+    version: "v3",
+    chainName: OPTIMISM_CONFIG.chainName,
+  },
+
+  // ===== Polygon =====
+  "uniswap-v3-polygon": {
+    rpcUrl: POLYGON_CONFIG.rpcUrl,
+    factoryAddress: UNISWAP_V3_FACTORY,
+    chainId: POLYGON_CONFIG.chainId,
+    dexName: "Uniswap V3",
+    version: "v3",
+    chainName: POLYGON_CONFIG.chainName,
+  },
+  "sushiswap-v3-polygon": {
+    rpcUrl: POLYGON_CONFIG.rpcUrl,
+    factoryAddress: "0x917933899c6a5F8E37F31E19f92CdBFF7e8FF0e2",
+    chainId: POLYGON_CONFIG.chainId,
+    dexName: "SushiSwap V3",
+    version: "v3",
+    chainName: POLYGON_CONFIG.chainName,
+  },
 } as const;
 
 // Type definitions
@@ -50,6 +214,17 @@ export interface V3PoolConfig {
   chainName: string;
 }
 
+/**
+ * Select a DEX configuration by key and/or chain instead of passing
+ * a full V3PoolConfig
+ */
+export interface DexSelector {
+  dexKey?: DexConfigKey;
+  chainId?: number;
+}
+
+export type PoolConfigInput = V3PoolConfig | DexSelector;
+
 // Default configuration
 export const DEFAULT_CONFIG: V3PoolConfig = DEX_CONFIGS["pancakeswap-v3-bsc"];
 
@@ -81,11 +256,337 @@ export function getDexConfigsByChainId(chainId: number): DexConfigKey[] {
     .map(([key, _]) => key as DexConfigKey);
 }
 
+/**
+ * Resolve a per-call config selection to a V3PoolConfig
+ *
+ * - a full V3PoolConfig is used as-is
+ * - `dexKey` picks that DEX (and must match `chainId` when both are given)
+ * - `chainId` alone picks the chain's default DEX
+ * - nothing falls back to DEFAULT_CONFIG
+ */
+export function resolveDexConfig(config?: PoolConfigInput): V3PoolConfig {
+  if (!config) return DEFAULT_CONFIG;
+  if ("factoryAddress" in config) return config;
+
+  const { dexKey, chainId } = config;
+  if (dexKey) {
+    const dexConfig = DEX_CONFIGS[dexKey];
+    if (!dexConfig) {
+      throw new Error(`Unknown DEX config: ${dexKey}`);
+    }
+    if (chainId !== undefined && dexConfig.chainId !== chainId) {
+      throw new Error(`DEX config ${dexKey} is not on chain ${chainId}`);
+    }
+    return dexConfig;
+  }
+
+  if (chainId !== undefined) {
+    const [defaultKey] = getDexConfigsByChainId(chainId);
+    if (!defaultKey) {
+      throw new Error(`No DEX config available for chain ${chainId}`);
+    }
+    return DEX_CONFIGS[defaultKey];
+  }
+
+  return DEFAULT_CONFIG;
+}
+
+// Interface for constant-product (Uniswap V2 style) DEX configuration
+export interface V2PoolConfig extends V3PoolConfig {
+  feeBps: number; // Swap fee charged on the input amount, 30 = 0.3%
+}
+
+// V2 DEX configurations, the first entry of each chain is its default
+export const V2_DEX_CONFIGS = {
+  // PancakeSwap V2 on BSC
+  "pancakeswap-v2-bsc": {
+    rpcUrl: BSC_CONFIG.rpcUrl,
+    factoryAddress: "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73",
+    chainId: BSC_CONFIG.chainId,
+    dexName: "PancakeSwap V2",
+    version: "v2",
+    chainName: BSC_CONFIG.chainName,
+    feeBps: 25,
+  },
+
+  // Uniswap V2 on Ethereum
+  "uniswap-v2-ethereum": {
+    rpcUrl: ETHEREUM_CONFIG.rpcUrl,
+    factoryAddress: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f",
+    chainId: ETHEREUM_CONFIG.chainId,
+    dexName: "Uniswap V2",
+    version: "v2",
+    chainName: ETHEREUM_CONFIG.chainName,
+    feeBps: 30,
+  },
+
+  // SushiSwap V2 on Ethereum
+  "sushiswap-v2-ethereum": {
+    rpcUrl: ETHEREUM_CONFIG.rpcUrl,
+    factoryAddress: "0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac",
+    chainId: ETHEREUM_CONFIG.chainId,
+    dexName: "SushiSwap V2",
+    version: "v2",
+    chainName: ETHEREUM_CONFIG.chainName,
+    feeBps: 30,
+  },
+
+  // Uniswap V2 on Arbitrum
+  "uniswap-v2-arbitrum": {
+    rpcUrl: ARBITRUM_CONFIG.rpcUrl,
+    factoryAddress: "0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9",
+    chainId: ARBITRUM_CONFIG.chainId,
+    dexName: "Uniswap V2",
+    version: "v2",
+    chainName: ARBITRUM_CONFIG.chainName,
+    feeBps: 30,
+  },
+
+  // Uniswap V2 on Base
+  "uniswap-v2-base": {
+    rpcUrl: BASE_CONFIG.rpcUrl,
+    factoryAddress: "0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6",
+    chainId: BASE_CONFIG.chainId,
+    dexName: "Uniswap V2",
+    version: "v2",
+    chainName: BASE_CONFIG.chainName,
+    feeBps: 30,
+  },
+} as const;
+
+export type V2DexConfigKey = keyof typeof V2_DEX_CONFIGS;
+
+/**
+ * Select a V2 DEX configuration by key and/or chain
+ */
+export interface V2DexSelector {
+  dexKey?: V2DexConfigKey;
+  chainId?: number;
+}
+
+export type V2PoolConfigInput = V2PoolConfig | V2DexSelector;
+
+export const DEFAULT_V2_CONFIG: V2PoolConfig =
+  V2_DEX_CONFIGS["pancakeswap-v2-bsc"];
+
+/**
+ * Get available V2 DEX configurations by chainId
+ * @param chainId Chain ID
+ * @returns Array of V2 DEX configuration keys available on this chain
+ */
+export function getV2DexConfigsByChainId(chainId: number): V2DexConfigKey[] {
+  return Object.entries(V2_DEX_CONFIGS)
+    .filter(([_, config]) => config.chainId === chainId)
+    .map(([key, _]) => key as V2DexConfigKey);
+}
+
+/**
+ * Resolve a per-call V2 config selection, same rules as resolveDexConfig
+ */
+export function resolveV2DexConfig(config?: V2PoolConfigInput): V2PoolConfig {
+  if (!config) return DEFAULT_V2_CONFIG;
+  if ("factoryAddress" in config) return config;
+
+  const { dexKey, chainId } = config;
+  if (dexKey) {
+    const dexConfig = V2_DEX_CONFIGS[dexKey];
+    if (!dexConfig) {
+      throw new Error(`Unknown V2 DEX config: ${dexKey}`);
+    }
+    if (chainId !== undefined && dexConfig.chainId !== chainId) {
+      throw new Error(`V2 DEX config ${dexKey} is not on chain ${chainId}`);
+    }
+    return dexConfig;
+  }
+
+  if (chainId !== undefined) {
+    const [defaultKey] = getV2DexConfigsByChainId(chainId);
+    if (!defaultKey) {
+      throw new Error(`No V2 DEX config available for chain ${chainId}`);
+    }
+    return V2_DEX_CONFIGS[defaultKey];
+  }
+
+  return DEFAULT_V2_CONFIG;
+}
+
+// Interface for singleton pool manager (Uniswap V4 / PancakeSwap Infinity) configuration
+// factoryAddress is the PoolManager that holds every pool's state
+export interface V4PoolConfig extends V3PoolConfig {
+  protocol: "uniswap-v4" | "pancakeswap-infinity";
+  stateViewAddress?: string; // Uniswap V4 StateView lens, Infinity reads the manager directly
+  positionManagerAddress?: string; // Uniswap V4 PositionManager, used to resolve PoolKeys
+  wrappedNativeAddress: string; // Prices the native currency (address(0))
+}
+
+// V4 DEX configurations, the first entry of each chain is its default
+export const V4_DEX_CONFIGS = {
+  // PancakeSwap Infinity (CL pools) on BSC
+  "pancakeswap-infinity-bsc": {
+    rpcUrl: BSC_CONFIG.rpcUrl,
+    factoryAddress: "0xa0FfB9c1CE1Fe56963B0321B32E7A0302114058b", // CLPoolManager
+    wrappedNativeAddress: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+    chainId: BSC_CONFIG.chainId,
+    dexName: "PancakeSwap Infinity",
+    version: "v4",
+    protocol: "pancakeswap-infinity",
+    chainName: BSC_CONFIG.chainName,
+  },
+
+  // Uniswap V4 on BSC
+  "uniswap-v4-bsc": {
+    rpcUrl: BSC_CONFIG.rpcUrl,
+    factoryAddress: "0x28e2Ea090877bF75740558f6BFB36A5ffeE9e9dF",
+    stateViewAddress: "0xd13Dd3D6E93f276FAfc9Db9E6BB47C1180aeE0c4",
+    positionManagerAddress: "0x7A4a5c919aE2541AeD11041A1AEeE68f1287f95b",
+    wrappedNativeAddress: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+    chainId: BSC_CONFIG.chainId,
+    dexName: "Uniswap V4",
+    version: "v4",
+    protocol: "uniswap-v4",
+    chainName: BSC_CONFIG.chainName,
+  },
+
+  // Uniswap V4 on Ethereum
+  "uniswap-v4-ethereum": {
+    rpcUrl: ETHEREUM_CONFIG.rpcUrl,
+    factoryAddress: "0x000000000004444c5dc75cB358380D2e3dE08A90",
+    stateViewAddress: "0x7fFE42C4a5DEeA5b0feC41C94C136Cf115597227",
+    positionManagerAddress: "0xbD216513d74C8cf14cf4747E6AaA6420FF64ee9e",
+    wrappedNativeAddress: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+    chainId: ETHEREUM_CONFIG.chainId,
+    dexName: "Uniswap V4",
+    version: "v4",
+    protocol: "uniswap-v4",
+    chainName: ETHEREUM_CONFIG.chainName,
+  },
+
+  // Uniswap V4 on Arbitrum
+  "uniswap-v4-arbitrum": {
+    rpcUrl: ARBITRUM_CONFIG.rpcUrl,
+    factoryAddress: "0x360E68faCcca8cA495c1B759Fd9EEe466db9FB32",
+    stateViewAddress: "0x76Fd297e2D437cd7f76d50F01AfE6160f86e9990",
+    positionManagerAddress: "0xd88F38F930b7952f2DB2432Cb002E7abbF3dD869",
+    wrappedNativeAddress: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+    chainId: ARBITRUM_CONFIG.chainId,
+    dexName: "Uniswap V4",
+    version: "v4",
+    protocol: "uniswap-v4",
+    chainName: ARBITRUM_CONFIG.chainName,
+  },
+
+  // Uniswap V4 on Base
+  "uniswap-v4-base": {
+    rpcUrl: BASE_CONFIG.rpcUrl,
+    factoryAddress: "0x498581fF718922c3f8e6A244956aF099B2652b2b",
+    stateViewAddress: "0xA3c0c9b65baD0b08107Aa264b0f3dB444b867A71",
+    positionManagerAddress: "0x7C5f5A4bBd8fD63184577525326123B519429bDc",
+    wrappedNativeAddress: "0x4200000000000000000000000000000000000006",
+    chainId: BASE_CONFIG.chainId,
+    dexName: "Uniswap V4",
+    version: "v4",
+    protocol: "uniswap-v4",
+    chainName: BASE_CONFIG.chainName,
+  },
+
+  // Uniswap V4 on Optimism
+  "uniswap-v4-optimism": {
+    rpcUrl: OPTIMISM_CONFIG.rpcUrl,
+    factoryAddress: "0x9a13F98Cb987694C9F086b1F5eB990EeA8264Ec3",
+    stateViewAddress: "0xc18a3169788F4F75A170290584ECA6395C75Ecdb",
+    positionManagerAddress: "0x3C3Ea4B57a46241e54610e5f022E5c45859A1017",
+    wrappedNativeAddress: "0x4200000000000000000000000000000000000006",
+    chainId: OPTIMISM_CONFIG.chainId,
+    dexName: "Uniswap V4",
+    version: "v4",
+    protocol: "uniswap-v4",
+    chainName: OPTIMISM_CONFIG.chainName,
+  },
+
+  // Uniswap V4 on Polygon
+  "uniswap-v4-polygon": {
+    rpcUrl: POLYGON_CONFIG.rpcUrl,
+    factoryAddress: "0x67366782805870060151383F4BbFF9daB53e5cD6",
+    stateViewAddress: "0x5eA1bD7974c8A611cBAB0bDCAFcB1D9CC9b3BA5a",
+    positionManagerAddress: "0x1Ec2eBf4F37E7363FDfe3551602425af0B3ceef9",
+    wrappedNativeAddress: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+    chainId: POLYGON_CONFIG.chainId,
+    dexName: "Uniswap V4",
+    version: "v4",
+    protocol: "uniswap-v4",
+    chainName: POLYGON_CONFIG.chainName,
+  },
+} as const;
+
+export type V4DexConfigKey = keyof typeof V4_DEX_CONFIGS;
+
+/**
+ * Select a V4 DEX configuration by key and/or chain
+ */
+export interface V4DexSelector {
+  dexKey?: V4DexConfigKey;
+  chainId?: number;
+}
+
+export type V4PoolConfigInput = V4PoolConfig | V4DexSelector;
+
+export const DEFAULT_V4_CONFIG: V4PoolConfig =
+  V4_DEX_CONFIGS["pancakeswap-infinity-bsc"];
+
+/**
+ * Get all available V4 DEX configurations
+ * @returns Array of all V4 DEX configuration keys
+ */
+export function getAvailableV4DexConfigs(): V4DexConfigKey[] {
+  return Object.keys(V4_DEX_CONFIGS) as V4DexConfigKey[];
+}
+
+/**
+ * Get available V4 DEX configurations by chainId
+ * @param chainId Chain ID
+ * @returns Array of V4 DEX configuration keys available on this chain
+ */
+export function getV4DexConfigsByChainId(chainId: number): V4DexConfigKey[] {
+  return Object.entries(V4_DEX_CONFIGS)
+    .filter(([_, config]) => config.chainId === chainId)
+    .map(([key, _]) => key as V4DexConfigKey);
+}
+
+/**
+ * Resolve a per-call V4 config selection, same rules as resolveDexConfig
+ */
+export function resolveV4DexConfig(config?: V4PoolConfigInput): V4PoolConfig {
+  if (!config) return DEFAULT_V4_CONFIG;
+  if ("factoryAddress" in config) return config;
+
+  const { dexKey, chainId } = config;
+  if (dexKey) {
+    const dexConfig = V4_DEX_CONFIGS[dexKey];
+    if (!dexConfig) {
+      throw new Error(`Unknown V4 DEX config: ${dexKey}`);
+    }
+    if (chainId !== undefined && dexConfig.chainId !== chainId) {
+      throw new Error(`V4 DEX config ${dexKey} is not on chain ${chainId}`);
+    }
+    return dexConfig;
+  }
+
+  if (chainId !== undefined) {
+    const [defaultKey] = getV4DexConfigsByChainId(chainId);
+    if (!defaultKey) {
+      throw new Error(`No V4 DEX config available for chain ${chainId}`);
+    }
+    return V4_DEX_CONFIGS[defaultKey];
+  }
+
+  return DEFAULT_V4_CONFIG;
+}
+
 /**
  * Get the corresponding viem chain object by chainId
  */
 export function getChainById(chainId: number) {
-  const chains = [mainnet, bsc, polygon, arbitrum, optimism];
+  const chains = [mainnet, bsc, polygon, arbitrum, optimism, base];
   const chain = chains.find((c) => c.id === chainId);
 
   if (!chain) {
@@ -102,6 +603,14 @@ export function getCoinGeckoChainName(chainId: number) {
       return "ethereum";
     case 56:
       return "binance-smart-chain";
+    case 42161:
+      return "arbitrum-one";
+    case 8453:
+      return "base";
+    case 10:
+      return "optimistic-ethereum";
+    case 137:
+      return "polygon-pos";
     default:
       return "unknown";
   }
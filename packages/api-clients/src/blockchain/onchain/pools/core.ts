@@ -4,7 +4,7 @@ import {
   UNISWAP_V3_POOL_ABI,
   ERC20_ABI,
 } from "../abis";
-import { V3PoolConfig, DEFAULT_CONFIG } from "./config";
+import { PoolConfigInput, resolveDexConfig } from "./config";
 import { getTokenInfo, getTokenPriceUSD, type TokenInfo } from "../token";
 import { createClient } from "../client";
 
@@ -74,9 +74,9 @@ export async function getPoolAddress(
   token0Address: `0x${string}`,
   token1Address: `0x${string}`,
   fee: number,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<string> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
 
   try {
@@ -114,9 +114,9 @@ export async function getPoolAddress(
  */
 export async function getPoolBaseInfo(
   poolAddress: `0x${string}`,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<PoolBaseInfoWithoutTokens> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
 
   try {
@@ -210,9 +210,9 @@ export async function getPoolBaseInfo(
  */
 export async function getPoolBaseInfoWithTokenInfo(
   poolAddress: `0x${string}`,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<PoolBaseInfo> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
 
   try {
@@ -339,11 +339,11 @@ export async function getPoolBaseInfoWithTokenInfo(
  */
 export async function getPoolPrice(
   poolAddress: `0x${string}`,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
   token0Decimals: number = 18,
   token1Decimals: number = 18,
 ): Promise<PoolPriceInfo> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
 
   try {
@@ -562,7 +562,7 @@ export function calculateTokenRatios({
  */
 export async function analyzeTokenRatios(
   poolAddress: `0x${string}`,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ) {
   try {
     // Get pool base info
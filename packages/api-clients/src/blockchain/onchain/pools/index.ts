@@ -1,5 +1,8 @@
 export * from "./core";
 export * from "./ticks";
+export * from "./swapSimulator";
+export * from "./v2";
+export * from "./v4";
 // Export configuration related
 export {
   DEX_CONFIGS,
@@ -7,6 +10,27 @@ export {
   getAvailableDexConfigs,
   getDexConfigsByChainId,
   validateConfig,
+  resolveDexConfig,
+  V2_DEX_CONFIGS,
+  getV2DexConfigsByChainId,
+  resolveV2DexConfig,
+  V4_DEX_CONFIGS,
+  getAvailableV4DexConfigs,
+  getV4DexConfigsByChainId,
+  resolveV4DexConfig,
 } from "./config";
 
-export type { V3PoolConfig } from "./config";
+export type {
+  V3PoolConfig,
+  DexConfigKey,
+  DexSelector,
+  PoolConfigInput,
+  V2PoolConfig,
+  V2DexConfigKey,
+  V2DexSelector,
+  V2PoolConfigInput,
+  V4PoolConfig,
+  V4DexConfigKey,
+  V4DexSelector,
+  V4PoolConfigInput,
+} from "./config";
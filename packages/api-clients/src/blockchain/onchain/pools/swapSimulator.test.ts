@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import JSBI from "jsbi";
+import { TickListDataProvider, TickMath, v3Swap } from "@uniswap/v3-sdk";
+import {
+  getDepthAtPercent,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  PoolTickSnapshot,
+  simulateSwap,
+  SwapSimulationParams,
+} from "./swapSimulator";
+
+// Positions: full range, a wide core range and two one-sided ranges
+const positions: [number, number, bigint][] = [
+  [-887220, 887220, 10n ** 18n],
+  [-1200, 1200, 5n * 10n ** 20n],
+  [600, 3000, 2n * 10n ** 20n],
+  [-3000, -600, 3n * 10n ** 20n],
+];
+
+function buildTicks() {
+  const nets = new Map<number, bigint>();
+  for (const [lower, upper, liquidity] of positions) {
+    nets.set(lower, (nets.get(lower) ?? 0n) + liquidity);
+    nets.set(upper, (nets.get(upper) ?? 0n) - liquidity);
+  }
+  return [...nets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([tick, liquidityNet]) => ({ tick, liquidityNet }));
+}
+
+const sqrtPriceX96 = getSqrtRatioAtTick(17) + 123456789n;
+const snapshot: PoolTickSnapshot = {
+  sqrtPriceX96,
+  currentTick: getTickAtSqrtRatio(sqrtPriceX96),
+  liquidity: 10n ** 18n + 5n * 10n ** 20n,
+  fee: 3000,
+  tickSpacing: 60,
+  ticks: buildTicks(),
+};
+
+// The SDK bundles its own JSBI version, build its numbers with that class
+const SdkJSBI = TickMath.MIN_SQRT_RATIO.constructor as typeof JSBI;
+
+// Reference result from the Uniswap SDK's own swap loop
+async function referenceSwap(params: SwapSimulationParams) {
+  const provider = new TickListDataProvider(
+    snapshot.ticks.map(({ tick, liquidityNet }) => ({
+      index: tick,
+      liquidityNet: liquidityNet.toString(),
+      liquidityGross: (liquidityNet < 0n
+        ? -liquidityNet
+        : liquidityNet
+      ).toString(),
+    })),
+    snapshot.tickSpacing,
+  );
+  const amountSpecified =
+    params.type === "exactInput" ? params.amount : -params.amount;
+  const result = await v3Swap(
+    SdkJSBI.BigInt(snapshot.fee),
+    SdkJSBI.BigInt(snapshot.sqrtPriceX96.toString()),
+    snapshot.currentTick,
+    SdkJSBI.BigInt(snapshot.liquidity.toString()),
+    snapshot.tickSpacing,
+    provider,
+    params.zeroForOne,
+    SdkJSBI.BigInt(amountSpecified.toString()),
+  );
+  return {
+    amountCalculated: BigInt(result.amountCalculated.toString()),
+    sqrtPriceX96After: BigInt(result.sqrtRatioX96.toString()),
+    liquidityAfter: BigInt(result.liquidity.toString()),
+    tickAfter: result.tickCurrent,
+  };
+}
+
+describe("V3 swap simulator", () => {
+  const cases: SwapSimulationParams[] = [
+    { zeroForOne: true, type: "exactInput", amount: 10n ** 18n },
+    { zeroForOne: true, type: "exactInput", amount: 40n * 10n ** 18n },
+    { zeroForOne: false, type: "exactInput", amount: 45n * 10n ** 18n },
+    { zeroForOne: true, type: "exactOutput", amount: 35n * 10n ** 18n },
+    { zeroForOne: false, type: "exactOutput", amount: 3n * 10n ** 18n },
+  ];
+
+  it.each(cases)(
+    "matches the SDK swap loop for $type zeroForOne=$zeroForOne $amount",
+    async (params) => {
+      const result = simulateSwap(snapshot, params);
+      const reference = await referenceSwap(params);
+
+      expect(result.fullyFilled).toBe(true);
+      expect(result.sqrtPriceX96After).toBe(reference.sqrtPriceX96After);
+      expect(result.liquidityAfter).toBe(reference.liquidityAfter);
+      expect(result.tickAfter).toBe(reference.tickAfter);
+      if (params.type === "exactInput") {
+        expect(result.amountIn).toBe(params.amount);
+        expect(result.amountOut).toBe(-reference.amountCalculated);
+      } else {
+        expect(result.amountOut).toBe(params.amount);
+        expect(result.amountIn).toBe(reference.amountCalculated);
+      }
+    },
+  );
+
+  it("crosses initialized ticks and reports price impact", () => {
+    const small = simulateSwap(snapshot, {
+      zeroForOne: true,
+      type: "exactInput",
+      amount: 10n ** 18n,
+    });
+    const large = simulateSwap(snapshot, {
+      zeroForOne: true,
+      type: "exactInput",
+      amount: 40n * 10n ** 18n,
+    });
+
+    expect(small.ticksCrossed).toBe(0);
+    expect(large.ticksCrossed).toBeGreaterThan(0);
+    expect(large.priceImpactPercent).toBeGreaterThan(small.priceImpactPercent);
+    // 0.3% fee tier, rounded up per step
+    expect(small.feeAmount).toBeGreaterThanOrEqual(3n * 10n ** 15n);
+    expect(small.feeAmount).toBeLessThan(3n * 10n ** 15n + 10n);
+  });
+
+  it("stops at the edge of the snapshot", () => {
+    const result = simulateSwap(
+      { ...snapshot, minTick: -600 },
+      { zeroForOne: true, type: "exactInput", amount: 40n * 10n ** 18n },
+    );
+
+    expect(result.fullyFilled).toBe(false);
+    expect(result.amountIn).toBeLessThan(40n * 10n ** 18n);
+    expect(result.tickAfter).toBe(-601);
+  });
+
+  it("stops at the price limit", () => {
+    const limit = getSqrtRatioAtTick(-100);
+    const result = simulateSwap(snapshot, {
+      zeroForOne: true,
+      type: "exactInput",
+      amount: 40n * 10n ** 18n,
+      sqrtPriceLimitX96: limit,
+    });
+
+    expect(result.fullyFilled).toBe(false);
+    expect(result.sqrtPriceX96After).toBe(limit);
+  });
+
+  it("is deterministic", () => {
+    const params: SwapSimulationParams = {
+      zeroForOne: false,
+      type: "exactOutput",
+      amount: 5n * 10n ** 18n,
+    };
+    expect(simulateSwap(snapshot, params)).toEqual(
+      simulateSwap(snapshot, params),
+    );
+  });
+});
+
+describe("V3 depth at percent", () => {
+  it("returns the swap that moves the price by exactly the percent", () => {
+    const depth = getDepthAtPercent(snapshot, 2);
+
+    expect(depth.up.complete).toBe(true);
+    expect(depth.down.complete).toBe(true);
+
+    const up = simulateSwap(snapshot, {
+      zeroForOne: false,
+      type: "exactInput",
+      amount: depth.up.amountIn,
+    });
+    expect(up.amountOut).toBe(depth.up.amountOut);
+    expect(up.priceImpactPercent).toBeCloseTo(2, 6);
+
+    const down = simulateSwap(snapshot, {
+      zeroForOne: true,
+      type: "exactInput",
+      amount: depth.down.amountIn,
+    });
+    expect(down.priceImpactPercent).toBeCloseTo(2, 6);
+  });
+
+  it("flags moves beyond the snapshot as incomplete", () => {
+    const depth = getDepthAtPercent({ ...snapshot, maxTick: 120 }, 5);
+
+    expect(depth.up.complete).toBe(false);
+    expect(depth.down.complete).toBe(true);
+  });
+});
@@ -0,0 +1,568 @@
+import { TickMath } from "@uniswap/v3-sdk";
+
+/**
+ * Uniswap V3 swap simulator
+ *
+ * Pure bigint port of the pool's swap loop (SwapMath, SqrtPriceMath and the
+ * word-bounded tick bitmap search), run against a tick snapshot fetched
+ * beforehand. No RPC calls are made, so the same snapshot always yields the
+ * same result and matches the pool's own rounding.
+ */
+
+const Q96 = 2n ** 96n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO =
+  1461446703485210103287273052203988822378723970342n;
+
+/**
+ * Pool state and initialized ticks needed to simulate a swap
+ */
+export interface PoolTickSnapshot {
+  sqrtPriceX96: bigint;
+  currentTick: number;
+  liquidity: bigint; // Active liquidity at the current price
+  fee: number; // Hundredths of a bip, 3000 = 0.3%
+  tickSpacing: number;
+  ticks: { tick: number; liquidityNet: bigint }[]; // Initialized ticks
+  // Tick range covered by the snapshot, swaps stop at its edges.
+  // Defaults to the lowest and highest initialized tick.
+  minTick?: number;
+  maxTick?: number;
+}
+
+export interface SwapSimulationParams {
+  zeroForOne: boolean; // true = token0 in, token1 out
+  type: "exactInput" | "exactOutput";
+  amount: bigint; // Raw amount of the input (exactInput) or output token
+  sqrtPriceLimitX96?: bigint;
+}
+
+export interface SwapSimulationResult {
+  amountIn: bigint; // Including the fee
+  amountOut: bigint;
+  feeAmount: bigint; // Paid in the input token
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  liquidityAfter: bigint;
+  ticksCrossed: number; // Initialized ticks crossed
+  priceImpactPercent: number; // Pool price move caused by the swap
+  fullyFilled: boolean; // False when the price limit or snapshot edge was hit
+}
+
+interface SwapStep {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+// ===== FullMath / SqrtPriceMath =====
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > 0n ? result + 1n : result;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a % b > 0n ? a / b + 1n : a / b;
+}
+
+export function getSqrtRatioAtTick(tick: number): bigint {
+  return BigInt(TickMath.getSqrtRatioAtTick(tick).toString());
+}
+
+/**
+ * Greatest tick whose sqrt ratio is <= sqrtPriceX96, found by binary search
+ * over getSqrtRatioAtTick so no JSBI conversion is needed
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  let low = TickMath.MIN_TICK;
+  let high = TickMath.MAX_TICK;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+export function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean,
+): bigint {
+  const [lower, upper] =
+    sqrtRatioAX96 > sqrtRatioBX96
+      ? [sqrtRatioBX96, sqrtRatioAX96]
+      : [sqrtRatioAX96, sqrtRatioBX96];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+export function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean,
+): bigint {
+  const [lower, upper] =
+    sqrtRatioAX96 > sqrtRatioBX96
+      ? [sqrtRatioBX96, sqrtRatioAX96]
+      : [sqrtRatioAX96, sqrtRatioBX96];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean,
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  if (add) {
+    // The pool falls back to a less precise formula when the product overflows
+    if (product <= MAX_UINT256) {
+      const denominator = numerator1 + product;
+      if (denominator >= numerator1 && denominator <= MAX_UINT256) {
+        return mulDivRoundingUp(numerator1, sqrtPriceX96, denominator);
+      }
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPriceX96 + amount);
+  }
+
+  if (product > MAX_UINT256 || numerator1 <= product) {
+    throw new Error("Insufficient token0 liquidity for the requested output");
+  }
+  return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 - product);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean,
+): bigint {
+  if (add) {
+    return sqrtPriceX96 + (amount << 96n) / liquidity;
+  }
+
+  const quotient = divRoundingUp(amount << 96n, liquidity);
+  if (sqrtPriceX96 <= quotient) {
+    throw new Error("Insufficient token1 liquidity for the requested output");
+  }
+  return sqrtPriceX96 - quotient;
+}
+
+// ===== SwapMath =====
+
+/**
+ * Swap within a single range of constant liquidity, towards sqrtRatioTarget
+ *
+ * amountRemaining is positive for exact input and negative for exact output,
+ * following the pool's amountSpecified convention.
+ */
+function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint,
+): SwapStep {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const exactIn = amountRemaining >= 0n;
+
+  let sqrtPriceNextX96: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(
+      amountRemaining,
+      FEE_DENOMINATOR - feePips,
+      FEE_DENOMINATOR,
+    );
+    amountIn = zeroForOne
+      ? getAmount0Delta(
+          sqrtRatioTargetX96,
+          sqrtRatioCurrentX96,
+          liquidity,
+          true,
+        )
+      : getAmount1Delta(
+          sqrtRatioCurrentX96,
+          sqrtRatioTargetX96,
+          liquidity,
+          true,
+        );
+    sqrtPriceNextX96 =
+      amountRemainingLessFee >= amountIn
+        ? sqrtRatioTargetX96
+        : zeroForOne
+          ? getNextSqrtPriceFromAmount0RoundingUp(
+              sqrtRatioCurrentX96,
+              liquidity,
+              amountRemainingLessFee,
+              true,
+            )
+          : getNextSqrtPriceFromAmount1RoundingDown(
+              sqrtRatioCurrentX96,
+              liquidity,
+              amountRemainingLessFee,
+              true,
+            );
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(
+          sqrtRatioTargetX96,
+          sqrtRatioCurrentX96,
+          liquidity,
+          false,
+        )
+      : getAmount0Delta(
+          sqrtRatioCurrentX96,
+          sqrtRatioTargetX96,
+          liquidity,
+          false,
+        );
+    sqrtPriceNextX96 =
+      -amountRemaining >= amountOut
+        ? sqrtRatioTargetX96
+        : zeroForOne
+          ? getNextSqrtPriceFromAmount1RoundingDown(
+              sqrtRatioCurrentX96,
+              liquidity,
+              -amountRemaining,
+              false,
+            )
+          : getNextSqrtPriceFromAmount0RoundingUp(
+              sqrtRatioCurrentX96,
+              liquidity,
+              -amountRemaining,
+              false,
+            );
+  }
+
+  const max = sqrtRatioTargetX96 === sqrtPriceNextX96;
+
+  if (zeroForOne) {
+    if (!(max && exactIn)) {
+      amountIn = getAmount0Delta(
+        sqrtPriceNextX96,
+        sqrtRatioCurrentX96,
+        liquidity,
+        true,
+      );
+    }
+    if (!(max && !exactIn)) {
+      amountOut = getAmount1Delta(
+        sqrtPriceNextX96,
+        sqrtRatioCurrentX96,
+        liquidity,
+        false,
+      );
+    }
+  } else {
+    if (!(max && exactIn)) {
+      amountIn = getAmount1Delta(
+        sqrtRatioCurrentX96,
+        sqrtPriceNextX96,
+        liquidity,
+        true,
+      );
+    }
+    if (!(max && !exactIn)) {
+      amountOut = getAmount0Delta(
+        sqrtRatioCurrentX96,
+        sqrtPriceNextX96,
+        liquidity,
+        false,
+      );
+    }
+  }
+
+  // Cap the output amount to not exceed the remaining output amount
+  if (!exactIn && amountOut > -amountRemaining) {
+    amountOut = -amountRemaining;
+  }
+
+  const feeAmount =
+    exactIn && sqrtPriceNextX96 !== sqrtRatioTargetX96
+      ? // Not reaching the target means the whole remainder was used
+        amountRemaining - amountIn
+      : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
+
+// ===== Tick bitmap search =====
+
+/**
+ * Find the next initialized tick within the same bitmap word, like
+ * TickBitmap.nextInitializedTickWithinOneWord. Returns the word boundary
+ * (uninitialized) when the word has no initialized tick in that direction.
+ */
+function nextInitializedTickWithinOneWord(
+  sortedTicks: number[],
+  tick: number,
+  tickSpacing: number,
+  lte: boolean,
+): { tickNext: number; initialized: boolean } {
+  const compressed = Math.floor(tick / tickSpacing);
+
+  if (lte) {
+    const lowest = (compressed - (compressed & 0xff)) * tickSpacing;
+    const upper = compressed * tickSpacing;
+    for (let i = sortedTicks.length - 1; i >= 0; i--) {
+      const t = sortedTicks[i];
+      if (t > upper) continue;
+      if (t >= lowest) return { tickNext: t, initialized: true };
+      break;
+    }
+    return { tickNext: lowest, initialized: false };
+  }
+
+  const next = compressed + 1;
+  const lower = next * tickSpacing;
+  const highest = (next + (255 - (next & 0xff))) * tickSpacing;
+  for (const t of sortedTicks) {
+    if (t < lower) continue;
+    if (t <= highest) return { tickNext: t, initialized: true };
+    break;
+  }
+  return { tickNext: highest, initialized: false };
+}
+
+/**
+ * Simulate a swap against a tick snapshot
+ *
+ * Walks the same steps as UniswapV3Pool.swap: each step swaps up to the next
+ * initialized tick (or bitmap word boundary), applies the fee tier and crosses
+ * the tick by adding its liquidityNet. The simulation stops early when the
+ * price limit or the edge of the snapshot is reached, with `fullyFilled: false`.
+ */
+export function simulateSwap(
+  snapshot: PoolTickSnapshot,
+  params: SwapSimulationParams,
+): SwapSimulationResult {
+  const { zeroForOne, type, amount } = params;
+  const exactInput = type === "exactInput";
+
+  if (amount <= 0n) {
+    throw new Error("Swap amount must be positive");
+  }
+
+  const sqrtPriceLimitX96 =
+    params.sqrtPriceLimitX96 ??
+    (zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n);
+  if (
+    zeroForOne
+      ? sqrtPriceLimitX96 >= snapshot.sqrtPriceX96 ||
+        sqrtPriceLimitX96 <= MIN_SQRT_RATIO
+      : sqrtPriceLimitX96 <= snapshot.sqrtPriceX96 ||
+        sqrtPriceLimitX96 >= MAX_SQRT_RATIO
+  ) {
+    throw new Error("Invalid sqrtPriceLimitX96 for swap direction");
+  }
+
+  const liquidityNets = new Map(
+    snapshot.ticks.map((t) => [t.tick, t.liquidityNet]),
+  );
+  const sortedTicks = [...liquidityNets.keys()].sort((a, b) => a - b);
+  const minTick = Math.max(
+    snapshot.minTick ?? sortedTicks[0] ?? snapshot.currentTick,
+    TickMath.MIN_TICK,
+  );
+  const maxTick = Math.min(
+    snapshot.maxTick ??
+      sortedTicks[sortedTicks.length - 1] ??
+      snapshot.currentTick,
+    TickMath.MAX_TICK,
+  );
+  const feePips = BigInt(snapshot.fee);
+
+  let amountSpecifiedRemaining = exactInput ? amount : -amount;
+  let amountCalculated = 0n;
+  let sqrtPriceX96 = snapshot.sqrtPriceX96;
+  let tick = snapshot.currentTick;
+  let liquidity = snapshot.liquidity;
+  let feeAmount = 0n;
+  let ticksCrossed = 0;
+
+  while (
+    amountSpecifiedRemaining !== 0n &&
+    sqrtPriceX96 !== sqrtPriceLimitX96
+  ) {
+    // Nothing is known about liquidity beyond the snapshot
+    if (zeroForOne ? tick < minTick : tick >= maxTick) break;
+
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    const { tickNext: wordTickNext } = nextInitializedTickWithinOneWord(
+      sortedTicks,
+      tick,
+      snapshot.tickSpacing,
+      zeroForOne,
+    );
+    const tickNext = zeroForOne
+      ? Math.max(wordTickNext, minTick)
+      : Math.min(wordTickNext, maxTick);
+    const initialized = liquidityNets.has(tickNext);
+
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+    const sqrtRatioTargetX96 = (
+      zeroForOne
+        ? sqrtPriceNextX96 < sqrtPriceLimitX96
+        : sqrtPriceNextX96 > sqrtPriceLimitX96
+    )
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96;
+
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      sqrtRatioTargetX96,
+      liquidity,
+      amountSpecifiedRemaining,
+      feePips,
+    );
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+    feeAmount += step.feeAmount;
+
+    if (exactInput) {
+      amountSpecifiedRemaining -= step.amountIn + step.feeAmount;
+      amountCalculated -= step.amountOut;
+    } else {
+      amountSpecifiedRemaining += step.amountOut;
+      amountCalculated += step.amountIn + step.feeAmount;
+    }
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      // Crossing a tick moves liquidity in or out of range
+      if (initialized) {
+        const liquidityNet = liquidityNets.get(tickNext) ?? 0n;
+        liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+        ticksCrossed += 1;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  const filled = exactInput
+    ? amount - amountSpecifiedRemaining
+    : amount + amountSpecifiedRemaining;
+  const amountIn = exactInput ? filled : amountCalculated;
+  const amountOut = exactInput ? -amountCalculated : filled;
+
+  // Price is sqrtPrice squared, so the ratio of squares gives the move
+  const before = Number(snapshot.sqrtPriceX96);
+  const after = Number(sqrtPriceX96);
+  const priceImpactPercent =
+    Math.abs((after * after) / (before * before) - 1) * 100;
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    liquidityAfter: liquidity,
+    ticksCrossed,
+    priceImpactPercent,
+    fullyFilled: amountSpecifiedRemaining === 0n,
+  };
+}
+
+// ===== Depth =====
+
+export interface PoolDepthSide {
+  amountIn: bigint; // Raw input needed to move the price, including the fee
+  amountOut: bigint;
+  complete: boolean; // False when known liquidity ran out before the move
+}
+
+/**
+ * Liquidity needed to move the token0 price (in token1) by `percent`
+ * - up: token1 in, token0 out
+ * - down: token0 in, token1 out
+ */
+export interface PoolDepthAtPercent {
+  percent: number;
+  up: PoolDepthSide;
+  down: PoolDepthSide;
+}
+
+const MAX_INT256 = 2n ** 255n - 1n;
+const PRICE_FACTOR_SCALE = 10n ** 18n;
+
+/**
+ * Scale a sqrt price so the price itself moves by `priceFactor`
+ */
+function scaleSqrtPrice(sqrtPriceX96: bigint, priceFactor: number): bigint {
+  const sqrtFactor = BigInt(
+    Math.round(Math.sqrt(priceFactor) * Number(PRICE_FACTOR_SCALE)),
+  );
+  return (sqrtPriceX96 * sqrtFactor) / PRICE_FACTOR_SCALE;
+}
+
+/**
+ * Depth of a V3 pool at ±percent, using an unbounded exact input swap with
+ * the target price as the limit
+ */
+export function getDepthAtPercent(
+  snapshot: PoolTickSnapshot,
+  percent: number,
+): PoolDepthAtPercent {
+  if (percent <= 0 || percent >= 100) {
+    throw new Error("Depth percent must be between 0 and 100");
+  }
+
+  const sideTo = (zeroForOne: boolean, priceFactor: number): PoolDepthSide => {
+    const limit = scaleSqrtPrice(snapshot.sqrtPriceX96, priceFactor);
+    const sqrtPriceLimitX96 = zeroForOne
+      ? limit > MIN_SQRT_RATIO
+        ? limit
+        : MIN_SQRT_RATIO + 1n
+      : limit < MAX_SQRT_RATIO
+        ? limit
+        : MAX_SQRT_RATIO - 1n;
+    const result = simulateSwap(snapshot, {
+      zeroForOne,
+      type: "exactInput",
+      amount: MAX_INT256,
+      sqrtPriceLimitX96,
+    });
+    return {
+      amountIn: result.amountIn,
+      amountOut: result.amountOut,
+      complete: result.sqrtPriceX96After === sqrtPriceLimitX96,
+    };
+  };
+
+  return {
+    percent,
+    up: sideTo(false, 1 + percent / 100),
+    down: sideTo(true, 1 - percent / 100),
+  };
+}
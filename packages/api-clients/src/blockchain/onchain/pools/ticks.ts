@@ -1,10 +1,15 @@
 import { createClient } from "../client";
-import { V3PoolConfig, DEFAULT_CONFIG } from "./config";
+import { PoolConfigInput, resolveDexConfig } from "./config";
 import { TickMath } from "@uniswap/v3-sdk";
 import { UNISWAP_V3_POOL_ABI } from "../abis";
 import { type TokenInfo } from "../token";
 import { getLogger, Logger } from "@dex-ai/core";
-import { getPoolBaseInfoWithTokenInfo } from "./core";
+import { getPoolBaseInfo, getPoolBaseInfoWithTokenInfo } from "./core";
+import {
+  PoolDepthAtPercent,
+  PoolTickSnapshot,
+  getDepthAtPercent,
+} from "./swapSimulator";
 
 const logger: Logger = getLogger("blockchain-onchain-pools");
 
@@ -93,6 +98,13 @@ export interface LiquidityInfo {
   currentTick: boolean; // indicates if this is the current tick
 }
 
+export interface TickLiquidityData {
+  tick: number;
+  liquidityNet: bigint;
+  liquidityGross: bigint;
+  initialized: boolean;
+}
+
 export interface TickData {
   tick: number;
   liquidityNet: bigint;
@@ -227,6 +239,55 @@ function calculateTokenAmounts(
   };
 }
 
+/**
+ * Bitmap word of the current tick
+ */
+export function getCurrentBitmapWord(
+  currentTick: number,
+  tickSpacing: number,
+): number {
+  return position(compressTick(currentTick, tickSpacing)).word;
+}
+
+/**
+ * Words to read around the current word, lowest first
+ */
+export function getBitmapWordRange(
+  currentWord: number,
+  wordRange: number,
+): number[] {
+  const words: number[] = [];
+  for (let i = -wordRange; i <= wordRange; i++) {
+    words.push(currentWord + i);
+  }
+  return words;
+}
+
+/**
+ * Reconstruct initialized ticks from a bitmap word and its set bits
+ */
+export function getTicksFromBitmapWord(
+  word: number,
+  bitmap: bigint,
+  tickSpacing: number,
+): number[] {
+  return getSetBits(bitmap).map((bit) => ((word << 8) + bit) * tickSpacing);
+}
+
+/**
+ * Tick range covered by the given bitmap words, as used for snapshot edges
+ */
+export function getBitmapTickRange(
+  words: number[],
+  tickSpacing: number,
+): { minTick: number; maxTick: number } {
+  // Bitmap words cover [word * 256, word * 256 + 255] compressed ticks
+  return {
+    minTick: words[0] * 256 * tickSpacing,
+    maxTick: (words[words.length - 1] * 256 + 255) * tickSpacing,
+  };
+}
+
 /**
  * Read tickBitmap words and extract initialized ticks
  */
@@ -237,11 +298,7 @@ async function readBitmapWords(
   wordRange: number,
   tickSpacingNum: number,
 ): Promise<number[]> {
-  // Collect all words to read around the current word
-  const wordsToRead: number[] = [];
-  for (let i = -wordRange; i <= wordRange; i++) {
-    wordsToRead.push(currentWord + i);
-  }
+  const wordsToRead = getBitmapWordRange(currentWord, wordRange);
 
   // Read all bitmap words using multicall
   const bitmapContracts = wordsToRead.map((word) => ({
@@ -274,22 +331,17 @@ async function readBitmapWords(
       const bitmap = BigInt(result.result as string | number | bigint);
       if (bitmap !== 0n) {
         nonZeroBitmaps++;
-        // Get all set bits from this bitmap word
-        const setBits = getSetBits(bitmap);
-        for (const bit of setBits) {
-          // Reconstruct tick from word and bit position
-          const compressed = (wordsToRead[i] << 8) + bit;
-          const tick = compressed * tickSpacingNum;
-          allTicks.push(tick);
-        }
+        const ticks = getTicksFromBitmapWord(
+          wordsToRead[i],
+          bitmap,
+          tickSpacingNum,
+        );
+        allTicks.push(...ticks);
         logger.debug("[V3PoolAnalyzer] Found non-zero bitmap", {
           word: wordsToRead[i],
           bitmap: bitmap.toString(),
-          setBits: setBits.length,
-          ticks: setBits.map((bit) => {
-            const compressed = (wordsToRead[i] << 8) + bit;
-            return compressed * tickSpacingNum;
-          }),
+          setBits: ticks.length,
+          ticks,
         });
       }
     } else {
@@ -383,16 +435,9 @@ async function processTickData(
     batchSize: 4096,
   });
 
-  // First pass: collect all tick data
-  const tickDataMap = new Map<
-    number,
-    { liquidityNet: bigint; liquidityGross: bigint; initialized: boolean }
-  >();
-
+  const ticks: TickLiquidityData[] = [];
   for (let i = 0; i < tickResults.length; i++) {
     const result = tickResults[i];
-    const tick = uniqueTicks[i];
-
     if (result.status === "success" && result.result !== undefined) {
       const tickData = result.result as readonly [
         bigint, // liquidityGross
@@ -405,18 +450,47 @@ async function processTickData(
         boolean, // initialized
       ];
 
-      const liquidityNet = BigInt(tickData[1]);
-      const liquidityGross = BigInt(tickData[0]);
-      const initialized = Boolean(tickData[7]);
-
-      // Always include current tick, or include other ticks with liquidity
-      if (
-        tick === currentTick ||
-        liquidityNet !== 0n ||
-        liquidityGross !== 0n
-      ) {
-        tickDataMap.set(tick, { liquidityNet, liquidityGross, initialized });
-      }
+      ticks.push({
+        tick: uniqueTicks[i],
+        liquidityNet: BigInt(tickData[1]),
+        liquidityGross: BigInt(tickData[0]),
+        initialized: Boolean(tickData[7]),
+      });
+    }
+  }
+
+  return buildLiquidityDistribution(
+    ticks,
+    currentTick,
+    token0Info,
+    token1Info,
+    currentLiquidity,
+  );
+}
+
+/**
+ * Convert raw tick data to LiquidityInfo, sorted by tick
+ *
+ * Shared by every pool type with ticks (V3 pools, V4 / Infinity pools), so
+ * the result can be passed straight to detectLiquidityCliffs.
+ */
+export function buildLiquidityDistribution(
+  ticks: TickLiquidityData[],
+  currentTick: number,
+  token0Info: TokenInfo,
+  token1Info: TokenInfo,
+  currentLiquidity: bigint,
+): LiquidityInfo[] {
+  // First pass: collect all tick data
+  const tickDataMap = new Map<
+    number,
+    { liquidityNet: bigint; liquidityGross: bigint; initialized: boolean }
+  >();
+
+  for (const { tick, liquidityNet, liquidityGross, initialized } of ticks) {
+    // Always include current tick, or include other ticks with liquidity
+    if (tick === currentTick || liquidityNet !== 0n || liquidityGross !== 0n) {
+      tickDataMap.set(tick, { liquidityNet, liquidityGross, initialized });
     }
   }
 
@@ -481,9 +555,9 @@ async function processTickData(
 export async function getTickLiquidityDistribution(
   poolAddress: `0x${string}`,
   wordRange: number = 10,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<LiquidityInfo[]> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
 
   try {
@@ -560,6 +634,115 @@ export async function getTickLiquidityDistribution(
   }
 }
 
+/**
+ * Fetch the pool state and initialized ticks needed by `simulateSwap`
+ *
+ * Reads `wordRange` bitmap words on each side of the current tick; the
+ * snapshot's minTick/maxTick mark the covered range so simulations stop
+ * there instead of assuming zero liquidity beyond it.
+ */
+export async function getPoolTickSnapshot(
+  poolAddress: `0x${string}`,
+  wordRange: number = 10,
+  config?: PoolConfigInput,
+): Promise<PoolTickSnapshot> {
+  const finalConfig = resolveDexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    const [poolBaseInfo, fee] = await Promise.all([
+      getPoolBaseInfo(poolAddress, finalConfig),
+      client.readContract({
+        address: poolAddress,
+        abi: UNISWAP_V3_POOL_ABI,
+        functionName: "fee",
+      }),
+    ]);
+    const { currentTick, tickSpacing, sqrtPriceX96, liquidity } = poolBaseInfo;
+    const { word: currentWord } = position(
+      compressTick(currentTick, tickSpacing),
+    );
+
+    const allTicks = await readBitmapWords(
+      client,
+      poolAddress,
+      currentWord,
+      wordRange,
+      tickSpacing,
+    );
+    const uniqueTicks = [...new Set(allTicks)].sort((a, b) => a - b);
+
+    const tickResults = await client.multicall({
+      contracts: uniqueTicks.map((tick) => ({
+        address: poolAddress,
+        abi: UNISWAP_V3_POOL_ABI,
+        functionName: "ticks" as const,
+        args: [tick],
+      })),
+      allowFailure: true,
+      batchSize: 4096,
+    });
+
+    const ticks: PoolTickSnapshot["ticks"] = [];
+    tickResults.forEach((result, i) => {
+      if (result.status !== "success" || result.result === undefined) {
+        logger.warn("[V3PoolAnalyzer] Failed to read tick", {
+          poolAddress,
+          tick: uniqueTicks[i],
+        });
+        return;
+      }
+      const [, liquidityNet] = result.result;
+      ticks.push({ tick: uniqueTicks[i], liquidityNet: BigInt(liquidityNet) });
+    });
+
+    const { minTick, maxTick } = getBitmapTickRange(
+      getBitmapWordRange(currentWord, wordRange),
+      tickSpacing,
+    );
+
+    logger.info("[V3PoolAnalyzer] Got pool tick snapshot", {
+      poolAddress,
+      currentTick,
+      initializedTicks: ticks.length,
+      minTick,
+      maxTick,
+    });
+
+    return {
+      sqrtPriceX96,
+      currentTick,
+      liquidity,
+      fee: Number(fee),
+      tickSpacing,
+      ticks,
+      minTick,
+      maxTick,
+    };
+  } catch (error) {
+    logger.error("[V3PoolAnalyzer] Error getting pool tick snapshot", {
+      poolAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Get pool depth at each of the given percentages
+ *
+ * Moves beyond the snapshot's word range come back with `complete: false`.
+ */
+export async function getPoolDepth(
+  poolAddress: `0x${string}`,
+  percents: number[],
+  wordRange: number = 10,
+  config?: PoolConfigInput,
+): Promise<PoolDepthAtPercent[]> {
+  const snapshot = await getPoolTickSnapshot(poolAddress, wordRange, config);
+  return percents.map((percent) => getDepthAtPercent(snapshot, percent));
+}
+
 /**
  * Detects liquidity cliffs based on changes in active liquidity across ticks.
  *
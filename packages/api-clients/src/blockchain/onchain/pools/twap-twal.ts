@@ -1,5 +1,5 @@
 import { createClient } from "../client";
-import { DEFAULT_CONFIG, V3PoolConfig } from "./config";
+import { PoolConfigInput, resolveDexConfig } from "./config";
 import { UNISWAP_V3_POOL_ABI } from "../abis";
 import { getPoolBaseInfo, calculateTokenRatios } from "./core";
 import { getLogger } from "@dex-ai/core";
@@ -56,7 +56,7 @@ interface Observation {
 export async function getTWAP(
   poolAddress: `0x${string}`,
   secondsAgo: number = SECONDS_AGO,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<
   | {
       averageTick: number;
@@ -74,7 +74,7 @@ export async function getTWAP(
       error: string;
     }
 > {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
   // Use officially recommended timestamp array: [secondsAgo, 0]
   const timestamps = [secondsAgo, 0];
@@ -187,7 +187,7 @@ export async function getTWAP(
 export async function getTWAL(
   poolAddress: `0x${string}`,
   secondsAgo: number = SECONDS_AGO,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<
   | {
       twal: bigint;
@@ -199,7 +199,7 @@ export async function getTWAL(
       error: string;
     }
 > {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const client = createClient(finalConfig);
   const timestamps = [secondsAgo, 0];
 
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  getV2AmountIn,
+  getV2AmountOut,
+  getV2DepthAtPercent,
+  simulateV2Swap,
+} from "./v2";
+
+const reserves = {
+  reserve0: 1_000_000n * 10n ** 18n,
+  reserve1: 2_000_000n * 10n ** 18n,
+};
+
+describe("V2 pair math", () => {
+  it("matches the UniswapV2Library quotes", () => {
+    // 1 token in with a 0.3% fee against 100/100 reserves
+    expect(
+      getV2AmountOut(10n ** 18n, 100n * 10n ** 18n, 100n * 10n ** 18n, 30),
+    ).toBe(987158034397061298n);
+    expect(
+      getV2AmountIn(
+        987158034397061298n,
+        100n * 10n ** 18n,
+        100n * 10n ** 18n,
+        30,
+      ),
+    ).toBeLessThanOrEqual(10n ** 18n);
+  });
+
+  it("simulates exact input and exact output swaps consistently", () => {
+    const exactIn = simulateV2Swap(
+      reserves,
+      { zeroForOne: true, type: "exactInput", amount: 10_000n * 10n ** 18n },
+      25,
+    );
+    const exactOut = simulateV2Swap(
+      reserves,
+      { zeroForOne: true, type: "exactOutput", amount: exactIn.amountOut },
+      25,
+    );
+
+    expect(exactOut.amountIn).toBeLessThanOrEqual(exactIn.amountIn);
+    expect(exactIn.amountIn - exactOut.amountIn).toBeLessThan(10n ** 6n);
+    expect(exactIn.reserve0After).toBe(reserves.reserve0 + exactIn.amountIn);
+    expect(exactIn.reserve1After).toBe(reserves.reserve1 - exactIn.amountOut);
+    expect(exactIn.feeAmount).toBe(25n * 10n ** 18n);
+    expect(exactIn.priceImpactPercent).toBeCloseTo(1.968, 3);
+  });
+
+  it("rejects outputs the reserves cannot cover", () => {
+    expect(() =>
+      simulateV2Swap(
+        reserves,
+        { zeroForOne: false, type: "exactOutput", amount: reserves.reserve0 },
+        30,
+      ),
+    ).toThrow("Insufficient liquidity");
+  });
+
+  it("returns the depth that moves the price by exactly the percent", () => {
+    const depth = getV2DepthAtPercent(reserves, 2, 30);
+
+    const up = simulateV2Swap(
+      reserves,
+      { zeroForOne: false, type: "exactInput", amount: depth.up.amountIn },
+      30,
+    );
+    const down = simulateV2Swap(
+      reserves,
+      { zeroForOne: true, type: "exactInput", amount: depth.down.amountIn },
+      30,
+    );
+
+    expect(up.amountOut).toBe(depth.up.amountOut);
+    expect(up.priceImpactPercent).toBeCloseTo(2, 6);
+    expect(down.priceImpactPercent).toBeCloseTo(2, 6);
+    expect(depth.up.complete && depth.down.complete).toBe(true);
+  });
+});
@@ -0,0 +1,488 @@
+import { getLogger, Logger } from "@dex-ai/core";
+import { UNISWAP_V2_FACTORY_ABI, UNISWAP_V2_PAIR_ABI } from "../abis";
+import { V2PoolConfigInput, resolveV2DexConfig } from "./config";
+import { getTokenInfo, getTokenPriceUSD } from "../token";
+import { createClient } from "../client";
+import {
+  calculateTokenRatios,
+  type PoolBaseInfo,
+  type PoolBaseInfoWithoutTokens,
+  type PoolPriceInfo,
+} from "./core";
+import {
+  MAX_SQRT_RATIO,
+  MIN_SQRT_RATIO,
+  getTickAtSqrtRatio,
+  type PoolDepthAtPercent,
+  type PoolDepthSide,
+  type SwapSimulationParams,
+} from "./swapSimulator";
+
+const logger: Logger = getLogger("blockchain-onchain-pools-v2");
+
+/**
+ * Uniswap V2 / constant-product pair analytics
+ *
+ * Pairs are read into the same PoolBaseInfo / PoolPriceInfo shapes as V3
+ * pools. The reserves are treated as one full-range position: sqrtPriceX96
+ * and the tick are derived from the reserve ratio and liquidity is sqrt(k).
+ */
+
+const BPS_DENOMINATOR = 10_000n;
+const PRICE_FACTOR_SCALE = 10n ** 18n;
+
+export interface V2PairReserves {
+  pairAddress: string;
+  token0Address: string;
+  token1Address: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  blockTimestampLast: number;
+}
+
+export interface V2SwapSimulationResult {
+  amountIn: bigint; // Including the fee
+  amountOut: bigint;
+  feeAmount: bigint; // Paid in the input token
+  reserve0After: bigint;
+  reserve1After: bigint;
+  priceImpactPercent: number; // Pool price move caused by the swap
+}
+
+function sqrtBigInt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+/**
+ * sqrtPriceX96 of token0 in token1, as a V3 pool at the same reserves would report
+ */
+function getV2SqrtPriceX96(reserve0: bigint, reserve1: bigint): bigint {
+  if (reserve0 === 0n || reserve1 === 0n) {
+    throw new Error("V2 pair has no reserves");
+  }
+  const sqrtPriceX96 = sqrtBigInt((reserve1 << 192n) / reserve0);
+  if (sqrtPriceX96 < MIN_SQRT_RATIO) return MIN_SQRT_RATIO;
+  if (sqrtPriceX96 >= MAX_SQRT_RATIO) return MAX_SQRT_RATIO - 1n;
+  return sqrtPriceX96;
+}
+
+/**
+ * UniswapV2Library.getAmountOut with a configurable fee
+ */
+export function getV2AmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number,
+): bigint {
+  if (amountIn <= 0n) throw new Error("Swap amount must be positive");
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("Insufficient liquidity");
+  }
+  const amountInWithFee = amountIn * (BPS_DENOMINATOR - BigInt(feeBps));
+  return (
+    (amountInWithFee * reserveOut) /
+    (reserveIn * BPS_DENOMINATOR + amountInWithFee)
+  );
+}
+
+/**
+ * UniswapV2Library.getAmountIn with a configurable fee
+ */
+export function getV2AmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number,
+): bigint {
+  if (amountOut <= 0n) throw new Error("Swap amount must be positive");
+  if (reserveIn <= 0n || amountOut >= reserveOut) {
+    throw new Error("Insufficient liquidity");
+  }
+  return (
+    (reserveIn * amountOut * BPS_DENOMINATOR) /
+      ((reserveOut - amountOut) * (BPS_DENOMINATOR - BigInt(feeBps))) +
+    1n
+  );
+}
+
+/**
+ * Simulate a swap against pair reserves, exactly as the router would quote it
+ */
+export function simulateV2Swap(
+  reserves: Pick<V2PairReserves, "reserve0" | "reserve1">,
+  params: Omit<SwapSimulationParams, "sqrtPriceLimitX96">,
+  feeBps: number,
+): V2SwapSimulationResult {
+  const { zeroForOne, type, amount } = params;
+  const [reserveIn, reserveOut] = zeroForOne
+    ? [reserves.reserve0, reserves.reserve1]
+    : [reserves.reserve1, reserves.reserve0];
+
+  const amountIn =
+    type === "exactInput"
+      ? amount
+      : getV2AmountIn(amount, reserveIn, reserveOut, feeBps);
+  const amountOut =
+    type === "exactInput"
+      ? getV2AmountOut(amount, reserveIn, reserveOut, feeBps)
+      : amount;
+  const feeAmount = (amountIn * BigInt(feeBps)) / BPS_DENOMINATOR;
+
+  const reserve0After = zeroForOne
+    ? reserves.reserve0 + amountIn
+    : reserves.reserve0 - amountOut;
+  const reserve1After = zeroForOne
+    ? reserves.reserve1 - amountOut
+    : reserves.reserve1 + amountIn;
+
+  const priceBefore = Number(reserves.reserve1) / Number(reserves.reserve0);
+  const priceAfter = Number(reserve1After) / Number(reserve0After);
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    reserve0After,
+    reserve1After,
+    priceImpactPercent: Math.abs(priceAfter / priceBefore - 1) * 100,
+  };
+}
+
+/**
+ * Input that raises reserveIn/reserveOut by `priceFactor` once the fee is
+ * taken, the positive root of g·a² + r(1+g)·a + r²(1-f) = 0
+ */
+function getV2AmountInForPriceMove(
+  reserveIn: bigint,
+  reserveOut: bigint,
+  priceFactor: number,
+  feeBps: number,
+): PoolDepthSide {
+  const g = 1 - feeBps / 10_000;
+  const root =
+    (-(1 + g) + Math.sqrt((1 + g) * (1 + g) + 4 * g * (priceFactor - 1))) /
+    (2 * g);
+  const amountIn =
+    (reserveIn * BigInt(Math.round(root * Number(PRICE_FACTOR_SCALE)))) /
+    PRICE_FACTOR_SCALE;
+
+  return {
+    amountIn,
+    amountOut:
+      amountIn > 0n
+        ? getV2AmountOut(amountIn, reserveIn, reserveOut, feeBps)
+        : 0n,
+    complete: true, // A constant-product curve never runs out of liquidity
+  };
+}
+
+/**
+ * Depth of a V2 pair at ±percent, same shape as the V3 getDepthAtPercent
+ */
+export function getV2DepthAtPercent(
+  reserves: Pick<V2PairReserves, "reserve0" | "reserve1">,
+  percent: number,
+  feeBps: number,
+): PoolDepthAtPercent {
+  if (percent <= 0 || percent >= 100) {
+    throw new Error("Depth percent must be between 0 and 100");
+  }
+  const { reserve0, reserve1 } = reserves;
+
+  return {
+    percent,
+    // token0 price up = reserve1/reserve0 up, paid in token1
+    up: getV2AmountInForPriceMove(
+      reserve1,
+      reserve0,
+      1 + percent / 100,
+      feeBps,
+    ),
+    // token0 price down = reserve0/reserve1 up, paid in token0
+    down: getV2AmountInForPriceMove(
+      reserve0,
+      reserve1,
+      1 / (1 - percent / 100),
+      feeBps,
+    ),
+  };
+}
+
+/**
+ * 1. Given two tokens, get the pair address from the V2 factory
+ */
+export async function getV2PairAddress(
+  tokenA: `0x${string}`,
+  tokenB: `0x${string}`,
+  config?: V2PoolConfigInput,
+): Promise<string> {
+  const finalConfig = resolveV2DexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    const pairAddress = await client.readContract({
+      address: finalConfig.factoryAddress as `0x${string}`,
+      abi: UNISWAP_V2_FACTORY_ABI,
+      functionName: "getPair",
+      args: [tokenA, tokenB],
+    });
+
+    logger.info("[V2PoolAnalyzer] Got pair address", {
+      tokenA,
+      tokenB,
+      pairAddress,
+    });
+
+    return pairAddress;
+  } catch (error) {
+    logger.error("[V2PoolAnalyzer] Error getting pair address", {
+      tokenA,
+      tokenB,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * 2. Get pair tokens and reserves
+ */
+export async function getV2Reserves(
+  pairAddress: `0x${string}`,
+  config?: V2PoolConfigInput,
+): Promise<V2PairReserves> {
+  const finalConfig = resolveV2DexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    const [reserves, token0Address, token1Address] = await client.multicall({
+      contracts: [
+        {
+          address: pairAddress,
+          abi: UNISWAP_V2_PAIR_ABI,
+          functionName: "getReserves",
+        },
+        {
+          address: pairAddress,
+          abi: UNISWAP_V2_PAIR_ABI,
+          functionName: "token0",
+        },
+        {
+          address: pairAddress,
+          abi: UNISWAP_V2_PAIR_ABI,
+          functionName: "token1",
+        },
+      ],
+      allowFailure: false,
+      batchSize: 4096,
+    });
+
+    const [reserve0, reserve1, blockTimestampLast] = reserves;
+
+    logger.info("[V2PoolAnalyzer] Got pair reserves", {
+      pairAddress,
+      reserve0: reserve0.toString(),
+      reserve1: reserve1.toString(),
+    });
+
+    return {
+      pairAddress,
+      token0Address,
+      token1Address,
+      reserve0: BigInt(reserve0),
+      reserve1: BigInt(reserve1),
+      blockTimestampLast: Number(blockTimestampLast),
+    };
+  } catch (error) {
+    logger.error("[V2PoolAnalyzer] Error getting pair reserves", {
+      pairAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * 3. Get pair base info in the V3 PoolBaseInfo shape (tickSpacing is 0)
+ */
+export async function getV2PoolBaseInfo(
+  pairAddress: `0x${string}`,
+  config?: V2PoolConfigInput,
+): Promise<PoolBaseInfoWithoutTokens> {
+  const { token0Address, token1Address, reserve0, reserve1 } =
+    await getV2Reserves(pairAddress, config);
+
+  const sqrtPriceX96 = getV2SqrtPriceX96(reserve0, reserve1);
+  const currentTick = getTickAtSqrtRatio(sqrtPriceX96);
+  const tokenRatios = calculateTokenRatios({ currentTick, sqrtPriceX96 });
+
+  return {
+    poolAddress: pairAddress,
+    token0Address,
+    token1Address,
+    currentTick,
+    sqrtPriceX96,
+    liquidity: sqrtBigInt(reserve0 * reserve1),
+    tickSpacing: 0, // No ticks, all liquidity is full range
+    tokenRatio: tokenRatios.tokenRatio,
+    tokenRatioFromTick: tokenRatios.tokenRatioFromTick,
+    tokenRatioFromSqrtPrice: tokenRatios.tokenRatioFromSqrtPrice,
+  };
+}
+
+/**
+ * 4. Get pair base info with token information
+ *
+ * Token totals come from the reserves rather than balanceOf, so tokens sent
+ * to the pair without a sync are not counted.
+ */
+export async function getV2PoolBaseInfoWithTokenInfo(
+  pairAddress: `0x${string}`,
+  config?: V2PoolConfigInput,
+): Promise<PoolBaseInfo> {
+  const finalConfig = resolveV2DexConfig(config);
+
+  try {
+    const { token0Address, token1Address, reserve0, reserve1 } =
+      await getV2Reserves(pairAddress, finalConfig);
+
+    const [token0Info, token1Info] = await Promise.all([
+      getTokenInfo(token0Address as `0x${string}`, finalConfig),
+      getTokenInfo(token1Address as `0x${string}`, finalConfig),
+    ]);
+    const [token0PriceUSD, token1PriceUSD] = await Promise.all([
+      getTokenPriceUSD(
+        finalConfig.chainId,
+        token0Address as `0x${string}`,
+        token0Info.symbol,
+      ),
+      getTokenPriceUSD(
+        finalConfig.chainId,
+        token1Address as `0x${string}`,
+        token1Info.symbol,
+      ),
+    ]);
+
+    const token0Total = Number(reserve0) / Math.pow(10, token0Info.decimals);
+    const token1Total = Number(reserve1) / Math.pow(10, token1Info.decimals);
+    const token0TotalUSD = token0Total * token0PriceUSD;
+    const token1TotalUSD = token1Total * token1PriceUSD;
+    const totalUSD = token0TotalUSD + token1TotalUSD;
+
+    const sqrtPriceX96 = getV2SqrtPriceX96(reserve0, reserve1);
+    const currentTick = getTickAtSqrtRatio(sqrtPriceX96);
+    const tokenRatios = calculateTokenRatios({
+      currentTick,
+      sqrtPriceX96,
+      token0Decimals: token0Info.decimals,
+      token1Decimals: token1Info.decimals,
+    });
+
+    const result: PoolBaseInfo = {
+      poolAddress: pairAddress,
+      token0: {
+        ...token0Info,
+        priceUSD: token0PriceUSD,
+        tokenBalance: token0Total,
+        tokenUSD: token0TotalUSD,
+      },
+      token1: {
+        ...token1Info,
+        priceUSD: token1PriceUSD,
+        tokenBalance: token1Total,
+        tokenUSD: token1TotalUSD,
+      },
+      currentTick,
+      sqrtPriceX96,
+      liquidity: sqrtBigInt(reserve0 * reserve1),
+      tickSpacing: 0,
+      token0Total,
+      token1Total,
+      token0TotalUSD,
+      token1TotalUSD,
+      totalUSD,
+      tokenRatio: {
+        token0Percent: totalUSD > 0 ? (token0TotalUSD / totalUSD) * 100 : 0,
+        token1Percent: totalUSD > 0 ? (token1TotalUSD / totalUSD) * 100 : 0,
+      },
+      rawTokenRatio: tokenRatios.tokenRatio,
+      rawTokenRatioFromTick: tokenRatios.tokenRatioFromTick,
+      rawTokenRatioFromSqrtPrice: tokenRatios.tokenRatioFromSqrtPrice,
+      adjustedTokenRatio: tokenRatios.adjustedTokenRatio,
+    };
+
+    logger.info("[V2PoolAnalyzer] Got pair base info with tokens", {
+      pairAddress,
+      token0Symbol: token0Info.symbol,
+      token1Symbol: token1Info.symbol,
+      totalUSD: totalUSD.toFixed(2),
+    });
+
+    return result;
+  } catch (error) {
+    logger.error("[V2PoolAnalyzer] Error getting pair base info with tokens", {
+      pairAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * 5. Calculate pair price from reserves in the V3 PoolPriceInfo shape
+ */
+export async function getV2PoolPrice(
+  pairAddress: `0x${string}`,
+  config?: V2PoolConfigInput,
+  token0Decimals: number = 18,
+  token1Decimals: number = 18,
+): Promise<PoolPriceInfo> {
+  const { reserve0, reserve1 } = await getV2Reserves(pairAddress, config);
+
+  const sqrtPriceX96 = getV2SqrtPriceX96(reserve0, reserve1);
+  const tick = getTickAtSqrtRatio(sqrtPriceX96);
+  const ratios = calculateTokenRatios({
+    currentTick: tick,
+    sqrtPriceX96,
+    token0Decimals,
+    token1Decimals,
+  });
+  const adjustedPrice = ratios.adjustedTokenRatio;
+
+  return {
+    token0Price: 1 / adjustedPrice,
+    token1Price: adjustedPrice,
+    priceRatio: adjustedPrice,
+    sqrtPriceX96,
+    tick,
+    priceFromSqrtPriceX96: ratios.tokenRatioFromSqrtPrice,
+    priceFromTick: ratios.tokenRatioFromTick,
+    priceDifference: ratios.precisionDifference,
+    priceDifferencePercent: ratios.precisionDifferencePercent,
+    adjustedPrice,
+  };
+}
+
+/**
+ * 6. Get pair depth at each of the given percentages
+ */
+export async function getV2PoolDepth(
+  pairAddress: `0x${string}`,
+  percents: number[],
+  config?: V2PoolConfigInput,
+): Promise<PoolDepthAtPercent[]> {
+  const finalConfig = resolveV2DexConfig(config);
+  const reserves = await getV2Reserves(pairAddress, finalConfig);
+
+  return percents.map((percent) =>
+    getV2DepthAtPercent(reserves, percent, finalConfig.feeBps),
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { zeroAddress } from "viem";
+import {
+  V4_DYNAMIC_FEE_FLAG,
+  computeV4PoolId,
+  getInfinityTickSpacing,
+  isDynamicFee,
+  V4PoolKey,
+} from "./v4";
+
+// ETH/USDC 0.05% on Ethereum
+const ethUsdcKey: V4PoolKey = {
+  currency0: zeroAddress,
+  currency1: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+  fee: 500,
+  tickSpacing: 10,
+  hooks: zeroAddress,
+};
+
+describe("V4 pool keys", () => {
+  it("computes the Uniswap V4 PoolId", () => {
+    expect(computeV4PoolId(ethUsdcKey, { dexKey: "uniswap-v4-ethereum" })).toBe(
+      "0x21c67e77068de97969ba93d4aab21826d33ca12bb9f565d8496e8fda8a82ca27",
+    );
+  });
+
+  it("includes the pool manager and parameters in Infinity PoolIds", () => {
+    const id = computeV4PoolId(ethUsdcKey, {
+      dexKey: "pancakeswap-infinity-bsc",
+    });
+    const withParameters = computeV4PoolId(
+      {
+        ...ethUsdcKey,
+        parameters:
+          "0x00000000000000000000000000000000000000000000000000000000000a0000",
+      },
+      { dexKey: "pancakeswap-infinity-bsc" },
+    );
+
+    expect(id).not.toBe(
+      computeV4PoolId(ethUsdcKey, { dexKey: "uniswap-v4-ethereum" }),
+    );
+    expect(withParameters).toBe(id);
+  });
+
+  it("decodes Infinity tick spacing and the dynamic fee flag", () => {
+    expect(
+      getInfinityTickSpacing(
+        "0x00000000000000000000000000000000000000000000000000000000003c0055",
+      ),
+    ).toBe(60);
+    expect(isDynamicFee(V4_DYNAMIC_FEE_FLAG)).toBe(true);
+    expect(isDynamicFee(3000)).toBe(false);
+  });
+});
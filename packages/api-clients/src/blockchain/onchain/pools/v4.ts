@@ -0,0 +1,584 @@
+import { getLogger, Logger } from "@dex-ai/core";
+import {
+  encodeAbiParameters,
+  keccak256,
+  pad,
+  slice,
+  toHex,
+  zeroAddress,
+} from "viem";
+import {
+  PANCAKE_INFINITY_CL_POOL_MANAGER_ABI,
+  UNISWAP_V4_POSITION_MANAGER_ABI,
+  UNISWAP_V4_STATE_VIEW_ABI,
+} from "../abis";
+import {
+  V4PoolConfig,
+  V4PoolConfigInput,
+  getChainById,
+  resolveV4DexConfig,
+} from "./config";
+import { getTokenInfo, getTokenPriceUSD, type TokenInfo } from "../token";
+import { createClient } from "../client";
+import { calculateTokenRatios, type PoolBaseInfo } from "./core";
+import {
+  buildLiquidityDistribution,
+  getBitmapTickRange,
+  getBitmapWordRange,
+  getCurrentBitmapWord,
+  getTicksFromBitmapWord,
+  type LiquidityInfo,
+  type TickLiquidityData,
+} from "./ticks";
+import {
+  PoolDepthAtPercent,
+  PoolTickSnapshot,
+  getDepthAtPercent,
+} from "./swapSimulator";
+
+const logger: Logger = getLogger("blockchain-onchain-pools-v4");
+
+/**
+ * Uniswap V4 / PancakeSwap Infinity singleton pool reader
+ *
+ * Pools live inside one PoolManager and are identified by a PoolId (the hash
+ * of their PoolKey) instead of an address. State is read through the
+ * StateView lens on Uniswap and straight from the CLPoolManager on Infinity,
+ * then shaped like V3 data so tick distribution, cliff detection and the
+ * swap simulator work unchanged. Hook logic is not simulated, pools with
+ * hooks are flagged instead.
+ */
+
+// LPFeeLibrary.DYNAMIC_FEE_FLAG, the hook sets the fee per swap
+export const V4_DYNAMIC_FEE_FLAG = 0x800000;
+
+export type V4PoolId = `0x${string}`;
+
+export interface V4PoolKey {
+  currency0: `0x${string}`; // address(0) is the native currency
+  currency1: `0x${string}`;
+  fee: number; // Hundredths of a bip, or V4_DYNAMIC_FEE_FLAG
+  tickSpacing: number;
+  hooks: `0x${string}`;
+  parameters?: `0x${string}`; // Infinity only: hook registrations and tick spacing
+}
+
+export interface V4PoolState {
+  poolId: V4PoolId;
+  dexName: string;
+  poolKey: V4PoolKey;
+  hooks: `0x${string}`;
+  hasHooks: boolean;
+  isDynamicFee: boolean;
+  sqrtPriceX96: bigint;
+  currentTick: number;
+  liquidity: bigint;
+  protocolFee: number;
+  lpFee: number; // Fee currently charged, also for dynamic-fee pools
+}
+
+/**
+ * PoolBaseInfo of a V4 pool, poolAddress holds the PoolId
+ *
+ * The PoolManager holds every pool's tokens together, so per-pool token
+ * totals are not available and are reported as 0; use the tick
+ * distribution for in-range value.
+ */
+export type V4PoolBaseInfo = PoolBaseInfo &
+  Pick<
+    V4PoolState,
+    "poolId" | "hooks" | "hasHooks" | "isDynamicFee" | "protocolFee" | "lpFee"
+  >;
+
+export function isDynamicFee(fee: number): boolean {
+  return fee === V4_DYNAMIC_FEE_FLAG;
+}
+
+/**
+ * Tick spacing packed into bits 16-39 of an Infinity CL pool's parameters
+ */
+export function getInfinityTickSpacing(parameters: `0x${string}`): number {
+  return Number(BigInt.asIntN(24, BigInt(parameters) >> 16n));
+}
+
+/**
+ * Compute the PoolId of a PoolKey
+ */
+export function computeV4PoolId(
+  poolKey: V4PoolKey,
+  config?: V4PoolConfigInput,
+): V4PoolId {
+  const finalConfig = resolveV4DexConfig(config);
+  const { currency0, currency1, fee, tickSpacing, hooks } = poolKey;
+
+  if (finalConfig.protocol === "pancakeswap-infinity") {
+    const parameters =
+      poolKey.parameters ?? pad(toHex(BigInt(tickSpacing) << 16n));
+    return keccak256(
+      encodeAbiParameters(
+        [
+          { type: "address" },
+          { type: "address" },
+          { type: "address" },
+          { type: "address" },
+          { type: "uint24" },
+          { type: "bytes32" },
+        ],
+        [
+          currency0,
+          currency1,
+          hooks,
+          finalConfig.factoryAddress as `0x${string}`,
+          fee,
+          parameters,
+        ],
+      ),
+    );
+  }
+
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address" },
+        { type: "address" },
+        { type: "uint24" },
+        { type: "int24" },
+        { type: "address" },
+      ],
+      [currency0, currency1, fee, tickSpacing, hooks],
+    ),
+  );
+}
+
+/**
+ * 1. Resolve the PoolKey behind a PoolId
+ *
+ * Uniswap V4 keys are looked up in the PositionManager, which only knows
+ * pools that had a position minted through it. Returns null for unknown pools.
+ */
+export async function getV4PoolKey(
+  poolId: V4PoolId,
+  config?: V4PoolConfigInput,
+): Promise<V4PoolKey | null> {
+  const finalConfig = resolveV4DexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    let poolKey: V4PoolKey;
+    if (finalConfig.protocol === "pancakeswap-infinity") {
+      const [currency0, currency1, hooks, poolManager, fee, parameters] =
+        await client.readContract({
+          address: finalConfig.factoryAddress as `0x${string}`,
+          abi: PANCAKE_INFINITY_CL_POOL_MANAGER_ABI,
+          functionName: "poolIdToPoolKey",
+          args: [poolId],
+        });
+      if (poolManager === zeroAddress) return null;
+      poolKey = {
+        currency0,
+        currency1,
+        fee,
+        tickSpacing: getInfinityTickSpacing(parameters),
+        hooks,
+        parameters,
+      };
+    } else {
+      if (!finalConfig.positionManagerAddress) {
+        throw new Error(
+          `No PositionManager configured for ${finalConfig.dexName}`,
+        );
+      }
+      const [currency0, currency1, fee, tickSpacing, hooks] =
+        await client.readContract({
+          address: finalConfig.positionManagerAddress as `0x${string}`,
+          abi: UNISWAP_V4_POSITION_MANAGER_ABI,
+          functionName: "poolKeys",
+          args: [slice(poolId, 0, 25)],
+        });
+      if (tickSpacing === 0) return null;
+      poolKey = { currency0, currency1, fee, tickSpacing, hooks };
+    }
+
+    logger.info("[V4PoolAnalyzer] Resolved pool key", {
+      poolId,
+      dexName: finalConfig.dexName,
+      currency0: poolKey.currency0,
+      currency1: poolKey.currency1,
+      fee: poolKey.fee,
+      tickSpacing: poolKey.tickSpacing,
+      hooks: poolKey.hooks,
+    });
+
+    return poolKey;
+  } catch (error) {
+    logger.error("[V4PoolAnalyzer] Error resolving pool key", {
+      poolId,
+      dexName: finalConfig.dexName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+async function readV4Slot0AndLiquidity(
+  client: ReturnType<typeof createClient>,
+  config: V4PoolConfig,
+  poolId: V4PoolId,
+) {
+  if (config.protocol === "pancakeswap-infinity") {
+    const address = config.factoryAddress as `0x${string}`;
+    const abi = PANCAKE_INFINITY_CL_POOL_MANAGER_ABI;
+    return client.multicall({
+      contracts: [
+        { address, abi, functionName: "getSlot0", args: [poolId] },
+        { address, abi, functionName: "getLiquidity", args: [poolId] },
+      ],
+      allowFailure: false,
+      batchSize: 4096,
+    });
+  }
+
+  const address = config.stateViewAddress as `0x${string}`;
+  const abi = UNISWAP_V4_STATE_VIEW_ABI;
+  return client.multicall({
+    contracts: [
+      { address, abi, functionName: "getSlot0", args: [poolId] },
+      { address, abi, functionName: "getLiquidity", args: [poolId] },
+    ],
+    allowFailure: false,
+    batchSize: 4096,
+  });
+}
+
+/**
+ * 2. Get pool state: key, slot0, active liquidity and hook metadata
+ */
+export async function getV4PoolState(
+  poolId: V4PoolId,
+  config?: V4PoolConfigInput,
+): Promise<V4PoolState> {
+  const finalConfig = resolveV4DexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    const [poolKey, [slot0, liquidity]] = await Promise.all([
+      getV4PoolKey(poolId, finalConfig),
+      readV4Slot0AndLiquidity(client, finalConfig, poolId),
+    ]);
+    const [sqrtPriceX96, tick, protocolFee, lpFee] = slot0;
+
+    if (!poolKey || sqrtPriceX96 === 0n) {
+      throw new Error(`Pool ${poolId} not found on ${finalConfig.dexName}`);
+    }
+
+    const state: V4PoolState = {
+      poolId,
+      dexName: finalConfig.dexName,
+      poolKey,
+      hooks: poolKey.hooks,
+      hasHooks: poolKey.hooks !== zeroAddress,
+      isDynamicFee: isDynamicFee(poolKey.fee),
+      sqrtPriceX96,
+      currentTick: tick,
+      liquidity,
+      protocolFee,
+      lpFee,
+    };
+
+    logger.info("[V4PoolAnalyzer] Got pool state", {
+      poolId,
+      currentTick: tick,
+      lpFee,
+      hooks: state.hooks,
+      isDynamicFee: state.isDynamicFee,
+    });
+
+    return state;
+  } catch (error) {
+    logger.error("[V4PoolAnalyzer] Error getting pool state", {
+      poolId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Read bitmap words around the current tick and the initialized ticks in them
+ */
+async function readV4TickData(
+  client: ReturnType<typeof createClient>,
+  config: V4PoolConfig,
+  state: V4PoolState,
+  wordRange: number,
+): Promise<{ words: number[]; ticks: TickLiquidityData[] }> {
+  const { poolId, poolKey, currentTick } = state;
+  const { tickSpacing } = poolKey;
+  const words = getBitmapWordRange(
+    getCurrentBitmapWord(currentTick, tickSpacing),
+    wordRange,
+  );
+  const infinity = config.protocol === "pancakeswap-infinity";
+  const address = (
+    infinity ? config.factoryAddress : config.stateViewAddress
+  ) as `0x${string}`;
+
+  const bitmapResults = infinity
+    ? await client.multicall({
+        contracts: words.map((word) => ({
+          address,
+          abi: PANCAKE_INFINITY_CL_POOL_MANAGER_ABI,
+          functionName: "getPoolBitmapInfo" as const,
+          args: [poolId, word] as const,
+        })),
+        allowFailure: true,
+        batchSize: 4096,
+      })
+    : await client.multicall({
+        contracts: words.map((word) => ({
+          address,
+          abi: UNISWAP_V4_STATE_VIEW_ABI,
+          functionName: "getTickBitmap" as const,
+          args: [poolId, word] as const,
+        })),
+        allowFailure: true,
+        batchSize: 4096,
+      });
+
+  const initializedTicks: number[] = [];
+  bitmapResults.forEach((result, i) => {
+    if (result.status !== "success") {
+      logger.warn("[V4PoolAnalyzer] Failed to read bitmap word", {
+        poolId,
+        word: words[i],
+      });
+      return;
+    }
+    initializedTicks.push(
+      ...getTicksFromBitmapWord(words[i], result.result, tickSpacing),
+    );
+  });
+  if (!initializedTicks.includes(currentTick)) {
+    initializedTicks.push(currentTick);
+  }
+  const uniqueTicks = [...new Set(initializedTicks)].sort((a, b) => a - b);
+
+  const tickResults = infinity
+    ? (
+        await client.multicall({
+          contracts: uniqueTicks.map((tick) => ({
+            address,
+            abi: PANCAKE_INFINITY_CL_POOL_MANAGER_ABI,
+            functionName: "getPoolTickInfo" as const,
+            args: [poolId, tick] as const,
+          })),
+          allowFailure: true,
+          batchSize: 4096,
+        })
+      ).map((result) =>
+        result.status === "success"
+          ? [result.result.liquidityGross, result.result.liquidityNet]
+          : null,
+      )
+    : (
+        await client.multicall({
+          contracts: uniqueTicks.map((tick) => ({
+            address,
+            abi: UNISWAP_V4_STATE_VIEW_ABI,
+            functionName: "getTickLiquidity" as const,
+            args: [poolId, tick] as const,
+          })),
+          allowFailure: true,
+          batchSize: 4096,
+        })
+      ).map((result) => (result.status === "success" ? result.result : null));
+
+  const ticks: TickLiquidityData[] = [];
+  tickResults.forEach((result, i) => {
+    if (!result) {
+      logger.warn("[V4PoolAnalyzer] Failed to read tick", {
+        poolId,
+        tick: uniqueTicks[i],
+      });
+      return;
+    }
+    const [liquidityGross, liquidityNet] = result;
+    ticks.push({
+      tick: uniqueTicks[i],
+      liquidityNet,
+      liquidityGross,
+      initialized: liquidityGross > 0n,
+    });
+  });
+
+  logger.info("[V4PoolAnalyzer] Read tick data", {
+    poolId,
+    words: words.length,
+    ticks: ticks.length,
+  });
+
+  return { words, ticks };
+}
+
+/**
+ * Token info for a pool currency, address(0) being the chain's native currency
+ */
+async function getV4CurrencyInfo(
+  currency: `0x${string}`,
+  config: V4PoolConfig,
+): Promise<TokenInfo & { priceUSD: number }> {
+  const isNative = currency === zeroAddress;
+  const tokenInfo: TokenInfo = isNative
+    ? { address: currency, ...getChainById(config.chainId).nativeCurrency }
+    : await getTokenInfo(currency, config);
+
+  // The native currency is priced through its wrapped token
+  const priceUSD = await getTokenPriceUSD(
+    config.chainId,
+    isNative ? (config.wrappedNativeAddress as `0x${string}`) : currency,
+    tokenInfo.symbol,
+  );
+
+  return { ...tokenInfo, priceUSD };
+}
+
+/**
+ * 3. Get pool base info with token information and hook metadata
+ */
+export async function getV4PoolBaseInfoWithTokenInfo(
+  poolId: V4PoolId,
+  config?: V4PoolConfigInput,
+): Promise<V4PoolBaseInfo> {
+  const finalConfig = resolveV4DexConfig(config);
+
+  const state = await getV4PoolState(poolId, finalConfig);
+  const [token0Info, token1Info] = await Promise.all([
+    getV4CurrencyInfo(state.poolKey.currency0, finalConfig),
+    getV4CurrencyInfo(state.poolKey.currency1, finalConfig),
+  ]);
+
+  const tokenRatios = calculateTokenRatios({
+    currentTick: state.currentTick,
+    sqrtPriceX96: state.sqrtPriceX96,
+    token0Decimals: token0Info.decimals,
+    token1Decimals: token1Info.decimals,
+  });
+
+  return {
+    poolAddress: poolId,
+    poolId,
+    token0: { ...token0Info, tokenBalance: 0, tokenUSD: 0 },
+    token1: { ...token1Info, tokenBalance: 0, tokenUSD: 0 },
+    currentTick: state.currentTick,
+    sqrtPriceX96: state.sqrtPriceX96,
+    liquidity: state.liquidity,
+    tickSpacing: state.poolKey.tickSpacing,
+    token0Total: 0,
+    token1Total: 0,
+    token0TotalUSD: 0,
+    token1TotalUSD: 0,
+    totalUSD: 0,
+    tokenRatio: { token0Percent: 0, token1Percent: 0 },
+    rawTokenRatio: tokenRatios.tokenRatio,
+    rawTokenRatioFromTick: tokenRatios.tokenRatioFromTick,
+    rawTokenRatioFromSqrtPrice: tokenRatios.tokenRatioFromSqrtPrice,
+    adjustedTokenRatio: tokenRatios.adjustedTokenRatio,
+    hooks: state.hooks,
+    hasHooks: state.hasHooks,
+    isDynamicFee: state.isDynamicFee,
+    protocolFee: state.protocolFee,
+    lpFee: state.lpFee,
+  };
+}
+
+/**
+ * 4. Get tick and liquidity distribution, ready for detectLiquidityCliffs
+ */
+export async function getV4TickLiquidityDistribution(
+  poolId: V4PoolId,
+  wordRange: number = 10,
+  config?: V4PoolConfigInput,
+): Promise<LiquidityInfo[]> {
+  const finalConfig = resolveV4DexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    const state = await getV4PoolState(poolId, finalConfig);
+    const [{ ticks }, token0Info, token1Info] = await Promise.all([
+      readV4TickData(client, finalConfig, state, wordRange),
+      getV4CurrencyInfo(state.poolKey.currency0, finalConfig),
+      getV4CurrencyInfo(state.poolKey.currency1, finalConfig),
+    ]);
+
+    return buildLiquidityDistribution(
+      ticks,
+      state.currentTick,
+      token0Info,
+      token1Info,
+      state.liquidity,
+    );
+  } catch (error) {
+    logger.error("[V4PoolAnalyzer] Error getting tick liquidity distribution", {
+      poolId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * 5. Fetch the pool state and initialized ticks needed by `simulateSwap`
+ *
+ * Uses the current LP fee, so dynamic-fee pools simulate at the fee of the
+ * moment and hook fees or deltas are not included.
+ */
+export async function getV4PoolTickSnapshot(
+  poolId: V4PoolId,
+  wordRange: number = 10,
+  config?: V4PoolConfigInput,
+): Promise<PoolTickSnapshot> {
+  const finalConfig = resolveV4DexConfig(config);
+  const client = createClient(finalConfig);
+
+  try {
+    const state = await getV4PoolState(poolId, finalConfig);
+    const { words, ticks } = await readV4TickData(
+      client,
+      finalConfig,
+      state,
+      wordRange,
+    );
+    const { tickSpacing } = state.poolKey;
+
+    return {
+      sqrtPriceX96: state.sqrtPriceX96,
+      currentTick: state.currentTick,
+      liquidity: state.liquidity,
+      fee: state.lpFee,
+      tickSpacing,
+      ticks: ticks
+        .filter((t) => t.initialized)
+        .map(({ tick, liquidityNet }) => ({ tick, liquidityNet })),
+      ...getBitmapTickRange(words, tickSpacing),
+    };
+  } catch (error) {
+    logger.error("[V4PoolAnalyzer] Error getting pool tick snapshot", {
+      poolId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * 6. Get pool depth at each of the given percentages
+ */
+export async function getV4PoolDepth(
+  poolId: V4PoolId,
+  percents: number[],
+  wordRange: number = 10,
+  config?: V4PoolConfigInput,
+): Promise<PoolDepthAtPercent[]> {
+  const snapshot = await getV4PoolTickSnapshot(poolId, wordRange, config);
+  return percents.map((percent) => getDepthAtPercent(snapshot, percent));
+}
@@ -1,8 +1,8 @@
 import { getLogger, Logger, TIME_CONSTANTS } from "@dex-ai/core";
 import { ERC20_ABI } from "../abis";
 import {
-  V3PoolConfig,
-  DEFAULT_CONFIG,
+  PoolConfigInput,
+  resolveDexConfig,
   getCoinGeckoChainName,
 } from "../pools/config";
 import { getTokenPrice as getTokenPriceFromCoingecko } from "../../coingecko";
@@ -54,9 +54,9 @@ function deleteCache(key: string): void {
  */
 export async function getTokenInfo(
   tokenAddress: `0x${string}`,
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<TokenInfo> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const cacheKey = `token_info_${finalConfig.chainId}_${tokenAddress.toLowerCase()}`;
 
   // Try to get from cache
@@ -182,9 +182,9 @@ export async function getTokenPriceUSD(
  */
 export async function getBatchTokenInfo(
   tokenAddresses: `0x${string}`[],
-  config?: V3PoolConfig,
+  config?: PoolConfigInput,
 ): Promise<Record<string, TokenInfo>> {
-  const finalConfig = config || DEFAULT_CONFIG;
+  const finalConfig = resolveDexConfig(config);
   const result: Record<string, TokenInfo> = {};
 
   // Check cache first
@@ -204,6 +204,84 @@ export const fetchTradePrice = async (
   }
 };
 
+// PancakeSwap Smart Router on BSC
+export const PANCAKE_SMART_ROUTER_ADDRESS =
+  "0x13f4EA83D0bd40E75C8222255bc855a974568Dd4";
+
+export type PancakeRouteQuote = {
+  inputAmount: string;
+  outputAmount: string;
+  priceImpactPercent: number;
+  routes: {
+    percent: number; // Share of the input sent through this route
+    path: { address: string; symbol: string }[];
+    pools: string[]; // Pool addresses, one per hop
+  }[];
+  gasEstimate: string; // Gas units
+  gasEstimateInUSD?: string;
+};
+
+/**
+ * Quote an exact-input swap of a raw amount through the Smart Router
+ * Unlike fetchTradePrice, reports price impact, routes and gas of the trade
+ */
+export const getSmartRouterQuote = async ({
+  swapFrom,
+  toToken,
+  amount,
+}: {
+  swapFrom: TokenInput;
+  toToken: TokenInput;
+  amount: string; // In base units of swapFrom
+}): Promise<PancakeRouteQuote | null> => {
+  logger.info("[Pancake] getSmartRouterQuote called", {
+    swapFrom,
+    toToken,
+    amount,
+  });
+  const fromToken = toERC20Token(swapFrom);
+  const toTokenObj = toERC20Token(toToken);
+  const pools = await getPools(swapFrom, toToken);
+  const trade = await SmartRouter.getBestTrade(
+    CurrencyAmount.fromRawAmount(fromToken, amount),
+    toTokenObj,
+    TradeType.EXACT_INPUT,
+    {
+      gasPriceWei: () => publicClient.getGasPrice(),
+      maxHops: 3,
+      maxSplits: 2,
+      poolProvider: SmartRouter.createStaticPoolProvider(pools),
+      quoteProvider: SmartRouter.createQuoteProvider({ onChainProvider }),
+      quoterOptimization: true,
+    },
+  );
+
+  if (!trade) {
+    logger.info("[Pancake] No trade found", {
+      from: fromToken.symbol,
+      to: toToken.symbol,
+      amount,
+    });
+    return null;
+  }
+
+  return {
+    inputAmount: trade.inputAmount.toExact(),
+    outputAmount: trade.outputAmount.toExact(),
+    priceImpactPercent: Number(SmartRouter.getPriceImpact(trade).toFixed(4)),
+    routes: trade.routes.map((route) => ({
+      percent: route.percent,
+      path: route.path.map((currency) => ({
+        address: currency.wrapped.address,
+        symbol: currency.symbol,
+      })),
+      pools: route.pools.map((pool) => SmartRouter.getPoolAddress(pool)),
+    })),
+    gasEstimate: trade.gasEstimate.toString(),
+    gasEstimateInUSD: trade.gasEstimateInUSD?.toExact(),
+  };
+};
+
 export const getBestPrices = async ({
   swapFrom,
   toTokens,
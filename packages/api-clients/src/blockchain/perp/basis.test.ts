@@ -0,0 +1,213 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+
+vi.mock("./funding", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  getPerpFundingRate: vi.fn(),
+}));
+vi.mock("./symbolResolver", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  resolvePerpSymbols: vi.fn(),
+}));
+vi.mock("../okexchange/dex", () => ({ getOkxBatchTokenPrices: vi.fn() }));
+vi.mock("../onchain/pools/core", () => ({ getPoolPrice: vi.fn() }));
+
+import { getPerpFundingRate } from "./funding";
+import { resolvePerpSymbols } from "./symbolResolver";
+import { getOkxBatchTokenPrices } from "../okexchange/dex";
+import { getPoolPrice } from "../onchain/pools/core";
+import {
+  calculatePerpBasis,
+  createBasisMonitor,
+  getBasisSpotPrice,
+  getPerpBasis,
+} from "./basis";
+import { PerpFundingRate, PerpVenue } from "./types";
+
+const OKX_SPOT = { type: "okx_dex" as const, address: "0xPepe" };
+
+function funding(
+  venue: PerpVenue,
+  symbol: string,
+  markPrice?: number,
+): PerpFundingRate {
+  return {
+    venue,
+    symbol,
+    fundingRate: 0.0001,
+    predictedFundingRate: 0.0001,
+    fundingIntervalHours: 8,
+    nextFundingTime: 2000,
+    markPrice,
+    indexPrice: markPrice,
+    timestamp: 1000,
+  };
+}
+
+describe("calculatePerpBasis", () => {
+  it("normalizes multiplied contracts and annualizes over the funding interval", () => {
+    const basis = calculatePerpBasis(
+      funding(PriceSourceName.BINANCE, "1000PEPEUSDT", 0.0101),
+      { baseAsset: "PEPE", multiplier: 1000 },
+      { source: "okx_dex", price: 0.00001, timestamp: 500 },
+    );
+
+    expect(basis?.markPrice).toBeCloseTo(0.0000101, 12);
+    expect(basis?.basisPercent).toBeCloseTo(1, 8);
+    expect(basis?.indexBasisPercent).toBeCloseTo(1, 8);
+    // 1% every 8 hours, 1095 intervals a year
+    expect(basis?.annualizedBasisPercent).toBeCloseTo(1095, 4);
+    expect(basis?.annualizedFundingPercent).toBeCloseTo(10.95, 8);
+    expect(basis?.timestamp).toBe(1000);
+  });
+
+  it("returns null without a mark price", () => {
+    expect(
+      calculatePerpBasis(
+        funding(PriceSourceName.BYBIT, "PEPEUSDT"),
+        { baseAsset: "PEPE", multiplier: 1 },
+        { source: "okx_dex", price: 1, timestamp: 0 },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("getBasisSpotPrice", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reads the OKX DEX price of the token", async () => {
+    vi.mocked(getOkxBatchTokenPrices).mockResolvedValue([
+      {
+        chainIndex: "56",
+        tokenContractAddress: "0xpepe",
+        price: "0.00001",
+        time: "1700000000000",
+      },
+    ]);
+
+    const spot = await getBasisSpotPrice(OKX_SPOT);
+
+    expect(getOkxBatchTokenPrices).toHaveBeenCalledWith({
+      platform: "binance-smart-chain",
+      tokenContractAddresses: ["0xPepe"],
+    });
+    expect(spot).toEqual({
+      source: "okx_dex",
+      price: 0.00001,
+      timestamp: 1700000000000,
+    });
+  });
+
+  it("prices the token from the pool side it sits on", async () => {
+    vi.mocked(getPoolPrice).mockResolvedValue({
+      token0Price: 2.5,
+      token1Price: 0.4,
+    } as Awaited<ReturnType<typeof getPoolPrice>>);
+
+    const spot = await getBasisSpotPrice({
+      type: "v3_pool",
+      poolAddress: "0xpool",
+      baseIsToken0: false,
+      token0Decimals: 18,
+      token1Decimals: 18,
+      quotePriceUsd: 600,
+    });
+
+    expect(spot?.price).toBe(1500);
+  });
+});
+
+describe("getPerpBasis", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getOkxBatchTokenPrices).mockResolvedValue([
+      {
+        chainIndex: "56",
+        tokenContractAddress: "0xpepe",
+        price: "0.00001",
+        time: "1000",
+      },
+    ]);
+    vi.mocked(resolvePerpSymbols).mockResolvedValue({
+      [PriceSourceName.BINANCE]: {
+        venue: PriceSourceName.BINANCE,
+        symbol: "1000PEPEUSDT",
+        baseAsset: "PEPE",
+        multiplier: 1000,
+      },
+      [PriceSourceName.BYBIT]: {
+        venue: PriceSourceName.BYBIT,
+        symbol: "1000PEPEUSDT",
+        baseAsset: "PEPE",
+        multiplier: 1000,
+      },
+    });
+  });
+
+  it("omits venues without funding data", async () => {
+    vi.mocked(getPerpFundingRate).mockImplementation(async (venue, symbol) =>
+      venue === PriceSourceName.BINANCE ? funding(venue, symbol, 0.0099) : null,
+    );
+
+    const snapshot = await getPerpBasis({ symbol: "pepe" }, OKX_SPOT);
+
+    expect(getPerpFundingRate).toHaveBeenCalledWith(
+      PriceSourceName.BINANCE,
+      "1000PEPEUSDT",
+    );
+    expect(snapshot.baseAsset).toBe("PEPE");
+    expect(snapshot.venues).toHaveLength(1);
+    expect(snapshot.venues[0].basisPercent).toBeCloseTo(-1, 8);
+  });
+
+  it("throws when the spot source has no price", async () => {
+    vi.mocked(getOkxBatchTokenPrices).mockResolvedValue([]);
+
+    await expect(getPerpBasis({ symbol: "PEPE" }, OKX_SPOT)).rejects.toThrow(
+      "No okx_dex spot price available for PEPE",
+    );
+  });
+
+  it("tracks polled snapshots in a bounded history", async () => {
+    vi.mocked(getPerpFundingRate).mockImplementation(async (venue, symbol) =>
+      funding(venue, symbol, 0.0101),
+    );
+    const onSnapshot = vi.fn();
+    const monitor = createBasisMonitor({
+      token: { symbol: "PEPE" },
+      spot: OKX_SPOT,
+      historySize: 2,
+    });
+    monitor.onSnapshot(onSnapshot);
+
+    await monitor.poll();
+    await monitor.poll();
+    await monitor.poll();
+
+    expect(onSnapshot).toHaveBeenCalledTimes(3);
+    expect(monitor.getHistory()).toHaveLength(4);
+    expect(
+      monitor.getHistory({ venue: PriceSourceName.BYBIT }).map((b) => b.venue),
+    ).toEqual([PriceSourceName.BYBIT, PriceSourceName.BYBIT]);
+    expect(monitor.getLatest()?.venues).toHaveLength(2);
+
+    monitor.clearHistory();
+    expect(monitor.getLatest()).toBeNull();
+  });
+
+  it("reports poll failures without throwing", async () => {
+    vi.mocked(getOkxBatchTokenPrices).mockRejectedValue(new Error("timeout"));
+    const onError = vi.fn();
+    const monitor = createBasisMonitor({
+      token: { symbol: "PEPE" },
+      spot: OKX_SPOT,
+      onError,
+    });
+
+    await expect(monitor.poll()).resolves.toBeNull();
+    expect(onError).toHaveBeenCalledWith(new Error("timeout"));
+    expect(monitor.getHistory()).toEqual([]);
+  });
+});
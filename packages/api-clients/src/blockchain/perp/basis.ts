@@ -0,0 +1,309 @@
+/**
+ * Perp vs Spot Basis
+ *
+ * Compares each venue's perp mark and index price against the DEX spot price
+ * of the same token, the core signal of a cash-and-carry trade. Perps never
+ * expire, so the basis is annualized over the funding interval, the horizon
+ * over which funding pulls the mark back towards the index.
+ */
+
+import { getLogger, Logger } from "@dex-ai/core";
+import { BlockchainPlatform } from "../types";
+import { getOkxBatchTokenPrices } from "../okexchange/dex";
+import { getPoolPrice } from "../onchain/pools/core";
+import {
+  annualizeFundingRate,
+  getPerpFundingRate,
+  PERP_VENUES,
+} from "./funding";
+import { normalizePerpPrice, resolvePerpSymbols } from "./symbolResolver";
+import {
+  BasisHistoryFilter,
+  BasisMonitorConfig,
+  BasisSnapshotCallback,
+  BasisSpotPrice,
+  BasisSpotSource,
+  PerpBasis,
+  PerpBasisSnapshot,
+  PerpContractListing,
+  PerpFundingRate,
+  PerpSymbolToken,
+  PerpVenue,
+} from "./types";
+
+const logger: Logger = getLogger("perp-basis");
+
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+const DEFAULT_HISTORY_SIZE = 2880; // 1 day at the default poll interval
+
+export interface BasisMonitor {
+  start: () => Promise<void>;
+  stop: () => void;
+  isRunning: () => boolean;
+  poll: () => Promise<PerpBasisSnapshot | null>;
+  onSnapshot: (callback: BasisSnapshotCallback) => () => void;
+  getLatest: () => PerpBasisSnapshot | null;
+  getHistory: (filter?: BasisHistoryFilter) => PerpBasis[];
+  clearHistory: () => void;
+}
+
+/**
+ * Get the USD spot price of a token from a DEX source
+ *
+ * Returns null when the source has no price for the token.
+ */
+export async function getBasisSpotPrice(
+  source: BasisSpotSource,
+): Promise<BasisSpotPrice | null> {
+  if (source.type === "okx_dex") {
+    const prices = await getOkxBatchTokenPrices({
+      platform: source.platform ?? BlockchainPlatform.BINANCE_SMART_CHAIN,
+      tokenContractAddresses: [source.address],
+    });
+    const item = prices.find(
+      (price) =>
+        price.tokenContractAddress.toLowerCase() ===
+        source.address.toLowerCase(),
+    );
+    const price = Number(item?.price);
+    if (!item || !(price > 0)) return null;
+
+    return {
+      source: source.type,
+      price,
+      timestamp: Number(item.time) || Date.now(),
+    };
+  }
+
+  const poolPrice = await getPoolPrice(
+    source.poolAddress,
+    source.config,
+    source.token0Decimals,
+    source.token1Decimals,
+  );
+  // token1Price is token1 per token0, token0Price the inverse
+  const pairedPerToken = source.baseIsToken0
+    ? poolPrice.token1Price
+    : poolPrice.token0Price;
+  const price = pairedPerToken * (source.quotePriceUsd ?? 1);
+  if (!Number.isFinite(price) || price <= 0) return null;
+
+  return { source: source.type, price, timestamp: Date.now() };
+}
+
+/**
+ * Calculate a venue's basis against the spot price
+ *
+ * Returns null when the venue did not report a mark price.
+ */
+export function calculatePerpBasis(
+  funding: PerpFundingRate,
+  listing: Pick<PerpContractListing, "baseAsset" | "multiplier">,
+  spot: BasisSpotPrice,
+): PerpBasis | null {
+  if (!funding.markPrice || spot.price <= 0) return null;
+
+  const markPrice = normalizePerpPrice(funding.markPrice, listing);
+  const indexPrice = funding.indexPrice
+    ? normalizePerpPrice(funding.indexPrice, listing)
+    : null;
+  const basisPercent = ((markPrice - spot.price) / spot.price) * 100;
+
+  return {
+    venue: funding.venue,
+    symbol: funding.symbol,
+    baseAsset: listing.baseAsset,
+    spotPrice: spot.price,
+    spotSource: spot.source,
+    markPrice,
+    indexPrice,
+    basisPercent,
+    indexBasisPercent:
+      indexPrice !== null
+        ? ((indexPrice - spot.price) / spot.price) * 100
+        : null,
+    fundingIntervalHours: funding.fundingIntervalHours,
+    annualizedBasisPercent: annualizeFundingRate(
+      basisPercent,
+      funding.fundingIntervalHours,
+    ),
+    predictedFundingRate: funding.predictedFundingRate,
+    annualizedFundingPercent:
+      annualizeFundingRate(
+        funding.predictedFundingRate,
+        funding.fundingIntervalHours,
+      ) * 100,
+    nextFundingTime: funding.nextFundingTime,
+    timestamp: Math.max(funding.timestamp, spot.timestamp),
+  };
+}
+
+/**
+ * Get the current basis of a token on every perp venue listing it
+ *
+ * Throws when the spot source has no price, venues without a listing or
+ * mark price are omitted from the snapshot.
+ */
+export async function getPerpBasis(
+  token: PerpSymbolToken,
+  spotSource: BasisSpotSource,
+  venues: PerpVenue[] = PERP_VENUES,
+): Promise<PerpBasisSnapshot> {
+  const [spot, listings] = await Promise.all([
+    getBasisSpotPrice(spotSource),
+    resolvePerpSymbols(token, venues),
+  ]);
+
+  if (!spot) {
+    throw new Error(
+      `No ${spotSource.type} spot price available for ${token.symbol}`,
+    );
+  }
+
+  const bases = await Promise.all(
+    Object.values(listings).map(async (listing) => {
+      const funding = await getPerpFundingRate(listing.venue, listing.symbol);
+      return funding ? calculatePerpBasis(funding, listing, spot) : null;
+    }),
+  );
+
+  const snapshot: PerpBasisSnapshot = {
+    baseAsset: token.symbol.toUpperCase(),
+    spot,
+    venues: bases.filter((basis): basis is PerpBasis => basis !== null),
+    timestamp: Date.now(),
+  };
+
+  logger.info("[Perp Basis] Calculated basis", {
+    symbol: snapshot.baseAsset,
+    spotPrice: spot.price,
+    venues: snapshot.venues.map(({ venue, basisPercent }) => ({
+      venue,
+      basisPercent: basisPercent.toFixed(4),
+    })),
+  });
+
+  return snapshot;
+}
+
+function matchesFilter(basis: PerpBasis, filter?: BasisHistoryFilter): boolean {
+  if (!filter) return true;
+  if (filter.venue && basis.venue !== filter.venue) return false;
+  if (filter.since !== undefined && basis.timestamp < filter.since) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Create a monitor that polls a token's basis and keeps its history
+ *
+ * Usage example:
+ *
+ * const monitor = createBasisMonitor({
+ *   token: { symbol: "CAKE" },
+ *   spot: { type: "okx_dex", address: "0x0e09...", platform: "binance-smart-chain" },
+ * });
+ * monitor.onSnapshot((snapshot) => console.log(snapshot.venues));
+ * await monitor.start();
+ */
+export function createBasisMonitor(config: BasisMonitorConfig): BasisMonitor {
+  const venues = config.venues ?? PERP_VENUES;
+  const pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const historySize = config.historySize ?? DEFAULT_HISTORY_SIZE;
+
+  const history: PerpBasisSnapshot[] = [];
+  const listeners = new Set<BasisSnapshotCallback>();
+
+  let running = false;
+  let polling = false;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const emit = (snapshot: PerpBasisSnapshot) => {
+    history.push(snapshot);
+    if (history.length > historySize) {
+      history.splice(0, history.length - historySize);
+    }
+
+    listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        logger.error("[BasisMonitor] Snapshot listener failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  };
+
+  const poll = async (): Promise<PerpBasisSnapshot | null> => {
+    // Skip a tick rather than overlap when the venues respond slowly
+    if (polling) return null;
+    polling = true;
+
+    try {
+      const snapshot = await getPerpBasis(config.token, config.spot, venues);
+      emit(snapshot);
+      return snapshot;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error("[BasisMonitor] Poll failed", {
+        symbol: config.token.symbol,
+        error: err.message,
+      });
+      config.onError?.(err);
+      return null;
+    } finally {
+      polling = false;
+    }
+  };
+
+  const start = async () => {
+    if (running) return;
+    running = true;
+
+    logger.info("[BasisMonitor] Starting", {
+      symbol: config.token.symbol,
+      spot: config.spot.type,
+      venues,
+      pollIntervalMs,
+    });
+
+    await poll();
+    // Stopped while the first poll was in flight
+    if (!running) return;
+    timer = setInterval(poll, pollIntervalMs);
+  };
+
+  const stop = () => {
+    if (!running) return;
+    running = false;
+
+    if (timer) clearInterval(timer);
+    timer = null;
+
+    logger.info("[BasisMonitor] Stopped", {
+      symbol: config.token.symbol,
+      snapshotsInHistory: history.length,
+    });
+  };
+
+  return {
+    start,
+    stop,
+    isRunning: () => running,
+    poll,
+    onSnapshot: (callback) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+    getLatest: () => history[history.length - 1] ?? null,
+    getHistory: (filter) =>
+      history.flatMap((snapshot) =>
+        snapshot.venues.filter((basis) => matchesFilter(basis, filter)),
+      ),
+    clearHistory: () => {
+      history.length = 0;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import { getDepthAtPercent, getMidPrice, getVwapFill } from "./depth";
+import { VenueOrderBook } from "./types";
+
+const book: VenueOrderBook = {
+  venue: PriceSourceName.BYBIT,
+  symbol: "BTCUSDT",
+  bids: [
+    { price: 99, quantity: 1 },
+    { price: 98, quantity: 2 },
+    { price: 90, quantity: 10 },
+  ],
+  asks: [
+    { price: 101, quantity: 1 },
+    { price: 102, quantity: 2 },
+    { price: 110, quantity: 10 },
+  ],
+  timestamp: 0,
+};
+
+describe("order book depth", () => {
+  it("computes the mid price", () => {
+    expect(getMidPrice(book)).toBe(100);
+    expect(getMidPrice({ ...book, asks: [] })).toBeNull();
+  });
+
+  it("sums liquidity within a percent of mid", () => {
+    const depth = getDepthAtPercent(book, 2);
+    expect(depth?.bidQuantity).toBe(3);
+    expect(depth?.bidNotional).toBe(99 + 196);
+    expect(depth?.askQuantity).toBe(3);
+    expect(depth?.askNotional).toBe(101 + 204);
+  });
+
+  it("walks the book by quantity", () => {
+    const fill = getVwapFill(book, "buy", { quantity: 2 });
+    expect(fill?.averagePrice).toBeCloseTo((101 + 102) / 2, 10);
+    expect(fill?.worstPrice).toBe(102);
+    expect(fill?.levelsConsumed).toBe(2);
+    expect(fill?.fullyFilled).toBe(true);
+  });
+
+  it("walks the book by notional", () => {
+    const fill = getVwapFill(book, "sell", { notional: 99 + 98 });
+    expect(fill?.filledQuantity).toBeCloseTo(2, 10);
+    expect(fill?.averagePrice).toBeCloseTo(98.5, 10);
+    expect(fill?.slippagePercent).toBeCloseTo((0.5 / 99) * 100, 10);
+  });
+
+  it("reports partial fills when the book is too thin", () => {
+    const fill = getVwapFill(book, "buy", { quantity: 20 });
+    expect(fill?.filledQuantity).toBe(13);
+    expect(fill?.fullyFilled).toBe(false);
+  });
+});
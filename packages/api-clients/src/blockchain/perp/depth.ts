@@ -0,0 +1,148 @@
+/**
+ * Order Book Depth Analytics
+ *
+ * Pure helpers over VenueOrderBook, identical for every venue.
+ */
+
+import {
+  DepthAtPercent,
+  OrderBookLevel,
+  OrderBookSide,
+  VenueOrderBook,
+  VwapFill,
+} from "./types";
+
+type BookSides = Pick<VenueOrderBook, "bids" | "asks">;
+
+/**
+ * Convert [price, quantity] string tuples into numeric levels,
+ * dropping empty or malformed entries
+ */
+export function toOrderBookLevels(
+  levels: [string | number, string | number][],
+): OrderBookLevel[] {
+  return levels
+    .map(([price, quantity]) => ({
+      price: Number(price),
+      quantity: Number(quantity),
+    }))
+    .filter(
+      (level) =>
+        Number.isFinite(level.price) &&
+        Number.isFinite(level.quantity) &&
+        level.price > 0 &&
+        level.quantity > 0,
+    );
+}
+
+export function getBestBid(book: BookSides): number | null {
+  return book.bids[0]?.price ?? null;
+}
+
+export function getBestAsk(book: BookSides): number | null {
+  return book.asks[0]?.price ?? null;
+}
+
+export function getMidPrice(book: BookSides): number | null {
+  const bid = getBestBid(book);
+  const ask = getBestAsk(book);
+  if (bid === null || ask === null) return null;
+  return (bid + ask) / 2;
+}
+
+/**
+ * Sum the liquidity resting within `percent` of the mid price on each side,
+ * e.g. percent = 1 returns bids >= mid * 0.99 and asks <= mid * 1.01
+ */
+export function getDepthAtPercent(
+  book: VenueOrderBook,
+  percent: number,
+): DepthAtPercent | null {
+  const midPrice = getMidPrice(book);
+  if (midPrice === null) return null;
+
+  const lowerBound = midPrice * (1 - percent / 100);
+  const upperBound = midPrice * (1 + percent / 100);
+
+  const sum = (levels: OrderBookLevel[], inRange: (p: number) => boolean) =>
+    levels
+      .filter((level) => inRange(level.price))
+      .reduce(
+        (acc, level) => ({
+          quantity: acc.quantity + level.quantity,
+          notional: acc.notional + level.quantity * level.price,
+        }),
+        { quantity: 0, notional: 0 },
+      );
+
+  const bids = sum(book.bids, (price) => price >= lowerBound);
+  const asks = sum(book.asks, (price) => price <= upperBound);
+
+  return {
+    percent,
+    midPrice,
+    bidQuantity: bids.quantity,
+    bidNotional: bids.notional,
+    askQuantity: asks.quantity,
+    askNotional: asks.notional,
+  };
+}
+
+/**
+ * Walk the book to fill an order and return the VWAP fill price
+ *
+ * A buy consumes asks, a sell consumes bids. Size is given either in base
+ * quantity or in quote notional; partial fills are reported with
+ * `fullyFilled: false`.
+ */
+export function getVwapFill(
+  book: BookSides,
+  side: OrderBookSide,
+  size: { quantity: number } | { notional: number },
+): VwapFill | null {
+  const levels = side === "buy" ? book.asks : book.bids;
+  if (!levels.length) return null;
+
+  const byQuantity = "quantity" in size;
+  let remaining = byQuantity ? size.quantity : size.notional;
+  let filledQuantity = 0;
+  let filledNotional = 0;
+  let worstPrice = levels[0].price;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+
+    const levelSize = byQuantity
+      ? level.quantity
+      : level.quantity * level.price;
+    const take = Math.min(remaining, levelSize);
+    const quantity = byQuantity ? take : take / level.price;
+
+    filledQuantity += quantity;
+    filledNotional += quantity * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+    levelsConsumed += 1;
+  }
+
+  if (filledQuantity === 0) return null;
+
+  const averagePrice = filledNotional / filledQuantity;
+  const bestPrice = levels[0].price;
+  const slippagePercent =
+    (Math.abs(averagePrice - bestPrice) / bestPrice) * 100;
+
+  return {
+    side,
+    averagePrice,
+    filledQuantity,
+    filledNotional,
+    worstPrice,
+    slippagePercent,
+    levelsConsumed,
+    // Allow for floating point dust on the last level
+    fullyFilled:
+      remaining <= 1e-12 * (byQuantity ? size.quantity : size.notional),
+  };
+}
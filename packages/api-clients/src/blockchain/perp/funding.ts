@@ -0,0 +1,146 @@
+/**
+ * Cross-venue Funding Rates
+ *
+ * Fetches normalized funding rates for the same base asset from the
+ * Binance USDM, Bybit linear and Bitget USDT-M perps.
+ */
+
+import { getLogger, Logger } from "@dex-ai/core";
+import { PriceSourceName } from "../coingecko/types";
+import * as binanceFunding from "../binance/perp/funding";
+import * as bybitFunding from "../bybit/perp/funding";
+import * as bitgetFunding from "../bitget/perp/funding";
+import { toBybitTicker } from "../bybit/perp/tickers";
+import { toBitgetTicker } from "../bitget/perp";
+import {
+  FundingRateHistoryOptions,
+  FundingRateHistoryPoint,
+  PerpFundingRate,
+  PerpVenue,
+} from "./types";
+
+const logger: Logger = getLogger("perp-funding");
+
+export const PERP_VENUES: PerpVenue[] = [
+  PriceSourceName.BINANCE,
+  PriceSourceName.BYBIT,
+  PriceSourceName.BITGET,
+];
+
+const HOURS_PER_YEAR = 365 * 24;
+
+interface FundingClient {
+  toVenueSymbol: (baseSymbol: string) => string;
+  getFundingRate: (symbol: string) => Promise<PerpFundingRate | null>;
+  getFundingRateHistory: (
+    symbol: string,
+    options?: FundingRateHistoryOptions,
+  ) => Promise<FundingRateHistoryPoint[] | null>;
+}
+
+const FUNDING_CLIENTS: Record<PerpVenue, FundingClient> = {
+  [PriceSourceName.BINANCE]: {
+    toVenueSymbol: (baseSymbol) => `${baseSymbol.toUpperCase()}USDT`,
+    ...binanceFunding,
+  },
+  [PriceSourceName.BYBIT]: {
+    toVenueSymbol: toBybitTicker,
+    ...bybitFunding,
+  },
+  [PriceSourceName.BITGET]: {
+    toVenueSymbol: toBitgetTicker,
+    ...bitgetFunding,
+  },
+};
+
+/**
+ * Map a base asset to the USDT perp symbol listed on a venue
+ */
+export function toPerpVenueSymbol(
+  venue: PerpVenue,
+  baseSymbol: string,
+): string {
+  return FUNDING_CLIENTS[venue].toVenueSymbol(baseSymbol);
+}
+
+/**
+ * Annualize a per-interval funding rate, e.g. 0.0001 every 8h -> 0.1095
+ */
+export function annualizeFundingRate(
+  rate: number,
+  fundingIntervalHours: number,
+): number {
+  return rate * (HOURS_PER_YEAR / fundingIntervalHours);
+}
+
+/**
+ * Get current funding, mark and index price of a venue symbol, e.g. a
+ * resolved 1000PEPEUSDT contract
+ */
+export async function getPerpFundingRate(
+  venue: PerpVenue,
+  venueSymbol: string,
+): Promise<PerpFundingRate | null> {
+  return FUNDING_CLIENTS[venue].getFundingRate(venueSymbol);
+}
+
+/**
+ * Get current and predicted funding for a base asset on every perp venue
+ *
+ * Venues that fail or do not list the asset are omitted from the result.
+ */
+export async function getFundingRates(
+  baseSymbol: string,
+  venues: PerpVenue[] = PERP_VENUES,
+): Promise<Partial<Record<PerpVenue, PerpFundingRate>>> {
+  const results = await Promise.all(
+    venues.map(async (venue) => {
+      const client = FUNDING_CLIENTS[venue];
+      return [
+        venue,
+        await client.getFundingRate(client.toVenueSymbol(baseSymbol)),
+      ] as const;
+    }),
+  );
+
+  const rates: Partial<Record<PerpVenue, PerpFundingRate>> = {};
+  results.forEach(([venue, rate]) => {
+    if (rate) rates[venue] = rate;
+  });
+
+  logger.info("[Perp Funding] Fetched funding rates", {
+    baseSymbol,
+    venues: Object.keys(rates),
+  });
+
+  return rates;
+}
+
+/**
+ * Get settled funding history for a base asset on every perp venue
+ */
+export async function getFundingRateHistories(
+  baseSymbol: string,
+  options: FundingRateHistoryOptions = {},
+  venues: PerpVenue[] = PERP_VENUES,
+): Promise<Partial<Record<PerpVenue, FundingRateHistoryPoint[]>>> {
+  const results = await Promise.all(
+    venues.map(async (venue) => {
+      const client = FUNDING_CLIENTS[venue];
+      return [
+        venue,
+        await client.getFundingRateHistory(
+          client.toVenueSymbol(baseSymbol),
+          options,
+        ),
+      ] as const;
+    }),
+  );
+
+  const histories: Partial<Record<PerpVenue, FundingRateHistoryPoint[]>> = {};
+  results.forEach(([venue, history]) => {
+    if (history) histories[venue] = history;
+  });
+
+  return histories;
+}
@@ -0,0 +1,14 @@
+/**
+ * Perp - Venue-agnostic perpetual futures functionality
+ */
+
+export * from "./funding";
+export * from "./orderbook";
+export * from "./depth";
+export * from "./symbolResolver";
+export * from "./basis";
+export * from "./trading";
+export * from "./tradingErrors";
+export * from "./sizing";
+export * from "./paperTrading";
+export * from "./types";
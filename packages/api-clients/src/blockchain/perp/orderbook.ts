@@ -0,0 +1,179 @@
+/**
+ * Cross-venue Order Books
+ *
+ * Adapters turning the Binance, Bybit and Bitget REST and WebSocket depth
+ * into VenueOrderBook.
+ */
+
+import { PriceSourceName } from "../coingecko/types";
+import { OrderBook } from "../types";
+import * as binanceOrderBook from "../binance/perp/orderbook";
+import { createBinanceLocalOrderBook } from "../binance/perp/localOrderBook";
+import * as bybitOrderBook from "../bybit/perp/orderbook";
+import * as bitgetOrderBook from "../bitget/perp/orderbook";
+import { toOrderBookLevels } from "./depth";
+import {
+  OrderBookVenue,
+  PerpVenue,
+  VenueOrderBook,
+  VenueOrderBookSubscription,
+} from "./types";
+
+export interface SubscribeVenueOrderBookOptions {
+  depth?: number; // Max levels per side passed to the callback
+  reconnect?: boolean; // Default true
+  onError?: (err: Error) => void;
+}
+
+export function fromBinanceOrderBook(
+  book: binanceOrderBook.BinanceOrderBook,
+): VenueOrderBook {
+  return {
+    venue: PriceSourceName.BINANCE,
+    symbol: book.symbol,
+    bids: toOrderBookLevels(book.bids.map((b) => [b.price, b.quantity])),
+    asks: toOrderBookLevels(book.asks.map((a) => [a.price, a.quantity])),
+    timestamp: book.time,
+    updateId: book.lastUpdateId,
+  };
+}
+
+export function fromBybitOrderBook(
+  book: bybitOrderBook.BybitOrderBook,
+): VenueOrderBook {
+  return {
+    venue: PriceSourceName.BYBIT,
+    symbol: book.symbol,
+    bids: toOrderBookLevels(book.bids),
+    asks: toOrderBookLevels(book.asks),
+    timestamp: book.timestamp,
+    updateId: book.updateId,
+  };
+}
+
+export function fromBitgetOrderBook(
+  book: bitgetOrderBook.BitgetOrderBook,
+): VenueOrderBook {
+  return {
+    venue: PriceSourceName.BITGET,
+    symbol: book.symbol,
+    bids: toOrderBookLevels(book.bids),
+    asks: toOrderBookLevels(book.asks),
+    timestamp: book.timestamp,
+  };
+}
+
+/**
+ * Convert the generic tuple OrderBook from blockchain/types
+ */
+export function fromTupleOrderBook(
+  venue: OrderBookVenue,
+  symbol: string,
+  book: OrderBook,
+  timestamp: number = Date.now(),
+): VenueOrderBook {
+  const byPrice =
+    (descending: boolean) => (a: { price: number }, b: { price: number }) =>
+      descending ? b.price - a.price : a.price - b.price;
+
+  return {
+    venue,
+    symbol,
+    bids: toOrderBookLevels(book.bids).sort(byPrice(true)),
+    asks: toOrderBookLevels(book.asks).sort(byPrice(false)),
+    timestamp,
+  };
+}
+
+/**
+ * Fetch an order book snapshot from a perp venue (REST API)
+ */
+export async function getVenueOrderBook(
+  venue: PerpVenue,
+  symbol: string,
+  depth: number = 100,
+): Promise<VenueOrderBook | null> {
+  switch (venue) {
+    case PriceSourceName.BINANCE: {
+      const limits = [5, 10, 20, 50, 100, 500, 1000] as const;
+      const limit = limits.find((l) => l >= depth) ?? 1000;
+      const book = await binanceOrderBook.getOrderBook(symbol, limit);
+      return book ? fromBinanceOrderBook(book) : null;
+    }
+    case PriceSourceName.BYBIT: {
+      const book = await bybitOrderBook.getOrderBook(
+        symbol,
+        Math.min(depth, 500),
+      );
+      return book ? fromBybitOrderBook(book) : null;
+    }
+    case PriceSourceName.BITGET: {
+      const book = await bitgetOrderBook.getOrderBook(
+        symbol,
+        depth <= 50 ? "50" : "max",
+      );
+      return book ? fromBitgetOrderBook(book) : null;
+    }
+    default:
+      throw new Error(`Unsupported order book venue: ${venue}`);
+  }
+}
+
+/**
+ * Subscribe to a live order book on a perp venue
+ *
+ * Binance uses the synchronized local book (snapshot + diff stream),
+ * Bybit maintains snapshot + delta, Bitget pushes full snapshots.
+ */
+export function subscribeVenueOrderBook(
+  venue: PerpVenue,
+  symbol: string,
+  onBook: (book: VenueOrderBook) => void,
+  options: SubscribeVenueOrderBookOptions = {},
+): VenueOrderBookSubscription {
+  const { depth, reconnect = true, onError } = options;
+  const truncate = (book: VenueOrderBook): VenueOrderBook =>
+    depth
+      ? {
+          ...book,
+          bids: book.bids.slice(0, depth),
+          asks: book.asks.slice(0, depth),
+        }
+      : book;
+  const reportError = (err: unknown) =>
+    onError?.(err instanceof Error ? err : new Error(String(err)));
+
+  switch (venue) {
+    case PriceSourceName.BINANCE: {
+      const localBook = createBinanceLocalOrderBook(symbol, {
+        reconnect,
+        onUpdate: (book) => onBook(truncate(fromBinanceOrderBook(book))),
+        onError: reportError,
+      });
+      localBook.start();
+      return { close: localBook.stop };
+    }
+    case PriceSourceName.BYBIT: {
+      const bybitDepths = [1, 50, 200, 500] as const;
+      const subscription = bybitOrderBook.subscribeOrderBook(
+        symbol,
+        bybitDepths.find((d) => d >= (depth ?? 50)) ?? 500,
+        (book) => onBook(truncate(fromBybitOrderBook(book))),
+        { reconnect, onError },
+      );
+      return { close: subscription.close };
+    }
+    case PriceSourceName.BITGET: {
+      const bitgetDepths = [1, 5, 15] as const;
+      const subscription = bitgetOrderBook.subscribeOrderBook(
+        symbol,
+        bitgetDepths.find((d) => d >= (depth ?? 15)) ?? 15,
+        (book) => onBook(truncate(fromBitgetOrderBook(book))),
+        { reconnect, onError },
+      );
+      return { close: subscription.close };
+    }
+    default:
+      throw new Error(`Unsupported order book venue: ${venue}`);
+  }
+}
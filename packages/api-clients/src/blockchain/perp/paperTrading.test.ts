@@ -0,0 +1,354 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import {
+  createLiveTickerSource,
+  createPaperTradingVenue,
+  createRecordedTickerSource,
+} from "./paperTrading";
+import { PaperTradingConfig } from "./types";
+
+const tickers = createRecordedTickerSource([
+  { symbol: "BTCUSDT", bid: 60990, ask: 61010, timestamp: 1000 },
+  { symbol: "BTCUSDT", bid: 59990, ask: 60010, timestamp: 0 },
+  { symbol: "BTCUSDT", bid: 58990, ask: 59010, timestamp: 2000 },
+]);
+
+// Simulated clock, advanced by the venue's latency as well
+let clock = 0;
+
+function createVenue(config: Partial<PaperTradingConfig> = {}) {
+  return createPaperTradingVenue({
+    tickers,
+    now: () => clock,
+    sleep: async (ms) => {
+      clock += ms;
+    },
+    ...config,
+  });
+}
+
+describe("createRecordedTickerSource", () => {
+  it("returns the latest ticker at or before the requested time", () => {
+    expect(tickers("BTCUSDT", 1500)).toMatchObject({ bid: 60990 });
+    expect(tickers("BTCUSDT", 2000)).toMatchObject({ bid: 58990 });
+    expect(tickers("BTCUSDT", -1)).toBeNull();
+    expect(tickers("ETHUSDT", 1000)).toBeNull();
+  });
+});
+
+describe("createLiveTickerSource", () => {
+  it("reads the venue's quote from a spread scanner", () => {
+    const scanner = {
+      getLatestQuotes: () => [
+        {
+          venue: PriceSourceName.BINANCE,
+          symbol: "BTC",
+          venueSymbol: "BTCUSDT",
+          bid: 1,
+          ask: 2,
+          timestamp: 5,
+        },
+        {
+          venue: PriceSourceName.BYBIT,
+          symbol: "BTC",
+          venueSymbol: "BTCUSDT",
+          bid: 3,
+          ask: 4,
+          timestamp: 6,
+        },
+      ],
+    };
+    const source = createLiveTickerSource(scanner, PriceSourceName.BYBIT);
+
+    expect(source("BTCUSDT", 0)).toEqual({
+      symbol: "BTCUSDT",
+      bid: 3,
+      ask: 4,
+      timestamp: 6,
+    });
+    expect(source("ETHUSDT", 0)).toBeNull();
+  });
+});
+
+describe("Paper trading venue", () => {
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  it("opens and closes a long at the touch with taker fees", async () => {
+    const venue = createVenue();
+
+    const opened = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.1",
+      clientOrderId: "open-1",
+    });
+    expect(opened).toMatchObject({
+      success: true,
+      data: {
+        venue: PriceSourceName.BYBIT,
+        orderId: "paper-1",
+        clientOrderId: "open-1",
+        orderType: "market",
+        quantity: "0.1",
+      },
+    });
+
+    clock = 1000;
+    const positions = await venue.getPositions("BTCUSDT");
+    expect(positions.success && positions.data).toEqual([
+      {
+        venue: PriceSourceName.BYBIT,
+        symbol: "BTCUSDT",
+        side: "long",
+        quantity: 0.1,
+        entryPrice: 60010,
+        markPrice: 61000,
+        liquidationPrice: null,
+        unrealizedPnl: expect.closeTo(99, 6),
+        leverage: 1,
+      },
+    ]);
+
+    const closed = await venue.closePosition({ symbol: "BTCUSDT" });
+    expect(closed.success && closed.data).toMatchObject({
+      side: "sell",
+      reduceOnly: true,
+    });
+
+    const [open, close] = venue.getFills("BTCUSDT");
+    expect(open).toMatchObject({ price: 60010, liquidity: "taker" });
+    expect(open.fee).toBeCloseTo(3.0005, 6);
+    expect(close).toMatchObject({ price: 60990, realizedPnl: 98 });
+
+    const balance = await venue.getWalletBalance();
+    expect(balance.success && balance.data.equity).toBeCloseTo(10091.95, 6);
+    expect(await venue.getPositions()).toEqual({ success: true, data: [] });
+  });
+
+  it("books a profit on a short when the price falls", async () => {
+    const venue = createVenue({ takerFeeRate: 0 });
+
+    await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.1",
+    });
+    clock = 2000;
+    await venue.closePosition({ symbol: "BTCUSDT", side: "short" });
+
+    expect(venue.getFills().map((fill) => fill.realizedPnl)).toEqual([
+      0,
+      expect.closeTo(98, 6),
+    ]);
+  });
+
+  it("rests limit orders and fills them as maker once the book crosses", async () => {
+    const venue = createVenue();
+
+    const order = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.1",
+      orderType: "limit",
+      price: "59500",
+      timeInForce: "post_only",
+    });
+    expect(order.success).toBe(true);
+
+    const openOrders = await venue.getOpenOrders("BTCUSDT");
+    expect(openOrders.success && openOrders.data).toMatchObject([
+      { orderId: "paper-1", price: "59500", filledQuantity: "0" },
+    ]);
+
+    clock = 2000;
+    const positions = await venue.getPositions("BTCUSDT");
+    expect(positions.success && positions.data[0]).toMatchObject({
+      side: "long",
+      entryPrice: 59500,
+    });
+    expect(venue.getFills()[0]).toMatchObject({
+      liquidity: "maker",
+      fee: expect.closeTo(0.1 * 59500 * 0.0002, 9),
+    });
+    expect(await venue.getOpenOrders()).toEqual({ success: true, data: [] });
+  });
+
+  it("cancels and amends resting orders", async () => {
+    const venue = createVenue();
+    await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "sell",
+      quantity: "0.1",
+      orderType: "limit",
+      price: "62000",
+      clientOrderId: "maker-1",
+    });
+
+    const amended = await venue.amendOrder({
+      symbol: "BTCUSDT",
+      clientOrderId: "maker-1",
+      price: "61500",
+    });
+    expect(amended.success && amended.data.orderId).toBe("paper-1");
+
+    const cancelled = await venue.cancelOrder({
+      symbol: "BTCUSDT",
+      orderId: "paper-1",
+    });
+    expect(cancelled.success).toBe(true);
+    expect(
+      await venue.cancelOrder({ symbol: "BTCUSDT", orderId: "paper-1" }),
+    ).toMatchObject({ success: false, code: "order_not_found" });
+  });
+
+  it("rejects post-only orders that would take and expires unfilled IOC orders", async () => {
+    const venue = createVenue();
+
+    expect(
+      await venue.openPosition({
+        symbol: "BTCUSDT",
+        side: "buy",
+        quantity: "0.1",
+        orderType: "limit",
+        price: "60100",
+        timeInForce: "post_only",
+      }),
+    ).toMatchObject({ success: false, code: "invalid_params" });
+
+    const ioc = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.1",
+      orderType: "limit",
+      price: "59000",
+      timeInForce: "ioc",
+    });
+    expect(ioc.success).toBe(true);
+    expect(venue.getFills()).toEqual([]);
+    expect(await venue.getOpenOrders()).toEqual({ success: true, data: [] });
+  });
+
+  it("fills at the ticker seen after the latency", async () => {
+    const venue = createVenue({ latencyMs: 1000 });
+
+    await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.1",
+    });
+
+    expect(venue.getFills()[0]).toMatchObject({
+      price: 61010,
+      timestamp: 1000,
+    });
+  });
+
+  it("needs margin for the position, scaled down by leverage", async () => {
+    const venue = createVenue({ initialBalance: 1000 });
+
+    expect(
+      await venue.openPosition({
+        symbol: "BTCUSDT",
+        side: "buy",
+        quantity: "0.1",
+      }),
+    ).toMatchObject({ success: false, code: "insufficient_balance" });
+
+    const leveraged = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.1",
+      leverage: 10,
+    });
+    expect(leveraged.success).toBe(true);
+
+    const balance = await venue.getWalletBalance();
+    expect(balance.success && balance.data.available).toBeCloseTo(
+      1000 - 3.0005 - 600.1 - 1,
+      6,
+    );
+  });
+
+  it("holds margin for resting limit orders until they are cancelled", async () => {
+    const venue = createVenue({ initialBalance: 10000 });
+
+    await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      quantity: "0.1",
+      orderType: "limit",
+      price: "59000",
+      leverage: 2,
+    });
+    const reserved = await venue.getWalletBalance();
+    expect(reserved.success && reserved.data.available).toBeCloseTo(7050, 6);
+
+    await venue.cancelOrder({ symbol: "BTCUSDT", orderId: "paper-1" });
+    const released = await venue.getWalletBalance();
+    expect(released.success && released.data.available).toBeCloseTo(10000, 6);
+  });
+
+  it("requires a quantity or notional without a contract spec", async () => {
+    const venue = createVenue();
+
+    expect(
+      await venue.openPosition({ symbol: "BTCUSDT", side: "buy" }),
+    ).toMatchObject({
+      success: false,
+      code: "invalid_params",
+      details: "quantity or notional is required",
+    });
+  });
+
+  it("sizes notional orders with the contract spec", async () => {
+    const venue = createVenue({
+      contractSpecs: {
+        BTCUSDT: {
+          venue: PriceSourceName.BYBIT,
+          symbol: "BTCUSDT",
+          quantityStep: "0.001",
+          minQuantity: "0.001",
+          maxQuantity: null,
+          tickSize: "0.1",
+          minNotional: 5,
+        },
+      },
+    });
+
+    const order = await venue.openPosition({
+      symbol: "BTCUSDT",
+      side: "buy",
+      notional: 1000,
+    });
+    expect(order.success && order.data.quantity).toBe("0.016");
+    expect(
+      await venue.openPosition({
+        symbol: "BTCUSDT",
+        side: "buy",
+        quantity: "0.0001",
+      }),
+    ).toMatchObject({ success: false, code: "invalid_size" });
+  });
+
+  it("reports missing tickers and positions like a venue", async () => {
+    const venue = createVenue();
+
+    expect(
+      await venue.openPosition({
+        symbol: "ETHUSDT",
+        side: "buy",
+        quantity: "1",
+      }),
+    ).toMatchObject({
+      success: false,
+      code: "venue_error",
+      details: "No ticker for ETHUSDT",
+    });
+    expect(await venue.closePosition({ symbol: "BTCUSDT" })).toMatchObject({
+      success: false,
+      code: "no_position",
+    });
+  });
+});
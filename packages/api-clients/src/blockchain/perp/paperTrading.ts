@@ -0,0 +1,631 @@
+/**
+ * Paper Trading Venue - A simulated PerpTradingVenue that fills against tickers
+ *
+ * Runs strategies end to end without API keys or capital. Orders fill at the
+ * top of book of recorded or live tickers with no depth limit, market orders
+ * as taker at the bid or ask and resting limit orders as maker at their price
+ * once the book crosses them. Funding and liquidations are not simulated.
+ */
+
+import { getLogger, Logger, sleep } from "@dex-ai/core";
+import { PriceSourceName } from "../coingecko/types";
+import type { SpreadScanner } from "../arbitrage/spreadScanner";
+import type { SpreadVenue } from "../arbitrage/types";
+import {
+  createClientOrderId,
+  createPerpTradingFailure,
+  noPositionFailure,
+  resolvePerpOrderPricing,
+  toPerpTradingFailure,
+  validatePerpOrderParams,
+  validatePerpOrderRef,
+} from "./tradingErrors";
+import { sizePerpOrder, PerpSizedOrder } from "./sizing";
+import {
+  PaperFill,
+  PaperTicker,
+  PaperTickerSource,
+  PaperTradingConfig,
+  PaperTradingVenue,
+  PerpOrder,
+  PerpOrderAck,
+  PerpOrderRef,
+  PerpOrderRequest,
+  PerpPosition,
+  PerpTradingResult,
+} from "./types";
+
+const logger: Logger = getLogger("perp-paper-trading");
+
+const DEFAULT_INITIAL_BALANCE = 10_000;
+const DEFAULT_TAKER_FEE_RATE = 0.0005;
+const DEFAULT_MAKER_FEE_RATE = 0.0002;
+
+const QUANTITY_PRECISION = 1e9;
+
+interface PaperPosition {
+  quantity: number; // Signed, longs positive
+  entryPrice: number;
+  leverage: number;
+}
+
+type RestingOrder = PerpOrder & { leverage: number };
+
+type PaperOrderRequest = Omit<PerpOrderRequest, "quantity"> & {
+  quantity?: string;
+  notional?: number;
+};
+
+function roundQuantity(value: number): number {
+  return Math.round(value * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+}
+
+function midPrice(ticker: PaperTicker): number {
+  return (ticker.bid + ticker.ask) / 2;
+}
+
+function matchesOrderRef(order: PerpOrder, ref: PerpOrderRef): boolean {
+  return (
+    order.symbol === ref.symbol &&
+    (ref.orderId
+      ? order.orderId === ref.orderId
+      : order.clientOrderId === ref.clientOrderId)
+  );
+}
+
+/**
+ * Replay recorded tickers: each read returns the latest ticker of the symbol
+ * at or before the requested time
+ */
+export function createRecordedTickerSource(
+  tickers: PaperTicker[],
+): PaperTickerSource {
+  const bySymbol = new Map<string, PaperTicker[]>();
+  for (const ticker of [...tickers].sort((a, b) => a.timestamp - b.timestamp)) {
+    bySymbol.set(ticker.symbol, [
+      ...(bySymbol.get(ticker.symbol) ?? []),
+      ticker,
+    ]);
+  }
+
+  return (symbol, timestamp) => {
+    let latest: PaperTicker | null = null;
+    for (const ticker of bySymbol.get(symbol) ?? []) {
+      if (ticker.timestamp > timestamp) break;
+      latest = ticker;
+    }
+    return latest;
+  };
+}
+
+/**
+ * Read live tickers of one venue from a running spread scanner
+ */
+export function createLiveTickerSource(
+  scanner: Pick<SpreadScanner, "getLatestQuotes">,
+  venue: SpreadVenue,
+): PaperTickerSource {
+  return (symbol) => {
+    const quote = scanner
+      .getLatestQuotes()
+      .find(
+        (candidate) =>
+          candidate.venue === venue && candidate.venueSymbol === symbol,
+      );
+    return quote
+      ? { symbol, bid: quote.bid, ask: quote.ask, timestamp: quote.timestamp }
+      : null;
+  };
+}
+
+/**
+ * Create a paper trading venue
+ *
+ * Margin mode is accepted and ignored, all positions share one USDT balance.
+ * Pass `now` and `sleep` backed by the same simulated clock to replay
+ * recorded tickers deterministically, latency included.
+ *
+ * Usage example:
+ *
+ * const venue = createPaperTradingVenue({
+ *   tickers: createLiveTickerSource(scanner, PriceSourceName.BYBIT),
+ *   initialBalance: 1000,
+ *   latencyMs: 150,
+ * });
+ * await venue.openPosition({ symbol: "BTCUSDT", side: "sell", quantity: "0.01" });
+ * const fills = venue.getFills("BTCUSDT");
+ */
+export function createPaperTradingVenue(
+  config: PaperTradingConfig,
+): PaperTradingVenue {
+  const venue = config.venue ?? PriceSourceName.BYBIT;
+  const takerFeeRate = config.takerFeeRate ?? DEFAULT_TAKER_FEE_RATE;
+  const makerFeeRate = config.makerFeeRate ?? DEFAULT_MAKER_FEE_RATE;
+  const latencyMs = config.latencyMs ?? 0;
+  const now = config.now ?? Date.now;
+  const wait = config.sleep ?? sleep;
+
+  let balance = config.initialBalance ?? DEFAULT_INITIAL_BALANCE;
+  let orderCounter = 0;
+  const positions = new Map<string, PaperPosition>();
+  const restingOrders: RestingOrder[] = [];
+  const lastTickers = new Map<string, PaperTicker>();
+  const fills: PaperFill[] = [];
+
+  const unrealizedPnl = (symbol: string, position: PaperPosition) => {
+    const ticker = lastTickers.get(symbol);
+    const mark = ticker ? midPrice(ticker) : position.entryPrice;
+    return (mark - position.entryPrice) * position.quantity;
+  };
+
+  const totalUnrealizedPnl = () =>
+    [...positions].reduce(
+      (total, [symbol, position]) => total + unrealizedPnl(symbol, position),
+      0,
+    );
+
+  // Resting orders hold their margin until they fill or are cancelled
+  const reservedMargin = () =>
+    restingOrders.reduce(
+      (total, order) =>
+        order.reduceOnly
+          ? total
+          : total +
+            (Number(order.quantity) * Number(order.price)) / order.leverage,
+      0,
+    );
+
+  const availableBalance = () =>
+    balance +
+    totalUnrealizedPnl() -
+    reservedMargin() -
+    [...positions.values()].reduce(
+      (total, position) =>
+        total +
+        (Math.abs(position.quantity) * position.entryPrice) / position.leverage,
+      0,
+    );
+
+  // Quantity a reduce-only order can still take off the position
+  const reducibleQuantity = (order: PerpOrder) => {
+    const position = positions.get(order.symbol);
+    const direction = order.side === "buy" ? 1 : -1;
+    if (!position || Math.sign(position.quantity) === direction) return 0;
+    return Math.min(Math.abs(position.quantity), Number(order.quantity));
+  };
+
+  const applyFill = (
+    order: PerpOrder,
+    quantity: number,
+    price: number,
+    liquidity: PaperFill["liquidity"],
+    leverage: number,
+  ) => {
+    const current = positions.get(order.symbol) ?? {
+      quantity: 0,
+      entryPrice: 0,
+      leverage,
+    };
+    const signed = order.side === "buy" ? quantity : -quantity;
+    const next = roundQuantity(current.quantity + signed);
+
+    let realizedPnl = 0;
+    let entryPrice = current.entryPrice;
+    if (
+      current.quantity === 0 ||
+      Math.sign(current.quantity) === Math.sign(signed)
+    ) {
+      entryPrice =
+        (Math.abs(current.quantity) * current.entryPrice + quantity * price) /
+        Math.abs(next);
+    } else {
+      const closed = Math.min(Math.abs(current.quantity), quantity);
+      realizedPnl =
+        (price - current.entryPrice) * closed * Math.sign(current.quantity);
+      if (Math.sign(next) === Math.sign(signed)) {
+        entryPrice = price; // Flipped through flat
+      }
+    }
+
+    const fee =
+      quantity * price * (liquidity === "maker" ? makerFeeRate : takerFeeRate);
+    balance += realizedPnl - fee;
+
+    if (next === 0) {
+      positions.delete(order.symbol);
+    } else {
+      positions.set(order.symbol, {
+        quantity: next,
+        entryPrice,
+        leverage: order.reduceOnly ? current.leverage : leverage,
+      });
+    }
+
+    const fill: PaperFill = {
+      venue,
+      symbol: order.symbol,
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      side: order.side,
+      quantity: String(quantity),
+      price,
+      fee,
+      liquidity,
+      realizedPnl,
+      timestamp: now(),
+    };
+    fills.push(fill);
+    logger.info("[Paper Venue] Order filled", { ...fill });
+  };
+
+  const fillRestingOrders = (ticker: PaperTicker) => {
+    for (const order of [...restingOrders]) {
+      if (order.symbol !== ticker.symbol) continue;
+      const price = Number(order.price);
+      const crossed =
+        order.side === "buy" ? ticker.ask <= price : ticker.bid >= price;
+      if (!crossed) continue;
+
+      restingOrders.splice(restingOrders.indexOf(order), 1);
+      const quantity = order.reduceOnly
+        ? reducibleQuantity(order)
+        : Number(order.quantity);
+      if (quantity > 0) {
+        applyFill(order, quantity, price, "maker", order.leverage);
+      }
+    }
+  };
+
+  const readTicker = async (symbol: string) => {
+    const ticker = await config.tickers(symbol, now());
+    if (ticker) {
+      lastTickers.set(symbol, ticker);
+      fillRestingOrders(ticker);
+    }
+    return ticker;
+  };
+
+  const refreshTickers = async (symbols: string[]) => {
+    for (const symbol of new Set(symbols)) {
+      await readTicker(symbol);
+    }
+  };
+
+  const sizeOrder = (
+    request: PaperOrderRequest,
+    ticker: PaperTicker,
+    error: string,
+  ): PerpTradingResult<PerpSizedOrder> => {
+    const { symbol, side, quantity, notional, price, reduceOnly } = request;
+    const spec = config.contractSpecs?.[symbol];
+    if (spec) {
+      return sizePerpOrder(
+        spec,
+        {
+          side,
+          quantity,
+          notional,
+          price,
+          referencePrice: midPrice(ticker),
+          reduceOnly,
+        },
+        error,
+      );
+    }
+
+    if (quantity === undefined && notional === undefined) {
+      return createPerpTradingFailure(
+        "invalid_params",
+        error,
+        "quantity or notional is required",
+      );
+    }
+
+    const sizingPrice = price ? Number(price) : midPrice(ticker);
+    return {
+      success: true,
+      data: {
+        quantity:
+          quantity ?? String(roundQuantity((notional ?? 0) / sizingPrice)),
+        price,
+      },
+    };
+  };
+
+  const submitOrder = async (
+    request: PaperOrderRequest,
+    leverage: number,
+    error: string,
+  ): Promise<PerpTradingResult<PerpOrder>> => {
+    if (latencyMs > 0) {
+      await wait(latencyMs);
+    }
+
+    const { symbol, side, orderType, timeInForce, clientOrderId, reduceOnly } =
+      request;
+    const ticker = await readTicker(symbol);
+    if (!ticker) {
+      return createPerpTradingFailure(
+        "venue_error",
+        error,
+        `No ticker for ${symbol}`,
+      );
+    }
+
+    const sized = sizeOrder(request, ticker, error);
+    if (!sized.success) return sized;
+
+    orderCounter += 1;
+    const order: PerpOrder = {
+      venue,
+      symbol,
+      orderId: `paper-${orderCounter}`,
+      clientOrderId,
+      side,
+      orderType,
+      price: sized.data.price,
+      timeInForce,
+      quantity: sized.data.quantity,
+      reduceOnly,
+      timestamp: now(),
+    };
+
+    const takerPrice = side === "buy" ? ticker.ask : ticker.bid;
+    const limitPrice = order.price === null ? null : Number(order.price);
+    const marketable =
+      limitPrice === null ||
+      (side === "buy" ? limitPrice >= ticker.ask : limitPrice <= ticker.bid);
+    if (marketable && order.timeInForce === "post_only") {
+      return createPerpTradingFailure(
+        "invalid_params",
+        error,
+        `Post-only order at ${order.price} would take liquidity`,
+      );
+    }
+
+    const quantity = order.reduceOnly
+      ? reducibleQuantity(order)
+      : Number(order.quantity);
+    if (order.reduceOnly && quantity === 0) {
+      return noPositionFailure(symbol);
+    }
+    if (!order.reduceOnly) {
+      const required =
+        quantity * (limitPrice ?? takerPrice) * (1 / leverage + takerFeeRate);
+      const available = availableBalance();
+      if (required > available) {
+        return createPerpTradingFailure(
+          "insufficient_balance",
+          error,
+          `Order needs ${required.toFixed(2)} USDT, ${available.toFixed(2)} available`,
+        );
+      }
+    }
+
+    logger.info("[Paper Venue] Order accepted", { ...order });
+    if (marketable) {
+      applyFill(order, quantity, takerPrice, "taker", leverage);
+    } else if (
+      order.timeInForce === "gtc" ||
+      order.timeInForce === "post_only"
+    ) {
+      restingOrders.push({ ...order, leverage });
+    }
+    // IOC and FOK orders that cannot fill expire without a trace
+
+    return { success: true, data: order };
+  };
+
+  const toOrderAck = (order: PerpOrder): PerpOrderAck => ({
+    venue,
+    symbol: order.symbol,
+    orderId: order.orderId,
+    clientOrderId: order.clientOrderId,
+    timestamp: now(),
+  });
+
+  return {
+    venue,
+
+    openPosition: async (params) => {
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to open position",
+      );
+      if (invalid) return invalid;
+
+      try {
+        return await submitOrder(
+          {
+            symbol: params.symbol,
+            side: params.side,
+            ...resolvePerpOrderPricing(params),
+            quantity: params.quantity,
+            notional: params.notional,
+            clientOrderId: params.clientOrderId ?? createClientOrderId("open"),
+            reduceOnly: false,
+          },
+          params.leverage ?? 1,
+          "Failed to open position",
+        );
+      } catch (error) {
+        return toPerpTradingFailure(venue, "Failed to open position", error);
+      }
+    },
+
+    closePosition: async (params) => {
+      const { symbol, side } = params;
+      const invalid = validatePerpOrderParams(
+        params,
+        "Failed to close position",
+      );
+      if (invalid) return invalid;
+
+      const position = positions.get(symbol);
+      const positionSide = position && position.quantity > 0 ? "long" : "short";
+      if (!position || (side && side !== positionSide)) {
+        return noPositionFailure(symbol);
+      }
+
+      try {
+        return await submitOrder(
+          {
+            symbol,
+            side: positionSide === "long" ? "sell" : "buy",
+            ...resolvePerpOrderPricing(params),
+            quantity: params.quantity ?? String(Math.abs(position.quantity)),
+            clientOrderId: params.clientOrderId ?? createClientOrderId("close"),
+            reduceOnly: true,
+          },
+          position.leverage,
+          "Failed to close position",
+        );
+      } catch (error) {
+        return toPerpTradingFailure(venue, "Failed to close position", error);
+      }
+    },
+
+    cancelOrder: async (params) => {
+      const invalid = validatePerpOrderRef(params, "Failed to cancel order");
+      if (invalid) return invalid;
+
+      const index = restingOrders.findIndex((order) =>
+        matchesOrderRef(order, params),
+      );
+      if (index === -1) {
+        return createPerpTradingFailure(
+          "order_not_found",
+          "Failed to cancel order",
+          `No open order ${params.orderId ?? params.clientOrderId} on ${params.symbol}`,
+        );
+      }
+
+      const [order] = restingOrders.splice(index, 1);
+      logger.info("[Paper Venue] Order cancelled", { ...params });
+      return { success: true, data: toOrderAck(order) };
+    },
+
+    amendOrder: async (params) => {
+      const { price, quantity } = params;
+      const invalid = validatePerpOrderRef(params, "Failed to amend order");
+      if (invalid) return invalid;
+      if (!price && !quantity) {
+        return createPerpTradingFailure(
+          "invalid_params",
+          "Failed to amend order",
+          "price or quantity is required",
+        );
+      }
+
+      const order = restingOrders.find((candidate) =>
+        matchesOrderRef(candidate, params),
+      );
+      if (!order) {
+        return createPerpTradingFailure(
+          "order_not_found",
+          "Failed to amend order",
+          `No open order ${params.orderId ?? params.clientOrderId} on ${params.symbol}`,
+        );
+      }
+
+      if (price) order.price = price;
+      if (quantity) order.quantity = quantity;
+      logger.info("[Paper Venue] Order amended", { ...params });
+
+      try {
+        await readTicker(order.symbol);
+      } catch (error) {
+        return toPerpTradingFailure(venue, "Failed to amend order", error);
+      }
+      return { success: true, data: toOrderAck(order) };
+    },
+
+    getOpenOrders: async (symbol) => {
+      try {
+        await refreshTickers(
+          restingOrders
+            .map((order) => order.symbol)
+            .filter((candidate) => !symbol || candidate === symbol),
+        );
+      } catch (error) {
+        return toPerpTradingFailure(venue, "Failed to get open orders", error);
+      }
+
+      return {
+        success: true,
+        data: restingOrders
+          .filter((order) => !symbol || order.symbol === symbol)
+          .map(({ leverage: _leverage, ...order }) => ({
+            ...order,
+            filledQuantity: "0",
+          })),
+      };
+    },
+
+    getPositions: async (symbol) => {
+      try {
+        await refreshTickers(
+          symbol
+            ? [symbol]
+            : [
+                ...positions.keys(),
+                ...restingOrders.map((order) => order.symbol),
+              ],
+        );
+      } catch (error) {
+        return toPerpTradingFailure(venue, "Failed to get positions", error);
+      }
+
+      const data: PerpPosition[] = [...positions]
+        .filter(([candidate]) => !symbol || candidate === symbol)
+        .map(([positionSymbol, position]) => {
+          const ticker = lastTickers.get(positionSymbol);
+          return {
+            venue,
+            symbol: positionSymbol,
+            side: position.quantity > 0 ? "long" : "short",
+            quantity: Math.abs(position.quantity),
+            entryPrice: position.entryPrice,
+            markPrice: ticker ? midPrice(ticker) : null,
+            liquidationPrice: null,
+            unrealizedPnl: unrealizedPnl(positionSymbol, position),
+            leverage: position.leverage,
+          };
+        });
+      return { success: true, data };
+    },
+
+    getWalletBalance: async () => {
+      try {
+        await refreshTickers([
+          ...positions.keys(),
+          ...restingOrders.map((order) => order.symbol),
+        ]);
+      } catch (error) {
+        return toPerpTradingFailure(
+          venue,
+          "Failed to get wallet balance",
+          error,
+        );
+      }
+
+      const unrealized = totalUnrealizedPnl();
+      return {
+        success: true,
+        data: {
+          venue,
+          asset: "USDT",
+          equity: balance + unrealized,
+          available: availableBalance(),
+          unrealizedPnl: unrealized,
+          timestamp: now(),
+        },
+      };
+    },
+
+    getFills: (symbol) =>
+      fills
+        .filter((fill) => !symbol || fill.symbol === symbol)
+        .map((fill) => ({ ...fill })),
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import { PerpContractSpec } from "./types";
+import { createContractSpecCache, roundToStep, sizePerpOrder } from "./sizing";
+
+const spec: PerpContractSpec = {
+  venue: PriceSourceName.BINANCE,
+  symbol: "BTCUSDT",
+  quantityStep: "0.001",
+  minQuantity: "0.001",
+  maxQuantity: "100",
+  tickSize: "0.10",
+  minNotional: 100,
+};
+
+describe("roundToStep", () => {
+  it("rounds to the step without trailing zeros", () => {
+    expect(roundToStep(0.0129, "0.001", "down")).toBe("0.012");
+    expect(roundToStep(60000.04, "0.10", "up")).toBe("60000.1");
+    expect(roundToStep(1234.9, "1", "down")).toBe("1234");
+  });
+
+  it("does not lose a step to float noise", () => {
+    expect(roundToStep(0.3, "0.1", "down")).toBe("0.3");
+    expect(roundToStep(0.3, "0.1", "up")).toBe("0.3");
+  });
+});
+
+describe("sizePerpOrder", () => {
+  it("rounds the quantity down to the lot size", () => {
+    expect(
+      sizePerpOrder(spec, { side: "buy", quantity: "0.0129" }, "x"),
+    ).toEqual({ success: true, data: { quantity: "0.012", price: null } });
+  });
+
+  it("converts a notional at the limit price and keeps maker prices off the book", () => {
+    expect(
+      sizePerpOrder(
+        spec,
+        { side: "sell", notional: 1000, price: "60000.04" },
+        "x",
+      ),
+    ).toEqual({ success: true, data: { quantity: "0.016", price: "60000.1" } });
+    expect(
+      sizePerpOrder(
+        spec,
+        { side: "buy", notional: 1000, price: "60000.06" },
+        "x",
+      ),
+    ).toEqual({ success: true, data: { quantity: "0.016", price: "60000" } });
+  });
+
+  it("needs a price to size a notional market order", () => {
+    const result = sizePerpOrder(spec, { side: "buy", notional: 1000 }, "x");
+
+    expect(!result.success && result.code).toBe("invalid_params");
+    expect(
+      sizePerpOrder(
+        spec,
+        { side: "buy", notional: 1000, referencePrice: 50000 },
+        "x",
+      ),
+    ).toEqual({ success: true, data: { quantity: "0.02", price: null } });
+  });
+
+  it("explains sizes the venue would reject", () => {
+    expect(
+      sizePerpOrder(
+        spec,
+        { side: "buy", quantity: "0.0004" },
+        "Failed to open position",
+      ),
+    ).toEqual({
+      success: false,
+      code: "invalid_size",
+      error: "Failed to open position",
+      details:
+        "Quantity 0.0004 is below the 0.001 minimum for BTCUSDT (lot size 0.001)",
+    });
+    expect(
+      sizePerpOrder(
+        spec,
+        { side: "buy", notional: 80, referencePrice: 60000 },
+        "x",
+      ),
+    ).toMatchObject({ success: false, code: "invalid_size" });
+    expect(
+      sizePerpOrder(spec, { side: "buy", quantity: "101" }, "x"),
+    ).toMatchObject({ success: false, code: "invalid_size" });
+  });
+
+  it("lets reduce-only orders below the minimum notional through", () => {
+    expect(
+      sizePerpOrder(
+        spec,
+        { side: "sell", quantity: "0.001", price: "60000", reduceOnly: true },
+        "x",
+      ).success,
+    ).toBe(true);
+  });
+});
+
+describe("createContractSpecCache", () => {
+  it("fetches each symbol once within the ttl", async () => {
+    const fetchSpec = vi.fn(async () => spec);
+    const getSpec = createContractSpecCache(fetchSpec);
+
+    await getSpec("BTCUSDT");
+    await getSpec("BTCUSDT");
+
+    expect(fetchSpec).toHaveBeenCalledTimes(1);
+  });
+});
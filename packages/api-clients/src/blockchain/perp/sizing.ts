@@ -0,0 +1,149 @@
+/**
+ * Perp Order Sizing - Fit quantities and prices to a venue's contract spec
+ */
+
+import { PerpContractSpec, PerpOrderSide, PerpTradingResult } from "./types";
+import { createPerpTradingFailure } from "./tradingErrors";
+
+const CONTRACT_SPEC_TTL_MS = 60 * 60 * 1000; // Specs rarely change
+
+// Tolerate float noise, e.g. 0.3 / 0.1 = 2.9999999999999996
+const STEP_EPSILON = 1e-9;
+
+export interface PerpSizingRequest {
+  side: PerpOrderSide;
+  quantity?: string; // Contract quantity
+  notional?: number; // USDT value, used when no quantity is given
+  price?: string | null; // Limit price
+  referencePrice?: number; // Market price, sizes market orders and checks their notional
+  reduceOnly?: boolean; // Reduce-only orders are exempt from the minimum notional
+}
+
+export interface PerpSizedOrder {
+  quantity: string;
+  price: string | null;
+}
+
+function stepDecimals(step: string): number {
+  const [, fraction = ""] = step.split(".");
+  return fraction.replace(/0+$/, "").length;
+}
+
+/**
+ * Round a value to a multiple of a step, without trailing zeros
+ */
+export function roundToStep(
+  value: number,
+  step: string,
+  direction: "down" | "up",
+): string {
+  const stepValue = Number(step);
+  const units = value / stepValue;
+  const rounded =
+    direction === "down"
+      ? Math.floor(units + STEP_EPSILON)
+      : Math.ceil(units - STEP_EPSILON);
+  const fixed = (rounded * stepValue).toFixed(stepDecimals(step));
+  return fixed.includes(".") ? fixed.replace(/\.?0+$/, "") : fixed;
+}
+
+/**
+ * Turn a quantity or USDT notional into an order the venue accepts
+ *
+ * Quantities are rounded down to the lot size so we never trade more than
+ * asked. Limit prices are rounded away from the book (buys down, sells up)
+ * so rounding never makes a maker order cross.
+ */
+export function sizePerpOrder(
+  spec: PerpContractSpec,
+  request: PerpSizingRequest,
+  error: string,
+): PerpTradingResult<PerpSizedOrder> {
+  const { symbol, quantityStep, minQuantity, maxQuantity, minNotional } = spec;
+  const { side, quantity, notional, referencePrice } = request;
+
+  const price = request.price
+    ? roundToStep(
+        Number(request.price),
+        spec.tickSize,
+        side === "buy" ? "down" : "up",
+      )
+    : null;
+  const sizingPrice = price ? Number(price) : referencePrice;
+
+  let rawQuantity: number;
+  if (quantity !== undefined) {
+    rawQuantity = Number(quantity);
+  } else if (notional !== undefined) {
+    if (!sizingPrice) {
+      return createPerpTradingFailure(
+        "invalid_params",
+        error,
+        `A price is needed to size a ${notional} USDT order on ${symbol}`,
+      );
+    }
+    rawQuantity = notional / sizingPrice;
+  } else {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      "quantity or notional is required",
+    );
+  }
+
+  const sized = roundToStep(rawQuantity, quantityStep, "down");
+  if (Number(sized) < Number(minQuantity) || Number(sized) === 0) {
+    return createPerpTradingFailure(
+      "invalid_size",
+      error,
+      `Quantity ${rawQuantity} is below the ${minQuantity} minimum for ${symbol} (lot size ${quantityStep})`,
+    );
+  }
+  if (maxQuantity && Number(sized) > Number(maxQuantity)) {
+    return createPerpTradingFailure(
+      "invalid_size",
+      error,
+      `Quantity ${sized} is above the ${maxQuantity} maximum per order for ${symbol}`,
+    );
+  }
+
+  const value = sizingPrice ? Number(sized) * sizingPrice : null;
+  if (
+    !request.reduceOnly &&
+    minNotional &&
+    value !== null &&
+    value < minNotional
+  ) {
+    return createPerpTradingFailure(
+      "invalid_size",
+      error,
+      `Order value ${value.toFixed(2)} USDT is below the ${minNotional} USDT minimum for ${symbol}`,
+    );
+  }
+
+  return { success: true, data: { quantity: sized, price } };
+}
+
+/**
+ * Cache contract specs per symbol in front of a venue fetcher
+ */
+export function createContractSpecCache(
+  fetchSpec: (symbol: string) => Promise<PerpContractSpec>,
+  ttlMs: number = CONTRACT_SPEC_TTL_MS,
+): (symbol: string) => Promise<PerpContractSpec> {
+  const specs = new Map<
+    string,
+    { spec: PerpContractSpec; expiresAt: number }
+  >();
+
+  return async (symbol) => {
+    const cached = specs.get(symbol);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.spec;
+    }
+
+    const spec = await fetchSpec(symbol);
+    specs.set(symbol, { spec, expiresAt: Date.now() + ttlMs });
+    return spec;
+  };
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { memoryCacheAdapter } from "@dex-ai/core";
+import { PriceSourceName } from "../coingecko/types";
+
+vi.mock("../binance/perp/tickers", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  getAllUsdtPerpSymbols: vi.fn(),
+}));
+vi.mock("../bybit/perp/tickers", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  fetchBybitSupportedSymbols: vi.fn(),
+}));
+vi.mock("../bitget/perp/contracts", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  fetchAllContracts: vi.fn(),
+}));
+
+import { getAllUsdtPerpSymbols } from "../binance/perp/tickers";
+import { fetchBybitSupportedSymbols } from "../bybit/perp/tickers";
+import { fetchAllContracts } from "../bitget/perp/contracts";
+import {
+  clearPerpSymbolOverride,
+  normalizePerpPrice,
+  parsePerpContractSymbol,
+  resolvePerpSymbol,
+  resolvePerpSymbols,
+  setPerpSymbolOverride,
+} from "./symbolResolver";
+
+describe("parsePerpContractSymbol", () => {
+  it("parses plain and multiplied contracts", () => {
+    expect(parsePerpContractSymbol("BTCUSDT")).toEqual({
+      baseAsset: "BTC",
+      multiplier: 1,
+    });
+    expect(parsePerpContractSymbol("1000PEPEUSDT")).toEqual({
+      baseAsset: "PEPE",
+      multiplier: 1000,
+    });
+    expect(parsePerpContractSymbol("1000000MOGUSDT")).toEqual({
+      baseAsset: "MOG",
+      multiplier: 1_000_000,
+    });
+    expect(parsePerpContractSymbol("1MBABYDOGEUSDT")).toEqual({
+      baseAsset: "BABYDOGE",
+      multiplier: 1_000_000,
+    });
+    expect(parsePerpContractSymbol("SHIB1000USDT")).toEqual({
+      baseAsset: "SHIB",
+      multiplier: 1000,
+    });
+  });
+
+  it("keeps tickers that only start with a digit", () => {
+    expect(parsePerpContractSymbol("1INCHUSDT")).toEqual({
+      baseAsset: "1INCH",
+      multiplier: 1,
+    });
+  });
+
+  it("ignores contracts not quoted in USDT", () => {
+    expect(parsePerpContractSymbol("BTCPERP")).toBeNull();
+    expect(parsePerpContractSymbol("USDT")).toBeNull();
+  });
+});
+
+describe("resolvePerpSymbol", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await memoryCacheAdapter.clearCache("perp-symbol-listings");
+    vi.mocked(getAllUsdtPerpSymbols).mockResolvedValue([
+      "BTCUSDT",
+      "1000PEPEUSDT",
+    ]);
+    vi.mocked(fetchBybitSupportedSymbols).mockResolvedValue([
+      "BTCUSDT",
+      "1000PEPEUSDT",
+      "SHIB1000USDT",
+    ]);
+    vi.mocked(fetchAllContracts).mockResolvedValue([
+      { symbol: "PEPEUSDT" },
+      { symbol: "1000PEPEUSDT" },
+    ] as Awaited<ReturnType<typeof fetchAllContracts>>);
+  });
+
+  it("maps a token to each venue's contract and multiplier", async () => {
+    const listings = await resolvePerpSymbols({ symbol: "pepe" });
+
+    expect(listings[PriceSourceName.BINANCE]).toMatchObject({
+      symbol: "1000PEPEUSDT",
+      multiplier: 1000,
+    });
+    expect(listings[PriceSourceName.BYBIT]?.symbol).toBe("1000PEPEUSDT");
+    // The unmultiplied contract wins when both are listed
+    expect(listings[PriceSourceName.BITGET]).toMatchObject({
+      symbol: "PEPEUSDT",
+      multiplier: 1,
+    });
+  });
+
+  it("omits venues that do not list the token", async () => {
+    const listings = await resolvePerpSymbols({ symbol: "SHIB" });
+
+    expect(Object.keys(listings)).toEqual([PriceSourceName.BYBIT]);
+  });
+
+  it("caches listing maps per venue", async () => {
+    await resolvePerpSymbol(PriceSourceName.BINANCE, { symbol: "BTC" });
+    await resolvePerpSymbol(PriceSourceName.BINANCE, { symbol: "PEPE" });
+
+    expect(getAllUsdtPerpSymbols).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the plain symbol when listings are unavailable", async () => {
+    vi.mocked(fetchBybitSupportedSymbols).mockRejectedValue(
+      new Error("network down"),
+    );
+
+    const listing = await resolvePerpSymbol(PriceSourceName.BYBIT, {
+      symbol: "WIF",
+    });
+
+    expect(listing).toMatchObject({ symbol: "WIFUSDT", multiplier: 1 });
+  });
+
+  it("applies per-token overrides by address before symbol", async () => {
+    const token = { symbol: "POL", address: "0xABC", platform: "ethereum" };
+    setPerpSymbolOverride(
+      { symbol: "POL" },
+      { [PriceSourceName.BINANCE]: { symbol: "MATICUSDT" } },
+    );
+    setPerpSymbolOverride(token, {
+      [PriceSourceName.BINANCE]: { symbol: "POLUSDT" },
+      [PriceSourceName.BITGET]: null,
+    });
+
+    expect(
+      (await resolvePerpSymbol(PriceSourceName.BINANCE, token))?.symbol,
+    ).toBe("POLUSDT");
+    expect(await resolvePerpSymbol(PriceSourceName.BITGET, token)).toBeNull();
+    expect(
+      (await resolvePerpSymbol(PriceSourceName.BINANCE, { symbol: "pol" }))
+        ?.symbol,
+    ).toBe("MATICUSDT");
+
+    expect(clearPerpSymbolOverride(token)).toBe(true);
+    expect(clearPerpSymbolOverride({ symbol: "POL" })).toBe(true);
+  });
+});
+
+describe("normalizePerpPrice", () => {
+  it("converts a contract price to the price of one token", () => {
+    expect(normalizePerpPrice(0.012, { multiplier: 1000 })).toBeCloseTo(
+      0.000012,
+      12,
+    );
+  });
+});
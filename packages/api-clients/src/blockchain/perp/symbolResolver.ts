@@ -0,0 +1,225 @@
+/**
+ * Perp Symbol Resolver
+ *
+ * Maps a token to the USDT perp contract each venue actually lists, handling
+ * multiplied contracts (1000PEPEUSDT, 1000000MOGUSDT, SHIB1000USDT) and
+ * tickers that differ from the token symbol through per-token overrides.
+ */
+
+import { getLogger, Logger, memoryCacheAdapter } from "@dex-ai/core";
+import { PriceSourceName } from "../coingecko/types";
+import { getAllUsdtPerpSymbols } from "../binance/perp/tickers";
+import { fetchBybitSupportedSymbols } from "../bybit/perp/tickers";
+import { fetchAllContracts } from "../bitget/perp/contracts";
+import { PERP_VENUES } from "./funding";
+import {
+  PerpContractListing,
+  PerpSymbolOverrides,
+  PerpSymbolToken,
+  PerpVenue,
+} from "./types";
+
+const logger: Logger = getLogger("perp-symbol-resolver");
+
+const LISTINGS_CACHE = "perp-symbol-listings";
+const LISTINGS_TTL = 60 * 60 * 1000; // 1 hour
+const QUOTE_ASSET = "USDT";
+
+// Listing maps are keyed by base asset without the multiplier
+type VenueListings = Record<string, PerpContractListing>;
+
+const LISTING_FETCHERS: Record<PerpVenue, () => Promise<string[]>> = {
+  [PriceSourceName.BINANCE]: getAllUsdtPerpSymbols,
+  [PriceSourceName.BYBIT]: fetchBybitSupportedSymbols,
+  [PriceSourceName.BITGET]: async () =>
+    (await fetchAllContracts()).map((contract) => contract.symbol),
+};
+
+const overrides = new Map<string, PerpSymbolOverrides>();
+
+/**
+ * Split a USDT perp symbol into base asset and price multiplier
+ *
+ * Handles the prefix form (1000PEPE, 1MBABYDOGE) and Bybit's suffix form
+ * (SHIB1000). Returns null for symbols not quoted in USDT.
+ */
+export function parsePerpContractSymbol(
+  symbol: string,
+): { baseAsset: string; multiplier: number } | null {
+  const upper = symbol.toUpperCase();
+  if (!upper.endsWith(QUOTE_ASSET) || upper.length === QUOTE_ASSET.length) {
+    return null;
+  }
+
+  const base = upper.slice(0, -QUOTE_ASSET.length);
+
+  const prefixMatch = base.match(/^(10{2,}|1M)([A-Z].*)$/);
+  if (prefixMatch) {
+    const multiplier =
+      prefixMatch[1] === "1M" ? 1_000_000 : Number(prefixMatch[1]);
+    return { baseAsset: prefixMatch[2], multiplier };
+  }
+
+  const suffixMatch = base.match(/^([A-Z].*?)(10{2,})$/);
+  if (suffixMatch) {
+    return { baseAsset: suffixMatch[1], multiplier: Number(suffixMatch[2]) };
+  }
+
+  return { baseAsset: base, multiplier: 1 };
+}
+
+/**
+ * Get the venue's USDT perp listings, cached for an hour
+ */
+export async function getPerpListings(
+  venue: PerpVenue,
+): Promise<VenueListings> {
+  const cached = await memoryCacheAdapter.getFromCache<VenueListings>(
+    LISTINGS_CACHE,
+    venue,
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const symbols = await LISTING_FETCHERS[venue]();
+  const listings: VenueListings = {};
+
+  for (const symbol of symbols) {
+    const parsed = parsePerpContractSymbol(symbol);
+    if (!parsed) continue;
+
+    // Prefer the unmultiplied contract when a venue lists both
+    const existing = listings[parsed.baseAsset];
+    if (!existing || parsed.multiplier < existing.multiplier) {
+      listings[parsed.baseAsset] = { venue, symbol, ...parsed };
+    }
+  }
+
+  logger.info("[PerpSymbolResolver] Loaded venue listings", {
+    venue,
+    symbols: symbols.length,
+    listings: Object.keys(listings).length,
+  });
+
+  // Empty results are not cached so a failed listing call is retried
+  if (Object.keys(listings).length) {
+    await memoryCacheAdapter.saveToCache(
+      LISTINGS_CACHE,
+      listings,
+      LISTINGS_TTL,
+      venue,
+    );
+  }
+
+  return listings;
+}
+
+function overrideKeys(token: PerpSymbolToken): string[] {
+  const keys = [`symbol:${token.symbol.toUpperCase()}`];
+  if (token.address) {
+    keys.unshift(
+      `address:${token.platform ?? ""}:${token.address.toLowerCase()}`,
+    );
+  }
+  return keys;
+}
+
+/**
+ * Override the resolved contracts of a token
+ *
+ * Keyed by address (and platform) when given, otherwise by symbol. Address
+ * overrides take precedence over symbol overrides.
+ */
+export function setPerpSymbolOverride(
+  token: PerpSymbolToken,
+  venueOverrides: PerpSymbolOverrides,
+): void {
+  overrides.set(overrideKeys(token)[0], venueOverrides);
+}
+
+export function clearPerpSymbolOverride(token: PerpSymbolToken): boolean {
+  return overrides.delete(overrideKeys(token)[0]);
+}
+
+/**
+ * Resolve the perp contract a venue lists for a token
+ *
+ * Returns null when the venue does not list the token. When the listing
+ * call fails the plain `${SYMBOL}USDT` contract is assumed.
+ */
+export async function resolvePerpSymbol(
+  venue: PerpVenue,
+  token: PerpSymbolToken,
+): Promise<PerpContractListing | null> {
+  for (const key of overrideKeys(token)) {
+    const tokenOverrides = overrides.get(key);
+    if (tokenOverrides && venue in tokenOverrides) {
+      const override = tokenOverrides[venue];
+      if (!override) return null;
+
+      const parsed = parsePerpContractSymbol(override.symbol);
+      return {
+        venue,
+        symbol: override.symbol,
+        baseAsset: parsed?.baseAsset ?? token.symbol.toUpperCase(),
+        multiplier: override.multiplier ?? parsed?.multiplier ?? 1,
+      };
+    }
+  }
+
+  const baseAsset = token.symbol.toUpperCase();
+
+  try {
+    const listings = await getPerpListings(venue);
+    if (!Object.keys(listings).length) {
+      throw new Error("Venue returned no listings");
+    }
+    return listings[baseAsset] ?? null;
+  } catch (error) {
+    logger.warn(
+      "[PerpSymbolResolver] Listings unavailable, assuming plain symbol",
+      {
+        venue,
+        symbol: token.symbol,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    );
+    return {
+      venue,
+      symbol: `${baseAsset}${QUOTE_ASSET}`,
+      baseAsset,
+      multiplier: 1,
+    };
+  }
+}
+
+/**
+ * Resolve a token's perp contract on every venue
+ *
+ * Venues that do not list the token are omitted from the result.
+ */
+export async function resolvePerpSymbols(
+  token: PerpSymbolToken,
+  venues: PerpVenue[] = PERP_VENUES,
+): Promise<Partial<Record<PerpVenue, PerpContractListing>>> {
+  const resolved = await Promise.all(
+    venues.map((venue) => resolvePerpSymbol(venue, token)),
+  );
+
+  return Object.fromEntries(
+    resolved
+      .filter((listing): listing is PerpContractListing => listing !== null)
+      .map((listing) => [listing.venue, listing]),
+  );
+}
+
+/**
+ * Convert a contract price to the price of one token
+ */
+export function normalizePerpPrice(
+  price: number,
+  listing: Pick<PerpContractListing, "multiplier">,
+): number {
+  return price / listing.multiplier;
+}
@@ -0,0 +1,56 @@
+/**
+ * Cross-venue Perp Trading
+ *
+ * One PerpTradingVenue per exchange so hedging code can open, close and
+ * inspect positions without branching on the venue.
+ */
+
+import { PriceSourceName } from "../coingecko/types";
+import {
+  BinanceCredentials,
+  createBinanceTradingVenue,
+} from "../binance/perp/trading";
+import { BybitCredentials } from "../bybit/perp/client";
+import { createBybitTradingVenue } from "../bybit/perp/tradingVenue";
+import { BitgetCredentials } from "../bitget/perp/client";
+import { createBitgetTradingVenue } from "../bitget/perp/tradingVenue";
+import { PerpTradingVenue, PerpVenue } from "./types";
+
+/**
+ * Credentials accepted by each venue
+ */
+export interface PerpVenueCredentials {
+  [PriceSourceName.BINANCE]: BinanceCredentials;
+  [PriceSourceName.BYBIT]: BybitCredentials;
+  [PriceSourceName.BITGET]: BitgetCredentials;
+}
+
+const VENUE_FACTORIES: {
+  [V in PerpVenue]: (credentials: PerpVenueCredentials[V]) => PerpTradingVenue;
+} = {
+  [PriceSourceName.BINANCE]: createBinanceTradingVenue,
+  [PriceSourceName.BYBIT]: createBybitTradingVenue,
+  [PriceSourceName.BITGET]: createBitgetTradingVenue,
+};
+
+/**
+ * Create the trading venue of an exchange
+ *
+ * Usage example:
+ *
+ * const bybit = createPerpTradingVenue(PriceSourceName.BYBIT, credentials);
+ * const result = await bybit.openPosition({ symbol: "BTCUSDT", side: "sell", quantity: "0.01" });
+ * if (!result.success && result.code === "insufficient_balance") { ... }
+ */
+export function createPerpTradingVenue<V extends PerpVenue>(
+  venue: V,
+  credentials: PerpVenueCredentials[V],
+): PerpTradingVenue {
+  const factory = VENUE_FACTORIES[venue] as (
+    credentials: PerpVenueCredentials[V],
+  ) => PerpTradingVenue;
+  if (!factory) {
+    throw new Error(`Unsupported perp trading venue: ${venue}`);
+  }
+  return factory(credentials);
+}
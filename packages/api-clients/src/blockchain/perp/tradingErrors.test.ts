@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { PriceSourceName } from "../coingecko/types";
+import {
+  classifyPerpTradingError,
+  createClientOrderId,
+  resolvePerpOrderPricing,
+  toPerpTradingFailure,
+  validatePerpOrderParams,
+  validatePerpOrderRef,
+} from "./tradingErrors";
+
+describe("classifyPerpTradingError", () => {
+  it("maps each venue's codes to the same failure code", () => {
+    expect(classifyPerpTradingError(PriceSourceName.BINANCE, "-2019")).toBe(
+      "insufficient_balance",
+    );
+    expect(classifyPerpTradingError(PriceSourceName.BYBIT, "110007")).toBe(
+      "insufficient_balance",
+    );
+    expect(classifyPerpTradingError(PriceSourceName.BITGET, "43012")).toBe(
+      "insufficient_balance",
+    );
+  });
+
+  it("falls back on the message for rate limits and network errors", () => {
+    expect(
+      classifyPerpTradingError(PriceSourceName.BYBIT, "403", "Too many visits"),
+    ).toBe("rate_limited");
+    expect(
+      classifyPerpTradingError(
+        PriceSourceName.BYBIT,
+        undefined,
+        "socket hang up",
+      ),
+    ).toBe("network_error");
+    expect(classifyPerpTradingError(PriceSourceName.BITGET, "40000")).toBe(
+      "venue_error",
+    );
+  });
+});
+
+describe("toPerpTradingFailure", () => {
+  it("reads the venue code from the thrown body", () => {
+    expect(
+      toPerpTradingFailure(PriceSourceName.BITGET, "Failed to close position", {
+        body: { code: "22002", msg: "No position to close" },
+      }),
+    ).toEqual({
+      success: false,
+      code: "no_position",
+      error: "Failed to close position",
+      details: "No position to close",
+      venueCode: "22002",
+    });
+  });
+
+  it("treats Node error codes as network errors", () => {
+    const error = Object.assign(new Error("read ECONNRESET"), {
+      code: "ECONNRESET",
+    });
+
+    const failure = toPerpTradingFailure(
+      PriceSourceName.BINANCE,
+      "Failed to get positions",
+      error,
+    );
+
+    expect(failure.code).toBe("network_error");
+    expect(failure.venueCode).toBeUndefined();
+  });
+});
+
+describe("client order ids", () => {
+  it("generates ids every venue accepts", () => {
+    const id = createClientOrderId("close");
+
+    expect(id).toMatch(/^close-[a-z0-9]+-[a-z0-9]+$/);
+    expect(
+      validatePerpOrderParams({ symbol: "BTCUSDT", clientOrderId: id }, "x"),
+    ).toBeNull();
+  });
+
+  it("rejects ids longer than 36 characters", () => {
+    expect(
+      validatePerpOrderParams(
+        { symbol: "BTCUSDT", clientOrderId: "x".repeat(37) },
+        "Failed to open position",
+      )?.code,
+    ).toBe("invalid_params");
+  });
+});
+
+describe("order types", () => {
+  it("defaults to market orders and GTC limit orders", () => {
+    expect(resolvePerpOrderPricing({})).toEqual({
+      orderType: "market",
+      price: null,
+      timeInForce: null,
+    });
+    expect(
+      resolvePerpOrderPricing({ orderType: "limit", price: "100" }),
+    ).toEqual({ orderType: "limit", price: "100", timeInForce: "gtc" });
+  });
+
+  it("rejects limit pricing on market orders", () => {
+    expect(
+      validatePerpOrderParams(
+        { symbol: "BTCUSDT", timeInForce: "post_only" },
+        "Failed to open position",
+      )?.details,
+    ).toBe("price and timeInForce only apply to limit orders");
+  });
+
+  it("requires an order id or client order id to cancel or amend", () => {
+    expect(
+      validatePerpOrderRef({ symbol: "BTCUSDT" }, "Failed to cancel order")
+        ?.code,
+    ).toBe("invalid_params");
+    expect(
+      validatePerpOrderRef(
+        { symbol: "BTCUSDT", clientOrderId: "maker-1", price: "100" },
+        "Failed to amend order",
+      ),
+    ).toBeNull();
+  });
+});
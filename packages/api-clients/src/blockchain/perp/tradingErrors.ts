@@ -0,0 +1,305 @@
+/**
+ * Perp Trading Errors - Venue error codes mapped to one set of failure codes
+ */
+
+import { PriceSourceName } from "../coingecko/types";
+import {
+  PerpAmendOrderParams,
+  PerpOrderOptions,
+  PerpOrderRequest,
+  PerpTradingErrorCode,
+  PerpTradingFailure,
+  PerpVenue,
+} from "./types";
+
+const VENUE_ERROR_CODES: Record<
+  PerpVenue,
+  Partial<Record<PerpTradingErrorCode, string[]>>
+> = {
+  [PriceSourceName.BINANCE]: {
+    invalid_params: ["-1013", "-1100", "-1102", "-1106", "-1111", "-4003"],
+    invalid_credentials: ["-1022", "-2014", "-2015"],
+    insufficient_balance: ["-2018", "-2019"],
+    invalid_size: ["-4164"],
+    rate_limited: ["-1003", "-1015"],
+    no_position: ["-2022"],
+    order_not_found: ["-2011", "-2013"],
+  },
+  [PriceSourceName.BYBIT]: {
+    invalid_params: ["10001", "110003"],
+    invalid_credentials: ["10003", "10004", "10005", "33004"],
+    insufficient_balance: ["110004", "110007", "110012"],
+    rate_limited: ["10006", "10018"],
+    no_position: ["110017"],
+    order_not_found: ["110001"],
+  },
+  [PriceSourceName.BITGET]: {
+    invalid_params: ["40017", "40034"],
+    invalid_credentials: ["40006", "40009", "40012", "40014", "40037"],
+    insufficient_balance: ["40762", "43012"],
+    invalid_size: ["45110"],
+    rate_limited: ["429"],
+    no_position: ["22002"],
+    order_not_found: ["40768", "43001"],
+  },
+};
+
+const ERROR_CODE_BY_VENUE_CODE = Object.fromEntries(
+  Object.entries(VENUE_ERROR_CODES).map(([venue, codes]) => [
+    venue,
+    new Map(
+      Object.entries(codes).flatMap(([code, venueCodes]) =>
+        venueCodes.map((venueCode) => [
+          venueCode,
+          code as PerpTradingErrorCode,
+        ]),
+      ),
+    ),
+  ]),
+) as Record<PerpVenue, Map<string, PerpTradingErrorCode>>;
+
+// Client order ids must fit the shortest venue limit (36 chars on Binance and Bybit)
+const CLIENT_ORDER_ID_PATTERN = /^[A-Za-z0-9_-]{1,36}$/;
+
+/**
+ * Map a venue error code to a failure code
+ */
+export function classifyPerpTradingError(
+  venue: PerpVenue,
+  venueCode: string | undefined,
+  message = "",
+): PerpTradingErrorCode {
+  const mapped = venueCode
+    ? ERROR_CODE_BY_VENUE_CODE[venue].get(venueCode)
+    : undefined;
+  if (mapped) return mapped;
+
+  if (
+    venueCode === "429" ||
+    /rate limit|too many (requests|visits)/i.test(message)
+  ) {
+    return "rate_limited";
+  }
+  if (
+    !venueCode &&
+    /ECONNRESET|ETIMEDOUT|ENOTFOUND|ECONNREFUSED|socket hang up|timeout/i.test(
+      message,
+    )
+  ) {
+    return "network_error";
+  }
+  return "venue_error";
+}
+
+/**
+ * Build a failure from a venue response code, e.g. a non-zero Bybit retCode
+ */
+export function perpTradingFailure(
+  venue: PerpVenue,
+  error: string,
+  venueCode: string | number | undefined,
+  details?: string,
+): PerpTradingFailure {
+  const code =
+    venueCode === undefined || venueCode === "" ? undefined : String(venueCode);
+  return {
+    success: false,
+    code: classifyPerpTradingError(venue, code, details),
+    error,
+    ...(details && { details }),
+    ...(code && { venueCode: code }),
+  };
+}
+
+/**
+ * Build a failure from a thrown SDK error
+ *
+ * The venue SDKs throw `{ code, message, body }` objects rather than Errors
+ * for HTTP failures, with the venue code in either place.
+ */
+export function toPerpTradingFailure(
+  venue: PerpVenue,
+  error: string,
+  thrown: unknown,
+): PerpTradingFailure {
+  const raw = (thrown ?? {}) as {
+    code?: string | number;
+    message?: string;
+    msg?: string;
+    body?: {
+      code?: string | number;
+      msg?: string;
+      retCode?: number;
+      retMsg?: string;
+    };
+  };
+  const venueCode = raw.body?.code ?? raw.body?.retCode ?? raw.code;
+  const details =
+    raw.body?.msg ??
+    raw.body?.retMsg ??
+    raw.message ??
+    raw.msg ??
+    (typeof thrown === "string" ? thrown : String(thrown));
+
+  // Node network errors carry string codes such as ECONNRESET
+  if (typeof venueCode === "string" && /^E[A-Z]+$/.test(venueCode)) {
+    return perpTradingFailure(
+      venue,
+      error,
+      undefined,
+      `${venueCode}: ${details}`,
+    );
+  }
+
+  return perpTradingFailure(venue, error, venueCode, details);
+}
+
+/**
+ * Build a failure detected before reaching the venue
+ */
+export function createPerpTradingFailure(
+  code: PerpTradingErrorCode,
+  error: string,
+  details?: string,
+): PerpTradingFailure {
+  return { success: false, code, error, ...(details && { details }) };
+}
+
+export function noPositionFailure(symbol: string): PerpTradingFailure {
+  return createPerpTradingFailure(
+    "no_position",
+    `No open position found for ${symbol}`,
+  );
+}
+
+/**
+ * Generate a client order id accepted by every venue
+ */
+export function createClientOrderId(action: string): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${action}-${Date.now().toString(36)}-${random}`;
+}
+
+/**
+ * Fill in order defaults: market unless a type is given, GTC for limit orders
+ */
+export function resolvePerpOrderPricing(
+  options: PerpOrderOptions,
+): Pick<PerpOrderRequest, "orderType" | "price" | "timeInForce"> {
+  if (options.orderType === "limit") {
+    return {
+      orderType: "limit",
+      price: options.price ?? null,
+      timeInForce: options.timeInForce ?? "gtc",
+    };
+  }
+  return { orderType: "market", price: null, timeInForce: null };
+}
+
+/**
+ * Check order parameters shared by every venue, null when they are valid
+ */
+export function validatePerpOrderParams(
+  params: PerpOrderOptions & {
+    symbol: string;
+    quantity?: string;
+    notional?: number;
+    leverage?: number;
+  },
+  error: string,
+): PerpTradingFailure | null {
+  const { symbol, quantity, clientOrderId, orderType, price, timeInForce } =
+    params;
+  if (!symbol) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      "symbol is required",
+    );
+  }
+  if (quantity !== undefined && !(Number(quantity) > 0)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid quantity: ${quantity}`,
+    );
+  }
+  if (params.notional !== undefined && !(params.notional > 0)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid notional: ${params.notional}`,
+    );
+  }
+  if (
+    clientOrderId !== undefined &&
+    !CLIENT_ORDER_ID_PATTERN.test(clientOrderId)
+  ) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid client order id: ${clientOrderId}`,
+    );
+  }
+  if (orderType === "limit" && !(Number(price) > 0)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid limit price: ${price}`,
+    );
+  }
+  if (orderType !== "limit" && (price !== undefined || timeInForce)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      "price and timeInForce only apply to limit orders",
+    );
+  }
+  if (params.leverage !== undefined && !(params.leverage > 0)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid leverage: ${params.leverage}`,
+    );
+  }
+  return null;
+}
+
+/**
+ * Check a cancel or amend target, null when it is valid
+ */
+export function validatePerpOrderRef(
+  params: PerpAmendOrderParams,
+  error: string,
+): PerpTradingFailure | null {
+  const { symbol, orderId, clientOrderId, price, quantity } = params;
+  if (!symbol) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      "symbol is required",
+    );
+  }
+  if (!orderId && !clientOrderId) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      "orderId or clientOrderId is required",
+    );
+  }
+  if (price !== undefined && !(Number(price) > 0)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid price: ${price}`,
+    );
+  }
+  if (quantity !== undefined && !(Number(quantity) > 0)) {
+    return createPerpTradingFailure(
+      "invalid_params",
+      error,
+      `Invalid quantity: ${quantity}`,
+    );
+  }
+  return null;
+}
@@ -0,0 +1,429 @@
+/**
+ * Perp Types
+ *
+ * Venue-agnostic type definitions shared by the Binance, Bybit and Bitget
+ * perpetual clients
+ */
+
+import { PriceSourceName } from "../coingecko/types";
+import { PoolConfigInput } from "../onchain/pools/config";
+import { BlockchainPlatform } from "../types";
+
+/**
+ * Perpetual futures venues, using the same identifiers as the price sources
+ */
+export type PerpVenue =
+  PriceSourceName.BINANCE | PriceSourceName.BYBIT | PriceSourceName.BITGET;
+
+/**
+ * Funding rate snapshot normalized across venues.
+ * Rates are per funding interval, as a fraction (0.0001 = 0.01%).
+ */
+export interface PerpFundingRate {
+  venue: PerpVenue;
+  symbol: string; // Venue symbol, e.g. "BTCUSDT"
+  fundingRate: number | null; // Last settled rate, null if the history is empty
+  predictedFundingRate: number; // Estimated rate for the upcoming settlement
+  fundingIntervalHours: number;
+  nextFundingTime: number; // UNIX timestamp in milliseconds
+  markPrice?: number;
+  indexPrice?: number;
+  timestamp: number;
+}
+
+/**
+ * A venue's USDT perp contract for a token.
+ * Contract price = token price * multiplier, e.g. 1000PEPEUSDT quotes 1000 PEPE.
+ */
+export interface PerpContractListing {
+  venue: PerpVenue;
+  symbol: string; // Venue symbol, e.g. "1000PEPEUSDT"
+  baseAsset: string; // Listed base asset without the multiplier, e.g. "PEPE"
+  multiplier: number;
+}
+
+/**
+ * Token identity used to resolve perp listings
+ */
+export interface PerpSymbolToken {
+  symbol: string;
+  address?: string;
+  platform?: string;
+}
+
+/**
+ * Per-venue listing override, null marks the token as not listed on that venue
+ */
+export type PerpSymbolOverrides = Partial<
+  Record<PerpVenue, { symbol: string; multiplier?: number } | null>
+>;
+
+export interface FundingRateHistoryPoint {
+  venue: PerpVenue;
+  symbol: string;
+  fundingRate: number;
+  fundingTime: number; // Settlement time, UNIX timestamp in milliseconds
+}
+
+export interface FundingRateHistoryOptions {
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+}
+
+/**
+ * Venues with an order book representation.
+ * OKX DEX books are built from quotes rather than fetched.
+ */
+export type OrderBookVenue = PerpVenue | PriceSourceName.OKX;
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number; // Base asset quantity
+}
+
+/**
+ * Order book normalized across venues with numeric levels
+ */
+export interface VenueOrderBook {
+  venue: OrderBookVenue;
+  symbol: string; // Venue symbol, e.g. "BTCUSDT"
+  bids: OrderBookLevel[]; // Best bid first
+  asks: OrderBookLevel[]; // Best ask first
+  timestamp: number; // UNIX timestamp in milliseconds
+  updateId?: number; // Venue sequence number, when available
+}
+
+export type OrderBookSide = "buy" | "sell";
+
+export interface DepthAtPercent {
+  percent: number;
+  midPrice: number;
+  bidQuantity: number; // Bid quantity within percent below mid
+  bidNotional: number;
+  askQuantity: number; // Ask quantity within percent above mid
+  askNotional: number;
+}
+
+/**
+ * Result of walking the book to fill an order
+ */
+export interface VwapFill {
+  side: OrderBookSide;
+  averagePrice: number; // Volume weighted average fill price
+  filledQuantity: number;
+  filledNotional: number;
+  worstPrice: number; // Last level touched
+  slippagePercent: number; // Average price vs best price, always >= 0
+  levelsConsumed: number;
+  fullyFilled: boolean;
+}
+
+export interface VenueOrderBookSubscription {
+  close: () => void;
+}
+
+/**
+ * Where the basis monitor reads the spot leg of a cash-and-carry trade
+ */
+export type BasisSpotSource =
+  | {
+      type: "okx_dex";
+      address: string;
+      platform?: BlockchainPlatform | string; // Defaults to BSC
+    }
+  | {
+      type: "v3_pool";
+      poolAddress: `0x${string}`;
+      config?: PoolConfigInput;
+      baseIsToken0: boolean; // Whether the token is token0 of the pool
+      token0Decimals: number;
+      token1Decimals: number;
+      quotePriceUsd?: number; // USD price of the paired token, default 1 (stablecoin)
+    };
+
+export interface BasisSpotPrice {
+  source: BasisSpotSource["type"];
+  price: number; // USD price of one token
+  timestamp: number; // UNIX timestamp in milliseconds
+}
+
+/**
+ * Perp vs spot basis on one venue.
+ * Percentages are in percent (0.5 = 0.5%), prices are per token after
+ * removing the contract multiplier.
+ */
+export interface PerpBasis {
+  venue: PerpVenue;
+  symbol: string; // Venue symbol, e.g. "1000PEPEUSDT"
+  baseAsset: string;
+  spotPrice: number;
+  spotSource: BasisSpotSource["type"];
+  markPrice: number;
+  indexPrice: number | null;
+  basisPercent: number; // (mark - spot) / spot
+  indexBasisPercent: number | null; // (index - spot) / spot, the venue index vs our DEX
+  fundingIntervalHours: number;
+  annualizedBasisPercent: number; // Basis assumed to converge every funding interval
+  predictedFundingRate: number; // Per funding interval, as a fraction
+  annualizedFundingPercent: number;
+  nextFundingTime: number;
+  timestamp: number;
+}
+
+export interface PerpBasisSnapshot {
+  baseAsset: string;
+  spot: BasisSpotPrice;
+  venues: PerpBasis[]; // Venues that list the token and returned a mark price
+  timestamp: number;
+}
+
+export interface BasisMonitorConfig {
+  token: PerpSymbolToken;
+  spot: BasisSpotSource;
+  venues?: PerpVenue[]; // Defaults to every perp venue
+  pollIntervalMs?: number; // Default 30s
+  historySize?: number; // Max snapshots kept in memory, default 2880 (1 day at 30s)
+  onError?: (error: Error) => void;
+}
+
+export interface BasisHistoryFilter {
+  venue?: PerpVenue;
+  since?: number; // Only points with timestamp >= since
+}
+
+export type BasisSnapshotCallback = (snapshot: PerpBasisSnapshot) => void;
+
+export type PerpOrderSide = "buy" | "sell";
+
+export type PerpPositionSide = "long" | "short";
+
+export type PerpOrderType = "market" | "limit";
+
+/**
+ * Limit order lifetime. "post_only" orders are cancelled by the venue instead
+ * of taking liquidity, so they always fill as maker.
+ */
+export type PerpTimeInForce = "gtc" | "ioc" | "fok" | "post_only";
+
+export type PerpMarginMode = "isolated" | "cross";
+
+/**
+ * Trading failure reasons normalized across venue error codes
+ */
+export type PerpTradingErrorCode =
+  | "invalid_params"
+  | "invalid_credentials"
+  | "insufficient_balance"
+  | "invalid_size"
+  | "rate_limited"
+  | "no_position"
+  | "order_not_found"
+  | "network_error"
+  | "venue_error";
+
+export interface PerpTradingFailure {
+  success: false;
+  code: PerpTradingErrorCode;
+  error: string; // What failed, e.g. "Failed to open position"
+  details?: string; // Venue message
+  venueCode?: string; // Raw venue error code, e.g. "110007" or "-2019"
+}
+
+export type PerpTradingResult<T> =
+  { success: true; data: T } | PerpTradingFailure;
+
+/**
+ * Order accepted by a venue
+ */
+export interface PerpOrder {
+  venue: PerpVenue;
+  symbol: string; // Venue symbol, e.g. "BTCUSDT"
+  orderId: string; // Venue-assigned id
+  clientOrderId: string; // Our id, sent with the order
+  side: PerpOrderSide;
+  orderType: PerpOrderType;
+  price: string | null; // Limit price, null for market orders
+  timeInForce: PerpTimeInForce | null; // Null for market orders
+  quantity: string; // Contract quantity as submitted
+  reduceOnly: boolean;
+  timestamp: number;
+}
+
+/**
+ * Order as sent to a venue, before it assigns an id
+ */
+export type PerpOrderRequest = Omit<
+  PerpOrder,
+  "venue" | "orderId" | "timestamp"
+>;
+
+/**
+ * Order resting on a venue book
+ */
+export interface PerpOpenOrder extends PerpOrder {
+  filledQuantity: string;
+}
+
+/**
+ * Venue acknowledgement of a cancel or amend
+ */
+export interface PerpOrderAck {
+  venue: PerpVenue;
+  symbol: string;
+  orderId: string;
+  clientOrderId: string; // Changes on Bitget, which needs a new id per amend
+  timestamp: number;
+}
+
+export interface PerpPosition {
+  venue: PerpVenue;
+  symbol: string;
+  side: PerpPositionSide;
+  quantity: number; // Contract quantity, always positive
+  entryPrice: number | null;
+  markPrice: number | null;
+  liquidationPrice: number | null;
+  unrealizedPnl: number;
+  leverage: number | null;
+}
+
+export interface PerpWalletBalance {
+  venue: PerpVenue;
+  asset: string; // Margin currency, "USDT" on every venue
+  equity: number;
+  available: number;
+  unrealizedPnl: number;
+  timestamp: number;
+}
+
+/**
+ * Order pricing shared by opening and closing orders
+ */
+export interface PerpOrderOptions {
+  orderType?: PerpOrderType; // Defaults to "market"
+  price?: string; // Required for limit orders
+  timeInForce?: PerpTimeInForce; // Limit orders only, defaults to "gtc"
+  clientOrderId?: string; // Generated when omitted
+}
+
+export interface PerpOpenPositionParams extends PerpOrderOptions {
+  symbol: string;
+  side: PerpOrderSide;
+  quantity?: string; // Contract quantity, rounded down to the lot size
+  notional?: number; // USDT value instead of a quantity, sized at the order or mark price
+  leverage?: number; // Defaults to 1, a failed change rejects the order only when given
+  marginMode?: PerpMarginMode; // Venue setting is kept when omitted, Bybit unified accounts reject it
+}
+
+export interface PerpClosePositionParams extends PerpOrderOptions {
+  symbol: string;
+  side?: PerpPositionSide; // Only close this side, defaults to the open one
+  quantity?: string; // Partial close, defaults to the whole position
+}
+
+/**
+ * Order size and price rules for one contract
+ */
+export interface PerpContractSpec {
+  venue: PerpVenue;
+  symbol: string;
+  quantityStep: string; // Lot size, quantities are a multiple of it
+  minQuantity: string;
+  maxQuantity: string | null; // Per order, null when the venue does not publish one
+  tickSize: string;
+  minNotional: number | null; // Minimum order value in USDT
+}
+
+/**
+ * Identifies an order by venue id or by our client order id
+ */
+export interface PerpOrderRef {
+  symbol: string;
+  orderId?: string;
+  clientOrderId?: string;
+}
+
+export interface PerpAmendOrderParams extends PerpOrderRef {
+  price?: string;
+  quantity?: string;
+}
+
+/**
+ * Normalized perp trading surface implemented by every venue.
+ * Venues are used in one-way position mode, one position per symbol.
+ */
+export interface PerpTradingVenue {
+  venue: PerpVenue;
+  openPosition: (
+    params: PerpOpenPositionParams,
+  ) => Promise<PerpTradingResult<PerpOrder>>;
+  closePosition: (
+    params: PerpClosePositionParams,
+  ) => Promise<PerpTradingResult<PerpOrder>>;
+  cancelOrder: (
+    params: PerpOrderRef,
+  ) => Promise<PerpTradingResult<PerpOrderAck>>;
+  amendOrder: (
+    params: PerpAmendOrderParams,
+  ) => Promise<PerpTradingResult<PerpOrderAck>>;
+  getOpenOrders: (
+    symbol?: string,
+  ) => Promise<PerpTradingResult<PerpOpenOrder[]>>;
+  getPositions: (symbol?: string) => Promise<PerpTradingResult<PerpPosition[]>>;
+  getWalletBalance: () => Promise<PerpTradingResult<PerpWalletBalance>>;
+}
+
+/**
+ * Top of book the paper trading venue fills against
+ */
+export interface PaperTicker {
+  symbol: string; // Venue symbol, e.g. "BTCUSDT"
+  bid: number;
+  ask: number;
+  timestamp: number;
+}
+
+/**
+ * Latest ticker of a symbol at a point in time, null when none is known yet
+ */
+export type PaperTickerSource = (
+  symbol: string,
+  timestamp: number,
+) => PaperTicker | null | Promise<PaperTicker | null>;
+
+export interface PaperTradingConfig {
+  tickers: PaperTickerSource;
+  venue?: PerpVenue; // Venue the simulator reports as, defaults to Bybit
+  initialBalance?: number; // USDT, defaults to 10,000
+  takerFeeRate?: number; // Fraction of notional, defaults to 0.0005
+  makerFeeRate?: number; // Fraction of notional, defaults to 0.0002
+  latencyMs?: number; // Delay between sending an order and the fill, defaults to 0
+  contractSpecs?: Record<string, PerpContractSpec>; // Sizing rules per symbol, none enforced when omitted
+  now?: () => number; // Clock, defaults to Date.now
+  sleep?: (ms: number) => Promise<void>; // Waits out the latency, replace to advance a simulated clock
+}
+
+/**
+ * Fill recorded by the paper trading venue
+ */
+export interface PaperFill {
+  venue: PerpVenue;
+  symbol: string;
+  orderId: string;
+  clientOrderId: string;
+  side: PerpOrderSide;
+  quantity: string;
+  price: number;
+  fee: number; // USDT
+  liquidity: "maker" | "taker";
+  realizedPnl: number; // USDT, before the fee
+  timestamp: number;
+}
+
+/**
+ * Simulated venue, with its fills exposed for strategy evaluation
+ */
+export interface PaperTradingVenue extends PerpTradingVenue {
+  getFills: (symbol?: string) => PaperFill[];
+}
@@ -66,12 +66,20 @@ interface SwapQuoteToken {
   tokenUnitPrice: string;
 }
 
+// One hop of an OKX split route, possibly spread over several DEXs
+export interface DexSubRouter {
+  dexProtocol: { dexName: string; percent: string }[];
+  fromToken: SwapQuoteToken;
+  toToken: SwapQuoteToken;
+}
+
 export interface DexRouter {
   routerAddress: string;
   routerName: string;
   fee: string;
   gasEstimate: string;
   path?: string[];
+  subRouterList?: DexSubRouter[]; // OKX only, one entry per hop
 }
 
 export interface QuoteComparison {
@@ -315,6 +323,7 @@ export const PLATFORM_REGISTRY: Record<BlockchainPlatform, PlatformInfo> = {
   [BlockchainPlatform.SONIC]: {
     id: BlockchainPlatform.SONIC,
     displayName: "Sonic",
+    chainId: 146,
     nativeCurrency: {
       name: "SONIC",
       symbol: "SONIC",
@@ -0,0 +1,24 @@
+/**
+ * Common Error Helpers
+ */
+
+/**
+ * Whether an API client error is an HTTP 429 or a venue rate limit response
+ *
+ * Fetchers that swallow errors into an empty result rethrow these, so the
+ * aggregator reports the source as rate limited and callers can back off
+ * instead of seeing no data.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const { response, status, code } = (error ?? {}) as {
+    response?: { status?: number };
+    status?: number;
+    code?: number | string;
+  };
+  if (response?.status === 429 || status === 429 || String(code) === "429") {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /rate limit|too many (requests|visits)|\b429\b/i.test(message);
+}
@@ -5,6 +5,9 @@
 // Export logger
 export { default as logger } from "./logger";
 
+// Export error helpers
+export { isRateLimitError } from "./errors";
+
 // Export common types
 export type {
   ApiRequestParams,
@@ -14,6 +14,10 @@ export {
   getCurrentTokenPrice,
   getHistoricalTokenPrices,
   comparePriceSources,
+  extractCurrentPrices,
+  extractHistoricalPrices,
+  getPriceSourceStatuses,
+  getConsensusPrice,
   DEFAULT_CONFIG,
 } from "./blockchain/aggregator/priceAggregator";
 
@@ -22,6 +26,30 @@ export type {
   PriceSource,
 } from "./blockchain/aggregator/priceAggregator";
 
+// Export price source provider registry
+export {
+  registerPriceSourceProvider,
+  unregisterPriceSourceProvider,
+  getPriceSourceProvider,
+  getPriceSourceProviders,
+} from "./blockchain/aggregator/priceSources";
+export { PriceSourceError } from "./blockchain/aggregator/priceSourceErrors";
+
+// Export price history resampling
+export {
+  parseResampleInterval,
+  getDefaultResampleInterval,
+  alignPriceHistories,
+  calculateSpreadSeries,
+  ResampleIntervalError,
+} from "./blockchain/aggregator/resample";
+
+// Export spread statistics
+export {
+  calculateSpreadStats,
+  calculatePairwiseSpreadStats,
+} from "./blockchain/aggregator/spreadStats";
+
 // Re-export CoinGecko types (using aliases to avoid conflicts)
 export type {
   MarketChartDataPoint as CoinGeckoMarketChartDataPoint,
@@ -16,6 +16,39 @@ export type {
   PriceAggregatorConfig,
 } from "./blockchain/aggregator/priceAggregator";
 
+// Re-export types from blockchain/aggregator/priceSources
+export type {
+  PriceSourceProvider,
+  PriceSourceToken,
+  PriceSourceFetchOptions,
+  PriceSourceData,
+} from "./blockchain/aggregator/priceSources";
+
+// Re-export consensus price types from blockchain/aggregator/consensus
+export type {
+  ConsensusMethod,
+  ConsensusPriceOptions,
+  ConsensusSourcePrice,
+  ConsensusPrice,
+} from "./blockchain/aggregator/consensus";
+
+// Re-export resampling types from blockchain/aggregator/resample
+export type {
+  ResampleFillPolicy,
+  ResampleOptions,
+  AlignedPriceHistory,
+  SpreadPoint,
+} from "./blockchain/aggregator/resample";
+
+// Re-export spread statistics types from blockchain/aggregator/spreadStats
+export type {
+  SpreadStatsOptions,
+  SpreadStats,
+} from "./blockchain/aggregator/spreadStats";
+
+// Pure helper, lets the dashboard summarise the aligned history it already has
+export { calculatePairwiseSpreadStats } from "./blockchain/aggregator/spreadStats";
+
 // Re-export PriceSourceName enum from blockchain/types
 export { PriceSourceName } from "./blockchain/coingecko/types";
 
@@ -26,6 +59,8 @@ export type {
   TokenPriceData,
   MultiSourcePriceData,
   PriceDataPoint,
+  PriceSourceEntry,
+  PriceSourceStatus,
 } from "./blockchain/coingecko/types";
 
 // Re-export tick-related types from blockchain/onchain/pools/ticks
@@ -37,6 +72,80 @@ export type {
   CurrentTickInfo,
 } from "./blockchain/onchain/pools/ticks";
 
+// Re-export arbitrage types from blockchain/arbitrage
+export type {
+  SpreadVenue,
+  VenueQuote,
+  SpreadSignal,
+  FundingRates,
+  VenueFeeSchedule,
+  ArbitrageLeg,
+  NetArbitrageOpportunity,
+  NetArbitrageResult,
+  ExecutionSide,
+  ExecutionEstimate,
+  QuoteRouterName,
+  QuoteToken,
+  RouterQuote,
+  RouterQuoteComparison,
+  QuoteLadderDirection,
+  QuoteLadderPoint,
+  QuoteLadder,
+} from "./blockchain/arbitrage/types";
+
+// Re-export execution types from blockchain/execution
+export type {
+  ExecutionStatus,
+  LegStatus,
+  ExecutionLeg,
+  DexSwapRequest,
+  DexSwapReceipt,
+  DexSwapExecutor,
+  ExecutionPolicy,
+  ExecutionEvent,
+  DexLegState,
+  PerpLegState,
+  ArbExecution,
+  ArbExecutionParams,
+  ExecutionStore,
+} from "./blockchain/execution/types";
+
+// Re-export perp types from blockchain/perp
+export type {
+  PerpVenue,
+  PerpFundingRate,
+  FundingRateHistoryPoint,
+  BasisSpotSource,
+  BasisSpotPrice,
+  PerpBasis,
+  PerpBasisSnapshot,
+  PerpOrderSide,
+  PerpPositionSide,
+  PerpOrderType,
+  PerpTimeInForce,
+  PerpMarginMode,
+  PerpTradingErrorCode,
+  PerpTradingFailure,
+  PerpTradingResult,
+  PerpOrder,
+  PerpOpenOrder,
+  PerpOrderAck,
+  PerpPosition,
+  PerpWalletBalance,
+  PerpOpenPositionParams,
+  PerpOrderOptions,
+  PerpClosePositionParams,
+  PerpOrderRef,
+  PerpAmendOrderParams,
+  PerpContractSpec,
+  PaperTicker,
+  PaperTickerSource,
+  PaperTradingConfig,
+  PaperFill,
+  PaperTradingVenue,
+  PerpTradingVenue,
+} from "./blockchain/perp/types";
+
 // ===== Unified Token Type =====
 // This is a generic Token type for frontend use
 export interface Token {
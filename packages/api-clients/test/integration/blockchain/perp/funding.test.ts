@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFundingRates,
+  getFundingRateHistories,
+  PERP_VENUES,
+} from "../../../../src/blockchain/perp";
+
+describe("Perp Funding Integration", () => {
+  describe("getFundingRates", () => {
+    it("should fetch normalized funding rates for BTC on every venue", async () => {
+      const rates = await getFundingRates("BTC");
+
+      for (const venue of PERP_VENUES) {
+        const rate = rates[venue];
+        expect(rate).toBeDefined();
+        expect(rate!.venue).toBe(venue);
+        expect(rate!.symbol).toBe("BTCUSDT");
+        expect(Number.isFinite(rate!.predictedFundingRate)).toBe(true);
+        expect(rate!.fundingIntervalHours).toBeGreaterThan(0);
+        expect(rate!.nextFundingTime).toBeGreaterThan(Date.now() - 60_000);
+      }
+    }, 30000);
+  });
+
+  describe("getFundingRateHistories", () => {
+    it("should fetch funding history sorted by time", async () => {
+      const startTime = Date.now() - 3 * 24 * 60 * 60 * 1000;
+      const histories = await getFundingRateHistories("ETH", { startTime });
+
+      for (const venue of PERP_VENUES) {
+        const history = histories[venue];
+        expect(history).toBeDefined();
+        expect(history!.length).toBeGreaterThan(0);
+        for (let i = 1; i < history!.length; i++) {
+          expect(history![i].fundingTime).toBeGreaterThanOrEqual(
+            history![i - 1].fundingTime,
+          );
+        }
+        expect(history![0].fundingTime).toBeGreaterThanOrEqual(startTime);
+      }
+    }, 30000);
+  });
+});